@@ -22,7 +22,7 @@ where node >nul 2>nul
 if %errorlevel% neq 0 (
     echo [ERROR] Node.js is not installed.
     echo.
-    echo Please install Node.js 18 or later from:
+    echo Please install Node.js 22.13 or later from:
     echo https://nodejs.org/
     echo.
     echo After installing Node.js, double-click this file again.
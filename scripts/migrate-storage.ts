@@ -0,0 +1,93 @@
+/**
+ * Storage Migration Script
+ *
+ * Copies all data between the JSON files and a SQLite database:
+ * - --to sqlite: data/*.json -> data/jira.sqlite
+ * - --to json:   data/jira.sqlite -> data/*.json
+ *
+ * Records are copied as they are, including revisions and the changelog,
+ * in a single transaction. The target must be empty unless --force is
+ * given. Afterwards, set STORAGE_BACKEND to the new backend.
+ *
+ * Usage: npm run storage:migrate -- --to sqlite [--data-dir data] [--db data/jira.sqlite] [--force]
+ *
+ * The SQLite backend needs Node.js 22.5 or newer.
+ */
+
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { openStorage, replaceRecords, STORAGE_RESOURCES } from '../src/server/storage.js';
+import type { StorageKind } from '../src/server/storage.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+// ============================================================================
+// ARGUMENTS
+// ============================================================================
+
+interface MigrateOptions {
+  to: StorageKind;
+  dataDir: string;
+  dbPath?: string;
+  force: boolean;
+}
+
+function parseArgs(argv: string[]): MigrateOptions {
+  const value = (flag: string) => {
+    const index = argv.indexOf(flag);
+    return index >= 0 ? argv[index + 1] : undefined;
+  };
+
+  const to = value('--to');
+  if (to !== 'sqlite' && to !== 'json') {
+    console.error('Usage: npm run storage:migrate -- --to sqlite|json [--data-dir <dir>] [--db <file>] [--force]');
+    process.exit(1);
+  }
+
+  return {
+    to,
+    dataDir: path.resolve(value('--data-dir') ?? process.env.DATA_DIR ?? path.join(__dirname, '../data')),
+    dbPath: value('--db') ?? process.env.SQLITE_PATH,
+    force: argv.includes('--force'),
+  };
+}
+
+// ============================================================================
+// MIGRATION
+// ============================================================================
+
+function migrate(options: MigrateOptions): void {
+  const from: StorageKind = options.to === 'sqlite' ? 'json' : 'sqlite';
+  const source = openStorage(options.dataDir, { kind: from, sqlitePath: options.dbPath });
+  const target = openStorage(options.dataDir, { kind: options.to, sqlitePath: options.dbPath });
+
+  try {
+    console.log(`Migrating ${source.location} (${from}) -> ${target.location} (${options.to})\n`);
+
+    target.transaction(() => {
+      const nonEmpty = STORAGE_RESOURCES.filter(resource => target.read(resource).length > 0);
+      if (nonEmpty.length > 0 && !options.force) {
+        throw new Error(`Target already has data (${nonEmpty.join(', ')}). Use --force to overwrite it.`);
+      }
+
+      for (const resource of STORAGE_RESOURCES) {
+        const records = source.read(resource);
+        replaceRecords(target, resource, records);
+        console.log(`  ${resource.padEnd(18)} ${records.length} records`);
+      }
+    });
+
+    console.log(`\nDone. Start the servers with STORAGE_BACKEND=${options.to} to use the new data.`);
+  } finally {
+    source.close();
+    target.close();
+  }
+}
+
+try {
+  migrate(parseArgs(process.argv.slice(2)));
+} catch (error) {
+  console.error(`Migration failed: ${(error as Error).message}`);
+  process.exit(1);
+}
@@ -0,0 +1,84 @@
+/**
+ * Data Migration Script
+ *
+ * Upgrades the data of every workspace (or just one) to the current
+ * schema version, the same way the servers do on start. Each data
+ * directory records its version in meta.json; see src/utils/migrations.ts
+ * for the migrations.
+ *
+ * Usage: npm run migrate -- [--dry-run] [--workspace <id or name>] [--data-dir data]
+ *
+ * With --dry-run, prints what would change without writing anything.
+ */
+
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { listWorkspaces, openWorkspaceStorage, requireWorkspace } from '../src/server/workspaces.js';
+import { migrateDataDirectory, formatMigrationResult } from '../src/server/dataMigrations.js';
+import { CURRENT_SCHEMA_VERSION } from '../src/utils/migrations.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+// ============================================================================
+// ARGUMENTS
+// ============================================================================
+
+interface MigrateOptions {
+  dataDir: string;
+  workspace?: string;
+  dryRun: boolean;
+}
+
+function parseArgs(argv: string[]): MigrateOptions {
+  const value = (flag: string) => {
+    const index = argv.indexOf(flag);
+    return index >= 0 ? argv[index + 1] : undefined;
+  };
+
+  return {
+    dataDir: path.resolve(value('--data-dir') ?? process.env.DATA_DIR ?? path.join(__dirname, '../data')),
+    workspace: value('--workspace'),
+    dryRun: argv.includes('--dry-run'),
+  };
+}
+
+// ============================================================================
+// MIGRATION
+// ============================================================================
+
+function migrate(options: MigrateOptions): void {
+  const workspaces = options.workspace
+    ? [requireWorkspace(options.dataDir, options.workspace)]
+    : listWorkspaces(options.dataDir).workspaces;
+
+  console.log(`${options.dryRun ? 'Dry run: checking' : 'Migrating'} data to schema version ${CURRENT_SCHEMA_VERSION}\n`);
+
+  for (const workspace of workspaces) {
+    const storage = openWorkspaceStorage(workspace);
+    try {
+      const result = migrateDataDirectory(storage, { dryRun: options.dryRun });
+      console.log(`${workspace.name} (${workspace.dataDir})`);
+      if (result.applied.length === 0) {
+        console.log(`  Already at schema version ${result.toVersion}\n`);
+        continue;
+      }
+      console.log(`  Schema version ${result.fromVersion} -> ${result.toVersion}${options.dryRun ? ' (would change)' : ''}`);
+      for (const line of formatMigrationResult(result)) {
+        console.log(`  ${line}`);
+      }
+      console.log('');
+    } finally {
+      storage.close();
+    }
+  }
+
+  console.log(options.dryRun ? 'Nothing was written. Run without --dry-run to migrate.' : 'Done.');
+}
+
+try {
+  migrate(parseArgs(process.argv.slice(2)));
+} catch (error) {
+  console.error(`Migration failed: ${(error as Error).message}`);
+  process.exit(1);
+}
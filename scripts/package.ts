@@ -4,7 +4,8 @@
  * This script creates a jira-structure.zip file containing:
  * - dist/ (built React app)
  * - dist-server/ (built server)
- * - data/ (sample data)
+ * - data/ (the default workspace, starting with the sample data)
+ * - sample-data/ (pristine sample data for new workspaces)
  * - START-HERE scripts
  * - README.md
  * - package.json and package-lock.json
@@ -31,6 +32,7 @@ const INCLUDE_FILES = [
   'dist',
   'dist-server',
   'data',
+  'sample-data',
   'START-HERE.command',
   'START-HERE.bat',
   'README.md',
@@ -123,7 +125,7 @@ async function createPackage(): Promise<void> {
     console.log('   3. They double-click START-HERE.command (Mac) or START-HERE.bat (Windows)');
     console.log('   4. The app opens in their browser automatically!');
     console.log('');
-    log('Note: Recipients need Node.js 18+ installed.', 'yellow');
+    log('Note: Recipients need Node.js 22.13+ installed.', 'yellow');
     console.log('');
   });
 
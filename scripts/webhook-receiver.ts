@@ -0,0 +1,100 @@
+/**
+ * Webhook Receiver Script
+ *
+ * A local endpoint for trying out webhooks: prints every payload it
+ * receives (event, issue or sprint, changed fields) and answers with a
+ * chosen status, so retries can be rehearsed by answering 500 first.
+ *
+ * Register http://localhost:4000/webhook (any path works) in the web app's
+ * Webhooks dialog or with POST /api/webhooks, then make some changes.
+ *
+ * Usage: npm run webhooks:receive -- [--port 4000] [--status 200] [--fail-first 2] [--verbose]
+ */
+
+import * as http from 'http';
+
+// ============================================================================
+// ARGUMENTS
+// ============================================================================
+
+interface ReceiverOptions {
+  port: number;
+  status: number;
+  failFirst: number;
+  verbose: boolean;
+}
+
+function parseArgs(argv: string[]): ReceiverOptions {
+  const value = (flag: string) => {
+    const index = argv.indexOf(flag);
+    return index >= 0 ? argv[index + 1] : undefined;
+  };
+
+  return {
+    port: Number(value('--port') ?? 4000),
+    status: Number(value('--status') ?? 200),
+    failFirst: Number(value('--fail-first') ?? 0),
+    verbose: argv.includes('--verbose'),
+  };
+}
+
+// ============================================================================
+// RECEIVER
+// ============================================================================
+
+/**
+ * One line describing a payload
+ */
+function summarize(payload: Record<string, unknown>): string {
+  const issue = payload.issue as { key?: string; fields?: { summary?: string } } | undefined;
+  const sprint = payload.sprint as { name?: string; state?: string } | undefined;
+  const changelog = payload.changelog as { items?: { field: string; fromString: string | null; toString: string | null }[] } | undefined;
+
+  const parts = [String(payload.webhookEvent)];
+  if (issue?.key) parts.push(`${issue.key} "${issue.fields?.summary ?? ''}"`);
+  if (sprint) parts.push(`sprint "${sprint.name}" (${sprint.state})`);
+  for (const item of changelog?.items ?? []) {
+    parts.push(`\n    ${item.field}: ${item.fromString ?? '∅'} -> ${item.toString ?? '∅'}`);
+  }
+  return parts.join(' ');
+}
+
+function receive(options: ReceiverOptions): void {
+  let received = 0;
+
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => {
+      body += chunk;
+    });
+    req.on('end', () => {
+      received++;
+      const status = received <= options.failFirst ? 500 : options.status;
+      const retry = req.headers['x-atlassian-webhook-retry'] ?? '0';
+      const time = new Date().toLocaleTimeString();
+
+      try {
+        const payload = JSON.parse(body) as Record<string, unknown>;
+        console.log(`[${time}] ${req.method} ${req.url} (retry ${retry}) -> ${status}: ${summarize(payload)}`);
+        if (options.verbose) {
+          console.log(JSON.stringify(payload, null, 2));
+        }
+      } catch {
+        console.log(`[${time}] ${req.method} ${req.url} -> ${status}: (not JSON) ${body.slice(0, 200)}`);
+      }
+
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ received }));
+    });
+  });
+
+  server.listen(options.port, () => {
+    console.log(`Webhook receiver listening at http://localhost:${options.port}/webhook`);
+    if (options.failFirst > 0) {
+      console.log(`Answering 500 to the first ${options.failFirst} requests`);
+    }
+    console.log('Press Ctrl+C to stop.\n');
+  });
+}
+
+receive(parseArgs(process.argv.slice(2)));
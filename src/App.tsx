@@ -1,6 +1,6 @@
 import { useEffect, useState } from 'react'
 import './App.css'
-import { AppShell, ErrorBoundary, ToastContainer, KeyboardShortcutsModal } from './components'
+import { AppShell, ErrorBoundary, ToastContainer, KeyboardShortcutsModal, ConflictDialog } from './components'
 import { initializeStores } from './store'
 
 function App() {
@@ -58,6 +58,7 @@ function App() {
       <AppShell />
       <ToastContainer />
       <KeyboardShortcutsModal />
+      <ConflictDialog />
     </ErrorBoundary>
   )
 }
@@ -0,0 +1,210 @@
+/**
+ * BackupsModal - Modal for browsing and restoring data snapshots
+ *
+ * Features:
+ * - Lists the rolling snapshots kept in data/.backups, newest first
+ * - Take a snapshot on demand
+ * - Restore a snapshot (the current data is snapshotted first, so a
+ *   restore can be undone by restoring that safety snapshot)
+ */
+
+import { memo, useState, useEffect, useCallback } from 'react';
+import { useIssueStore, useProjectStore, useSprintStore, useUserStore } from '../../store';
+import * as api from '../../services/api';
+import { toast } from '../UI/toastStore';
+import type { BackupInfo } from '../../types';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface BackupsModalProps {
+  onClose: () => void;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Summarize a snapshot's record counts (e.g., "42 issues, 3 sprints")
+ */
+function summarizeFiles(files: Record<string, number>): string {
+  return Object.entries(files)
+    .map(([fileName, count]) => `${count} ${fileName.replace(/\.json$/, '')}`)
+    .join(', ');
+}
+
+// ============================================================================
+// COMPONENT
+// ============================================================================
+
+export const BackupsModal = memo(function BackupsModal({ onClose }: BackupsModalProps) {
+  // Store hooks
+  const fetchIssues = useIssueStore(state => state.fetchIssues);
+  const fetchProjects = useProjectStore(state => state.fetchProjects);
+  const fetchSprints = useSprintStore(state => state.fetchSprints);
+  const fetchUsers = useUserStore(state => state.fetchUsers);
+
+  // State
+  const [backups, setBackups] = useState<BackupInfo[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [confirmId, setConfirmId] = useState<string | null>(null);
+
+  // Load the snapshot list
+  const loadBackups = useCallback(async () => {
+    const response = await api.fetchBackups();
+    if (response.success) {
+      setBackups(response.data);
+      setError(null);
+    } else {
+      setError(response.error || 'Failed to load backups');
+    }
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    loadBackups();
+  }, [loadBackups]);
+
+  // Take a snapshot now
+  const handleCreate = useCallback(async () => {
+    setBusy(true);
+    const response = await api.createBackup();
+    if (response.success) {
+      toast.success('Backup created', response.data.id);
+      await loadBackups();
+    } else {
+      toast.error('Backup failed', response.error);
+    }
+    setBusy(false);
+  }, [loadBackups]);
+
+  // Restore a snapshot and reload all stores
+  const handleRestore = useCallback(async (backupId: string) => {
+    setBusy(true);
+    const response = await api.restoreBackup(backupId);
+    if (response.success) {
+      await Promise.all([fetchProjects(), fetchIssues(), fetchSprints(), fetchUsers()]);
+      toast.success(
+        'Backup restored',
+        response.data.safetyBackup
+          ? `Previous data saved as ${response.data.safetyBackup.id}`
+          : undefined
+      );
+      setConfirmId(null);
+      await loadBackups();
+    } else {
+      toast.error('Restore failed', response.error);
+    }
+    setBusy(false);
+  }, [fetchProjects, fetchIssues, fetchSprints, fetchUsers, loadBackups]);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center">
+      {/* Backdrop */}
+      <div className="absolute inset-0 bg-black/50" onClick={onClose} />
+
+      {/* Modal */}
+      <div className="relative bg-white rounded-lg shadow-xl w-full max-w-lg mx-4 overflow-hidden">
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+          <h2 className="text-lg font-semibold text-gray-900">Backups</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 p-1"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="px-6 py-4 space-y-3">
+          <p className="text-sm text-gray-500">
+            Snapshots are taken automatically before changes are saved.
+            Restoring replaces all current data; the current data is backed up first.
+          </p>
+
+          {loading && (
+            <p className="text-sm text-gray-500">Loading backups...</p>
+          )}
+
+          {error && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+              {error}
+            </div>
+          )}
+
+          {!loading && !error && backups.length === 0 && (
+            <p className="text-sm text-gray-500">No backups yet.</p>
+          )}
+
+          {backups.length > 0 && (
+            <ul className="max-h-80 overflow-y-auto divide-y divide-gray-100 border border-gray-200 rounded-lg">
+              {backups.map(backup => (
+                <li key={backup.id} className="px-3 py-2 flex items-center gap-3">
+                  <div className="flex-1 min-w-0">
+                    <div className="text-sm font-medium text-gray-900">
+                      {new Date(backup.createdAt).toLocaleString()}
+                      <span className="ml-2 text-xs font-normal text-gray-500">{backup.reason}</span>
+                    </div>
+                    <div className="text-xs text-gray-500 truncate">{summarizeFiles(backup.files)}</div>
+                  </div>
+                  {confirmId === backup.id ? (
+                    <div className="flex items-center gap-2">
+                      <button
+                        onClick={() => setConfirmId(null)}
+                        disabled={busy}
+                        className="px-2 py-1 text-xs font-medium text-gray-700 hover:bg-gray-100 rounded disabled:opacity-50"
+                      >
+                        Cancel
+                      </button>
+                      <button
+                        onClick={() => handleRestore(backup.id)}
+                        disabled={busy}
+                        className="px-2 py-1 text-xs font-medium text-white bg-red-600 hover:bg-red-700 rounded disabled:opacity-50"
+                      >
+                        Confirm Restore
+                      </button>
+                    </div>
+                  ) : (
+                    <button
+                      onClick={() => setConfirmId(backup.id)}
+                      disabled={busy}
+                      className="px-2 py-1 text-xs font-medium text-blue-600 hover:bg-blue-50 rounded disabled:opacity-50"
+                    >
+                      Restore
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="px-6 py-4 border-t border-gray-200 flex justify-end gap-3">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-100 rounded-md"
+          >
+            Close
+          </button>
+          <button
+            onClick={handleCreate}
+            disabled={busy}
+            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-md disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Back Up Now
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+});
+
+export default BackupsModal;
@@ -8,7 +8,7 @@
  */
 
 import { memo, useState, useCallback, useMemo } from 'react';
-import { useIssueStore, useProjectStore, useSprintStore, useUserStore } from '../../store';
+import { useIssueStore, useProjectStore, useSprintStore, useUserStore, useStructureStore } from '../../store';
 import { exportData, type ExportFormat } from '../../utils/exportData';
 
 // ============================================================================
@@ -31,15 +31,13 @@ export const ExportModal = memo(function ExportModal({ onClose }: ExportModalPro
   const projects = useProjectStore(state => state.projects);
   const sprints = useSprintStore(state => state.sprints);
   const users = useUserStore(state => state.users);
+  const structures = useStructureStore(state => state.structures);
   
   // State
   const [exportType, setExportType] = useState<ExportType>('json-full');
   const [isExporting, setIsExporting] = useState(false);
   const [exportResult, setExportResult] = useState<{ success: boolean; filename?: string; error?: string } | null>(null);
   
-  // Get structures (we don't have a structures store, so we'll pass an empty array)
-  const structures = useMemo(() => [], []);
-  
   // Stats for preview
   const stats = useMemo(() => ({
     issues: issues.length,
@@ -18,6 +18,7 @@ import {
   type ImportFormat,
   type ConflictResolution,
   type ImportResult,
+  type ImportError,
 } from '../../utils/importData';
 import type { AppData } from '../../types';
 
@@ -112,18 +113,31 @@ export const ImportModal = memo(function ImportModal({ onClose }: ImportModalPro
     setStep('importing');
     
     try {
-      const result = await processImport(selectedFile, existingData, {
+      let result = await processImport(selectedFile, existingData, {
         conflictResolution,
       });
       
       if (result.success && result.data) {
-        // Save to API
-        await Promise.all([
-          result.data.issues && api.updateIssues(result.data.issues),
-          result.data.projects && api.updateProjects(result.data.projects),
-          result.data.sprints && api.updateSprints(result.data.sprints),
-          result.data.users && api.updateUsers(result.data.users),
-        ]);
+        // Save to API one file at a time, referenced records first, so the
+        // server's referential checks see the users/projects/sprints issues point to
+        const { users, projects, sprints, issues } = result.data;
+        const saves = [
+          () => users && api.updateUsers(users),
+          () => projects && api.updateProjects(projects),
+          () => sprints && api.updateSprints(sprints),
+          () => issues && api.updateIssues(issues),
+        ];
+        const saveErrors: ImportError[] = [];
+        for (const save of saves) {
+          const response = await save();
+          if (response && !response.success) {
+            saveErrors.push({ message: response.error || 'Failed to save imported data' });
+            break;
+          }
+        }
+        if (saveErrors.length > 0) {
+          result = { ...result, success: false, errors: [...result.errors, ...saveErrors] };
+        }
         
         // Refresh stores
         await Promise.all([
@@ -4,3 +4,4 @@
 
 export { ExportModal } from './ExportModal';
 export { ImportModal } from './ImportModal';
+export { BackupsModal } from './BackupsModal';
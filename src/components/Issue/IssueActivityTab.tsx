@@ -0,0 +1,297 @@
+/**
+ * IssueActivityTab - Change history timeline for an issue
+ *
+ * Features:
+ * - Timeline of changelog entries recorded by the server (who, when, what)
+ * - Field-level diffs: old value struck through, new value highlighted,
+ *   list fields shown as added/removed items
+ * - Filter by field and by source (web app, MCP, REST API)
+ * - Refreshes whenever the issue changes
+ */
+
+import { useState, useEffect, useMemo, memo } from 'react';
+import type { Issue, ChangelogEntry, ChangelogItem, ChangeSource } from '../../types';
+import { useIssueStore, useSprintStore, useUserStore } from '../../store';
+import * as api from '../../services/api';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface IssueActivityTabProps {
+  issue: Issue;
+}
+
+type SourceFilter = ChangeSource | 'all';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const SOURCE_LABELS: Record<ChangeSource, string> = {
+  web: 'Web app',
+  mcp: 'Claude (MCP)',
+  api: 'REST API',
+  system: 'System',
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  title: 'Summary',
+  description: 'Description',
+  type: 'Type',
+  status: 'Status',
+  priority: 'Priority',
+  assignee: 'Assignee',
+  reporter: 'Reporter',
+  labels: 'Labels',
+  storyPoints: 'Story Points',
+  sprint: 'Sprint',
+  version: 'Fix Version',
+  components: 'Components',
+  dueDate: 'Due Date',
+  startDate: 'Start Date',
+  originalEstimate: 'Original Estimate',
+  timeSpent: 'Time Spent',
+  remainingEstimate: 'Remaining Estimate',
+  parentId: 'Parent',
+  childIds: 'Children',
+  blockedBy: 'Blocked By',
+  blocks: 'Blocks',
+  relatedTo: 'Related To',
+};
+
+// Fields whose values are issue IDs, shown as issue keys
+const ISSUE_REFERENCE_FIELDS = new Set(['parentId', 'childIds', 'blockedBy', 'blocks', 'relatedTo']);
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Human-readable field name
+ */
+function fieldLabel(field: string): string {
+  return FIELD_LABELS[field] ?? field;
+}
+
+// ============================================================================
+// FIELD DIFF
+// ============================================================================
+
+interface FieldDiffProps {
+  item: ChangelogItem;
+  formatValue: (field: string, value: unknown) => string;
+}
+
+const FieldDiff = memo(function FieldDiff({ item, formatValue }: FieldDiffProps) {
+  // List fields: show what was added and removed
+  if (Array.isArray(item.from) || Array.isArray(item.to)) {
+    const from = (item.from ?? []) as unknown[];
+    const to = (item.to ?? []) as unknown[];
+    const added = to.filter(v => !from.includes(v));
+    const removed = from.filter(v => !to.includes(v));
+
+    return (
+      <div className="flex flex-wrap items-center gap-1">
+        {added.map(v => (
+          <span key={`+${String(v)}`} className="px-1.5 py-0.5 bg-green-50 text-green-700 text-xs rounded">
+            + {formatValue(item.field, v)}
+          </span>
+        ))}
+        {removed.map(v => (
+          <span key={`-${String(v)}`} className="px-1.5 py-0.5 bg-red-50 text-red-700 text-xs rounded line-through">
+            {formatValue(item.field, v)}
+          </span>
+        ))}
+        {added.length === 0 && removed.length === 0 && (
+          <span className="text-xs text-gray-500">Reordered</span>
+        )}
+      </div>
+    );
+  }
+
+  // Long text: stack old and new
+  if (item.field === 'description') {
+    return (
+      <div className="space-y-1 text-xs">
+        {item.from !== null && item.from !== '' && (
+          <pre className="whitespace-pre-wrap bg-red-50 text-red-700 p-2 rounded line-through font-sans max-h-32 overflow-y-auto">
+            {String(item.from)}
+          </pre>
+        )}
+        <pre className="whitespace-pre-wrap bg-green-50 text-green-700 p-2 rounded font-sans max-h-32 overflow-y-auto">
+          {formatValue(item.field, item.to)}
+        </pre>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-1.5 text-xs">
+      <span className="px-1.5 py-0.5 bg-red-50 text-red-700 rounded line-through">
+        {formatValue(item.field, item.from)}
+      </span>
+      <span className="text-gray-400">→</span>
+      <span className="px-1.5 py-0.5 bg-green-50 text-green-700 rounded">
+        {formatValue(item.field, item.to)}
+      </span>
+    </div>
+  );
+});
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
+
+export const IssueActivityTab = memo(function IssueActivityTab({ issue }: IssueActivityTabProps) {
+  const issues = useIssueStore(state => state.issues);
+  const users = useUserStore(state => state.users);
+  const sprints = useSprintStore(state => state.sprints);
+
+  const [entries, setEntries] = useState<ChangelogEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [fieldFilter, setFieldFilter] = useState<string>('all');
+  const [sourceFilter, setSourceFilter] = useState<SourceFilter>('all');
+
+  // Load the changelog, and reload whenever the issue changes
+  useEffect(() => {
+    let cancelled = false;
+    api.fetchIssueChangelog(issue.id).then(response => {
+      if (cancelled) return;
+      if (response.success) {
+        setEntries(response.data);
+        setError(null);
+      } else {
+        setError(response.error || 'Failed to load activity');
+      }
+      setLoading(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [issue.id, issue.updatedAt]);
+
+  // Resolve IDs to readable names
+  const formatValue = useMemo(() => {
+    const issueKeys = new Map(issues.map(i => [i.id, i.key]));
+    const userNames = new Map(users.map(u => [u.id, u.displayName]));
+    const sprintNames = new Map(sprints.map(s => [s.id, s.name]));
+
+    const format = (field: string, value: unknown): string => {
+      if (value === null || value === undefined || value === '') return 'None';
+      if (Array.isArray(value)) return value.map(v => format(field, v)).join(', ') || 'None';
+      if (ISSUE_REFERENCE_FIELDS.has(field)) return issueKeys.get(String(value)) ?? String(value);
+      if (field === 'assignee' || field === 'reporter') return userNames.get(String(value)) ?? String(value);
+      if (field === 'sprint') return sprintNames.get(String(value)) ?? String(value);
+      if (field === 'dueDate' || field === 'startDate') return new Date(String(value)).toLocaleDateString();
+      return String(value);
+    };
+    return format;
+  }, [issues, users, sprints]);
+
+  // Options for the filters, from what's actually in the history
+  const changedFields = useMemo(
+    () => [...new Set(entries.flatMap(e => e.items.map(item => item.field)))].sort(),
+    [entries]
+  );
+  const sources = useMemo(() => [...new Set(entries.map(e => e.author.source))], [entries]);
+
+  const visibleEntries = useMemo(() => {
+    return entries
+      .filter(e => sourceFilter === 'all' || e.author.source === sourceFilter)
+      .map(e => (fieldFilter === 'all' ? e : { ...e, items: e.items.filter(item => item.field === fieldFilter) }))
+      .filter(e => fieldFilter === 'all' || e.items.length > 0);
+  }, [entries, fieldFilter, sourceFilter]);
+
+  const describeAuthor = (entry: ChangelogEntry): string => {
+    const user = entry.author.userId ? users.find(u => u.id === entry.author.userId)?.displayName : null;
+    const source = SOURCE_LABELS[entry.author.source];
+    return user ? `${user} via ${source}` : source;
+  };
+
+  return (
+    <div className="p-4">
+      {/* Filters */}
+      <div className="flex items-center gap-2 mb-4">
+        <select
+          value={fieldFilter}
+          onChange={e => setFieldFilter(e.target.value)}
+          className="flex-1 px-2 py-1.5 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          <option value="all">All fields</option>
+          {changedFields.map(field => (
+            <option key={field} value={field}>{fieldLabel(field)}</option>
+          ))}
+        </select>
+        <select
+          value={sourceFilter}
+          onChange={e => setSourceFilter(e.target.value as SourceFilter)}
+          className="flex-1 px-2 py-1.5 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          <option value="all">All sources</option>
+          {sources.map(source => (
+            <option key={source} value={source}>{SOURCE_LABELS[source]}</option>
+          ))}
+        </select>
+      </div>
+
+      {loading && <p className="text-sm text-gray-500">Loading activity...</p>}
+
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">{error}</div>
+      )}
+
+      {!loading && !error && visibleEntries.length === 0 && (
+        <p className="text-sm text-gray-400 text-center py-8">
+          {entries.length === 0 ? 'No changes recorded yet' : 'No changes match the filters'}
+        </p>
+      )}
+
+      {/* Timeline */}
+      <ol className="relative border-l border-gray-200 ml-2 space-y-5">
+        {visibleEntries.map(entry => (
+          <li key={entry.id} className="ml-4">
+            <span className="absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full bg-blue-100 border-2 border-blue-500" />
+            <div className="text-sm text-gray-700">
+              <span className="font-medium text-gray-900">{describeAuthor(entry)}</span>{' '}
+              {entry.action === 'created' ? 'created the issue' : entry.action === 'deleted' ? 'deleted the issue' : 'changed'}
+              {entry.author.via && (
+                <span className="ml-1 text-xs font-mono text-gray-400">{entry.author.via}</span>
+              )}
+            </div>
+            <div className="text-xs text-gray-400 mb-2">
+              {new Date(entry.timestamp).toLocaleString()}
+            </div>
+            {entry.items.length > 0 && (
+              <div className="space-y-2">
+                {entry.items.map(item => (
+                  <div key={item.field}>
+                    <div className="text-xs font-medium text-gray-500 mb-0.5">{fieldLabel(item.field)}</div>
+                    <FieldDiff item={item} formatValue={formatValue} />
+                  </div>
+                ))}
+              </div>
+            )}
+          </li>
+        ))}
+      </ol>
+
+      {/* Timestamps */}
+      <div className="mt-8 border-t border-gray-200 pt-4 space-y-3">
+        <div className="flex justify-between text-sm">
+          <span className="text-gray-500">Created</span>
+          <span className="text-gray-700">
+            {new Date(issue.createdAt).toLocaleString()}
+          </span>
+        </div>
+        <div className="flex justify-between text-sm">
+          <span className="text-gray-500">Updated</span>
+          <span className="text-gray-700">
+            {new Date(issue.updatedAt).toLocaleString()}
+          </span>
+        </div>
+      </div>
+    </div>
+  );
+});
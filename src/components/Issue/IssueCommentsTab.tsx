@@ -0,0 +1,365 @@
+/**
+ * IssueCommentsTab - Discussion thread for an issue
+ *
+ * Features:
+ * - Comments oldest first, with markdown rendering
+ * - "Commenting as" picker, since the app has no login
+ * - Edit and delete for the comment's author
+ * - @mentions: typing "@" suggests team members and inserts a Jira-style
+ *   [~accountid:...] mention, shown as the user's name
+ * - Ctrl/Cmd+Enter to post or save
+ */
+
+import { useState, useMemo, useRef, useCallback, memo } from 'react';
+import type { KeyboardEvent } from 'react';
+import type { Issue, Comment, User } from '../../types';
+import { useCommentStore, useUserStore } from '../../store';
+import { Avatar } from './IssueCard';
+import { Markdown } from '../UI/Markdown';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface IssueCommentsTabProps {
+  issue: Issue;
+}
+
+// How many suggestions the mention picker shows
+const MAX_MENTION_SUGGESTIONS = 5;
+
+// ============================================================================
+// MENTION-AWARE TEXT AREA
+// ============================================================================
+
+interface CommentEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  onSubmit: () => void;
+  users: User[];
+  placeholder?: string;
+  autoFocus?: boolean;
+}
+
+/**
+ * Text area that suggests users after "@" and inserts a mention
+ */
+const CommentEditor = memo(function CommentEditor({
+  value,
+  onChange,
+  onSubmit,
+  users,
+  placeholder,
+  autoFocus,
+}: CommentEditorProps) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [mentionQuery, setMentionQuery] = useState<string | null>(null);
+  const [highlighted, setHighlighted] = useState(0);
+
+  const suggestions = useMemo(() => {
+    if (mentionQuery === null) return [];
+    const query = mentionQuery.toLowerCase();
+    return users
+      .filter(u => u.displayName.toLowerCase().includes(query) || u.email.toLowerCase().includes(query))
+      .slice(0, MAX_MENTION_SUGGESTIONS);
+  }, [users, mentionQuery]);
+
+  // Look for an "@query" right before the cursor
+  const updateMentionQuery = (text: string, cursor: number) => {
+    const match = /(?:^|\s)@([\w.-]*)$/.exec(text.slice(0, cursor));
+    setMentionQuery(match ? match[1] : null);
+    setHighlighted(0);
+  };
+
+  const insertMention = (user: User) => {
+    const textarea = textareaRef.current;
+    const cursor = textarea?.selectionStart ?? value.length;
+    const before = value.slice(0, cursor).replace(/@([\w.-]*)$/, '');
+    const mention = `[~accountid:${user.id}] `;
+    onChange(before + mention + value.slice(cursor));
+    setMentionQuery(null);
+
+    // Put the cursor after the inserted mention
+    requestAnimationFrame(() => {
+      const position = before.length + mention.length;
+      textarea?.focus();
+      textarea?.setSelectionRange(position, position);
+    });
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLTextAreaElement>) => {
+    if (suggestions.length > 0) {
+      if (e.key === 'ArrowDown') {
+        e.preventDefault();
+        setHighlighted(i => (i + 1) % suggestions.length);
+        return;
+      }
+      if (e.key === 'ArrowUp') {
+        e.preventDefault();
+        setHighlighted(i => (i - 1 + suggestions.length) % suggestions.length);
+        return;
+      }
+      if (e.key === 'Enter' || e.key === 'Tab') {
+        e.preventDefault();
+        insertMention(suggestions[highlighted]);
+        return;
+      }
+      if (e.key === 'Escape') {
+        e.stopPropagation();
+        setMentionQuery(null);
+        return;
+      }
+    }
+    if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+      e.preventDefault();
+      onSubmit();
+    }
+  };
+
+  return (
+    <div className="relative">
+      <textarea
+        ref={textareaRef}
+        value={value}
+        autoFocus={autoFocus}
+        onChange={e => {
+          onChange(e.target.value);
+          updateMentionQuery(e.target.value, e.target.selectionStart);
+        }}
+        onKeyDown={handleKeyDown}
+        onBlur={() => setMentionQuery(null)}
+        placeholder={placeholder}
+        rows={3}
+        className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-y"
+      />
+      {suggestions.length > 0 && (
+        <ul className="absolute left-0 right-0 z-10 mt-1 bg-white border border-gray-200 rounded-md shadow-lg overflow-hidden">
+          {suggestions.map((user, index) => (
+            <li key={user.id}>
+              <button
+                type="button"
+                // Keep focus in the text area so the cursor position survives
+                onMouseDown={e => {
+                  e.preventDefault();
+                  insertMention(user);
+                }}
+                className={`w-full flex items-center gap-2 px-3 py-1.5 text-sm text-left ${
+                  index === highlighted ? 'bg-blue-50' : 'hover:bg-gray-50'
+                }`}
+              >
+                <Avatar user={user} size="sm" />
+                <span className="text-gray-900">{user.displayName}</span>
+                <span className="text-xs text-gray-400 truncate">{user.email}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+});
+
+// ============================================================================
+// SINGLE COMMENT
+// ============================================================================
+
+interface CommentItemProps {
+  comment: Comment;
+  author: User | undefined;
+  canModify: boolean;
+  users: User[];
+  resolveMention: (accountId: string) => string | undefined;
+}
+
+const CommentItem = memo(function CommentItem({
+  comment,
+  author,
+  canModify,
+  users,
+  resolveMention,
+}: CommentItemProps) {
+  const updateComment = useCommentStore(state => state.updateComment);
+  const deleteComment = useCommentStore(state => state.deleteComment);
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState(comment.body);
+  const [confirmingDelete, setConfirmingDelete] = useState(false);
+
+  const handleSave = async () => {
+    if (!draft.trim()) return;
+    if (draft.trim() !== comment.body) {
+      const saved = await updateComment(comment.id, draft.trim());
+      if (!saved) return;
+    }
+    setEditing(false);
+  };
+
+  const edited = comment.updatedAt !== comment.createdAt;
+
+  return (
+    <li className="flex gap-3">
+      <Avatar user={author} size="lg" className="flex-shrink-0" />
+      <div className="flex-1 min-w-0">
+        <div className="flex items-baseline gap-2 mb-1">
+          <span className="text-sm font-medium text-gray-900">{author?.displayName ?? comment.author}</span>
+          <span className="text-xs text-gray-400" title={edited ? `Edited ${new Date(comment.updatedAt).toLocaleString()}` : undefined}>
+            {new Date(comment.createdAt).toLocaleString()}
+            {edited && ' (edited)'}
+          </span>
+        </div>
+
+        {editing ? (
+          <div className="space-y-2">
+            <CommentEditor value={draft} onChange={setDraft} onSubmit={handleSave} users={users} autoFocus />
+            <div className="flex gap-2">
+              <button
+                onClick={handleSave}
+                disabled={!draft.trim()}
+                className="px-3 py-1 text-xs font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-md transition-colors disabled:opacity-50"
+              >
+                Save
+              </button>
+              <button
+                onClick={() => {
+                  setDraft(comment.body);
+                  setEditing(false);
+                }}
+                className="px-3 py-1 text-xs font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-md transition-colors"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        ) : (
+          <Markdown text={comment.body} resolveMention={resolveMention} />
+        )}
+
+        {canModify && !editing && (
+          <div className="flex items-center gap-3 mt-1 text-xs">
+            {confirmingDelete ? (
+              <>
+                <span className="text-gray-500">Delete this comment?</span>
+                <button onClick={() => deleteComment(comment.id)} className="font-medium text-red-600 hover:text-red-700">
+                  Delete
+                </button>
+                <button onClick={() => setConfirmingDelete(false)} className="text-gray-500 hover:text-gray-700">
+                  Cancel
+                </button>
+              </>
+            ) : (
+              <>
+                <button
+                  onClick={() => {
+                    setDraft(comment.body);
+                    setEditing(true);
+                  }}
+                  className="text-gray-500 hover:text-gray-700"
+                >
+                  Edit
+                </button>
+                <button onClick={() => setConfirmingDelete(true)} className="text-gray-500 hover:text-red-600">
+                  Delete
+                </button>
+              </>
+            )}
+          </div>
+        )}
+      </div>
+    </li>
+  );
+});
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
+
+export const IssueCommentsTab = memo(function IssueCommentsTab({ issue }: IssueCommentsTabProps) {
+  const allComments = useCommentStore(state => state.comments);
+  const currentUserId = useCommentStore(state => state.currentUserId);
+  const setCurrentUser = useCommentStore(state => state.setCurrentUser);
+  const addComment = useCommentStore(state => state.addComment);
+  const users = useUserStore(state => state.users);
+
+  const [body, setBody] = useState('');
+  const [posting, setPosting] = useState(false);
+
+  const comments = useMemo(
+    () => allComments
+      .filter(c => c.issueId === issue.id)
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt)),
+    [allComments, issue.id]
+  );
+
+  const usersById = useMemo(() => new Map(users.map(u => [u.id, u])), [users]);
+  const resolveMention = useCallback(
+    (accountId: string) => usersById.get(accountId)?.displayName,
+    [usersById]
+  );
+
+  const currentUser = currentUserId ? usersById.get(currentUserId) : undefined;
+
+  const handlePost = async () => {
+    if (!body.trim() || !currentUser || posting) return;
+    setPosting(true);
+    const created = await addComment(issue.id, body.trim());
+    setPosting(false);
+    if (created) setBody('');
+  };
+
+  return (
+    <div className="p-4">
+      {/* Thread */}
+      {comments.length === 0 ? (
+        <p className="text-sm text-gray-400 text-center py-6">No comments yet</p>
+      ) : (
+        <ul className="space-y-5 mb-6">
+          {comments.map(comment => (
+            <CommentItem
+              key={comment.id}
+              comment={comment}
+              author={usersById.get(comment.author)}
+              canModify={comment.author === currentUserId}
+              users={users}
+              resolveMention={resolveMention}
+            />
+          ))}
+        </ul>
+      )}
+
+      {/* Composer */}
+      <div className="border-t border-gray-200 pt-4 space-y-2">
+        <div className="flex items-center gap-2 text-sm">
+          <span className="text-gray-500">Commenting as</span>
+          <select
+            value={currentUser?.id ?? ''}
+            onChange={e => setCurrentUser(e.target.value)}
+            className="px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="" disabled>Choose a user...</option>
+            {users.map(user => (
+              <option key={user.id} value={user.id}>{user.displayName}</option>
+            ))}
+          </select>
+        </div>
+
+        <CommentEditor
+          value={body}
+          onChange={setBody}
+          onSubmit={handlePost}
+          users={users}
+          placeholder="Add a comment... Markdown and @mentions supported"
+        />
+
+        <div className="flex items-center justify-between">
+          <span className="text-xs text-gray-400">Ctrl+Enter to post</span>
+          <button
+            onClick={handlePost}
+            disabled={!body.trim() || !currentUser || posting}
+            className="px-3 py-1.5 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-md transition-colors disabled:opacity-50"
+          >
+            {posting ? 'Posting...' : 'Comment'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+});
@@ -3,7 +3,7 @@
  * 
  * Features:
  * - Slides in from the right side
- * - Tabbed content (Details, Relationships, Activity)
+ * - Tabbed content (Details, Relationships, Comments, Activity)
  * - Header with issue key, type icon, close button
  * - Auto-save on field changes
  */
@@ -14,12 +14,14 @@ import { useUIStore, useIssueStore } from '../../store';
 import { IssueTypeIcon } from './IssueTypeIcon';
 import { IssueDetailsTab } from './IssueDetailsTab';
 import { IssueRelationshipsTab } from './IssueRelationshipsTab';
+import { IssueCommentsTab } from './IssueCommentsTab';
+import { IssueActivityTab } from './IssueActivityTab';
 
 // ============================================================================
 // TYPES
 // ============================================================================
 
-type TabId = 'details' | 'relationships' | 'activity';
+type TabId = 'details' | 'relationships' | 'comments' | 'activity';
 
 interface Tab {
   id: TabId;
@@ -29,6 +31,7 @@ interface Tab {
 const TABS: Tab[] = [
   { id: 'details', label: 'Details' },
   { id: 'relationships', label: 'Relationships' },
+  { id: 'comments', label: 'Comments' },
   { id: 'activity', label: 'Activity' },
 ];
 
@@ -144,57 +147,6 @@ const TabNav = memo(function TabNav({ activeTab, onTabChange }: TabNavProps) {
   );
 });
 
-
-// ============================================================================
-// ACTIVITY TAB (Placeholder)
-// ============================================================================
-
-interface ActivityTabProps {
-  issue: Issue;
-}
-
-const ActivityTab = memo(function ActivityTab({ issue }: ActivityTabProps) {
-  return (
-    <div className="p-4">
-      <div className="text-center py-12">
-        <svg 
-          className="w-12 h-12 mx-auto text-gray-300 mb-4" 
-          fill="none" 
-          stroke="currentColor" 
-          viewBox="0 0 24 24"
-        >
-          <path 
-            strokeLinecap="round" 
-            strokeLinejoin="round" 
-            strokeWidth={1.5}
-            d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" 
-          />
-        </svg>
-        <h3 className="text-sm font-medium text-gray-700 mb-1">Activity History</h3>
-        <p className="text-sm text-gray-400">
-          Coming in a future update
-        </p>
-      </div>
-      
-      {/* Show timestamps */}
-      <div className="mt-8 border-t border-gray-200 pt-4 space-y-3">
-        <div className="flex justify-between text-sm">
-          <span className="text-gray-500">Created</span>
-          <span className="text-gray-700">
-            {new Date(issue.createdAt).toLocaleString()}
-          </span>
-        </div>
-        <div className="flex justify-between text-sm">
-          <span className="text-gray-500">Updated</span>
-          <span className="text-gray-700">
-            {new Date(issue.updatedAt).toLocaleString()}
-          </span>
-        </div>
-      </div>
-    </div>
-  );
-});
-
 // ============================================================================
 // MAIN COMPONENT
 // ============================================================================
@@ -322,8 +274,11 @@ export const IssueDetailPanel = memo(function IssueDetailPanel() {
           {activeTab === 'relationships' && (
             <IssueRelationshipsTab issue={issue} />
           )}
+          {activeTab === 'comments' && (
+            <IssueCommentsTab issue={issue} />
+          )}
           {activeTab === 'activity' && (
-            <ActivityTab issue={issue} />
+            <IssueActivityTab issue={issue} />
           )}
         </div>
       </div>
@@ -80,9 +80,10 @@ const EditableTitle = memo(function EditableTitle({ value, onChange }: EditableT
   const [editValue, setEditValue] = useState(value);
   const inputRef = useRef<HTMLInputElement>(null);
 
+  // Take on changes from elsewhere (e.g., Claude via MCP) unless mid-edit
   useEffect(() => {
-    setEditValue(value);
-  }, [value]);
+    if (!isEditing) setEditValue(value);
+  }, [value, isEditing]);
 
   useEffect(() => {
     if (isEditing && inputRef.current) {
@@ -149,9 +150,10 @@ const DescriptionEditor = memo(function DescriptionEditor({ value, onChange }: D
   const [editValue, setEditValue] = useState(value);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
 
+  // Take on changes from elsewhere (e.g., Claude via MCP) unless mid-edit
   useEffect(() => {
-    setEditValue(value);
-  }, [value]);
+    if (!isEditing) setEditValue(value);
+  }, [value, isEditing]);
 
   useEffect(() => {
     if (isEditing && textareaRef.current) {
@@ -265,12 +267,15 @@ const NumberField = memo(function NumberField({
   placeholder = '—',
 }: NumberFieldProps) {
   const [editValue, setEditValue] = useState(value?.toString() ?? '');
+  const [isFocused, setIsFocused] = useState(false);
 
+  // Take on changes from elsewhere unless mid-edit
   useEffect(() => {
-    setEditValue(value?.toString() ?? '');
-  }, [value]);
+    if (!isFocused) setEditValue(value?.toString() ?? '');
+  }, [value, isFocused]);
 
   const handleBlur = () => {
+    setIsFocused(false);
     const num = editValue ? parseFloat(editValue) : null;
     if (num !== value) {
       onChange(num);
@@ -286,6 +291,7 @@ const NumberField = memo(function NumberField({
         type="number"
         value={editValue}
         onChange={e => setEditValue(e.target.value)}
+        onFocus={() => setIsFocused(true)}
         onBlur={handleBlur}
         min={min}
         max={max}
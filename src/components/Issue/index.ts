@@ -32,6 +32,8 @@ export {
 // Issue detail panel (slide-out)
 export { IssueDetailPanel } from './IssueDetailPanel';
 export { IssueDetailsTab } from './IssueDetailsTab';
+export { IssueCommentsTab } from './IssueCommentsTab';
+export { IssueActivityTab } from './IssueActivityTab';
 
 // Create issue modal
 export { CreateIssueModal } from './CreateIssueModal';
@@ -1,8 +1,9 @@
 /**
  * Header - Top navigation bar
  * 
- * Contains breadcrumb navigation, JQL search bar with autocomplete,
- * and view toggle buttons (Tree/Kanban).
+ * Contains the workspace switcher, breadcrumb navigation, JQL search bar
+ * with autocomplete, view toggle buttons (Tree/Kanban), and the live
+ * update indicator.
  */
 
 import { useRef, useEffect, useCallback } from 'react';
@@ -10,6 +11,8 @@ import { useUIStore, useProjectStore } from '../../store';
 import type { ViewType } from '../../types';
 import { SearchBar, saveRecentSearch } from '../Search/SearchBar';
 import { SearchResults } from '../Search/SearchResults';
+import { SyncIndicator } from './SyncIndicator';
+import { WorkspaceSwitcher } from './WorkspaceSwitcher';
 
 export function Header() {
   const currentView = useUIStore(state => state.currentView);
@@ -110,8 +113,10 @@ export function Header() {
 
   return (
     <header className="h-14 bg-white border-b border-gray-200 flex items-center justify-between px-4 flex-shrink-0">
-      {/* Left side - Breadcrumb */}
+      {/* Left side - Workspace and breadcrumb */}
       <div className="flex items-center">
+        <WorkspaceSwitcher />
+
         <nav className="flex items-center space-x-1 text-sm">
           {breadcrumbItems.map((item, index) => (
             <div key={index} className="flex items-center">
@@ -158,8 +163,10 @@ export function Header() {
         )}
       </div>
 
-      {/* Right side - View toggle */}
+      {/* Right side - Live updates and view toggle */}
       <div className="flex items-center gap-2">
+        <SyncIndicator />
+
         <div className="flex items-center bg-gray-100 rounded-lg p-1">
           {viewOptions.map(option => (
             <button
@@ -2,13 +2,14 @@
  * Sidebar - Navigation and filters sidebar
  * 
  * Contains project selector, navigation links, filters section,
- * import/export actions, and create issue button.
+ * import/export and API token actions, and create issue button.
  */
 
 import { useState } from 'react';
 import { useUIStore, useProjectStore, useSprintStore } from '../../store';
-import { ExportModal, ImportModal } from '../ImportExport';
+import { ExportModal, ImportModal, BackupsModal } from '../ImportExport';
 import { FilterPanel } from '../Filters';
+import { ApiTokensModal, WebhooksModal } from '../Settings';
 
 // Navigation item type
 interface NavItem {
@@ -28,6 +29,15 @@ export function Sidebar() {
   const closeImportModal = useUIStore(state => state.closeImportModal);
   const openExportModal = useUIStore(state => state.openExportModal);
   const closeExportModal = useUIStore(state => state.closeExportModal);
+  const backupsModalOpen = useUIStore(state => state.backupsModalOpen);
+  const openBackupsModal = useUIStore(state => state.openBackupsModal);
+  const closeBackupsModal = useUIStore(state => state.closeBackupsModal);
+  const apiTokensModalOpen = useUIStore(state => state.apiTokensModalOpen);
+  const openApiTokensModal = useUIStore(state => state.openApiTokensModal);
+  const closeApiTokensModal = useUIStore(state => state.closeApiTokensModal);
+  const webhooksModalOpen = useUIStore(state => state.webhooksModalOpen);
+  const openWebhooksModal = useUIStore(state => state.openWebhooksModal);
+  const closeWebhooksModal = useUIStore(state => state.closeWebhooksModal);
   
   const projects = useProjectStore(state => state.projects);
   const currentProjectId = useProjectStore(state => state.currentProjectId);
@@ -208,6 +218,33 @@ export function Sidebar() {
                   </svg>
                   <span>Export</span>
                 </button>
+                <button
+                  onClick={openBackupsModal}
+                  className="w-full flex items-center gap-2 px-2 py-1.5 text-sm text-gray-600 hover:bg-gray-100 rounded-md transition-colors"
+                >
+                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+                  </svg>
+                  <span>Backups</span>
+                </button>
+                <button
+                  onClick={openApiTokensModal}
+                  className="w-full flex items-center gap-2 px-2 py-1.5 text-sm text-gray-600 hover:bg-gray-100 rounded-md transition-colors"
+                >
+                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 7a2 2 0 012 2m4 0a6 6 0 01-7.743 5.743L11 17H9v2H7v2H4a1 1 0 01-1-1v-2.586a1 1 0 01.293-.707l5.964-5.964A6 6 0 1121 9z" />
+                  </svg>
+                  <span>API Tokens</span>
+                </button>
+                <button
+                  onClick={openWebhooksModal}
+                  className="w-full flex items-center gap-2 px-2 py-1.5 text-sm text-gray-600 hover:bg-gray-100 rounded-md transition-colors"
+                >
+                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" />
+                  </svg>
+                  <span>Webhooks</span>
+                </button>
               </div>
             )}
           </div>
@@ -237,6 +274,33 @@ export function Sidebar() {
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
               </svg>
             </button>
+            <button
+              onClick={openBackupsModal}
+              className="w-full p-2.5 text-gray-600 hover:bg-gray-100 rounded-lg transition-colors flex items-center justify-center"
+              title="Backups"
+            >
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+              </svg>
+            </button>
+            <button
+              onClick={openApiTokensModal}
+              className="w-full p-2.5 text-gray-600 hover:bg-gray-100 rounded-lg transition-colors flex items-center justify-center"
+              title="API Tokens"
+            >
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 7a2 2 0 012 2m4 0a6 6 0 01-7.743 5.743L11 17H9v2H7v2H4a1 1 0 01-1-1v-2.586a1 1 0 01.293-.707l5.964-5.964A6 6 0 1121 9z" />
+              </svg>
+            </button>
+            <button
+              onClick={openWebhooksModal}
+              className="w-full p-2.5 text-gray-600 hover:bg-gray-100 rounded-lg transition-colors flex items-center justify-center"
+              title="Webhooks"
+            >
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" />
+              </svg>
+            </button>
           </div>
         )}
         <button
@@ -258,6 +322,15 @@ export function Sidebar() {
       
       {/* Export Modal */}
       {exportModalOpen && <ExportModal onClose={closeExportModal} />}
+
+      {/* Backups Modal */}
+      {backupsModalOpen && <BackupsModal onClose={closeBackupsModal} />}
+
+      {/* API Tokens Modal */}
+      {apiTokensModalOpen && <ApiTokensModal onClose={closeApiTokensModal} />}
+
+      {/* Webhooks Modal */}
+      {webhooksModalOpen && <WebhooksModal onClose={closeWebhooksModal} />}
     </aside>
   );
 }
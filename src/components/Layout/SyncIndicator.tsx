@@ -0,0 +1,88 @@
+/**
+ * SyncIndicator - Live change feed status in the header
+ *
+ * Shows a badge when records were updated by another client (another tab,
+ * Claude via MCP, or a hand edit) and lists the recent changes in a
+ * dropdown. A grey dot means the live connection is down.
+ */
+
+import { useState } from 'react';
+import { useSyncStore, useUIStore } from '../../store';
+import type { RemoteChange } from '../../store';
+
+const ACTION_LABELS: Record<RemoteChange['action'], string> = {
+  created: 'created',
+  updated: 'updated',
+  deleted: 'deleted',
+};
+
+export function SyncIndicator() {
+  const connected = useSyncStore(state => state.connected);
+  const remoteChanges = useSyncStore(state => state.remoteChanges);
+  const clearRemoteChanges = useSyncStore(state => state.clearRemoteChanges);
+  const openDetailPanel = useUIStore(state => state.openDetailPanel);
+  const [open, setOpen] = useState(false);
+
+  if (remoteChanges.length === 0) {
+    return (
+      <span
+        className={`w-2 h-2 rounded-full ${connected ? 'bg-green-500' : 'bg-gray-300'}`}
+        title={connected ? 'Live updates connected' : 'Live updates disconnected'}
+      />
+    );
+  }
+
+  const handleDismiss = () => {
+    clearRemoteChanges();
+    setOpen(false);
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className="flex items-center gap-1.5 px-2.5 py-1 bg-amber-100 text-amber-800 text-xs font-medium rounded-full hover:bg-amber-200 transition-colors"
+        title="Records were changed by another client"
+      >
+        <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+        </svg>
+        Updated by another client ({remoteChanges.length})
+      </button>
+
+      {open && (
+        <div className="absolute right-0 mt-2 w-72 bg-white border border-gray-200 rounded-lg shadow-lg z-50">
+          <ul className="max-h-64 overflow-y-auto divide-y divide-gray-100">
+            {remoteChanges.map(change => (
+              <li key={change.seq}>
+                <button
+                  onClick={() => {
+                    if (change.resource === 'issues' && change.action !== 'deleted') {
+                      openDetailPanel(change.recordId);
+                      setOpen(false);
+                    }
+                  }}
+                  className="w-full text-left px-3 py-2 text-sm hover:bg-gray-50"
+                >
+                  <span className="font-medium text-gray-900">{change.label}</span>{' '}
+                  <span className="text-gray-500">{ACTION_LABELS[change.action]}</span>
+                  <div className="text-xs text-gray-400">
+                    {new Date(change.timestamp).toLocaleTimeString()}
+                  </div>
+                </button>
+              </li>
+            ))}
+          </ul>
+          <div className="px-3 py-2 border-t border-gray-200 text-right">
+            <button
+              onClick={handleDismiss}
+              className="text-xs font-medium text-blue-600 hover:text-blue-700"
+            >
+              Dismiss
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,179 @@
+/**
+ * WorkspaceSwitcher - Workspace picker in the header
+ *
+ * Shows the workspace the server is serving and lets the user switch to
+ * another one or create a new one from the sample data, empty, or as a
+ * copy of the current workspace. Switching reloads every open tab.
+ */
+
+import { useState, useRef, useEffect } from 'react';
+import type { FormEvent } from 'react';
+import { useWorkspaceStore, reloadWorkspace } from '../../store';
+import type { WorkspaceSource } from '../../types';
+import { toast } from '../UI/toastStore';
+
+const SOURCE_LABELS: Record<WorkspaceSource, string> = {
+  sample: 'Sample data',
+  empty: 'Empty',
+  duplicate: 'Copy of current workspace',
+};
+
+export function WorkspaceSwitcher() {
+  const workspaces = useWorkspaceStore(state => state.workspaces);
+  const activeId = useWorkspaceStore(state => state.activeId);
+  const switchWorkspace = useWorkspaceStore(state => state.switchWorkspace);
+  const createWorkspace = useWorkspaceStore(state => state.createWorkspace);
+
+  const [open, setOpen] = useState(false);
+  const [creating, setCreating] = useState(false);
+  const [name, setName] = useState('');
+  const [source, setSource] = useState<WorkspaceSource>('sample');
+  const [busy, setBusy] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const active = workspaces.find(w => w.id === activeId);
+
+  // Close when clicking outside
+  useEffect(() => {
+    if (!open) return;
+    const handleClickOutside = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setOpen(false);
+        setCreating(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [open]);
+
+  const handleSwitch = async (id: string) => {
+    setOpen(false);
+    if (id === activeId || busy) return;
+
+    setBusy(true);
+    const switched = await switchWorkspace(id);
+    if (switched) {
+      await reloadWorkspace();
+    } else {
+      toast.error('Could not switch workspace', useWorkspaceStore.getState().error ?? undefined);
+    }
+    setBusy(false);
+  };
+
+  const handleCreate = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!name.trim() || busy) return;
+
+    setBusy(true);
+    const workspace = await createWorkspace({
+      name: name.trim(),
+      source,
+      from: source === 'duplicate' ? activeId ?? undefined : undefined,
+      activate: true,
+    });
+    if (workspace) {
+      await reloadWorkspace();
+      toast.success('Workspace created', workspace.name);
+      setName('');
+      setCreating(false);
+      setOpen(false);
+    } else {
+      toast.error('Could not create workspace', useWorkspaceStore.getState().error ?? undefined);
+    }
+    setBusy(false);
+  };
+
+  if (!active) return null;
+
+  return (
+    <div ref={containerRef} className="relative mr-3">
+      <button
+        onClick={() => setOpen(!open)}
+        disabled={busy}
+        className="flex items-center gap-1.5 px-2.5 py-1 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-md transition-colors disabled:opacity-50"
+        title="Switch workspace"
+      >
+        <svg className="w-4 h-4 text-gray-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 7v10c0 2.21 3.582 4 8 4s8-1.79 8-4V7M4 7c0 2.21 3.582 4 8 4s8-1.79 8-4M4 7c0-2.21 3.582-4 8-4s8 1.79 8 4" />
+        </svg>
+        <span className="max-w-[10rem] truncate">{busy ? 'Switching...' : active.name}</span>
+        <svg className="w-3 h-3 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+        </svg>
+      </button>
+
+      {open && (
+        <div className="absolute left-0 mt-2 w-72 bg-white border border-gray-200 rounded-lg shadow-lg z-50">
+          <ul className="max-h-64 overflow-y-auto py-1">
+            {workspaces.map(workspace => (
+              <li key={workspace.id}>
+                <button
+                  onClick={() => handleSwitch(workspace.id)}
+                  className="w-full flex items-center justify-between px-3 py-2 text-sm text-left hover:bg-gray-50"
+                  title={workspace.dataDir}
+                >
+                  <span className="truncate text-gray-900">{workspace.name}</span>
+                  {workspace.id === activeId && (
+                    <svg className="w-4 h-4 text-blue-600 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+                    </svg>
+                  )}
+                </button>
+              </li>
+            ))}
+          </ul>
+
+          <div className="border-t border-gray-100 p-3">
+            {creating ? (
+              <form onSubmit={handleCreate} className="space-y-2">
+                <input
+                  value={name}
+                  onChange={e => setName(e.target.value)}
+                  placeholder="Workspace name"
+                  maxLength={50}
+                  autoFocus
+                  className="w-full px-2 py-1.5 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+                <select
+                  value={source}
+                  onChange={e => setSource(e.target.value as WorkspaceSource)}
+                  className="w-full px-2 py-1.5 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  {(Object.keys(SOURCE_LABELS) as WorkspaceSource[]).map(option => (
+                    <option key={option} value={option}>{SOURCE_LABELS[option]}</option>
+                  ))}
+                </select>
+                <div className="flex justify-end gap-2">
+                  <button
+                    type="button"
+                    onClick={() => setCreating(false)}
+                    className="px-3 py-1 text-xs font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-md transition-colors"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    type="submit"
+                    disabled={!name.trim() || busy}
+                    className="px-3 py-1 text-xs font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-md transition-colors disabled:opacity-50"
+                  >
+                    Create &amp; switch
+                  </button>
+                </div>
+              </form>
+            ) : (
+              <button
+                onClick={() => setCreating(true)}
+                className="w-full flex items-center gap-1.5 text-sm text-blue-600 hover:text-blue-700"
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+                </svg>
+                New workspace
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -8,3 +8,5 @@ export { AppShell } from './AppShell';
 export { Sidebar } from './Sidebar';
 export { Header } from './Header';
 export { MainContent } from './MainContent';
+export { SyncIndicator } from './SyncIndicator';
+export { WorkspaceSwitcher } from './WorkspaceSwitcher';
@@ -0,0 +1,304 @@
+/**
+ * ApiTokensModal - Modal for managing a user's personal API tokens
+ *
+ * Features:
+ * - Pick a team member and list their tokens (name, prefix, created)
+ * - Create a token; it is shown once, with a copy button, since the
+ *   server only keeps a hash
+ * - Revoke a token
+ *
+ * A user's first token needs the bootstrap secret the server prints at
+ * startup; further tokens and revoking need one of the user's tokens (the
+ * new one is filled in).
+ *
+ * Tokens let scripts, Jira clients and the MCP server act as that user.
+ */
+
+import { memo, useState, useEffect, useCallback } from 'react';
+import type { FormEvent } from 'react';
+import { useUserStore, useCommentStore } from '../../store';
+import * as api from '../../services/api';
+import { toast } from '../UI/toastStore';
+import type { ApiToken, CreatedApiToken } from '../../types';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface ApiTokensModalProps {
+  onClose: () => void;
+}
+
+// ============================================================================
+// COMPONENT
+// ============================================================================
+
+export const ApiTokensModal = memo(function ApiTokensModal({ onClose }: ApiTokensModalProps) {
+  // Store hooks
+  const users = useUserStore(state => state.users);
+  const currentUserId = useCommentStore(state => state.currentUserId);
+
+  // State
+  const [userId, setUserId] = useState(currentUserId ?? users[0]?.id ?? '');
+  const [tokens, setTokens] = useState<ApiToken[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [created, setCreated] = useState<CreatedApiToken | null>(null);
+  const [confirmId, setConfirmId] = useState<string | null>(null);
+  const [authToken, setAuthToken] = useState('');
+  const [bootstrapSecret, setBootstrapSecret] = useState('');
+
+  // Load the selected user's tokens
+  const loadTokens = useCallback(async () => {
+    if (!userId) {
+      setLoading(false);
+      return;
+    }
+    const response = await api.fetchApiTokens(userId);
+    if (response.success) {
+      setTokens(response.data);
+      setError(null);
+    } else {
+      setError(response.error || 'Failed to load tokens');
+    }
+    setLoading(false);
+  }, [userId]);
+
+  useEffect(() => {
+    setLoading(true);
+    setCreated(null);
+    setConfirmId(null);
+    setAuthToken('');
+    loadTokens();
+  }, [loadTokens]);
+
+  // Mint a token and show it once
+  const handleCreate = useCallback(async (e: FormEvent) => {
+    e.preventDefault();
+    if (!name.trim() || busy) return;
+
+    setBusy(true);
+    const response = await api.createApiToken(
+      userId,
+      name.trim(),
+      authToken.trim() || undefined,
+      tokens.length === 0 ? bootstrapSecret.trim() || undefined : undefined
+    );
+    if (response.success) {
+      setCreated(response.data);
+      setName('');
+      if (!authToken.trim()) setAuthToken(response.data.token);
+      await loadTokens();
+    } else {
+      toast.error('Could not create token', response.error);
+    }
+    setBusy(false);
+  }, [userId, name, busy, authToken, bootstrapSecret, tokens.length, loadTokens]);
+
+  // Revoke a token
+  const handleRevoke = useCallback(async (tokenId: string) => {
+    setBusy(true);
+    const response = await api.revokeApiToken(userId, tokenId, authToken.trim());
+    if (response.success) {
+      toast.success('Token revoked', response.data.name);
+      setConfirmId(null);
+      if (created?.id === tokenId) {
+        setCreated(null);
+        if (authToken.trim() === created.token) setAuthToken('');
+      }
+      await loadTokens();
+    } else {
+      toast.error('Could not revoke token', response.error);
+    }
+    setBusy(false);
+  }, [userId, created, authToken, loadTokens]);
+
+  // Copy the new token to the clipboard
+  const handleCopy = useCallback(async () => {
+    if (!created) return;
+    try {
+      await navigator.clipboard.writeText(created.token);
+      toast.success('Token copied');
+    } catch {
+      toast.error('Could not copy', 'Select the token and copy it manually.');
+    }
+  }, [created]);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center">
+      {/* Backdrop */}
+      <div className="absolute inset-0 bg-black/50" onClick={onClose} />
+
+      {/* Modal */}
+      <div className="relative bg-white rounded-lg shadow-xl w-full max-w-lg mx-4 overflow-hidden">
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+          <h2 className="text-lg font-semibold text-gray-900">API Tokens</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 p-1"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="px-6 py-4 space-y-3">
+          <p className="text-sm text-gray-500">
+            Tokens let scripts, Jira clients and Claude act as a team member.
+            Send one as <code className="text-xs bg-gray-100 px-1 rounded">Authorization: Bearer &lt;token&gt;</code> or
+            give it to the MCP server as <code className="text-xs bg-gray-100 px-1 rounded">JIRA_API_TOKEN</code>.
+          </p>
+
+          <label className="block">
+            <span className="text-xs font-medium text-gray-700">User</span>
+            <select
+              value={userId}
+              onChange={e => setUserId(e.target.value)}
+              className="mt-1 w-full px-2 py-1.5 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {users.map(user => (
+                <option key={user.id} value={user.id}>{user.displayName}</option>
+              ))}
+            </select>
+          </label>
+
+          {created && (
+            <div className="p-3 bg-green-50 border border-green-200 rounded-lg space-y-2">
+              <p className="text-sm text-green-800">
+                Copy your new token now. You won't be able to see it again.
+              </p>
+              <div className="flex items-center gap-2">
+                <code className="flex-1 min-w-0 px-2 py-1 text-xs bg-white border border-green-200 rounded truncate select-all">
+                  {created.token}
+                </code>
+                <button
+                  onClick={handleCopy}
+                  className="px-2 py-1 text-xs font-medium text-green-700 hover:bg-green-100 rounded"
+                >
+                  Copy
+                </button>
+              </div>
+            </div>
+          )}
+
+          {loading && (
+            <p className="text-sm text-gray-500">Loading tokens...</p>
+          )}
+
+          {error && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+              {error}
+            </div>
+          )}
+
+          {!loading && !error && tokens.length === 0 && (
+            <p className="text-sm text-gray-500">No tokens yet.</p>
+          )}
+
+          {tokens.length > 0 && (
+            <ul className="max-h-60 overflow-y-auto divide-y divide-gray-100 border border-gray-200 rounded-lg">
+              {tokens.map(token => (
+                <li key={token.id} className="px-3 py-2 flex items-center gap-3">
+                  <div className="flex-1 min-w-0">
+                    <div className="text-sm font-medium text-gray-900 truncate">{token.name}</div>
+                    <div className="text-xs text-gray-500">
+                      <code>{token.prefix}…</code> · created {new Date(token.createdAt).toLocaleString()}
+                    </div>
+                  </div>
+                  {confirmId === token.id ? (
+                    <div className="flex items-center gap-2">
+                      <button
+                        onClick={() => setConfirmId(null)}
+                        disabled={busy}
+                        className="px-2 py-1 text-xs font-medium text-gray-700 hover:bg-gray-100 rounded disabled:opacity-50"
+                      >
+                        Cancel
+                      </button>
+                      <button
+                        onClick={() => handleRevoke(token.id)}
+                        disabled={busy}
+                        className="px-2 py-1 text-xs font-medium text-white bg-red-600 hover:bg-red-700 rounded disabled:opacity-50"
+                      >
+                        Confirm Revoke
+                      </button>
+                    </div>
+                  ) : (
+                    <button
+                      onClick={() => setConfirmId(token.id)}
+                      disabled={busy}
+                      className="px-2 py-1 text-xs font-medium text-red-600 hover:bg-red-50 rounded disabled:opacity-50"
+                    >
+                      Revoke
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {tokens.length > 0 && (
+            <label className="block">
+              <span className="text-xs font-medium text-gray-700">Your current token (needed to create or revoke tokens)</span>
+              <input
+                type="password"
+                value={authToken}
+                onChange={e => setAuthToken(e.target.value)}
+                placeholder="jst_…"
+                autoComplete="off"
+                className="mt-1 w-full px-2 py-1.5 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </label>
+          )}
+
+          {!loading && !error && tokens.length === 0 && (
+            <label className="block">
+              <span className="text-xs font-medium text-gray-700">Bootstrap secret (printed in the server's terminal at startup)</span>
+              <input
+                type="password"
+                value={bootstrapSecret}
+                onChange={e => setBootstrapSecret(e.target.value)}
+                placeholder="jsb_…"
+                autoComplete="off"
+                className="mt-1 w-full px-2 py-1.5 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </label>
+          )}
+
+          <form onSubmit={handleCreate} className="flex items-center gap-2">
+            <input
+              value={name}
+              onChange={e => setName(e.target.value)}
+              placeholder="Token name (e.g., Claude Desktop)"
+              maxLength={50}
+              className="flex-1 px-2 py-1.5 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <button
+              type="submit"
+              disabled={!name.trim() || !userId || busy}
+              className="px-3 py-1.5 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-md disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Create Token
+            </button>
+          </form>
+        </div>
+
+        {/* Footer */}
+        <div className="px-6 py-4 border-t border-gray-200 flex justify-end">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-100 rounded-md"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+});
+
+export default ApiTokensModal;
@@ -0,0 +1,397 @@
+/**
+ * WebhooksModal - Modal for managing outgoing webhooks and their delivery log
+ *
+ * Features:
+ * - List webhooks with their events and JQL filter; enable, disable or delete them
+ * - Register a webhook (name, URL, events, optional JQL filter)
+ * - Delivery log: status, attempts and the receiver's answer of recent
+ *   deliveries, with their payload and a Redeliver button
+ *
+ * The server POSTs Jira-shaped payloads and retries failed deliveries
+ * with backoff; `npm run webhooks:receive` starts a local receiver.
+ */
+
+import { memo, useState, useEffect, useCallback } from 'react';
+import type { FormEvent } from 'react';
+import * as api from '../../services/api';
+import { toast } from '../UI/toastStore';
+import { WebhookEvent } from '../../types';
+import type { Webhook, WebhookDelivery, WebhookDeliveryStatus } from '../../types';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface WebhooksModalProps {
+  onClose: () => void;
+}
+
+type Tab = 'webhooks' | 'deliveries';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const ALL_EVENTS = Object.values(WebhookEvent);
+
+// Pre-selected for a new webhook
+const DEFAULT_EVENTS = [WebhookEvent.IssueCreated, WebhookEvent.IssueUpdated];
+
+const STATUS_STYLES: Record<WebhookDeliveryStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  succeeded: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800',
+};
+
+// ============================================================================
+// COMPONENT
+// ============================================================================
+
+export const WebhooksModal = memo(function WebhooksModal({ onClose }: WebhooksModalProps) {
+  // State
+  const [tab, setTab] = useState<Tab>('webhooks');
+  const [webhooks, setWebhooks] = useState<Webhook[]>([]);
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [confirmId, setConfirmId] = useState<string | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  // New webhook form
+  const [name, setName] = useState('');
+  const [url, setUrl] = useState('');
+  const [jqlFilter, setJqlFilter] = useState('');
+  const [events, setEvents] = useState<WebhookEvent[]>(DEFAULT_EVENTS);
+
+  // Load webhooks and the delivery log
+  const loadData = useCallback(async () => {
+    const [webhooksResponse, deliveriesResponse] = await Promise.all([
+      api.fetchWebhooks(),
+      api.fetchWebhookDeliveries(),
+    ]);
+    if (webhooksResponse.success && deliveriesResponse.success) {
+      setWebhooks(webhooksResponse.data);
+      setDeliveries(deliveriesResponse.data);
+      setError(null);
+    } else {
+      setError(
+        (!webhooksResponse.success && webhooksResponse.error) ||
+        (!deliveriesResponse.success && deliveriesResponse.error) ||
+        'Failed to load webhooks'
+      );
+    }
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  const toggleEvent = useCallback((event: WebhookEvent) => {
+    setEvents(current => current.includes(event)
+      ? current.filter(e => e !== event)
+      : [...current, event]);
+  }, []);
+
+  // Register a webhook
+  const handleCreate = useCallback(async (e: FormEvent) => {
+    e.preventDefault();
+    if (!name.trim() || !url.trim() || events.length === 0 || busy) return;
+
+    setBusy(true);
+    const response = await api.createWebhook({
+      name: name.trim(),
+      url: url.trim(),
+      events,
+      jqlFilter: jqlFilter.trim() || null,
+    });
+    if (response.success) {
+      toast.success('Webhook created', response.data.name);
+      setName('');
+      setUrl('');
+      setJqlFilter('');
+      setEvents(DEFAULT_EVENTS);
+      await loadData();
+    } else {
+      toast.error('Could not create webhook', response.error);
+    }
+    setBusy(false);
+  }, [name, url, events, jqlFilter, busy, loadData]);
+
+  // Enable or disable a webhook
+  const handleToggle = useCallback(async (webhook: Webhook) => {
+    setBusy(true);
+    const response = await api.updateWebhook(webhook.id, { enabled: !webhook.enabled });
+    if (response.success) {
+      await loadData();
+    } else {
+      toast.error('Could not update webhook', response.error);
+    }
+    setBusy(false);
+  }, [loadData]);
+
+  // Delete a webhook
+  const handleDelete = useCallback(async (webhookId: string) => {
+    setBusy(true);
+    const response = await api.deleteWebhook(webhookId);
+    if (response.success) {
+      toast.success('Webhook deleted', response.data.name);
+      setConfirmId(null);
+      await loadData();
+    } else {
+      toast.error('Could not delete webhook', response.error);
+    }
+    setBusy(false);
+  }, [loadData]);
+
+  // Send a delivery again
+  const handleRedeliver = useCallback(async (deliveryId: string) => {
+    setBusy(true);
+    const response = await api.redeliverWebhook(deliveryId);
+    if (response.success) {
+      toast.info('Delivery queued', response.data.event);
+      await loadData();
+    } else {
+      toast.error('Could not redeliver', response.error);
+    }
+    setBusy(false);
+  }, [loadData]);
+
+  const webhookName = (id: string) => webhooks.find(w => w.id === id)?.name ?? id;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center">
+      {/* Backdrop */}
+      <div className="absolute inset-0 bg-black/50" onClick={onClose} />
+
+      {/* Modal */}
+      <div className="relative bg-white rounded-lg shadow-xl w-full max-w-2xl mx-4 overflow-hidden">
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+          <h2 className="text-lg font-semibold text-gray-900">Webhooks</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 p-1"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* Tabs */}
+        <div className="px-6 border-b border-gray-200 flex gap-4">
+          {(['webhooks', 'deliveries'] as const).map(t => (
+            <button
+              key={t}
+              onClick={() => setTab(t)}
+              className={`py-2 text-sm font-medium border-b-2 -mb-px ${
+                tab === t ? 'border-blue-600 text-blue-600' : 'border-transparent text-gray-500 hover:text-gray-700'
+              }`}
+            >
+              {t === 'webhooks' ? `Webhooks (${webhooks.length})` : `Delivery Log (${deliveries.length})`}
+            </button>
+          ))}
+        </div>
+
+        {/* Content */}
+        <div className="px-6 py-4 space-y-3">
+          {loading && (
+            <p className="text-sm text-gray-500">Loading webhooks...</p>
+          )}
+
+          {error && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+              {error}
+            </div>
+          )}
+
+          {tab === 'webhooks' && (
+            <>
+              <p className="text-sm text-gray-500">
+                Changes to issues, comments and sprints are POSTed to each webhook as Jira Cloud payloads.
+                Failed deliveries are retried with backoff.
+              </p>
+
+              {!loading && !error && webhooks.length === 0 && (
+                <p className="text-sm text-gray-500">No webhooks yet.</p>
+              )}
+
+              {webhooks.length > 0 && (
+                <ul className="max-h-48 overflow-y-auto divide-y divide-gray-100 border border-gray-200 rounded-lg">
+                  {webhooks.map(webhook => (
+                    <li key={webhook.id} className="px-3 py-2 flex items-center gap-3">
+                      <input
+                        type="checkbox"
+                        checked={webhook.enabled}
+                        onChange={() => handleToggle(webhook)}
+                        disabled={busy}
+                        title={webhook.enabled ? 'Disable' : 'Enable'}
+                        className="rounded border-gray-300"
+                      />
+                      <div className={`flex-1 min-w-0 ${webhook.enabled ? '' : 'opacity-50'}`}>
+                        <div className="text-sm font-medium text-gray-900 truncate">{webhook.name}</div>
+                        <div className="text-xs text-gray-500 truncate">{webhook.url}</div>
+                        <div className="text-xs text-gray-500 truncate">
+                          {webhook.events.join(', ')}
+                          {webhook.jqlFilter && <> · <code>{webhook.jqlFilter}</code></>}
+                        </div>
+                      </div>
+                      {confirmId === webhook.id ? (
+                        <div className="flex items-center gap-2">
+                          <button
+                            onClick={() => setConfirmId(null)}
+                            disabled={busy}
+                            className="px-2 py-1 text-xs font-medium text-gray-700 hover:bg-gray-100 rounded disabled:opacity-50"
+                          >
+                            Cancel
+                          </button>
+                          <button
+                            onClick={() => handleDelete(webhook.id)}
+                            disabled={busy}
+                            className="px-2 py-1 text-xs font-medium text-white bg-red-600 hover:bg-red-700 rounded disabled:opacity-50"
+                          >
+                            Confirm Delete
+                          </button>
+                        </div>
+                      ) : (
+                        <button
+                          onClick={() => setConfirmId(webhook.id)}
+                          disabled={busy}
+                          className="px-2 py-1 text-xs font-medium text-red-600 hover:bg-red-50 rounded disabled:opacity-50"
+                        >
+                          Delete
+                        </button>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              <form onSubmit={handleCreate} className="space-y-2 p-3 border border-gray-200 rounded-lg">
+                <div className="flex gap-2">
+                  <input
+                    value={name}
+                    onChange={e => setName(e.target.value)}
+                    placeholder="Name"
+                    maxLength={100}
+                    className="w-1/3 px-2 py-1.5 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                  <input
+                    value={url}
+                    onChange={e => setUrl(e.target.value)}
+                    placeholder="https://example.com/webhook"
+                    className="flex-1 px-2 py-1.5 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+                <input
+                  value={jqlFilter}
+                  onChange={e => setJqlFilter(e.target.value)}
+                  placeholder="JQL filter for issue and comment events (optional), e.g. project = PHOENIX"
+                  className="w-full px-2 py-1.5 text-sm font-mono border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+                <div className="grid grid-cols-3 gap-x-3 gap-y-1">
+                  {ALL_EVENTS.map(event => (
+                    <label key={event} className="flex items-center gap-1.5 text-xs text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={events.includes(event)}
+                        onChange={() => toggleEvent(event)}
+                        className="rounded border-gray-300"
+                      />
+                      {event}
+                    </label>
+                  ))}
+                </div>
+                <div className="flex justify-end">
+                  <button
+                    type="submit"
+                    disabled={!name.trim() || !url.trim() || events.length === 0 || busy}
+                    className="px-3 py-1.5 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-md disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    Add Webhook
+                  </button>
+                </div>
+              </form>
+            </>
+          )}
+
+          {tab === 'deliveries' && (
+            <>
+              <div className="flex items-center justify-between">
+                <p className="text-sm text-gray-500">The most recent deliveries, newest first.</p>
+                <button
+                  onClick={loadData}
+                  disabled={busy}
+                  className="px-2 py-1 text-xs font-medium text-blue-600 hover:bg-blue-50 rounded disabled:opacity-50"
+                >
+                  Refresh
+                </button>
+              </div>
+
+              {!loading && !error && deliveries.length === 0 && (
+                <p className="text-sm text-gray-500">No deliveries yet.</p>
+              )}
+
+              {deliveries.length > 0 && (
+                <ul className="max-h-96 overflow-y-auto divide-y divide-gray-100 border border-gray-200 rounded-lg">
+                  {deliveries.map(delivery => (
+                    <li key={delivery.id} className="px-3 py-2">
+                      <div className="flex items-center gap-3">
+                        <span className={`px-1.5 py-0.5 text-xs font-medium rounded ${STATUS_STYLES[delivery.status]}`}>
+                          {delivery.status}
+                        </span>
+                        <button
+                          onClick={() => setExpandedId(expandedId === delivery.id ? null : delivery.id)}
+                          className="flex-1 min-w-0 text-left"
+                        >
+                          <div className="text-sm text-gray-900 truncate">
+                            {delivery.event} → {webhookName(delivery.webhookId)}
+                          </div>
+                          <div className="text-xs text-gray-500 truncate">
+                            {new Date(delivery.createdAt).toLocaleString()}
+                            {' · '}{delivery.attempts} {delivery.attempts === 1 ? 'attempt' : 'attempts'}
+                            {delivery.responseStatus !== null && <> · HTTP {delivery.responseStatus}</>}
+                            {delivery.error && <> · {delivery.error}</>}
+                            {delivery.nextAttemptAt && <> · next try {new Date(delivery.nextAttemptAt).toLocaleTimeString()}</>}
+                          </div>
+                        </button>
+                        {delivery.status !== 'pending' && (
+                          <button
+                            onClick={() => handleRedeliver(delivery.id)}
+                            disabled={busy}
+                            className="px-2 py-1 text-xs font-medium text-blue-600 hover:bg-blue-50 rounded disabled:opacity-50"
+                          >
+                            Redeliver
+                          </button>
+                        )}
+                      </div>
+                      {expandedId === delivery.id && (
+                        <pre className="mt-2 p-2 max-h-48 overflow-auto text-xs bg-gray-50 border border-gray-200 rounded">
+                          {JSON.stringify(delivery.payload, null, 2)}
+                        </pre>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="px-6 py-4 border-t border-gray-200 flex justify-end">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-100 rounded-md"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+});
+
+export default WebhooksModal;
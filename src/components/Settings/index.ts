@@ -0,0 +1,6 @@
+/**
+ * Settings Components - Barrel export
+ */
+
+export { ApiTokensModal } from './ApiTokensModal';
+export { WebhooksModal } from './WebhooksModal';
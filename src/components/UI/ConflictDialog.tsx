@@ -0,0 +1,117 @@
+/**
+ * ConflictDialog - Resolves writes rejected by the server with 409
+ *
+ * Shown when a record was changed by someone else (another tab, a script,
+ * or Claude via MCP) after it was loaded. Lists the fields the user tried
+ * to change next to the server's values and lets the user either reload
+ * the server copy or apply their own changes on top of it.
+ */
+
+import { useState } from 'react';
+import { useConflictStore } from '../../store/conflictStore';
+
+const RESOURCE_LABELS = {
+  issues: 'Issue',
+  sprints: 'Sprint',
+  users: 'User',
+  projects: 'Project',
+  comments: 'Comment',
+} as const;
+
+/**
+ * Render a field value compactly for the comparison table
+ */
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null || value === '') return '—';
+  if (Array.isArray(value)) return value.length > 0 ? value.join(', ') : '—';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+export function ConflictDialog() {
+  const conflict = useConflictStore(state => state.conflicts[0]);
+  const resolveConflict = useConflictStore(state => state.resolveConflict);
+  const dismissConflict = useConflictStore(state => state.dismissConflict);
+  const [isResolving, setIsResolving] = useState(false);
+
+  if (!conflict) return null;
+
+  // Only fields whose server value differs from what the user wanted
+  const changedFields = Object.entries(conflict.updates).filter(
+    ([field, value]) => JSON.stringify(conflict.server[field]) !== JSON.stringify(value)
+  );
+
+  const handleResolve = async (resolution: 'reload' | 'overwrite') => {
+    setIsResolving(true);
+    await resolveConflict(conflict.id, resolution);
+    setIsResolving(false);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[150] flex items-center justify-center">
+      {/* Backdrop */}
+      <div
+        className="absolute inset-0 bg-black/50"
+        onClick={() => !isResolving && dismissConflict(conflict.id)}
+      />
+
+      {/* Modal */}
+      <div className="relative bg-white rounded-lg shadow-xl max-w-lg w-full mx-4 p-6">
+        <h3 className="text-lg font-semibold text-gray-900 mb-2">
+          {RESOURCE_LABELS[conflict.resource]} Changed Elsewhere
+        </h3>
+
+        <p className="text-sm text-gray-600 mb-4">
+          <strong>{conflict.label}</strong> was changed by someone else after you loaded it.
+          {conflict.action === 'delete'
+            ? ' Your delete was not applied.'
+            : ' Your changes were not saved.'}
+        </p>
+
+        {changedFields.length > 0 && (
+          <div className="border border-gray-200 rounded-md overflow-hidden mb-4 max-h-64 overflow-y-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50 text-gray-500 text-xs uppercase">
+                <tr>
+                  <th className="px-3 py-2 text-left font-medium">Field</th>
+                  <th className="px-3 py-2 text-left font-medium">Server</th>
+                  <th className="px-3 py-2 text-left font-medium">Yours</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {changedFields.map(([field, value]) => (
+                  <tr key={field}>
+                    <td className="px-3 py-2 font-medium text-gray-700">{field}</td>
+                    <td className="px-3 py-2 text-gray-600 break-all">{formatValue(conflict.server[field])}</td>
+                    <td className="px-3 py-2 text-blue-700 break-all">{formatValue(value)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        <div className="flex justify-end gap-3">
+          <button
+            onClick={() => handleResolve('reload')}
+            disabled={isResolving}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-md transition-colors disabled:opacity-50"
+          >
+            Reload Server Copy
+          </button>
+          <button
+            onClick={() => handleResolve('overwrite')}
+            disabled={isResolving}
+            className={`px-4 py-2 text-sm font-medium text-white rounded-md transition-colors disabled:opacity-50 ${
+              conflict.action === 'delete'
+                ? 'bg-red-600 hover:bg-red-700'
+                : 'bg-blue-600 hover:bg-blue-700'
+            }`}
+          >
+            {conflict.action === 'delete' ? 'Delete Anyway' : 'Apply My Changes'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,226 @@
+/**
+ * Markdown - Renders a small, safe subset of markdown
+ *
+ * Supports paragraphs, headings, bullet and numbered lists, block quotes,
+ * fenced code blocks, **bold**, *italic*, `code`, links and bare URLs.
+ * Jira-style mentions (`[~accountid:user-1]`) are shown as @name chips.
+ * Everything is rendered as React elements, never as raw HTML.
+ */
+
+import type { ReactNode } from 'react';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface MarkdownProps {
+  text: string;
+  /** Display name for a mentioned account ID */
+  resolveMention?: (accountId: string) => string | undefined;
+  className?: string;
+}
+
+type Block =
+  | { kind: 'paragraph'; lines: string[] }
+  | { kind: 'heading'; text: string }
+  | { kind: 'list'; ordered: boolean; items: string[] }
+  | { kind: 'quote'; lines: string[] }
+  | { kind: 'code'; code: string };
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+// Order matters: code spans win over emphasis, mentions (Jira's
+// [~accountid:...] syntax) over links
+const INLINE_PATTERN =
+  /`([^`]+)`|\*\*([^*]+)\*\*|\*([^*\s][^*]*)\*|_([^_\s][^_]*)_|\[~accountid:([\w-]+)\]|\[([^\]]+)\]\((https?:\/\/[^\s)]+)\)|(https?:\/\/[^\s<]+)/;
+
+const BULLET_PATTERN = /^\s*[-*]\s+(.*)$/;
+const NUMBERED_PATTERN = /^\s*\d+\.\s+(.*)$/;
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+/**
+ * Split text into blocks
+ */
+function parseBlocks(text: string): Block[] {
+  const lines = text.replace(/\r\n/g, '\n').split('\n');
+  const blocks: Block[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (line.trim() === '') {
+      i++;
+      continue;
+    }
+
+    if (line.trim().startsWith('```')) {
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].trim().startsWith('```')) {
+        code.push(lines[i]);
+        i++;
+      }
+      i++; // closing fence
+      blocks.push({ kind: 'code', code: code.join('\n') });
+      continue;
+    }
+
+    const heading = /^#{1,6}\s+(.*)$/.exec(line);
+    if (heading) {
+      blocks.push({ kind: 'heading', text: heading[1] });
+      i++;
+      continue;
+    }
+
+    const listPattern = BULLET_PATTERN.test(line) ? BULLET_PATTERN : NUMBERED_PATTERN.test(line) ? NUMBERED_PATTERN : null;
+    if (listPattern) {
+      const items: string[] = [];
+      let match: RegExpExecArray | null;
+      while (i < lines.length && (match = listPattern.exec(lines[i]))) {
+        items.push(match[1]);
+        i++;
+      }
+      blocks.push({ kind: 'list', ordered: listPattern === NUMBERED_PATTERN, items });
+      continue;
+    }
+
+    if (line.startsWith('>')) {
+      const quoted: string[] = [];
+      while (i < lines.length && lines[i].startsWith('>')) {
+        quoted.push(lines[i].replace(/^>\s?/, ''));
+        i++;
+      }
+      blocks.push({ kind: 'quote', lines: quoted });
+      continue;
+    }
+
+    const paragraph: string[] = [];
+    while (
+      i < lines.length &&
+      lines[i].trim() !== '' &&
+      !lines[i].trim().startsWith('```') &&
+      !/^#{1,6}\s/.test(lines[i]) &&
+      !BULLET_PATTERN.test(lines[i]) &&
+      !NUMBERED_PATTERN.test(lines[i]) &&
+      !lines[i].startsWith('>')
+    ) {
+      paragraph.push(lines[i]);
+      i++;
+    }
+    blocks.push({ kind: 'paragraph', lines: paragraph });
+  }
+
+  return blocks;
+}
+
+// ============================================================================
+// RENDERING
+// ============================================================================
+
+/**
+ * Render inline formatting within one line of text
+ */
+function renderInline(
+  text: string,
+  keyPrefix: string,
+  resolveMention?: MarkdownProps['resolveMention']
+): ReactNode[] {
+  const nodes: ReactNode[] = [];
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+  const pattern = new RegExp(INLINE_PATTERN.source, 'g');
+
+  while ((match = pattern.exec(text)) !== null) {
+    if (match.index > lastIndex) {
+      nodes.push(text.slice(lastIndex, match.index));
+    }
+    const key = `${keyPrefix}-${match.index}`;
+    const [, code, bold, italicStar, italicUnderscore, mention, linkText, linkUrl, url] = match;
+
+    if (code !== undefined) {
+      nodes.push(
+        <code key={key} className="px-1 py-0.5 bg-gray-100 text-gray-800 rounded text-[0.85em] font-mono">{code}</code>
+      );
+    } else if (bold !== undefined) {
+      nodes.push(<strong key={key}>{renderInline(bold, key, resolveMention)}</strong>);
+    } else if (italicStar !== undefined || italicUnderscore !== undefined) {
+      nodes.push(<em key={key}>{renderInline(italicStar ?? italicUnderscore, key, resolveMention)}</em>);
+    } else if (mention !== undefined) {
+      nodes.push(
+        <span key={key} className="px-1 rounded bg-blue-50 text-blue-700 font-medium">
+          @{resolveMention?.(mention) ?? mention}
+        </span>
+      );
+    } else {
+      const href = linkUrl ?? url;
+      nodes.push(
+        <a key={key} href={href} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline break-all">
+          {linkText ?? url}
+        </a>
+      );
+    }
+
+    lastIndex = match.index + match[0].length;
+  }
+
+  if (lastIndex < text.length) {
+    nodes.push(text.slice(lastIndex));
+  }
+  return nodes;
+}
+
+/**
+ * Render lines joined by line breaks
+ */
+function renderLines(lines: string[], keyPrefix: string, resolveMention?: MarkdownProps['resolveMention']): ReactNode[] {
+  return lines.flatMap((line, index) => [
+    ...(index > 0 ? [<br key={`${keyPrefix}-br-${index}`} />] : []),
+    ...renderInline(line, `${keyPrefix}-${index}`, resolveMention),
+  ]);
+}
+
+// ============================================================================
+// COMPONENT
+// ============================================================================
+
+export function Markdown({ text, resolveMention, className = '' }: MarkdownProps) {
+  return (
+    <div className={`space-y-2 text-sm text-gray-700 break-words ${className}`}>
+      {parseBlocks(text).map((block, index) => {
+        const key = `b${index}`;
+        switch (block.kind) {
+          case 'heading':
+            return <p key={key} className="font-semibold text-gray-900">{renderInline(block.text, key, resolveMention)}</p>;
+          case 'list': {
+            const items = block.items.map((item, itemIndex) => (
+              <li key={itemIndex}>{renderInline(item, `${key}-${itemIndex}`, resolveMention)}</li>
+            ));
+            return block.ordered
+              ? <ol key={key} className="list-decimal pl-5 space-y-0.5">{items}</ol>
+              : <ul key={key} className="list-disc pl-5 space-y-0.5">{items}</ul>;
+          }
+          case 'quote':
+            return (
+              <blockquote key={key} className="pl-3 border-l-2 border-gray-300 text-gray-500">
+                {renderLines(block.lines, key, resolveMention)}
+              </blockquote>
+            );
+          case 'code':
+            return (
+              <pre key={key} className="p-2 bg-gray-100 rounded text-xs font-mono overflow-x-auto">
+                <code>{block.code}</code>
+              </pre>
+            );
+          case 'paragraph':
+            return <p key={key}>{renderLines(block.lines, key, resolveMention)}</p>;
+        }
+      })}
+    </div>
+  );
+}
@@ -74,7 +74,7 @@ const ToastItem = ({ toast }: { toast: Toast }) => {
           {toast.message}
         </p>
         {toast.description && (
-          <p className={`mt-1 text-sm opacity-80 ${textColors[toast.type]}`}>
+          <p className={`mt-1 text-sm opacity-80 whitespace-pre-line ${textColors[toast.type]}`}>
             {toast.description}
           </p>
         )}
@@ -6,5 +6,7 @@
 
 export { ToastContainer } from './ToastContainer';
 export { KeyboardShortcutsModal } from './KeyboardShortcutsModal';
+export { ConflictDialog } from './ConflictDialog';
+export { Markdown } from './Markdown';
 export { useToastStore, toast } from './toastStore';
 export type { Toast, ToastType } from './toastStore';
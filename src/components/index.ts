@@ -28,6 +28,9 @@ export * from './ImportExport';
 // Filter components
 export * from './Filters';
 
+// Settings components
+export * from './Settings';
+
 // Error handling
 export * from './ErrorBoundary';
 
@@ -0,0 +1,128 @@
+/**
+ * Bulk Operations - One change applied to many issues
+ *
+ * Applies a single operation (set fields, transition, move to a sprint,
+ * add or remove labels, reparent) to a list of issues, one after the
+ * other, with the same single-issue operations every other surface uses.
+ * The result holds the updated array to persist in one write, plus a
+ * per-issue diff so callers can preview the change before saving it.
+ *
+ * A bulk change is all or nothing: if the operation fails for any issue,
+ * the error names the issue and nothing is returned to save.
+ */
+
+import type { Issue, IssueStatus, Sprint } from '../types/index.js';
+import { IssueOperationError } from './errors.js';
+import { requireIssue, updateIssue, transitionIssue, moveIssue } from './issues.js';
+import { moveIssuesToSprint } from './sprints.js';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type BulkOperation =
+  | { type: 'setFields'; updates: Partial<Issue> }
+  | { type: 'transition'; status: IssueStatus }
+  | { type: 'moveToSprint'; sprintId: string | null }
+  | { type: 'addLabels'; labels: string[] }
+  | { type: 'removeLabels'; labels: string[] }
+  | { type: 'reparent'; parentIdOrKey: string | null };
+
+/** A field's value before and after the change */
+export interface FieldChange {
+  from: unknown;
+  to: unknown;
+}
+
+export interface BulkIssueChange {
+  issueId: string;
+  key: string;
+  /** Changed fields of the issue itself; side effects on other issues aren't listed */
+  changes: Partial<Record<keyof Issue, FieldChange>>;
+}
+
+export interface BulkUpdateResult {
+  /** Full issues array after the operation */
+  issues: Issue[];
+  /** Issues the operation changed, in the order given */
+  changed: BulkIssueChange[];
+  /** Keys of the issues it left as they were */
+  unchanged: string[];
+}
+
+/** Bookkeeping fields left out of diffs */
+const UNDIFFED_FIELDS: ReadonlySet<string> = new Set(['updatedAt', 'revision']);
+
+// ============================================================================
+// BULK UPDATE
+// ============================================================================
+
+/**
+ * The fields that differ between two versions of an issue
+ */
+export function diffIssue(before: Issue, after: Issue): BulkIssueChange['changes'] {
+  const changes: BulkIssueChange['changes'] = {};
+  for (const field of Object.keys(after) as Array<keyof Issue>) {
+    if (UNDIFFED_FIELDS.has(field)) continue;
+    if (JSON.stringify(before[field]) !== JSON.stringify(after[field])) {
+      changes[field] = { from: before[field] ?? null, to: after[field] ?? null };
+    }
+  }
+  return changes;
+}
+
+function applyOperation(issues: Issue[], sprints: Sprint[], issue: Issue, operation: BulkOperation): Issue[] {
+  switch (operation.type) {
+    case 'setFields':
+      return updateIssue(issues, issue.id, operation.updates).issues;
+    case 'transition':
+      return transitionIssue(issues, issue.id, operation.status).issues;
+    case 'moveToSprint':
+      return moveIssuesToSprint(issues, sprints, operation.sprintId, [issue.id]).issues;
+    case 'addLabels':
+      return updateIssue(issues, issue.id, { labels: [...new Set([...issue.labels, ...operation.labels])] }).issues;
+    case 'removeLabels':
+      return updateIssue(issues, issue.id, { labels: issue.labels.filter(l => !operation.labels.includes(l)) }).issues;
+    case 'reparent':
+      return moveIssue(issues, issue.id, operation.parentIdOrKey).issues;
+  }
+}
+
+/**
+ * Apply one operation to several issues (by ID or key). Issues the
+ * operation wouldn't change are left untouched, so their updatedAt and
+ * revision stay as they are.
+ */
+export function bulkUpdateIssues(
+  issues: Issue[],
+  sprints: Sprint[],
+  issueIdsOrKeys: string[],
+  operation: BulkOperation
+): BulkUpdateResult {
+  let current = issues;
+  const changed: BulkIssueChange[] = [];
+  const unchangedKeys: string[] = [];
+
+  for (const idOrKey of issueIdsOrKeys) {
+    const before = requireIssue(current, idOrKey);
+    let updated: Issue[];
+    try {
+      updated = applyOperation(current, sprints, before, operation);
+    } catch (error) {
+      if (error instanceof IssueOperationError) {
+        throw new IssueOperationError(`${before.key}: ${error.message}`, error.status);
+      }
+      throw error;
+    }
+
+    const changes = diffIssue(before, requireIssue(updated, before.id));
+    if (Object.keys(changes).length === 0) {
+      unchangedKeys.push(before.key);
+      continue;
+    }
+    current = updated;
+    changed.push({ issueId: before.id, key: before.key, changes });
+  }
+
+  return { issues: current, changed, unchanged: unchangedKeys };
+}
@@ -0,0 +1,121 @@
+/**
+ * Comment Operations - Comment mutations
+ *
+ * Pure functions that apply a single create/update/delete to the comments
+ * array. The server owns IDs and timestamps; only the body of an existing
+ * comment can be edited. Errors are raised as IssueOperationError so the
+ * routes report them the same way as issue errors.
+ */
+
+import type { Comment } from '../types/index.js';
+import { IssueOperationError } from './errors.js';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface CommentMutationResult {
+  /** Full comments array after the mutation */
+  comments: Comment[];
+  /** The created, updated or deleted comment */
+  comment: Comment;
+}
+
+// ============================================================================
+// LOOKUP & GENERATION
+// ============================================================================
+
+/**
+ * The comments on one issue, oldest first
+ */
+export function commentsForIssue(comments: Comment[], issueId: string): Comment[] {
+  return comments
+    .filter(c => c.issueId === issueId)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+/**
+ * Generate a unique comment ID
+ */
+export function generateCommentId(): string {
+  return `comment-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+}
+
+/**
+ * Trim a comment body, rejecting empty ones
+ */
+function requireBody(body: unknown): string {
+  if (typeof body !== 'string' || !body.trim()) {
+    throw new IssueOperationError('body is required');
+  }
+  return body.trim();
+}
+
+// ============================================================================
+// OPERATIONS
+// ============================================================================
+
+/**
+ * Add a comment to an issue
+ */
+export function createComment(
+  comments: Comment[],
+  issueId: string,
+  input: Partial<Comment>
+): CommentMutationResult {
+  if (!input.author) {
+    throw new IssueOperationError('author is required');
+  }
+
+  const now = new Date().toISOString();
+  const comment: Comment = {
+    id: generateCommentId(),
+    issueId,
+    author: input.author,
+    body: requireBody(input.body),
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  return { comments: [...comments, comment], comment };
+}
+
+/**
+ * Edit the body of a comment
+ */
+export function updateComment(
+  comments: Comment[],
+  id: string,
+  updates: Partial<Comment>
+): CommentMutationResult {
+  const existing = comments.find(c => c.id === id);
+  if (!existing) {
+    throw new IssueOperationError(`Comment not found: ${id}`, 404);
+  }
+
+  const comment: Comment = {
+    ...existing,
+    body: updates.body === undefined ? existing.body : requireBody(updates.body),
+    updatedAt: new Date().toISOString(),
+  };
+
+  return {
+    comments: comments.map(c => (c.id === id ? comment : c)),
+    comment,
+  };
+}
+
+/**
+ * Delete a comment
+ */
+export function deleteComment(comments: Comment[], id: string): CommentMutationResult {
+  const existing = comments.find(c => c.id === id);
+  if (!existing) {
+    throw new IssueOperationError(`Comment not found: ${id}`, 404);
+  }
+
+  return {
+    comments: comments.filter(c => c.id !== id),
+    comment: existing,
+  };
+}
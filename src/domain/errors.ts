@@ -0,0 +1,18 @@
+/**
+ * Domain Errors - Errors raised by the domain operations
+ */
+
+/**
+ * Error raised for invalid issue, sprint and comment operations.
+ * Carries the HTTP status the route should respond with; the MCP server
+ * and the stores report the message as it is.
+ */
+export class IssueOperationError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = 'IssueOperationError';
+    this.status = status;
+  }
+}
@@ -0,0 +1,14 @@
+/**
+ * Domain - Barrel export file
+ *
+ * The rules for changing issues, sprints and comments, shared by the web
+ * server, the MCP server and the stores so every surface validates and
+ * links records the same way. Framework-free: each operation takes the
+ * current records and returns the updated ones without persisting them.
+ */
+
+export * from './errors.js';
+export * from './issues.js';
+export * from './sprints.js';
+export * from './comments.js';
+export * from './bulk.js';
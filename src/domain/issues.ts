@@ -0,0 +1,576 @@
+/**
+ * Issue Operations - Issue mutations
+ *
+ * Pure functions that apply a create/update/move/link/transition/delete/
+ * clone to the issues array and keep relationships consistent:
+ * - Parent/child links (parentId <-> childIds)
+ * - Block links (blocks <-> blockedBy)
+ * - Related links (relatedTo on both sides)
+ *
+ * Each operation returns the full updated array (to persist) along with the
+ * affected issue and any other issues that were touched, so the item routes
+ * can send clients a delta instead of the whole file. The stores run the
+ * same operations for their optimistic updates.
+ */
+
+import type { Issue } from '../types/index.js';
+import { IssueStatus, IssueType, Priority } from '../types/index.js';
+import { validateMove, getAllDescendants } from '../utils/treeOperations.js';
+import { IssueOperationError } from './errors.js';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface IssueMutationResult {
+  /** Full issues array after the mutation */
+  issues: Issue[];
+  /** The created, updated or deleted issue */
+  issue: Issue;
+  /** Other issues whose relationships were updated as a side effect */
+  related: Issue[];
+}
+
+export interface IssueTreeDeletionResult extends IssueMutationResult {
+  /** Every deleted issue: the issue itself, then its descendants */
+  deleted: Issue[];
+}
+
+export interface CloneIssueOptions {
+  /** Summary of the copy; defaults to "CLONE - <summary>", like Jira */
+  title?: string;
+  /** Also clone the issue's descendants, keeping their hierarchy */
+  includeChildren?: boolean;
+  /** Copy the blocks/blockedBy/relatedTo links, to the same issues */
+  includeLinks?: boolean;
+}
+
+export interface IssueCloneResult extends IssueMutationResult {
+  /** Each copy with the issue it was cloned from, the top one first */
+  clones: Array<{ original: Issue; clone: Issue }>;
+}
+
+/** A link kept on both issues, named by the field on the first issue */
+export type IssueLinkType = 'blocks' | 'blockedBy' | 'relatedTo';
+
+/** Fields the server owns and clients may never set directly */
+const READ_ONLY_FIELDS = ['id', 'key', 'createdAt', 'updatedAt', 'revision'] as const;
+
+/** Link fields kept symmetric between two issues */
+const LINK_FIELDS: Array<{ field: IssueLinkType; inverse: IssueLinkType }> = [
+  { field: 'blocks', inverse: 'blockedBy' },
+  { field: 'blockedBy', inverse: 'blocks' },
+  { field: 'relatedTo', inverse: 'relatedTo' },
+];
+
+// ============================================================================
+// LOOKUP & GENERATION
+// ============================================================================
+
+/**
+ * Find an issue by ID or key
+ */
+export function findIssue(issues: Issue[], idOrKey: string): Issue | undefined {
+  return issues.find(i => i.id === idOrKey || i.key === idOrKey);
+}
+
+/**
+ * Find an issue by ID or key or throw a 404
+ */
+export function requireIssue(issues: Issue[], idOrKey: string, label = 'Issue'): Issue {
+  const issue = findIssue(issues, idOrKey);
+  if (!issue) {
+    throw new IssueOperationError(`${label} not found: ${idOrKey}`, 404);
+  }
+  return issue;
+}
+
+/**
+ * Generate the next issue key for a project (e.g., "PHOENIX-54")
+ */
+export function generateIssueKey(issues: Issue[], projectKey: string): string {
+  const projectIssues = issues.filter(i => i.key.startsWith(`${projectKey}-`));
+  const maxNum = projectIssues.reduce((max, issue) => {
+    const num = parseInt(issue.key.split('-')[1], 10);
+    return isNaN(num) ? max : Math.max(max, num);
+  }, 0);
+  return `${projectKey}-${maxNum + 1}`;
+}
+
+/**
+ * Generate a unique issue ID
+ */
+export function generateIssueId(): string {
+  return `issue-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+}
+
+// ============================================================================
+// RELATIONSHIP HELPERS
+// ============================================================================
+
+/**
+ * Working copy of the issues array that tracks which records were touched.
+ * Records are cloned on first write so the caller's array is never mutated.
+ */
+class IssueDraft {
+  private byId: Map<string, Issue>;
+  private touched = new Set<string>();
+  private now: string;
+
+  constructor(issues: Issue[], now: string) {
+    this.byId = new Map(issues.map(i => [i.id, i]));
+    this.now = now;
+  }
+
+  has(id: string): boolean {
+    return this.byId.has(id);
+  }
+
+  /** Get a mutable copy of an issue, marking it as touched */
+  edit(id: string): Issue | undefined {
+    const issue = this.byId.get(id);
+    if (!issue) return undefined;
+    if (!this.touched.has(id)) {
+      const copy: Issue = {
+        ...issue,
+        labels: [...issue.labels],
+        components: [...issue.components],
+        childIds: [...issue.childIds],
+        blockedBy: [...issue.blockedBy],
+        blocks: [...issue.blocks],
+        relatedTo: [...issue.relatedTo],
+        updatedAt: this.now,
+      };
+      this.byId.set(id, copy);
+      this.touched.add(id);
+      return copy;
+    }
+    return issue;
+  }
+
+  add(issue: Issue): void {
+    this.byId.set(issue.id, issue);
+    this.touched.add(issue.id);
+  }
+
+  remove(id: string): void {
+    this.byId.delete(id);
+    this.touched.delete(id);
+  }
+
+  /** Issues touched by the mutation, excluding the primary issue */
+  relatedTo(primaryId: string): Issue[] {
+    return [...this.touched]
+      .filter(id => id !== primaryId)
+      .map(id => this.byId.get(id))
+      .filter((i): i is Issue => i !== undefined);
+  }
+
+  /** Rebuild the array, keeping the original order and appending new issues */
+  toArray(original: Issue[]): Issue[] {
+    const result: Issue[] = [];
+    const seen = new Set<string>();
+    for (const issue of original) {
+      const current = this.byId.get(issue.id);
+      if (current) {
+        result.push(current);
+        seen.add(issue.id);
+      }
+    }
+    for (const [id, issue] of this.byId) {
+      if (!seen.has(id)) result.push(issue);
+    }
+    return result;
+  }
+}
+
+function addUnique(list: string[], id: string): void {
+  if (!list.includes(id)) list.push(id);
+}
+
+function removeId(list: string[], id: string): string[] {
+  return list.filter(existing => existing !== id);
+}
+
+/**
+ * Check that every ID in a link list refers to an existing, different issue
+ */
+function assertLinkTargets(draft: IssueDraft, issueId: string, field: string, ids: string[]): void {
+  for (const targetId of ids) {
+    if (targetId === issueId) {
+      throw new IssueOperationError(`An issue cannot reference itself in ${field}`);
+    }
+    if (!draft.has(targetId)) {
+      throw new IssueOperationError(`${field} references unknown issue: ${targetId}`);
+    }
+  }
+}
+
+/**
+ * Apply new link lists to an issue and mirror the change on the other side
+ */
+function syncLinks(draft: IssueDraft, issue: Issue, previous: Pick<Issue, 'blocks' | 'blockedBy' | 'relatedTo'>): void {
+  for (const { field, inverse } of LINK_FIELDS) {
+    const before = previous[field];
+    const after = issue[field];
+
+    for (const addedId of after.filter(id => !before.includes(id))) {
+      const target = draft.edit(addedId);
+      if (target) addUnique(target[inverse], issue.id);
+    }
+    for (const removedId of before.filter(id => !after.includes(id))) {
+      const target = draft.edit(removedId);
+      if (target) target[inverse] = removeId(target[inverse], issue.id);
+    }
+  }
+}
+
+/**
+ * Move an issue under a new parent (or to root), updating both parents' childIds
+ */
+function reparent(draft: IssueDraft, issue: Issue, oldParentId: string | null, newParentId: string | null): void {
+  if (oldParentId === newParentId) return;
+
+  if (oldParentId) {
+    const oldParent = draft.edit(oldParentId);
+    if (oldParent) oldParent.childIds = removeId(oldParent.childIds, issue.id);
+  }
+  if (newParentId) {
+    const newParent = draft.edit(newParentId);
+    if (newParent) addUnique(newParent.childIds, issue.id);
+  }
+  issue.parentId = newParentId;
+}
+
+// ============================================================================
+// OPERATIONS
+// ============================================================================
+
+/**
+ * Create a new issue with a server-generated ID and key
+ */
+export function createIssue(
+  issues: Issue[],
+  input: Partial<Issue>,
+  projectKey: string,
+  defaultReporter: string
+): IssueMutationResult {
+  if (!input.title || !input.title.trim()) {
+    throw new IssueOperationError('title is required');
+  }
+
+  const now = new Date().toISOString();
+  const draft = new IssueDraft(issues, now);
+  const id = generateIssueId();
+
+  const issue: Issue = {
+    id,
+    key: generateIssueKey(issues, projectKey),
+    title: input.title.trim(),
+    description: input.description ?? '',
+    type: input.type ?? IssueType.Task,
+    status: input.status ?? IssueStatus.Todo,
+    priority: input.priority ?? Priority.Medium,
+    assignee: input.assignee ?? null,
+    reporter: input.reporter ?? defaultReporter,
+    labels: input.labels ?? [],
+    createdAt: now,
+    updatedAt: now,
+    storyPoints: input.storyPoints ?? null,
+    sprint: input.sprint ?? null,
+    version: input.version ?? null,
+    components: input.components ?? [],
+    dueDate: input.dueDate ?? null,
+    startDate: input.startDate ?? null,
+    originalEstimate: input.originalEstimate ?? null,
+    timeSpent: input.timeSpent ?? null,
+    remainingEstimate: input.remainingEstimate ?? null,
+    parentId: null,
+    childIds: [],
+    blockedBy: [...new Set(input.blockedBy ?? [])],
+    blocks: [...new Set(input.blocks ?? [])],
+    relatedTo: [...new Set(input.relatedTo ?? [])],
+  };
+
+  for (const { field } of LINK_FIELDS) {
+    assertLinkTargets(draft, id, field, issue[field]);
+  }
+  if (input.parentId && !draft.has(input.parentId)) {
+    throw new IssueOperationError(`Parent issue not found: ${input.parentId}`);
+  }
+
+  draft.add(issue);
+  reparent(draft, issue, null, input.parentId ?? null);
+  syncLinks(draft, issue, { blocks: [], blockedBy: [], relatedTo: [] });
+
+  return {
+    issues: draft.toArray(issues),
+    issue,
+    related: draft.relatedTo(id),
+  };
+}
+
+/**
+ * Apply a partial update to an issue.
+ * Changes to parentId and link lists are mirrored on the other issues.
+ */
+export function updateIssue(
+  issues: Issue[],
+  idOrKey: string,
+  updates: Partial<Issue>
+): IssueMutationResult {
+  const existing = requireIssue(issues, idOrKey);
+
+  const patch: Partial<Issue> = { ...updates };
+  for (const field of READ_ONLY_FIELDS) {
+    delete patch[field];
+  }
+
+  // childIds is derived from the children's parentId; only reordering is allowed here
+  if (patch.childIds) {
+    const sameChildren =
+      patch.childIds.length === existing.childIds.length &&
+      patch.childIds.every(id => existing.childIds.includes(id));
+    if (!sameChildren) {
+      throw new IssueOperationError('childIds can only be reordered; set parentId on the child issue instead');
+    }
+  }
+
+  const now = new Date().toISOString();
+  const draft = new IssueDraft(issues, now);
+
+  for (const { field } of LINK_FIELDS) {
+    const links = patch[field];
+    if (links) {
+      patch[field] = [...new Set(links)];
+      assertLinkTargets(draft, existing.id, field, patch[field]);
+    }
+  }
+
+  const newParentId = patch.parentId !== undefined ? patch.parentId : existing.parentId;
+  if (newParentId !== existing.parentId) {
+    const validation = validateMove(existing.id, newParentId, issues);
+    if (!validation.valid) {
+      throw new IssueOperationError(validation.reason || 'Invalid parent');
+    }
+  }
+  delete patch.parentId;
+
+  const issue = draft.edit(existing.id)!;
+  for (const [field, value] of Object.entries(patch)) {
+    // Ignore unknown fields rather than writing them to disk
+    if (field in issue) {
+      (issue as unknown as Record<string, unknown>)[field] = value;
+    }
+  }
+  reparent(draft, issue, existing.parentId, newParentId);
+  syncLinks(draft, issue, existing);
+
+  return {
+    issues: draft.toArray(issues),
+    issue,
+    related: draft.relatedTo(existing.id),
+  };
+}
+
+/**
+ * Result of an operation that left the issues as they were
+ */
+function unchanged(issues: Issue[], issue: Issue): IssueMutationResult {
+  return { issues, issue, related: [] };
+}
+
+/**
+ * Move an issue under a new parent (by ID or key), or to the root with null
+ */
+export function moveIssue(
+  issues: Issue[],
+  idOrKey: string,
+  newParentIdOrKey: string | null
+): IssueMutationResult {
+  const existing = requireIssue(issues, idOrKey);
+  const newParent = newParentIdOrKey ? findIssue(issues, newParentIdOrKey) : null;
+  if (newParent === undefined) {
+    throw new IssueOperationError(`Parent issue not found: ${newParentIdOrKey}`);
+  }
+
+  const newParentId = newParent?.id ?? null;
+  if (newParentId === existing.parentId) return unchanged(issues, existing);
+  return updateIssue(issues, existing.id, { parentId: newParentId });
+}
+
+/**
+ * Link two issues (by ID or key). The link is added to both sides:
+ * `linkIssues(issues, 'A', 'blockedBy', 'B')` also makes B block A.
+ */
+export function linkIssues(
+  issues: Issue[],
+  idOrKey: string,
+  type: IssueLinkType,
+  targetIdOrKey: string
+): IssueMutationResult {
+  const existing = requireIssue(issues, idOrKey);
+  const target = requireIssue(issues, targetIdOrKey);
+
+  if (existing[type].includes(target.id)) return unchanged(issues, existing);
+  return updateIssue(issues, existing.id, { [type]: [...existing[type], target.id] });
+}
+
+/**
+ * Remove a link between two issues (by ID or key), on both sides
+ */
+export function unlinkIssues(
+  issues: Issue[],
+  idOrKey: string,
+  type: IssueLinkType,
+  targetIdOrKey: string
+): IssueMutationResult {
+  const existing = requireIssue(issues, idOrKey);
+  const target = requireIssue(issues, targetIdOrKey);
+
+  if (!existing[type].includes(target.id)) return unchanged(issues, existing);
+  return updateIssue(issues, existing.id, { [type]: removeId(existing[type], target.id) });
+}
+
+/**
+ * Move an issue to another status. Any status can move to any other.
+ */
+export function transitionIssue(issues: Issue[], idOrKey: string, status: IssueStatus): IssueMutationResult {
+  if (!Object.values(IssueStatus).includes(status)) {
+    throw new IssueOperationError(`Invalid status: ${String(status)}`);
+  }
+  const existing = requireIssue(issues, idOrKey);
+
+  if (existing.status === status) return unchanged(issues, existing);
+  return updateIssue(issues, existing.id, { status });
+}
+
+/**
+ * Delete an issue.
+ * Children move to the root level and all links to the issue are removed.
+ */
+export function deleteIssue(issues: Issue[], idOrKey: string): IssueMutationResult {
+  const existing = requireIssue(issues, idOrKey);
+
+  const now = new Date().toISOString();
+  const draft = new IssueDraft(issues, now);
+
+  if (existing.parentId) {
+    const parent = draft.edit(existing.parentId);
+    if (parent) parent.childIds = removeId(parent.childIds, existing.id);
+  }
+  for (const child of issues.filter(i => i.parentId === existing.id)) {
+    draft.edit(child.id)!.parentId = null;
+  }
+  for (const { field, inverse } of LINK_FIELDS) {
+    for (const linkedId of existing[field]) {
+      const linked = draft.edit(linkedId);
+      if (linked) linked[inverse] = removeId(linked[inverse], existing.id);
+    }
+  }
+
+  draft.remove(existing.id);
+
+  return {
+    issues: draft.toArray(issues),
+    issue: existing,
+    related: draft.relatedTo(existing.id),
+  };
+}
+
+/**
+ * Delete an issue together with its descendants (children, grandchildren,
+ * ...). Links to any of them are removed.
+ */
+export function deleteIssueTree(issues: Issue[], idOrKey: string): IssueTreeDeletionResult {
+  const existing = requireIssue(issues, idOrKey);
+  const deleted = [existing, ...getAllDescendants(existing.id, issues)];
+
+  // Deepest first, so no child is moved to the root on the way
+  let current = issues;
+  for (const issue of [...deleted].reverse()) {
+    current = deleteIssue(current, issue.id).issues;
+  }
+
+  const before = new Map(issues.map(i => [i.id, i]));
+  return {
+    issues: current,
+    issue: existing,
+    related: current.filter(i => before.get(i.id) !== i),
+    deleted,
+  };
+}
+
+/**
+ * Copy an issue into the same project, next to the original (same parent).
+ * The copy starts in To Do with no time logged, and is reported by
+ * `reporter`. Children and links are copied only when asked for; links are
+ * added on both sides.
+ */
+export function cloneIssue(
+  issues: Issue[],
+  idOrKey: string,
+  reporter: string,
+  options: CloneIssueOptions = {}
+): IssueCloneResult {
+  const original = requireIssue(issues, idOrKey);
+  const projectKey = original.key.slice(0, original.key.lastIndexOf('-'));
+
+  let current = issues;
+  const pairs: Array<{ original: Issue; cloneId: string }> = [];
+  const visited = new Set<string>();
+
+  const copy = (source: Issue, parentId: string | null, title: string) => {
+    // Guards against hand-edited data with a cycle
+    if (visited.has(source.id)) return;
+    visited.add(source.id);
+
+    const links = options.includeLinks
+      ? { blocks: source.blocks, blockedBy: source.blockedBy, relatedTo: source.relatedTo }
+      : {};
+    const result = createIssue(current, {
+      title,
+      description: source.description,
+      type: source.type,
+      status: IssueStatus.Todo,
+      priority: source.priority,
+      assignee: source.assignee,
+      reporter,
+      labels: [...source.labels],
+      storyPoints: source.storyPoints,
+      sprint: source.sprint,
+      version: source.version,
+      components: [...source.components],
+      dueDate: source.dueDate,
+      startDate: source.startDate,
+      originalEstimate: source.originalEstimate,
+      remainingEstimate: source.originalEstimate,
+      parentId,
+      ...links,
+    }, projectKey, reporter);
+    current = result.issues;
+    pairs.push({ original: source, cloneId: result.issue.id });
+
+    if (options.includeChildren) {
+      for (const childId of source.childIds) {
+        const child = issues.find(i => i.id === childId);
+        if (child) copy(child, result.issue.id, child.title);
+      }
+    }
+  };
+  copy(original, original.parentId, options.title?.trim() || `CLONE - ${original.title}`);
+
+  // Copies are edited again as their children are added, so look up the
+  // final versions
+  const byId = new Map(current.map(i => [i.id, i]));
+  const clones = pairs.map(({ original: source, cloneId }) => ({ original: source, clone: byId.get(cloneId)! }));
+  const cloneIds = new Set(pairs.map(p => p.cloneId));
+  const before = new Map(issues.map(i => [i.id, i]));
+
+  return {
+    issues: current,
+    issue: clones[0].clone,
+    related: current.filter(i => !cloneIds.has(i.id) && before.get(i.id) !== i),
+    clones,
+  };
+}
@@ -0,0 +1,282 @@
+/**
+ * Sprint Operations - Sprint lifecycle and membership
+ *
+ * Pure functions for the sprint lifecycle and sprint membership, shared by
+ * the REST routes and the web app's sprint store:
+ * - Sprints go planned -> active -> completed
+ * - A project has at most one active sprint
+ * - Issues can't be added to a completed sprint
+ * - Completing a sprint can move its unfinished issues on, like Jira does
+ *
+ * Errors are raised as IssueOperationError so routes report them like
+ * issue errors.
+ */
+
+import type { Issue, Sprint } from '../types/index.js';
+import { IssueStatus, SprintStatus } from '../types/index.js';
+import { IssueOperationError } from './errors.js';
+import { findIssue } from './issues.js';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface SprintMutationResult {
+  /** Full sprints array after the mutation */
+  sprints: Sprint[];
+  /** The updated sprint */
+  sprint: Sprint;
+}
+
+export interface SprintMoveResult {
+  /** Full issues array after the move */
+  issues: Issue[];
+  /** Issues whose sprint changed */
+  moved: Issue[];
+}
+
+export interface SprintCompletionResult extends SprintMutationResult, SprintMoveResult {}
+
+/** How far along a sprint is */
+export interface SprintProgress {
+  sprint: Sprint;
+  /** Issues in the sprint, by status */
+  issues: Record<IssueStatus, number>;
+  totalIssues: number;
+  doneIssues: number;
+  totalStoryPoints: number;
+  doneStoryPoints: number;
+  /** Share of the issues that are done, 0-100 */
+  percentComplete: number;
+  /** Whole days until the sprint ends; negative once it is overdue */
+  daysRemaining: number;
+}
+
+/** Fields of a new sprint */
+export type SprintInput = Pick<Sprint, 'projectId' | 'name' | 'startDate' | 'endDate'> & Partial<Pick<Sprint, 'goalDescription'>>;
+
+/** Sprint fields that can be edited */
+export type SprintUpdates = Partial<Pick<Sprint, 'name' | 'startDate' | 'endDate' | 'goalDescription' | 'status'>>;
+
+const EDITABLE_FIELDS: readonly (keyof SprintUpdates)[] = ['name', 'startDate', 'endDate', 'goalDescription', 'status'];
+
+// ============================================================================
+// LOOKUP & GENERATION
+// ============================================================================
+
+/**
+ * Find a sprint or throw a 404
+ */
+export function requireSprint(sprints: Sprint[], id: string): Sprint {
+  const sprint = sprints.find(s => s.id === id);
+  if (!sprint) {
+    throw new IssueOperationError(`Sprint not found: ${id}`, 404);
+  }
+  return sprint;
+}
+
+/**
+ * The active sprint of a project, if one has been started
+ */
+export function activeSprintFor(sprints: Sprint[], projectId: string): Sprint | undefined {
+  return sprints.find(s => s.projectId === projectId && s.status === SprintStatus.Active);
+}
+
+/**
+ * Generate a unique sprint ID
+ */
+export function generateSprintId(): string {
+  return `sprint-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+}
+
+// ============================================================================
+// OPERATIONS
+// ============================================================================
+
+/**
+ * Check that a sprint may move to a new status
+ */
+function assertStatusChange(sprints: Sprint[], sprint: Sprint, status: SprintStatus): void {
+  if (status === sprint.status) return;
+
+  if (status === SprintStatus.Active) {
+    if (sprint.status !== SprintStatus.Planned) {
+      throw new IssueOperationError(`Only a planned sprint can be started; ${sprint.name} is ${sprint.status}`);
+    }
+    const existingActive = sprints.find(
+      s => s.projectId === sprint.projectId && s.status === SprintStatus.Active
+    );
+    if (existingActive) {
+      throw new IssueOperationError(`Cannot start sprint: ${existingActive.name} is already active`);
+    }
+    return;
+  }
+
+  if (status === SprintStatus.Completed && sprint.status !== SprintStatus.Active) {
+    throw new IssueOperationError(`Only an active sprint can be completed; ${sprint.name} is ${sprint.status}`);
+  }
+  if (status === SprintStatus.Planned) {
+    throw new IssueOperationError(`${sprint.name} has already started`);
+  }
+}
+
+/**
+ * Check a sprint's name and dates
+ */
+function assertDetails(sprint: Sprint): void {
+  if (!sprint.name.trim()) {
+    throw new IssueOperationError('name must not be empty');
+  }
+  if (sprint.endDate < sprint.startDate) {
+    throw new IssueOperationError('endDate must not be before startDate');
+  }
+}
+
+/**
+ * Plan a new sprint
+ */
+export function createSprint(sprints: Sprint[], input: SprintInput): SprintMutationResult {
+  if (!input.projectId) {
+    throw new IssueOperationError('projectId is required');
+  }
+  if (!input.startDate || !input.endDate) {
+    throw new IssueOperationError('startDate and endDate are required');
+  }
+
+  const sprint: Sprint = {
+    id: generateSprintId(),
+    name: (input.name ?? '').trim(),
+    projectId: input.projectId,
+    startDate: input.startDate,
+    endDate: input.endDate,
+    status: SprintStatus.Planned,
+    ...(input.goalDescription ? { goalDescription: input.goalDescription } : {}),
+  };
+  assertDetails(sprint);
+
+  return { sprints: [...sprints, sprint], sprint };
+}
+
+/**
+ * Update a sprint's details and/or move it through its lifecycle
+ */
+export function updateSprint(sprints: Sprint[], id: string, updates: SprintUpdates): SprintMutationResult {
+  const existing = requireSprint(sprints, id);
+  if (updates.status !== undefined) {
+    assertStatusChange(sprints, existing, updates.status);
+  }
+
+  // Fields outside SprintUpdates (id, projectId, revision) are ignored
+  const editable = Object.entries(updates).filter(
+    ([field, value]) => EDITABLE_FIELDS.includes(field as keyof SprintUpdates) && value !== undefined
+  );
+  const sprint: Sprint = { ...existing, ...Object.fromEntries(editable) };
+  assertDetails(sprint);
+
+  return {
+    sprints: sprints.map(s => (s.id === existing.id ? sprint : s)),
+    sprint,
+  };
+}
+
+/**
+ * Start a planned sprint
+ */
+export function startSprint(sprints: Sprint[], id: string): SprintMutationResult {
+  return updateSprint(sprints, id, { status: SprintStatus.Active });
+}
+
+/**
+ * Complete an active sprint
+ */
+export function completeSprint(sprints: Sprint[], id: string): SprintMutationResult {
+  return updateSprint(sprints, id, { status: SprintStatus.Completed });
+}
+
+/**
+ * Complete an active sprint and move its unfinished issues (anything not
+ * Done) to another sprint, or to the backlog with null
+ */
+export function completeSprintAndMoveUnfinished(
+  sprints: Sprint[],
+  issues: Issue[],
+  id: string,
+  moveUnfinishedTo: string | null
+): SprintCompletionResult {
+  if (moveUnfinishedTo === id) {
+    throw new IssueOperationError('Unfinished issues must move to another sprint or the backlog');
+  }
+
+  const completed = completeSprint(sprints, id);
+  const unfinished = issues
+    .filter(issue => issue.sprint === id && issue.status !== IssueStatus.Done)
+    .map(issue => issue.id);
+  return { ...completed, ...moveIssuesToSprint(issues, completed.sprints, moveUnfinishedTo, unfinished) };
+}
+
+/**
+ * Move issues (by ID or key) into a sprint, or to the backlog with null.
+ * Issues already there are left alone.
+ */
+export function moveIssuesToSprint(
+  issues: Issue[],
+  sprints: Sprint[],
+  sprintId: string | null,
+  issueIdsOrKeys: string[]
+): SprintMoveResult {
+  if (sprintId) {
+    const sprint = requireSprint(sprints, sprintId);
+    if (sprint.status === SprintStatus.Completed) {
+      throw new IssueOperationError(`Issues can't be added to ${sprint.name} because it is completed`);
+    }
+  }
+
+  const targets = new Set<string>();
+  for (const idOrKey of issueIdsOrKeys) {
+    const issue = findIssue(issues, idOrKey);
+    if (!issue) {
+      throw new IssueOperationError(`Issue not found: ${idOrKey}`);
+    }
+    targets.add(issue.id);
+  }
+
+  const now = new Date().toISOString();
+  const moved: Issue[] = [];
+  const updated = issues.map(issue => {
+    if (!targets.has(issue.id) || issue.sprint === sprintId) return issue;
+    const copy = { ...issue, sprint: sprintId, updatedAt: now };
+    moved.push(copy);
+    return copy;
+  });
+
+  return { issues: updated, moved };
+}
+
+// ============================================================================
+// PROGRESS
+// ============================================================================
+
+/**
+ * Count a sprint's issues and story points by status
+ */
+export function sprintProgress(sprint: Sprint, issues: Issue[], now = new Date()): SprintProgress {
+  const inSprint = issues.filter(issue => issue.sprint === sprint.id);
+  const done = inSprint.filter(issue => issue.status === IssueStatus.Done);
+  const points = (list: Issue[]) => list.reduce((sum, issue) => sum + (issue.storyPoints ?? 0), 0);
+
+  const byStatus = Object.fromEntries(Object.values(IssueStatus).map(status => [status, 0])) as Record<IssueStatus, number>;
+  for (const issue of inSprint) {
+    byStatus[issue.status]++;
+  }
+
+  return {
+    sprint,
+    issues: byStatus,
+    totalIssues: inSprint.length,
+    doneIssues: done.length,
+    totalStoryPoints: points(inSprint),
+    doneStoryPoints: points(done),
+    percentComplete: inSprint.length === 0 ? 0 : Math.round((done.length / inSprint.length) * 100),
+    daysRemaining: Math.ceil((new Date(sprint.endDate).getTime() - now.getTime()) / (24 * 60 * 60 * 1000)),
+  };
+}
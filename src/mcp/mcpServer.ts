@@ -0,0 +1,1582 @@
+/**
+ * Jira Structure Learning Tool - MCP Server
+ * 
+ * Atlassian-compatible MCP tools, resources and prompts. Implements the same
+ * tool names and schemas as the official Atlassian Rovo MCP Server to
+ * ensure skill transferability when switching to real Jira Cloud.
+ * 
+ * Also includes Structure extension tools for hierarchy learning.
+ *
+ * createMcpServer() is transport-agnostic: server.ts connects one to stdio
+ * for Claude Desktop, and the web server creates one per HTTP session at
+ * /mcp (see src/server/mcpHttp.ts).
+ */
+
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import {
+  CallToolRequestSchema,
+  ListToolsRequestSchema,
+  ListPromptsRequestSchema,
+  GetPromptRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  Tool,
+} from "@modelcontextprotocol/sdk/types.js";
+// zod is available if needed for additional validation
+import { createHash } from "crypto";
+import { DataValidationError } from "../server/validation.js";
+import { runWithWriteContext } from "../server/writeContext.js";
+import { findIssuesByJQL, encodePageToken, decodePageToken, pageBounds } from "../server/search.js";
+import { onRecordChange } from "../server/changeFeed.js";
+import {
+  formatIssueForAPI,
+  formatIssueForRead,
+  readList,
+  selectedFieldNames,
+  formatSprintForAPI,
+  resolveTransition,
+  sprintStatusFromState,
+  transitionsFor,
+} from "../server/jiraFormat.js";
+import {
+  createIssue,
+  updateIssue,
+  moveIssue,
+  linkIssues,
+  unlinkIssues,
+  deleteIssue,
+  deleteIssueTree,
+  cloneIssue,
+  transitionIssue,
+  findIssue,
+  requireIssue,
+  commentsForIssue,
+  createComment,
+  requireSprint,
+  activeSprintFor,
+  createSprint,
+  updateSprint,
+  completeSprintAndMoveUnfinished,
+  moveIssuesToSprint,
+  sprintProgress,
+  bulkUpdateIssues,
+} from "../domain/index.js";
+import type { IssueLinkType, BulkOperation, BulkIssueChange, FieldChange } from "../domain/index.js";
+import { IssueType, Priority, SprintStatus } from "../types/index.js";
+import type { Issue, Project, Sprint, Structure, User, Comment, ChangelogEntry, DataChangeEvent } from "../types/index.js";
+import { RESOURCE_TEMPLATES, listResources, readResource as renderResource } from "./resources.js";
+import type { ResourceData } from "./resources.js";
+import { PROMPTS, getPrompt } from "./prompts.js";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+type DataFile = DataChangeEvent['resource'];
+
+/**
+ * How a server reads and persists the data files; provided by the host so
+ * writes go through its storage (and, in the web server, its change feed)
+ */
+export interface McpDataAccess {
+  read: <T>(resource: DataFile) => T[];
+  save: <T>(resource: DataFile, records: T[]) => void;
+  /** An issue's changelog, newest first (see server/history.ts) */
+  readChangelog: (issueId: string) => ChangelogEntry[];
+  /** Run reads and writes as one storage transaction (see server/storage.ts) */
+  transaction: <T>(fn: () => T) => T;
+}
+
+// ============================================================================
+// FIELDS
+// ============================================================================
+
+// Map API field names to internal names
+const FIELD_MAP: Record<string, keyof Issue> = {
+  summary: 'title',
+  description: 'description',
+  priority: 'priority',
+  assignee: 'assignee',
+  labels: 'labels',
+  storyPoints: 'storyPoints',
+  sprint: 'sprint',
+  components: 'components',
+  dueDate: 'dueDate',
+  startDate: 'startDate',
+};
+
+/**
+ * Issue updates from the `fields` argument of editJiraIssue and
+ * bulkEditJiraIssues
+ */
+function issueUpdatesFromFields(fields: Record<string, unknown>): Partial<Issue> {
+  const updates: Record<string, unknown> = {};
+  for (const [apiField, value] of Object.entries(fields)) {
+    updates[FIELD_MAP[apiField] || apiField] = value;
+  }
+  return updates as Partial<Issue>;
+}
+
+// ============================================================================
+// TOOL DEFINITIONS
+// ============================================================================
+
+/** Most issues a bulk edit's query may match */
+const MAX_BULK_ISSUES = 100;
+
+/** Bulk edits changing more issues than this need a dry run's confirmation token */
+const CONFIRM_BULK_ABOVE = 10;
+
+/**
+ * Tools that write. Each call runs as one storage transaction, so the
+ * records a tool reads can't change under it before it saves.
+ */
+const WRITE_TOOLS = new Set([
+  "createJiraIssue",
+  "editJiraIssue",
+  "transitionJiraIssue",
+  "addCommentToJiraIssue",
+  "moveJiraIssueInHierarchy",
+  "linkJiraIssues",
+  "unlinkJiraIssues",
+  "deleteJiraIssue",
+  "cloneJiraIssue",
+  "createJiraSprint",
+  "addIssuesToJiraSprint",
+  "removeIssuesFromJiraSprint",
+  "startJiraSprint",
+  "completeJiraSprint",
+  "bulkEditJiraIssues",
+]);
+
+// The `fields` and `expand` arguments of the issue reads, as in Jira's REST API
+const FIELDS_ARGUMENT = {
+  type: "array",
+  items: { type: "string" },
+  description:
+    "Fields to return (default: all), e.g. [\"summary\", \"status\", \"assignee\"]. " +
+    "\"*all\" and \"*navigable\" select every field, \"-field\" leaves one out"
+};
+
+const EXPAND_ARGUMENT = {
+  type: "string",
+  description:
+    "Comma-separated extras: renderedFields (HTML description, display dates), names (field display names), changelog (field change history)"
+};
+
+// Atlassian-compatible tools
+const TOOLS: Tool[] = [
+  // Core Issue Tools
+  {
+    name: "searchJiraIssuesUsingJql",
+    description: "Search for Jira issues using JQL (Jira Query Language). Returns issues matching the query.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        jql: {
+          type: "string",
+          description: "JQL query string (e.g., 'type = Bug AND (priority = High OR labels = security)'). Supports AND, OR, NOT, parentheses, =, !=, >, <, >=, <=, ~, IN and NOT IN"
+        },
+        maxResults: {
+          type: "integer",
+          minimum: 0,
+          description: "Maximum number of results to return (default: 50)"
+        },
+        startAt: {
+          type: "integer",
+          minimum: 0,
+          description: "Index of the first result to return (default: 0)"
+        },
+        nextPageToken: {
+          type: "string",
+          description: "Token from the previous page's nextPageToken, to get the next page"
+        },
+        fields: FIELDS_ARGUMENT,
+        expand: EXPAND_ARGUMENT
+      },
+      required: ["jql"]
+    }
+  },
+  {
+    name: "getJiraIssue",
+    description: "Get a single Jira issue by its ID or key.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        issueIdOrKey: {
+          type: "string",
+          description: "The issue ID or key (e.g., 'PHOENIX-123')"
+        },
+        fields: FIELDS_ARGUMENT,
+        expand: EXPAND_ARGUMENT
+      },
+      required: ["issueIdOrKey"]
+    }
+  },
+  {
+    name: "createJiraIssue",
+    description: "Create a new Jira issue.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        projectKey: {
+          type: "string",
+          description: "The project key (e.g., 'PHOENIX')"
+        },
+        issueType: {
+          type: "string",
+          description: "Type of issue (Initiative, Epic, Feature, Story, Task, Bug, Subtask)"
+        },
+        summary: {
+          type: "string",
+          description: "Issue title/summary"
+        },
+        description: {
+          type: "string",
+          description: "Issue description (optional)"
+        },
+        priority: {
+          type: "string",
+          description: "Priority level (Highest, High, Medium, Low, Lowest)"
+        },
+        assignee: {
+          type: "string",
+          description: "Assignee user ID (optional)"
+        },
+        labels: {
+          type: "array",
+          items: { type: "string" },
+          description: "Labels to apply (optional)"
+        },
+        parentKey: {
+          type: "string",
+          description: "Parent issue key for hierarchy (optional)"
+        }
+      },
+      required: ["projectKey", "issueType", "summary"]
+    }
+  },
+  {
+    name: "editJiraIssue",
+    description: "Update fields on an existing Jira issue.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        issueIdOrKey: {
+          type: "string",
+          description: "The issue ID or key to update"
+        },
+        fields: {
+          type: "object",
+          description: "Fields to update (summary, description, priority, assignee, labels, etc.)"
+        }
+      },
+      required: ["issueIdOrKey", "fields"]
+    }
+  },
+  {
+    name: "transitionJiraIssue",
+    description: "Change the status of an issue using a workflow transition.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        issueIdOrKey: {
+          type: "string",
+          description: "The issue ID or key"
+        },
+        transitionId: {
+          type: "string",
+          description: "The transition ID from getTransitionsForJiraIssue (e.g., '2') or name (e.g., 'In Progress', 'Done')"
+        }
+      },
+      required: ["issueIdOrKey", "transitionId"]
+    }
+  },
+  
+  // Metadata Tools
+  {
+    name: "getVisibleJiraProjects",
+    description: "List all accessible Jira projects.",
+    inputSchema: {
+      type: "object",
+      properties: {}
+    }
+  },
+  {
+    name: "getJiraProjectIssueTypesMetadata",
+    description: "Get the available issue types for a project.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        projectKey: {
+          type: "string",
+          description: "The project key"
+        }
+      },
+      required: ["projectKey"]
+    }
+  },
+  {
+    name: "getJiraIssueTypeMetaWithFields",
+    description: "Get field metadata for a specific issue type.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        projectKey: {
+          type: "string",
+          description: "The project key"
+        },
+        issueTypeId: {
+          type: "string",
+          description: "The issue type ID or name"
+        }
+      },
+      required: ["projectKey", "issueTypeId"]
+    }
+  },
+  {
+    name: "getTransitionsForJiraIssue",
+    description: "Get available workflow transitions for an issue.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        issueIdOrKey: {
+          type: "string",
+          description: "The issue ID or key"
+        }
+      },
+      required: ["issueIdOrKey"]
+    }
+  },
+  
+  // User & Comment Tools
+  {
+    name: "atlassianUserInfo",
+    description: "Get the user this server acts as (set with an API token).",
+    inputSchema: {
+      type: "object",
+      properties: {}
+    }
+  },
+  {
+    name: "lookupJiraAccountId",
+    description: "Find users by name or email.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        query: {
+          type: "string",
+          description: "Search query (name or email)"
+        }
+      },
+      required: ["query"]
+    }
+  },
+  {
+    name: "addCommentToJiraIssue",
+    description: "Add a comment to an issue.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        issueIdOrKey: {
+          type: "string",
+          description: "The issue ID or key"
+        },
+        body: {
+          type: "string",
+          description: "Comment text"
+        }
+      },
+      required: ["issueIdOrKey", "body"]
+    }
+  },
+  {
+    name: "getJiraIssueComments",
+    description: "Get the comments on an issue, oldest first.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        issueIdOrKey: {
+          type: "string",
+          description: "The issue ID or key"
+        },
+        maxResults: {
+          type: "integer",
+          minimum: 0,
+          description: "Maximum number of comments to return (default: 50)"
+        },
+        startAt: {
+          type: "integer",
+          minimum: 0,
+          description: "Index of the first comment to return (default: 0)"
+        }
+      },
+      required: ["issueIdOrKey"]
+    }
+  },
+  
+  // Structure Extension Tools (not in official Atlassian API)
+  {
+    name: "getJiraIssueHierarchy",
+    description: "Get the parent/child hierarchy tree for an issue. (Structure extension)",
+    inputSchema: {
+      type: "object",
+      properties: {
+        issueIdOrKey: {
+          type: "string",
+          description: "The issue ID or key"
+        },
+        depth: {
+          type: "number",
+          description: "How many levels deep to retrieve (default: all)"
+        }
+      },
+      required: ["issueIdOrKey"]
+    }
+  },
+  {
+    name: "moveJiraIssueInHierarchy",
+    description: "Move an issue to a new parent in the hierarchy. (Structure extension)",
+    inputSchema: {
+      type: "object",
+      properties: {
+        issueIdOrKey: {
+          type: "string",
+          description: "The issue ID or key to move"
+        },
+        newParentKey: {
+          type: "string",
+          description: "New parent issue key (omit or null to make root-level)"
+        }
+      },
+      required: ["issueIdOrKey"]
+    }
+  },
+  {
+    name: "linkJiraIssues",
+    description: "Create or remove issue links (blocks, relates to). (Structure extension)",
+    inputSchema: {
+      type: "object",
+      properties: {
+        sourceKey: {
+          type: "string",
+          description: "Source issue key"
+        },
+        targetKey: {
+          type: "string",
+          description: "Target issue key"
+        },
+        linkType: {
+          type: "string",
+          description: "Link type: 'blocks', 'blocked_by', 'relates_to'"
+        },
+        action: {
+          type: "string",
+          description: "'create' or 'remove'"
+        }
+      },
+      required: ["sourceKey", "targetKey", "linkType", "action"]
+    }
+  },
+  {
+    name: "unlinkJiraIssues",
+    description: "Remove the links between two issues, on both issues. (Structure extension)",
+    inputSchema: {
+      type: "object",
+      properties: {
+        sourceKey: {
+          type: "string",
+          description: "Source issue key"
+        },
+        targetKey: {
+          type: "string",
+          description: "Target issue key"
+        },
+        linkType: {
+          type: "string",
+          description: "Link type to remove: 'blocks', 'blocked_by', 'relates_to'; all links between the issues if omitted"
+        }
+      },
+      required: ["sourceKey", "targetKey"]
+    }
+  },
+
+  // Issue Lifecycle Tools (not in official Atlassian API)
+  {
+    name: "deleteJiraIssue",
+    description:
+      "Delete an issue, its comments and its links. Its children become root issues, as when deleting in the web app, " +
+      "unless deleteChildren is set. (Lifecycle extension)",
+    inputSchema: {
+      type: "object",
+      properties: {
+        issueIdOrKey: {
+          type: "string",
+          description: "Issue ID or key"
+        },
+        deleteChildren: {
+          type: "boolean",
+          description: "Also delete the issue's descendants (default: false)"
+        }
+      },
+      required: ["issueIdOrKey"]
+    }
+  },
+  {
+    name: "cloneJiraIssue",
+    description:
+      "Copy an issue into the same project, under the same parent. The copy starts in To Do and is reported by you. (Lifecycle extension)",
+    inputSchema: {
+      type: "object",
+      properties: {
+        issueIdOrKey: {
+          type: "string",
+          description: "Issue ID or key"
+        },
+        summary: {
+          type: "string",
+          description: "Summary of the copy (default: \"CLONE - <summary>\")"
+        },
+        includeChildren: {
+          type: "boolean",
+          description: "Also copy the issue's descendants, keeping their hierarchy (default: false)"
+        },
+        includeLinks: {
+          type: "boolean",
+          description: "Copy the issue's links (blocks, blocked by, relates to) to the copies (default: false)"
+        }
+      },
+      required: ["issueIdOrKey"]
+    }
+  },
+
+  // Sprint Tools (not in official Atlassian API; sprints use the shapes of
+  // Jira's Agile REST API, as served under /rest/agile/1.0)
+  {
+    name: "getJiraProjectSprints",
+    description: "List a project's sprints, in planned order. (Sprint extension)",
+    inputSchema: {
+      type: "object",
+      properties: {
+        projectKey: {
+          type: "string",
+          description: "Project key (e.g., 'PHOENIX')"
+        },
+        state: {
+          type: "string",
+          description: "Only sprints in these states, comma-separated: 'future', 'active', 'closed'"
+        }
+      },
+      required: ["projectKey"]
+    }
+  },
+  {
+    name: "createJiraSprint",
+    description: "Plan a new sprint in a project. (Sprint extension)",
+    inputSchema: {
+      type: "object",
+      properties: {
+        projectKey: {
+          type: "string",
+          description: "Project key (e.g., 'PHOENIX')"
+        },
+        name: {
+          type: "string",
+          description: "Sprint name (e.g., 'Sprint 7')"
+        },
+        startDate: {
+          type: "string",
+          description: "Planned start (ISO date, e.g., '2026-03-02')"
+        },
+        endDate: {
+          type: "string",
+          description: "Planned end (ISO date)"
+        },
+        goal: {
+          type: "string",
+          description: "Sprint goal"
+        }
+      },
+      required: ["projectKey", "name", "startDate", "endDate"]
+    }
+  },
+  {
+    name: "addIssuesToJiraSprint",
+    description: "Move issues into a planned or active sprint. (Sprint extension)",
+    inputSchema: {
+      type: "object",
+      properties: {
+        sprintId: {
+          type: "string",
+          description: "Sprint ID"
+        },
+        issueKeys: {
+          type: "array",
+          items: { type: "string" },
+          description: "Keys or IDs of the issues to move"
+        }
+      },
+      required: ["sprintId", "issueKeys"]
+    }
+  },
+  {
+    name: "removeIssuesFromJiraSprint",
+    description: "Move issues out of their sprint, to the backlog. (Sprint extension)",
+    inputSchema: {
+      type: "object",
+      properties: {
+        issueKeys: {
+          type: "array",
+          items: { type: "string" },
+          description: "Keys or IDs of the issues to move"
+        }
+      },
+      required: ["issueKeys"]
+    }
+  },
+  {
+    name: "startJiraSprint",
+    description: "Start a planned sprint. A project can only have one active sprint. (Sprint extension)",
+    inputSchema: {
+      type: "object",
+      properties: {
+        sprintId: {
+          type: "string",
+          description: "Sprint ID"
+        },
+        startDate: {
+          type: "string",
+          description: "Actual start (ISO date); defaults to the planned start"
+        },
+        endDate: {
+          type: "string",
+          description: "Planned end (ISO date); defaults to the planned end"
+        }
+      },
+      required: ["sprintId"]
+    }
+  },
+  {
+    name: "completeJiraSprint",
+    description: "Complete the active sprint. Unfinished issues (not Done) move to the backlog or to another sprint. (Sprint extension)",
+    inputSchema: {
+      type: "object",
+      properties: {
+        sprintId: {
+          type: "string",
+          description: "Sprint ID"
+        },
+        moveUnfinishedIssuesTo: {
+          type: "string",
+          description: "Sprint ID to move unfinished issues to, or 'backlog' (default)"
+        }
+      },
+      required: ["sprintId"]
+    }
+  },
+  {
+    name: "getJiraSprintProgress",
+    description: "Issue and story point counts by status for a sprint, by default the project's active sprint. (Sprint extension)",
+    inputSchema: {
+      type: "object",
+      properties: {
+        sprintId: {
+          type: "string",
+          description: "Sprint ID"
+        },
+        projectKey: {
+          type: "string",
+          description: "Project key, to get its active sprint when no sprintId is given"
+        }
+      }
+    }
+  },
+
+  // Bulk Tools (not in official Atlassian API; Jira Cloud does bulk edits
+  // in its web UI)
+  {
+    name: "bulkEditJiraIssues",
+    description:
+      `Apply one change to every issue matching a JQL query, in a single write. Use dryRun first to see the affected issues and a diff of each. ` +
+      `At most ${MAX_BULK_ISSUES} issues can match; changing more than ${CONFIRM_BULK_ABOVE} needs the confirmationToken of a dry run. (Bulk extension)`,
+    inputSchema: {
+      type: "object",
+      properties: {
+        jql: {
+          type: "string",
+          description: "JQL query selecting the issues to change"
+        },
+        operation: {
+          type: "string",
+          enum: ["setFields", "transition", "moveToSprint", "addLabels", "removeLabels", "reparent"],
+          description: "The change to make"
+        },
+        fields: {
+          type: "object",
+          description: "For setFields: fields to set, as in editJiraIssue (summary, priority, assignee, storyPoints, components, dueDate, ...)"
+        },
+        transitionId: {
+          type: "string",
+          description: "For transition: transition ID, name or target status"
+        },
+        sprintId: {
+          type: "string",
+          description: "For moveToSprint: sprint ID, or \"backlog\" to remove the issues from their sprint"
+        },
+        labels: {
+          type: "array",
+          items: { type: "string" },
+          description: "For addLabels and removeLabels: the labels"
+        },
+        parentKey: {
+          type: "string",
+          description: "For reparent: key of the new parent; empty to move the issues to the root"
+        },
+        dryRun: {
+          type: "boolean",
+          description: "Return the changes without saving them (default: false)"
+        },
+        confirmationToken: {
+          type: "string",
+          description: "Token returned by a dry run of the same edit; needed when it changes many issues"
+        }
+      },
+      required: ["jql", "operation"]
+    }
+  }
+];
+
+// ============================================================================
+// LINKS
+// ============================================================================
+
+/** Link types as named in tool arguments */
+const LINK_TYPES: Record<string, IssueLinkType> = {
+  'blocks': 'blocks',
+  'blocked_by': 'blockedBy',
+  'relates_to': 'relatedTo',
+};
+
+function readLinkType(linkType: string): IssueLinkType {
+  const type = LINK_TYPES[linkType.toLowerCase()];
+  if (!type) {
+    throw new Error(`Invalid link type: ${linkType}. Valid types: ${Object.keys(LINK_TYPES).join(", ")}`);
+  }
+  return type;
+}
+
+// ============================================================================
+// BULK EDITS
+// ============================================================================
+
+/**
+ * The operation of a bulkEditJiraIssues call
+ */
+function readBulkOperation(args: Record<string, unknown>): BulkOperation {
+  const operation = args.operation as string;
+  const labels = () => {
+    if (!Array.isArray(args.labels) || args.labels.length === 0) {
+      throw new Error(`${operation} needs a non-empty list of labels`);
+    }
+    return args.labels.map(String);
+  };
+
+  switch (operation) {
+    case "setFields":
+      if (!args.fields || typeof args.fields !== "object") {
+        throw new Error("setFields needs the fields to set");
+      }
+      return { type: "setFields", updates: issueUpdatesFromFields(args.fields as Record<string, unknown>) };
+    case "transition":
+      if (!args.transitionId) {
+        throw new Error("transition needs a transitionId");
+      }
+      return { type: "transition", status: resolveTransition(args.transitionId as string) };
+    case "moveToSprint":
+      if (!args.sprintId) {
+        throw new Error("moveToSprint needs a sprintId (or \"backlog\")");
+      }
+      return { type: "moveToSprint", sprintId: args.sprintId === "backlog" ? null : args.sprintId as string };
+    case "addLabels":
+      return { type: "addLabels", labels: labels() };
+    case "removeLabels":
+      return { type: "removeLabels", labels: labels() };
+    case "reparent":
+      return { type: "reparent", parentIdOrKey: (args.parentKey as string | undefined) || null };
+    default:
+      throw new Error(`Invalid operation: ${operation}. Valid operations: setFields, transition, moveToSprint, addLabels, removeLabels, reparent`);
+  }
+}
+
+/**
+ * Ties a dry run to the edit it previewed: the same query and operation
+ * on the same issues, none of which changed since
+ */
+function bulkConfirmationToken(jql: string, operation: BulkOperation, matches: Issue[]): string {
+  const state = matches.map(issue => [issue.id, issue.revision ?? issue.updatedAt]);
+  return createHash("sha256").update(JSON.stringify([jql.trim(), operation, state])).digest("hex").slice(0, 16);
+}
+
+/**
+ * A bulk diff with API field names, and parents as keys
+ */
+function formatBulkChanges(change: BulkIssueChange, issues: Issue[]): Record<string, FieldChange> {
+  const apiNames = Object.fromEntries(Object.entries(FIELD_MAP).map(([api, field]) => [field, api]));
+  const keyOf = (id: unknown) => (typeof id === "string" ? findIssue(issues, id)?.key ?? id : null);
+
+  const formatted: Record<string, FieldChange> = {};
+  for (const [field, { from, to }] of Object.entries(change.changes) as Array<[string, FieldChange]>) {
+    if (field === "parentId") {
+      formatted.parent = { from: keyOf(from), to: keyOf(to) };
+    } else {
+      formatted[apiNames[field] ?? field] = { from, to };
+    }
+  }
+  return formatted;
+}
+
+// ============================================================================
+// SERVER
+// ============================================================================
+
+/**
+ * Create an MCP server with every tool, resource and prompt, acting as
+ * `actingUser` (or, without one, attributing new issues and comments to
+ * the project lead). Each connection (a stdio process, or an HTTP
+ * session) gets its own server; resource subscriptions are per server.
+ */
+export function createMcpServer(data: McpDataAccess, actingUser: User | null): Server {
+  // ============================================================================
+  // DATA ACCESS
+  // ============================================================================
+
+  function readResource<T>(resource: DataFile): T[] {
+    return data.read<T>(resource);
+  }
+
+  function saveResourceData<T>(resource: DataFile, records: T[]): void {
+    data.save(resource, records);
+  }
+
+  function getIssues(): Issue[] {
+    return readResource<Issue>('issues');
+  }
+
+  function saveIssues(issues: Issue[]): void {
+    saveResourceData('issues', issues);
+  }
+
+  function getProjects(): Project[] {
+    return readResource<Project>('projects');
+  }
+
+  function getUsers(): User[] {
+    return readResource<User>('users');
+  }
+
+  function getComments(): Comment[] {
+    return readResource<Comment>('comments');
+  }
+
+  function saveComments(comments: Comment[]): void {
+    saveResourceData('comments', comments);
+  }
+
+  function getSprints(): Sprint[] {
+    return readResource<Sprint>('sprints');
+  }
+
+  function saveSprints(sprints: Sprint[]): void {
+    saveResourceData('sprints', sprints);
+  }
+
+  function requireProject(projectKey: string): Project {
+    const project = getProjects().find(p => p.key === projectKey);
+    if (!project) {
+      throw new Error(`Project not found: ${projectKey}`);
+    }
+    return project;
+  }
+
+  /**
+   * The `issueKeys` argument of the sprint tools
+   */
+  function readIssueKeys(args: Record<string, unknown>): string[] {
+    const keys = args.issueKeys;
+    if (!Array.isArray(keys) || keys.length === 0) {
+      throw new Error("issueKeys must be a non-empty list of issue keys");
+    }
+    return keys.map(String);
+  }
+
+  /**
+   * Who new issues and comments in a project are attributed to
+   */
+  function actingUserFor(projectKey: string): string {
+    if (actingUser) return actingUser.id;
+    const project = getProjects().find(p => p.key === projectKey);
+    return project?.lead ?? getUsers()[0]?.id;
+  }
+
+  /**
+   * Remove deleted issues from structure root lists and delete their
+   * comments, like deleting in the web app
+   */
+  function removeDeletedIssues(issueIds: string[]): void {
+    const deleted = new Set(issueIds);
+
+    const structures = readResource<Structure>('structures');
+    if (structures.some(s => s.rootIssueIds.some(id => deleted.has(id)))) {
+      saveResourceData('structures', structures.map(s => ({
+        ...s,
+        rootIssueIds: s.rootIssueIds.filter(id => !deleted.has(id)),
+      })));
+    }
+
+    const comments = getComments();
+    if (comments.some(c => deleted.has(c.issueId))) {
+      saveComments(comments.filter(c => !deleted.has(c.issueId)));
+    }
+  }
+
+  /**
+   * An issue as getJiraIssue and searches return it, with the `fields` and
+   * `expand` arguments applied
+   */
+  function formatIssueRead(issue: Issue, fields: string[] | undefined, expand: string[]): Record<string, unknown> {
+    const changelog = expand.includes("changelog") ? data.readChangelog(issue.id) : undefined;
+    return formatIssueForRead(issue, { fields, expand, changelog });
+  }
+
+  // ============================================================================
+  // JQL SEARCH
+  // ============================================================================
+
+  function searchIssuesWithJQL(jql: string): Issue[] {
+    // Same parser and evaluator as the web app's search bar and /api/search
+    return findIssuesByJQL(getIssues(), jql);
+  }
+
+  // ============================================================================
+  // TOOL HANDLERS
+  // ============================================================================
+
+  function handleToolCall(name: string, args: Record<string, unknown>): unknown {
+    switch (name) {
+      case "searchJiraIssuesUsingJql": {
+        const jql = args.jql as string;
+        const { startAt, maxResults } = pageBounds({
+          startAt: args.nextPageToken ? decodePageToken(String(args.nextPageToken)) : args.startAt,
+          maxResults: args.maxResults,
+        });
+        const fields = readList(args.fields);
+        const expand = readList(args.expand) ?? [];
+
+        const allResults = searchIssuesWithJQL(jql);
+        const end = startAt + maxResults;
+        const paginatedResults = allResults.slice(startAt, end);
+        const isLast = end >= allResults.length;
+
+        // Field names are listed once for the whole page, like Jira's search
+        return {
+          issues: paginatedResults.map(issue => formatIssueRead(issue, fields, expand.filter(e => e !== "names"))),
+          ...(expand.includes("names") ? { names: selectedFieldNames(fields) } : {}),
+          total: allResults.length,
+          startAt,
+          maxResults,
+          isLast,
+          // A count-only page (maxResults 0) has no next page to move on to
+          ...(isLast || maxResults === 0 ? {} : { nextPageToken: encodePageToken(end) })
+        };
+      }
+
+      case "getJiraIssue": {
+        const issue = requireIssue(getIssues(), args.issueIdOrKey as string);
+        return { issue: formatIssueRead(issue, readList(args.fields), readList(args.expand) ?? []) };
+      }
+
+      case "createJiraIssue": {
+        const projectKey = args.projectKey as string;
+        const issueType = args.issueType as string;
+        const parentKey = args.parentKey as string | undefined;
+
+        // Validate project exists
+        const projects = getProjects();
+        const project = projects.find(p => p.key === projectKey);
+        if (!project) {
+          throw new Error(`Project not found: ${projectKey}`);
+        }
+
+        // Validate issue type
+        if (!Object.values(IssueType).includes(issueType as IssueType)) {
+          throw new Error(`Invalid issue type: ${issueType}`);
+        }
+
+        const issues = getIssues();
+        const parent = parentKey ? requireIssue(issues, parentKey, "Parent issue") : null;
+        const { issues: updated, issue } = createIssue(issues, {
+          title: args.summary as string,
+          description: (args.description as string) || '',
+          type: issueType as IssueType,
+          priority: ((args.priority as string) || 'Medium') as Priority,
+          assignee: (args.assignee as string) || null,
+          labels: (args.labels as string[]) || [],
+          parentId: parent?.id ?? null,
+        }, projectKey, actingUserFor(projectKey));
+        saveIssues(updated);
+
+        return {
+          id: issue.id,
+          key: issue.key,
+          self: `/api/issues/${issue.key}`
+        };
+      }
+
+      case "editJiraIssue": {
+        const issueIdOrKey = args.issueIdOrKey as string;
+        const updates = issueUpdatesFromFields(args.fields as Record<string, unknown>);
+
+        // Unknown and read-only fields are ignored; parent and link changes
+        // are mirrored on the other issues
+        saveIssues(updateIssue(getIssues(), issueIdOrKey, updates).issues);
+
+        return { success: true };
+      }
+
+      case "transitionJiraIssue": {
+        // Transition ID ("2"), name ("Start Progress") or target status
+        const status = resolveTransition(args.transitionId as string);
+        saveIssues(transitionIssue(getIssues(), args.issueIdOrKey as string, status).issues);
+
+        return { success: true };
+      }
+
+      case "getVisibleJiraProjects": {
+        const projects = getProjects();
+        return {
+          projects: projects.map(p => ({
+            id: p.id,
+            key: p.key,
+            name: p.name,
+            description: p.description,
+            lead: p.lead
+          }))
+        };
+      }
+
+      case "getJiraProjectIssueTypesMetadata": {
+        // Return all issue types (this local tool doesn't restrict by project)
+        return {
+          issueTypes: Object.values(IssueType).map((type, index) => ({
+            id: String(index + 1),
+            name: type,
+            description: `${type} issue type`,
+            subtask: type === IssueType.Subtask
+          }))
+        };
+      }
+
+      case "getJiraIssueTypeMetaWithFields": {
+        // Return standard fields available for all issue types
+        return {
+          fields: [
+            { key: 'summary', name: 'Summary', required: true, type: 'string' },
+            { key: 'description', name: 'Description', required: false, type: 'string' },
+            { key: 'priority', name: 'Priority', required: false, type: 'priority', allowedValues: Object.values(Priority) },
+            { key: 'assignee', name: 'Assignee', required: false, type: 'user' },
+            { key: 'labels', name: 'Labels', required: false, type: 'array' },
+            { key: 'storyPoints', name: 'Story Points', required: false, type: 'number' },
+            { key: 'sprint', name: 'Sprint', required: false, type: 'sprint' },
+            { key: 'dueDate', name: 'Due Date', required: false, type: 'date' },
+            { key: 'startDate', name: 'Start Date', required: false, type: 'date' },
+            { key: 'components', name: 'Components', required: false, type: 'array' },
+          ]
+        };
+      }
+
+      case "getTransitionsForJiraIssue": {
+        const issue = requireIssue(getIssues(), args.issueIdOrKey as string);
+        return { transitions: transitionsFor(issue) };
+      }
+
+      case "atlassianUserInfo": {
+        if (!actingUser) {
+          throw new Error("No API token configured; set JIRA_API_TOKEN or pass --token to act as a user");
+        }
+        return {
+          accountId: actingUser.id,
+          displayName: actingUser.displayName,
+          emailAddress: actingUser.email,
+          avatarUrl: actingUser.avatarUrl
+        };
+      }
+
+      case "lookupJiraAccountId": {
+        const query = (args.query as string).toLowerCase();
+        const users = getUsers();
+
+        const matches = users.filter(u => 
+          u.displayName.toLowerCase().includes(query) ||
+          u.email.toLowerCase().includes(query)
+        );
+
+        return {
+          users: matches.map(u => ({
+            accountId: u.id,
+            displayName: u.displayName,
+            emailAddress: u.email,
+            avatarUrl: u.avatarUrl
+          }))
+        };
+      }
+
+      case "addCommentToJiraIssue": {
+        const issue = requireIssue(getIssues(), args.issueIdOrKey as string);
+
+        const { comments, comment } = createComment(getComments(), issue.id, {
+          author: actingUserFor(issue.key.split('-')[0]),
+          body: args.body as string,
+        });
+        saveComments(comments);
+
+        return {
+          id: comment.id,
+          created: comment.createdAt
+        };
+      }
+
+      case "getJiraIssueComments": {
+        const { startAt, maxResults } = pageBounds({ startAt: args.startAt, maxResults: args.maxResults });
+
+        const issue = requireIssue(getIssues(), args.issueIdOrKey as string);
+        const users = getUsers();
+        const comments = commentsForIssue(getComments(), issue.id);
+
+        return {
+          comments: comments.slice(startAt, startAt + maxResults).map(c => ({
+            id: c.id,
+            author: {
+              accountId: c.author,
+              displayName: users.find(u => u.id === c.author)?.displayName ?? c.author
+            },
+            body: c.body,
+            created: c.createdAt,
+            updated: c.updatedAt
+          })),
+          total: comments.length,
+          startAt,
+          maxResults
+        };
+      }
+
+      case "getJiraIssueHierarchy": {
+        const issueIdOrKey = args.issueIdOrKey as string;
+        const depth = args.depth as number | undefined;
+
+        const issues = getIssues();
+        const issue = requireIssue(issues, issueIdOrKey);
+
+        // Get parent
+        const parent = issue.parentId ? findIssue(issues, issue.parentId) : undefined;
+
+        // Get children recursively
+        function getChildrenRecursive(parentId: string, currentDepth: number): Issue[] {
+          if (depth !== undefined && currentDepth >= depth) return [];
+
+          const children = issues.filter(i => i.parentId === parentId);
+          const result: Issue[] = [];
+
+          for (const child of children) {
+            result.push(child);
+            result.push(...getChildrenRecursive(child.id, currentDepth + 1));
+          }
+
+          return result;
+        }
+
+        const children = getChildrenRecursive(issue.id, 0);
+
+        return {
+          issue: formatIssueForAPI(issue),
+          parent: parent ? formatIssueForAPI(parent) : null,
+          children: children.map(formatIssueForAPI)
+        };
+      }
+
+      case "moveJiraIssueInHierarchy": {
+        // Same checks as moving an issue in the web app: no cycles, no self-parenting
+        const newParentKey = args.newParentKey as string | undefined;
+        saveIssues(moveIssue(getIssues(), args.issueIdOrKey as string, newParentKey || null).issues);
+
+        return { success: true };
+      }
+
+      case "linkJiraIssues": {
+        const type = readLinkType(args.linkType as string);
+        const action = args.action as 'create' | 'remove';
+
+        // The link is kept on both issues (A blocks B <-> B is blocked by A)
+        const link = action === 'remove' ? unlinkIssues : linkIssues;
+        saveIssues(link(getIssues(), args.sourceKey as string, type, args.targetKey as string).issues);
+
+        return { success: true };
+      }
+
+      case "unlinkJiraIssues": {
+        const issues = getIssues();
+        const source = requireIssue(issues, args.sourceKey as string);
+        const target = requireIssue(issues, args.targetKey as string);
+        const types = args.linkType ? [readLinkType(args.linkType as string)] : Object.values(LINK_TYPES);
+        const linked = Object.entries(LINK_TYPES)
+          .filter(([, type]) => types.includes(type) && source[type].includes(target.id));
+
+        // Each link is removed on both issues
+        let updated = issues;
+        for (const [, type] of linked) {
+          updated = unlinkIssues(updated, source.id, type, target.id).issues;
+        }
+        if (linked.length > 0) {
+          saveIssues(updated);
+        }
+
+        return { success: true, removed: linked.map(([linkType]) => linkType) };
+      }
+
+      // Issue Lifecycle Tools
+      case "deleteJiraIssue": {
+        const issues = getIssues();
+        const issue = requireIssue(issues, args.issueIdOrKey as string);
+        const result = args.deleteChildren
+          ? deleteIssueTree(issues, issue.id)
+          : { ...deleteIssue(issues, issue.id), deleted: [issue] };
+
+        // Structures, comments and issues commit together (see WRITE_TOOLS)
+        removeDeletedIssues(result.deleted.map(i => i.id));
+        saveIssues(result.issues);
+
+        return {
+          success: true,
+          deleted: result.deleted.map(i => i.key),
+          // Children that are now root issues
+          movedToRoot: args.deleteChildren ? [] : issues.filter(i => i.parentId === issue.id).map(i => i.key),
+        };
+      }
+
+      case "cloneJiraIssue": {
+        const issues = getIssues();
+        const original = requireIssue(issues, args.issueIdOrKey as string);
+        const projectKey = original.key.slice(0, original.key.lastIndexOf("-"));
+
+        const result = cloneIssue(issues, original.id, actingUserFor(projectKey), {
+          title: args.summary as string | undefined,
+          includeChildren: Boolean(args.includeChildren),
+          includeLinks: Boolean(args.includeLinks),
+        });
+        saveIssues(result.issues);
+
+        return {
+          id: result.issue.id,
+          key: result.issue.key,
+          self: `/api/issues/${result.issue.key}`,
+          clones: result.clones.map(({ original: from, clone }) => ({ original: from.key, clone: clone.key })),
+        };
+      }
+
+      // Sprint Tools
+      case "getJiraProjectSprints": {
+        const project = requireProject(args.projectKey as string);
+        const states = args.state
+          ? String(args.state).split(",").filter(state => state.trim()).map(sprintStatusFromState)
+          : null;
+        const sprints = getSprints()
+          .filter(s => s.projectId === project.id)
+          .filter(s => !states || states.includes(s.status));
+
+        return {
+          sprints: sprints.map(formatSprintForAPI),
+          total: sprints.length
+        };
+      }
+
+      case "createJiraSprint": {
+        const project = requireProject(args.projectKey as string);
+        const { sprints, sprint } = createSprint(getSprints(), {
+          projectId: project.id,
+          name: args.name as string,
+          startDate: args.startDate as string,
+          endDate: args.endDate as string,
+          goalDescription: args.goal as string | undefined,
+        });
+        saveSprints(sprints);
+
+        return { sprint: formatSprintForAPI(sprint) };
+      }
+
+      case "addIssuesToJiraSprint":
+      case "removeIssuesFromJiraSprint": {
+        const sprintId = name === "addIssuesToJiraSprint" ? args.sprintId as string : null;
+        const { issues, moved } = moveIssuesToSprint(getIssues(), getSprints(), sprintId, readIssueKeys(args));
+        if (moved.length > 0) {
+          saveIssues(issues);
+        }
+
+        return { moved: moved.map(i => i.key) };
+      }
+
+      case "startJiraSprint": {
+        // Same rules as starting a sprint in the web app
+        const { sprints, sprint } = updateSprint(getSprints(), args.sprintId as string, {
+          status: SprintStatus.Active,
+          startDate: args.startDate as string | undefined,
+          endDate: args.endDate as string | undefined,
+        });
+        saveSprints(sprints);
+
+        return { sprint: formatSprintForAPI(sprint) };
+      }
+
+      case "completeJiraSprint": {
+        const destination = (args.moveUnfinishedIssuesTo as string | undefined) || "backlog";
+        const result = completeSprintAndMoveUnfinished(
+          getSprints(),
+          getIssues(),
+          args.sprintId as string,
+          destination === "backlog" ? null : destination
+        );
+        // The closed sprint and its moved issues commit together (see WRITE_TOOLS)
+        saveSprints(result.sprints);
+        if (result.moved.length > 0) {
+          saveIssues(result.issues);
+        }
+
+        return {
+          sprint: formatSprintForAPI(result.sprint),
+          movedIssues: result.moved.map(i => i.key),
+          movedTo: destination
+        };
+      }
+
+      case "getJiraSprintProgress": {
+        const sprints = getSprints();
+        let sprint: Sprint | undefined;
+        if (args.sprintId) {
+          sprint = requireSprint(sprints, args.sprintId as string);
+        } else if (args.projectKey) {
+          const project = requireProject(args.projectKey as string);
+          sprint = activeSprintFor(sprints, project.id);
+          if (!sprint) {
+            throw new Error(`${project.key} has no active sprint`);
+          }
+        } else {
+          throw new Error("Specify a sprintId or a projectKey");
+        }
+
+        return { ...sprintProgress(sprint, getIssues()), sprint: formatSprintForAPI(sprint) };
+      }
+
+      case "bulkEditJiraIssues": {
+        const jql = (args.jql as string | undefined) ?? "";
+        const operation = readBulkOperation(args);
+        const issues = getIssues();
+
+        const matches = findIssuesByJQL(issues, jql);
+        if (matches.length > MAX_BULK_ISSUES) {
+          throw new Error(
+            `The query matches ${matches.length} issues, but a bulk edit can change at most ${MAX_BULK_ISSUES}. ` +
+            `Narrow it down (by project, sprint, status, ...) and edit in batches.`
+          );
+        }
+
+        // All or nothing: an error for any issue names it and saves nothing
+        const result = bulkUpdateIssues(issues, getSprints(), matches.map(i => i.id), operation);
+        const token = bulkConfirmationToken(jql, operation, matches);
+        const summary = {
+          total: matches.length,
+          changed: result.changed.map(change => ({ key: change.key, changes: formatBulkChanges(change, issues) })),
+          unchanged: result.unchanged,
+        };
+
+        if (args.dryRun) {
+          return { dryRun: true, ...summary, confirmationToken: token };
+        }
+        if (result.changed.length > CONFIRM_BULK_ABOVE && args.confirmationToken !== token) {
+          throw new Error(args.confirmationToken
+            ? "The confirmation token doesn't match: the query, the operation or the matching issues changed since the dry run. Run it again."
+            : `This edit changes ${result.changed.length} issues. Run it with dryRun: true first, then pass the confirmationToken it returns.`
+          );
+        }
+        if (result.changed.length > 0) {
+          saveIssues(result.issues);
+        }
+
+        return { dryRun: false, ...summary };
+      }
+
+      default:
+        throw new Error(`Unknown tool: ${name}`);
+    }
+  }
+
+  // ============================================================================
+  // SERVER SETUP
+  // ============================================================================
+
+  const server = new Server(
+    {
+      name: "jira-structure-local",
+      version: "1.0.0",
+    },
+    {
+      capabilities: {
+        tools: {},
+        resources: { subscribe: true, listChanged: true },
+        prompts: {},
+      },
+    }
+  );
+
+  // List available tools
+  server.setRequestHandler(ListToolsRequestSchema, async () => {
+    return { tools: TOOLS };
+  });
+
+  // Handle tool calls
+  server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    const { name, arguments: args } = request.params;
+
+    try {
+      // Attribute writes (changelog, change feed) to this tool
+      const toolArgs = (args ?? {}) as Record<string, unknown>;
+      const result = runWithWriteContext({ source: "mcp", via: name, userId: actingUser?.id ?? null }, () =>
+        WRITE_TOOLS.has(name)
+          ? data.transaction(() => handleToolCall(name, toolArgs))
+          : handleToolCall(name, toolArgs)
+      );
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      // Invalid writes list every problem so the caller can fix them in one go
+      const details = error instanceof DataValidationError ? { validationErrors: error.issues } : {};
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify({ error: errorMessage, ...details }, null, 2),
+          },
+        ],
+        isError: true,
+      };
+    }
+  });
+
+  // ============================================================================
+  // RESOURCES
+  // ============================================================================
+
+  function readResourceData(): ResourceData {
+    return {
+      issues: getIssues(),
+      projects: getProjects(),
+      sprints: getSprints(),
+      users: getUsers(),
+      structures: readResource<Structure>('structures'),
+      comments: getComments(),
+    };
+  }
+
+  server.setRequestHandler(ListResourcesRequestSchema, async () => {
+    return { resources: listResources(readResourceData()) };
+  });
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+    return { resourceTemplates: RESOURCE_TEMPLATES };
+  });
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    return { contents: [renderResource(request.params.uri, readResourceData())] };
+  });
+
+  /** Subscribed URIs, with the text the client was last sent or notified about */
+  const subscriptions = new Map<string, string>();
+
+  server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    const { uri } = request.params;
+    subscriptions.set(uri, renderResource(uri, readResourceData()).text);
+    return {};
+  });
+
+  server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscriptions.delete(request.params.uri);
+    return {};
+  });
+
+  let resourceCheckPending = false;
+  let resourceListChanged = false;
+
+  /**
+   * After the data files change (through a tool, the web app or a hand
+   * edit), notify the client about subscribed resources whose rendering
+   * changed, and about the resource list when records were added or removed.
+   * The events of one change are handled together.
+   */
+  function scheduleResourceCheck(listChanged: boolean): void {
+    resourceListChanged ||= listChanged;
+    if (resourceCheckPending) return;
+    resourceCheckPending = true;
+
+    setImmediate(() => {
+      resourceCheckPending = false;
+      const current = readResourceData();
+      for (const [uri, previous] of subscriptions) {
+        let text: string;
+        try {
+          text = renderResource(uri, current).text;
+        } catch {
+          // Deleted: let the client find out when it reads the resource
+          text = "";
+        }
+        if (text !== previous) {
+          subscriptions.set(uri, text);
+          server.sendResourceUpdated({ uri }).catch(() => {});
+        }
+      }
+      if (resourceListChanged) {
+        resourceListChanged = false;
+        server.sendResourceListChanged().catch(() => {});
+      }
+    });
+  }
+
+  // ============================================================================
+  // PROMPTS
+  // ============================================================================
+
+  server.setRequestHandler(ListPromptsRequestSchema, async () => {
+    return { prompts: PROMPTS };
+  });
+
+  server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    const { name, arguments: args } = request.params;
+    return getPrompt(name, args, readResourceData(), { actingUser });
+  });
+
+  // Resource notifications follow every change to the data files, whether
+  // made by this server, another session, the web app or a hand edit
+  const stopListening = onRecordChange(event => {
+    // The list shows the names of issues, projects and structures
+    scheduleResourceCheck(['issues', 'projects', 'structures'].includes(event.resource));
+  });
+  server.onclose = stopListening;
+
+  return server;
+}
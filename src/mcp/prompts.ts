@@ -0,0 +1,491 @@
+/**
+ * MCP Prompts - Reusable instructions with live workspace data
+ *
+ * Prompt templates for the routines a team runs through the MCP server
+ * every day, so nobody has to retype the instructions:
+ * - daily-standup        - A user's standup update from their sprint work
+ * - sprint-planning      - Scope for a project's next planned sprint
+ * - bug-triage           - Priorities and assignees for unassigned bugs
+ * - epic-status-report   - A stakeholder report on an epic's progress
+ *
+ * Each prompt embeds the current issues, sprints and users it needs, so
+ * the model starts with the facts and only calls tools to make changes.
+ * These are pure functions over the data files; createMcpServer
+ * (mcpServer.ts) reads the data.
+ */
+
+import type { GetPromptResult, Prompt } from "@modelcontextprotocol/sdk/types.js";
+import { McpError, ErrorCode } from "@modelcontextprotocol/sdk/types.js";
+import { activeSprintFor, findIssue, sprintProgress } from "../domain/index.js";
+import { getAllDescendants } from "../utils/treeOperations.js";
+import { IssueStatus, IssueType, Priority, SprintStatus } from "../types/index.js";
+import type { Issue, Project, Sprint, User } from "../types/index.js";
+import type { ResourceData } from "./resources.js";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** Arguments of prompts/get; MCP prompt arguments are always strings */
+export type PromptArguments = Record<string, string | undefined>;
+
+/** Who is asking, and when */
+export interface PromptContext {
+  /** The user the server acts as (from its API token), if any */
+  actingUser: User | null;
+  now?: Date;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** How many completed sprints the planning prompt averages velocity over */
+const VELOCITY_SPRINTS = 3;
+
+/** Issue types that group work rather than being planned into sprints */
+const CONTAINER_TYPES: readonly IssueType[] = [IssueType.Initiative, IssueType.Epic];
+
+/** Most backlog issues the planning prompt lists */
+const MAX_CANDIDATES = 30;
+
+export const PROMPTS: Prompt[] = [
+  {
+    name: "daily-standup",
+    title: "Daily standup",
+    description: "Draft a user's standup update (done, next, blockers) from their work in the active sprint",
+    arguments: [
+      {
+        name: "user",
+        description: "Account ID, email or display name; defaults to the user of the server's API token",
+        required: false,
+      },
+    ],
+  },
+  {
+    name: "sprint-planning",
+    title: "Sprint planning",
+    description: "Propose the scope of a project's next planned sprint from the backlog and recent velocity",
+    arguments: [
+      { name: "projectKey", description: "Project key, e.g. PHOENIX", required: true },
+    ],
+  },
+  {
+    name: "bug-triage",
+    title: "Bug triage",
+    description: "Suggest a priority and an assignee for every unassigned, unresolved bug",
+    arguments: [
+      { name: "projectKey", description: "Only triage this project's bugs", required: false },
+    ],
+  },
+  {
+    name: "epic-status-report",
+    title: "Epic status report",
+    description: "Write a stakeholder status report for an epic and everything under it",
+    arguments: [
+      { name: "epicKey", description: "Key of the epic, e.g. PHOENIX-4", required: true },
+    ],
+  },
+];
+
+// ============================================================================
+// GETTING PROMPTS
+// ============================================================================
+
+/**
+ * Render a prompt with the current data; throws for unknown prompts,
+ * missing arguments and arguments that match nothing
+ */
+export function getPrompt(
+  name: string,
+  args: PromptArguments | undefined,
+  data: ResourceData,
+  context: PromptContext
+): GetPromptResult {
+  const prompt = PROMPTS.find(p => p.name === name);
+  if (!prompt) {
+    throw invalid(`Unknown prompt: ${name}`);
+  }
+  const values = args ?? {};
+  for (const argument of prompt.arguments ?? []) {
+    if (argument.required && !values[argument.name]?.trim()) {
+      throw invalid(`Prompt ${name} needs the ${argument.name} argument`);
+    }
+  }
+
+  const now = context.now ?? new Date();
+  let text: string;
+  switch (name) {
+    case "daily-standup":
+      text = dailyStandup(resolveUser(data, values.user, context.actingUser), data, now);
+      break;
+    case "sprint-planning":
+      text = sprintPlanning(requireProject(data, values.projectKey!), data);
+      break;
+    case "bug-triage":
+      text = bugTriage(values.projectKey ? requireProject(data, values.projectKey) : null, data);
+      break;
+    default:
+      text = epicStatusReport(values.epicKey!, data, now);
+  }
+
+  return {
+    description: prompt.description,
+    messages: [{ role: "user", content: { type: "text", text } }],
+  };
+}
+
+// ============================================================================
+// ARGUMENTS
+// ============================================================================
+
+function invalid(message: string): McpError {
+  return new McpError(ErrorCode.InvalidParams, message);
+}
+
+/**
+ * Find a user by account ID, email or display name (a unique partial
+ * name match is enough)
+ */
+function resolveUser(data: ResourceData, query: string | undefined, actingUser: User | null): User {
+  const wanted = query?.trim().toLowerCase();
+  if (!wanted) {
+    if (actingUser) return actingUser;
+    throw invalid("Prompt daily-standup needs the user argument (the server has no API token to default to)");
+  }
+
+  const exact = data.users.find(u =>
+    u.id.toLowerCase() === wanted || u.email.toLowerCase() === wanted || u.displayName.toLowerCase() === wanted
+  );
+  if (exact) return exact;
+
+  const partial = data.users.filter(u => u.displayName.toLowerCase().includes(wanted));
+  if (partial.length === 1) return partial[0];
+  if (partial.length > 1) {
+    throw invalid(`User "${query}" is ambiguous: ${partial.map(u => u.displayName).join(", ")}`);
+  }
+  throw invalid(`User not found: ${query}`);
+}
+
+function requireProject(data: ResourceData, key: string): Project {
+  const project = data.projects.find(p => p.key.toLowerCase() === key.trim().toLowerCase());
+  if (!project) throw invalid(`Project not found: ${key}`);
+  return project;
+}
+
+// ============================================================================
+// FORMATTING
+// ============================================================================
+
+function userName(data: ResourceData, userId: string | null): string {
+  if (!userId) return "Unassigned";
+  return data.users.find(u => u.id === userId)?.displayName ?? userId;
+}
+
+function points(issues: Issue[]): number {
+  return issues.reduce((sum, issue) => sum + (issue.storyPoints ?? 0), 0);
+}
+
+/** `- PHOENIX-12 Title · Story · High · 3 pts · Sarah Kim` */
+function issueLine(data: ResourceData, issue: Issue, { assignee = true } = {}): string {
+  const parts: string[] = [issue.type, issue.priority];
+  if (issue.storyPoints !== null) parts.push(`${issue.storyPoints} pts`);
+  if (assignee) parts.push(userName(data, issue.assignee));
+  return `- ${issue.key} ${issue.title} · ${parts.join(" · ")}`;
+}
+
+/** Open issues that block this one */
+function openBlockers(data: ResourceData, issue: Issue): Issue[] {
+  return issue.blockedBy
+    .map(id => data.issues.find(i => i.id === id))
+    .filter((i): i is Issue => i !== undefined && i.status !== IssueStatus.Done);
+}
+
+function byPriority(a: Issue, b: Issue): number {
+  const order = Object.values(Priority);
+  return order.indexOf(a.priority) - order.indexOf(b.priority) || a.key.localeCompare(b.key, undefined, { numeric: true });
+}
+
+function projectIssues(data: ResourceData, project: Project): Issue[] {
+  return data.issues.filter(i => i.key.startsWith(`${project.key}-`));
+}
+
+function sprintHeading(sprint: Sprint): string {
+  return `${sprint.name} (${sprint.startDate.slice(0, 10)} to ${sprint.endDate.slice(0, 10)})`;
+}
+
+/** A markdown section; empty sections say so instead of disappearing */
+function section(title: string, lines: string[], empty = "_None_"): string[] {
+  return ["", `## ${title}`, "", ...(lines.length > 0 ? lines : [empty])];
+}
+
+// ============================================================================
+// PROMPTS
+// ============================================================================
+
+function dailyStandup(user: User, data: ResourceData, now: Date): string {
+  const since = new Date(now.getTime() - DAY_MS).toISOString();
+  const assigned = data.issues.filter(i => i.assignee === user.id);
+  const activeSprintIds = new Set(
+    data.projects
+      .map(project => activeSprintFor(data.sprints, project.id))
+      .filter((s): s is Sprint => s !== undefined)
+      .map(s => s.id)
+  );
+  const inSprint = assigned.filter(i => i.sprint !== null && activeSprintIds.has(i.sprint));
+  const open = inSprint.filter(i => i.status !== IssueStatus.Done);
+
+  const recentlyDone = assigned.filter(i => i.status === IssueStatus.Done && i.updatedAt >= since);
+  const recentComments = data.comments
+    .filter(c => c.author === user.id && c.createdAt >= since)
+    .map(c => {
+      const issue = data.issues.find(i => i.id === c.issueId);
+      return `- On ${issue?.key ?? c.issueId}: ${c.body.replace(/\s+/g, " ").slice(0, 200)}`;
+    });
+  const blocked = open
+    .map(issue => ({ issue, blockers: openBlockers(data, issue) }))
+    .filter(({ blockers }) => blockers.length > 0)
+    .map(({ issue, blockers }) =>
+      `- ${issue.key} is blocked by ${blockers.map(b => `${b.key} (${b.status}, ${userName(data, b.assignee)})`).join(", ")}`
+    );
+
+  const sprints = data.sprints.filter(s => activeSprintIds.has(s.id) && inSprint.some(i => i.sprint === s.id));
+  const lines = [
+    `Draft the daily standup update for ${user.displayName} (${user.email}).`,
+    "",
+    "Use three short sections: **Yesterday** (what was finished or moved forward), " +
+      "**Today** (what they will pick up, most important first) and **Blockers**. " +
+      "Refer to issues by key, keep it to what can be said in a minute, and don't " +
+      "invent progress the data doesn't show. If something looks stuck (in progress " +
+      "or in review without recent updates), mention it.",
+    "",
+    `Today is ${now.toISOString().slice(0, 10)}. "Recent" means since ${since.slice(0, 16).replace("T", " ")} UTC.`,
+    ...section(
+      "Active sprints",
+      sprints.map(s => {
+        const progress = sprintProgress(s, data.issues, now);
+        const goal = s.goalDescription ? ` - goal: ${s.goalDescription}` : "";
+        const remaining = progress.daysRemaining >= 0
+          ? `${progress.daysRemaining} days left`
+          : `ended ${-progress.daysRemaining} days ago`;
+        return `- ${sprintHeading(s)}: ${progress.percentComplete}% done, ${remaining}${goal}`;
+      }),
+      "_None of their issues are in an active sprint_"
+    ),
+  ];
+
+  for (const status of [IssueStatus.InProgress, IssueStatus.InReview, IssueStatus.Todo]) {
+    lines.push(...section(
+      `${status} in the sprint`,
+      open.filter(i => i.status === status).map(i => `${issueLine(data, i, { assignee: false })} (updated ${i.updatedAt.slice(0, 10)})`)
+    ));
+  }
+  lines.push(...section("Recently done", recentlyDone.map(i => issueLine(data, i, { assignee: false }))));
+  lines.push(...section("Their recent comments", recentComments));
+  lines.push(...section("Blocked issues", blocked));
+
+  return lines.join("\n") + "\n";
+}
+
+function sprintPlanning(project: Project, data: ResourceData): string {
+  const sprints = data.sprints.filter(s => s.projectId === project.id);
+  const next = sprints
+    .filter(s => s.status === SprintStatus.Planned)
+    .sort((a, b) => a.startDate.localeCompare(b.startDate))[0];
+  if (!next) {
+    throw invalid(`Project ${project.key} has no planned sprint. Create one with createJiraSprint first.`);
+  }
+
+  const issues = projectIssues(data, project);
+  const planned = issues.filter(i => i.sprint === next.id);
+  const velocities = sprints
+    .filter(s => s.status === SprintStatus.Completed)
+    .sort((a, b) => b.endDate.localeCompare(a.endDate))
+    .slice(0, VELOCITY_SPRINTS)
+    .map(s => ({ sprint: s, done: points(issues.filter(i => i.sprint === s.id && i.status === IssueStatus.Done)) }));
+  const averageVelocity = velocities.length === 0
+    ? null
+    : Math.round(velocities.reduce((sum, v) => sum + v.done, 0) / velocities.length);
+
+  // Initiatives and epics are containers, not sprint work
+  const backlog = issues
+    .filter(i => i.sprint === null && i.status !== IssueStatus.Done && !CONTAINER_TYPES.includes(i.type))
+    .sort(byPriority);
+  const candidates = backlog.slice(0, MAX_CANDIDATES).map(issue => {
+    const blockers = openBlockers(data, issue);
+    const blockedNote = blockers.length > 0 ? ` (blocked by ${blockers.map(b => b.key).join(", ")})` : "";
+    const unestimated = issue.storyPoints === null ? " (not estimated)" : "";
+    return `${issueLine(data, issue)}${unestimated}${blockedNote}`;
+  });
+  if (backlog.length > MAX_CANDIDATES) {
+    candidates.push(`- …and ${backlog.length - MAX_CANDIDATES} lower-priority issues`);
+  }
+
+  const active = activeSprintFor(data.sprints, project.id);
+  const carryOver = active
+    ? issues.filter(i => i.sprint === active.id && i.status !== IssueStatus.Done).map(i => issueLine(data, i))
+    : [];
+
+  const lines = [
+    `Help plan ${next.name} for ${project.key} (${project.name}).`,
+    "",
+    "Propose which backlog issues to add to the sprint. Aim for roughly the team's " +
+      "recent velocity in story points, take the highest priorities first, leave out " +
+      "issues blocked by work that won't be done in time, and call out issues that " +
+      "need an estimate. Suggest a one-sentence sprint goal. Present the plan as a " +
+      "table with the total points, and only call addIssuesToJiraSprint once the plan " +
+      "is confirmed.",
+    "",
+    `## ${sprintHeading(next)}`,
+    "",
+    `- Sprint ID: ${next.id}`,
+    `- Goal: ${next.goalDescription || "not set"}`,
+    `- Already planned: ${planned.length} issues, ${points(planned)} points`,
+    ...planned.map(i => `  ${issueLine(data, i)}`),
+    ...section(
+      "Velocity",
+      [
+        ...velocities.map(v => `- ${v.sprint.name}: ${v.done} points done`),
+        ...(averageVelocity !== null ? [`- Average: ${averageVelocity} points per sprint`] : []),
+      ],
+      "_No completed sprints yet_"
+    ),
+    ...section(
+      active ? `Unfinished in the active sprint (${active.name})` : "Active sprint",
+      carryOver,
+      active ? "_Nothing; the active sprint is on track to finish_" : "_No active sprint_"
+    ),
+    ...section(`Backlog by priority (${backlog.length} issues)`, candidates),
+    ...section("Team", data.users.map(u => `- ${u.displayName} (${u.id})`)),
+  ];
+
+  return lines.join("\n") + "\n";
+}
+
+function bugTriage(project: Project | null, data: ResourceData): string {
+  const issues = project ? projectIssues(data, project) : data.issues;
+  const bugs = issues
+    .filter(i => i.type === IssueType.Bug && i.assignee === null && i.status !== IssueStatus.Done)
+    .sort(byPriority);
+
+  const bugLines = bugs.flatMap(bug => {
+    const sprint = bug.sprint ? data.sprints.find(s => s.id === bug.sprint)?.name ?? bug.sprint : "backlog";
+    const details = [
+      `${issueLine(data, bug, { assignee: false })} · ${bug.status} · ${sprint}`,
+      `  Reported by ${userName(data, bug.reporter)} on ${bug.createdAt.slice(0, 10)}` +
+        (bug.components.length > 0 ? `; components: ${bug.components.join(", ")}` : ""),
+    ];
+    const description = bug.description.replace(/\s+/g, " ").trim();
+    if (description) details.push(`  ${description.slice(0, 300)}${description.length > 300 ? "…" : ""}`);
+    return details;
+  });
+
+  // Open work per person, so suggestions spread the load
+  const workload = data.users.map(user => {
+    const open = issues.filter(i => i.assignee === user.id && i.status !== IssueStatus.Done);
+    const openBugs = open.filter(i => i.type === IssueType.Bug).length;
+    return `- ${user.displayName} (${user.id}): ${open.length} open issues, ${points(open)} points, ${openBugs} bug${openBugs === 1 ? "" : "s"}`;
+  });
+
+  const sprints = data.sprints
+    .filter(s => s.status !== SprintStatus.Completed && (!project || s.projectId === project.id))
+    .map(s => `- ${s.name} (${s.id}): ${s.status}, ends ${s.endDate.slice(0, 10)}`);
+
+  const scope = project ? `${project.key} (${project.name})` : "all projects";
+  const lines = [
+    `Triage the unassigned bugs in ${scope}.`,
+    "",
+    "For each bug, suggest a priority, an assignee and whether it belongs in the " +
+      "active sprint or the backlog, with a short reason. Base assignees on who " +
+      "works on related issues and components, and spread the load using the " +
+      "workload below. Flag bugs that look like duplicates or need more information " +
+      "from the reporter. Present the suggestions as a table, and only update issues " +
+      "(editJiraIssue) once they are confirmed.",
+    ...section(`Unassigned bugs (${bugs.length})`, bugLines, "_No unassigned bugs: nothing to triage_"),
+    ...section("Workload", workload),
+    ...section("Open sprints", sprints),
+  ];
+
+  return lines.join("\n") + "\n";
+}
+
+function epicStatusReport(epicKey: string, data: ResourceData, now: Date): string {
+  const epic = findIssue(data.issues, epicKey.trim());
+  if (!epic) throw invalid(`Issue not found: ${epicKey}`);
+  if (epic.type !== IssueType.Epic) {
+    throw invalid(`${epic.key} is a ${epic.type}, not an Epic`);
+  }
+
+  const today = now.toISOString().slice(0, 10);
+  const descendants = getAllDescendants(epic.id, data.issues);
+  const done = descendants.filter(i => i.status === IssueStatus.Done);
+  const percent = descendants.length === 0 ? 0 : Math.round((done.length / descendants.length) * 100);
+
+  const statusCounts = Object.values(IssueStatus)
+    .map(status => `${status}: ${descendants.filter(i => i.status === status).length}`)
+    .join(", ");
+  const open = descendants.filter(i => i.status !== IssueStatus.Done);
+  const overdue = open
+    .filter(i => i.dueDate !== null && i.dueDate.slice(0, 10) < today)
+    .map(i => `${issueLine(data, i)} · due ${i.dueDate!.slice(0, 10)}`);
+  const blocked = open
+    .map(issue => ({ issue, blockers: openBlockers(data, issue) }))
+    .filter(({ blockers }) => blockers.length > 0)
+    .map(({ issue, blockers }) => `- ${issue.key} blocked by ${blockers.map(b => `${b.key} (${b.status})`).join(", ")}`);
+  const unassigned = open.filter(i => i.assignee === null).map(i => issueLine(data, i, { assignee: false }));
+
+  const sprintIds = new Set(descendants.map(i => i.sprint).filter((id): id is string => id !== null));
+  const sprints = data.sprints
+    .filter(s => sprintIds.has(s.id))
+    .map(s => {
+      const inSprint = descendants.filter(i => i.sprint === s.id);
+      const sprintDone = inSprint.filter(i => i.status === IssueStatus.Done).length;
+      return `- ${s.name} (${s.status}): ${sprintDone}/${inSprint.length} of the epic's issues done`;
+    });
+
+  // Depth-first, so the list reads like the hierarchy
+  const depthOf = (issue: Issue): number => {
+    let depth = 0;
+    let parentId = issue.parentId;
+    while (parentId && parentId !== epic.id && depth < descendants.length) {
+      parentId = data.issues.find(i => i.id === parentId)?.parentId ?? null;
+      depth++;
+    }
+    return depth;
+  };
+  const tree = descendants.map(i =>
+    `${"  ".repeat(depthOf(i))}- ${i.key} ${i.title} · ${i.type} · ${i.status} · ${userName(data, i.assignee)}`
+  );
+
+  const lines = [
+    `Write a status report for the epic ${epic.key}: ${epic.title}.`,
+    "",
+    "The audience is stakeholders outside the team. Start with a one-line overall " +
+      "status (on track, at risk or off track) and why, then cover progress, what's " +
+      "in flight, risks (blocked, overdue and unassigned work) and next steps. Keep " +
+      "it under 300 words and refer to issues by key.",
+    "",
+    `Today is ${today}.`,
+    "",
+    "## Epic",
+    "",
+    `- Status: ${epic.status}`,
+    `- Priority: ${epic.priority}`,
+    `- Owner: ${userName(data, epic.assignee)}`,
+    `- Start date: ${epic.startDate?.slice(0, 10) ?? "not set"}`,
+    `- Due date: ${epic.dueDate?.slice(0, 10) ?? "not set"}`,
+    `- Fix version: ${epic.version ?? "not set"}`,
+    "",
+    epic.description.trim() || "_No description_",
+    ...section("Progress", [
+      `- ${done.length} of ${descendants.length} issues done (${percent}%)`,
+      `- ${points(done)} of ${points(descendants)} story points done`,
+      `- By status: ${statusCounts}`,
+    ]),
+    ...section("Sprints", sprints, "_None of the epic's issues are in a sprint_"),
+    ...section("Overdue", overdue),
+    ...section("Blocked", blocked),
+    ...section("Unassigned", unassigned),
+    ...section("Issues", tree, "_The epic has no child issues yet_"),
+  ];
+
+  return lines.join("\n") + "\n";
+}
@@ -0,0 +1,283 @@
+/**
+ * MCP Resources - Issues, projects and structures as readable context
+ *
+ * Lets MCP clients (Claude Desktop's attachment menu, for example) attach
+ * workspace data to a conversation instead of calling tools:
+ * - jira://issue/{issueKey}    - An issue with its hierarchy, links and comments
+ * - jira://project/{projectKey} - A project overview: sprints, structures, counts
+ * - jira://structure/{id}       - A structure's issue tree
+ *
+ * Everything is rendered as markdown. These are pure functions over the
+ * data files; createMcpServer (mcpServer.ts) reads the data and handles
+ * subscriptions.
+ */
+
+import type { Resource, ResourceTemplate } from "@modelcontextprotocol/sdk/types.js";
+import { McpError, ErrorCode } from "@modelcontextprotocol/sdk/types.js";
+import { commentsForIssue, findIssue } from "../domain/index.js";
+import type { Comment, Issue, Project, Sprint, Structure, User } from "../types/index.js";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** The data files resources are rendered from */
+export interface ResourceData {
+  issues: Issue[];
+  projects: Project[];
+  sprints: Sprint[];
+  users: User[];
+  structures: Structure[];
+  comments: Comment[];
+}
+
+/** A rendered resource, as returned by resources/read */
+export interface ResourceContents {
+  uri: string;
+  mimeType: string;
+  text: string;
+}
+
+const MIME_TYPE = "text/markdown";
+const URI_PATTERN = /^jira:\/\/(issue|project|structure)\/(.+)$/;
+
+export const RESOURCE_TEMPLATES: ResourceTemplate[] = [
+  {
+    uriTemplate: "jira://issue/{issueKey}",
+    name: "Jira issue",
+    description: "An issue with its fields, parent and children, links and comments",
+    mimeType: MIME_TYPE,
+  },
+  {
+    uriTemplate: "jira://project/{projectKey}",
+    name: "Jira project",
+    description: "A project overview: lead, issue counts, sprints and structures",
+    mimeType: MIME_TYPE,
+  },
+  {
+    uriTemplate: "jira://structure/{structureId}",
+    name: "Jira structure",
+    description: "A structure's issue hierarchy as a nested list",
+    mimeType: MIME_TYPE,
+  },
+];
+
+// ============================================================================
+// LISTING
+// ============================================================================
+
+/**
+ * Every project, structure and issue, in that order
+ */
+export function listResources(data: ResourceData): Resource[] {
+  return [
+    ...data.projects.map(project => ({
+      uri: `jira://project/${project.key}`,
+      name: `${project.key}: ${project.name}`,
+      description: "Project overview",
+      mimeType: MIME_TYPE,
+    })),
+    ...data.structures.map(structure => ({
+      uri: `jira://structure/${structure.id}`,
+      name: structure.name,
+      description: `Issue hierarchy of ${projectKeyOf(data, structure.projectId)}`,
+      mimeType: MIME_TYPE,
+    })),
+    ...data.issues.map(issue => ({
+      uri: `jira://issue/${issue.key}`,
+      name: `${issue.key}: ${issue.title}`,
+      description: `${issue.type} · ${issue.status}`,
+      mimeType: MIME_TYPE,
+    })),
+  ];
+}
+
+// ============================================================================
+// READING
+// ============================================================================
+
+/**
+ * Render the resource at a jira:// URI; throws for unknown URIs
+ */
+export function readResource(uri: string, data: ResourceData): ResourceContents {
+  const match = URI_PATTERN.exec(uri);
+  const kind = match?.[1];
+  const id = match ? decodeURIComponent(match[2]) : "";
+
+  let text: string | null = null;
+  if (kind === "issue") {
+    const issue = findIssue(data.issues, id);
+    text = issue ? renderIssue(issue, data) : null;
+  } else if (kind === "project") {
+    const project = data.projects.find(p => p.key === id || p.id === id);
+    text = project ? renderProject(project, data) : null;
+  } else if (kind === "structure") {
+    const structure = data.structures.find(s => s.id === id);
+    text = structure ? renderStructure(structure, data) : null;
+  }
+
+  if (text === null) {
+    throw new McpError(ErrorCode.InvalidParams, `Resource not found: ${uri}`);
+  }
+  return { uri, mimeType: MIME_TYPE, text };
+}
+
+// ============================================================================
+// RENDERING
+// ============================================================================
+
+function projectKeyOf(data: ResourceData, projectId: string): string {
+  return data.projects.find(p => p.id === projectId)?.key ?? projectId;
+}
+
+function userName(data: ResourceData, userId: string | null): string {
+  if (!userId) return "Unassigned";
+  return data.users.find(u => u.id === userId)?.displayName ?? userId;
+}
+
+/** `PHOENIX-12 Title (Status)` for lists of related issues */
+function issueLine(issue: Issue): string {
+  return `${issue.key} ${issue.title} (${issue.status})`;
+}
+
+function linkedIssues(data: ResourceData, ids: string[]): Issue[] {
+  return ids
+    .map(id => data.issues.find(i => i.id === id))
+    .filter((i): i is Issue => i !== undefined);
+}
+
+function renderIssue(issue: Issue, data: ResourceData): string {
+  const sprint = issue.sprint ? data.sprints.find(s => s.id === issue.sprint) : undefined;
+  const fields: Array<[string, string | number | null]> = [
+    ["Type", issue.type],
+    ["Status", issue.status],
+    ["Priority", issue.priority],
+    ["Assignee", userName(data, issue.assignee)],
+    ["Reporter", userName(data, issue.reporter)],
+    ["Sprint", sprint?.name ?? issue.sprint],
+    ["Story points", issue.storyPoints],
+    ["Labels", issue.labels.join(", ") || null],
+    ["Components", issue.components.join(", ") || null],
+    ["Fix version", issue.version],
+    ["Start date", issue.startDate],
+    ["Due date", issue.dueDate],
+    ["Created", issue.createdAt],
+    ["Updated", issue.updatedAt],
+  ];
+
+  const lines = [
+    `# ${issue.key}: ${issue.title}`,
+    "",
+    "| Field | Value |",
+    "|-------|-------|",
+    ...fields
+      .filter(([, value]) => value !== null && value !== "")
+      .map(([name, value]) => `| ${name} | ${String(value).replace(/\|/g, "\\|")} |`),
+    "",
+    "## Description",
+    "",
+    issue.description.trim() || "_No description_",
+  ];
+
+  const parent = issue.parentId ? findIssue(data.issues, issue.parentId) : undefined;
+  const children = linkedIssues(data, issue.childIds);
+  lines.push("", "## Hierarchy", "");
+  lines.push(`- Parent: ${parent ? issueLine(parent) : "none (root issue)"}`);
+  lines.push(`- Children:${children.length === 0 ? " none" : ""}`);
+  for (const child of children) {
+    lines.push(`  - ${issueLine(child)}`);
+  }
+
+  const links: Array<[string, Issue[]]> = [
+    ["Blocks", linkedIssues(data, issue.blocks)],
+    ["Blocked by", linkedIssues(data, issue.blockedBy)],
+    ["Relates to", linkedIssues(data, issue.relatedTo)],
+  ];
+  if (links.some(([, linked]) => linked.length > 0)) {
+    lines.push("", "## Links", "");
+    for (const [name, linked] of links.filter(([, list]) => list.length > 0)) {
+      lines.push(`- ${name}: ${linked.map(issueLine).join("; ")}`);
+    }
+  }
+
+  const comments = commentsForIssue(data.comments, issue.id);
+  lines.push("", `## Comments (${comments.length})`);
+  for (const comment of comments) {
+    lines.push("", `**${userName(data, comment.author)}** (${comment.createdAt})`, "", comment.body);
+  }
+
+  return lines.join("\n") + "\n";
+}
+
+function renderProject(project: Project, data: ResourceData): string {
+  const issues = data.issues.filter(i => i.key.startsWith(`${project.key}-`));
+  const countBy = (field: "status" | "type") => {
+    const counts = new Map<string, number>();
+    for (const issue of issues) {
+      counts.set(issue[field], (counts.get(issue[field]) ?? 0) + 1);
+    }
+    return [...counts].map(([value, count]) => `${value}: ${count}`).join(", ") || "none";
+  };
+
+  const lines = [
+    `# ${project.key}: ${project.name}`,
+    "",
+    project.description.trim() || "_No description_",
+    "",
+    `- Lead: ${userName(data, project.lead)}`,
+    `- Issues: ${issues.length}`,
+    `- By status: ${countBy("status")}`,
+    `- By type: ${countBy("type")}`,
+    "",
+    "## Sprints",
+    "",
+  ];
+
+  const sprints = data.sprints.filter(s => s.projectId === project.id);
+  if (sprints.length === 0) lines.push("_No sprints_");
+  for (const sprint of sprints) {
+    const count = issues.filter(i => i.sprint === sprint.id).length;
+    const goal = sprint.goalDescription ? ` - ${sprint.goalDescription}` : "";
+    lines.push(`- ${sprint.name} (${sprint.status}, ${sprint.startDate.slice(0, 10)} to ${sprint.endDate.slice(0, 10)}, ${count} issues)${goal}`);
+  }
+
+  lines.push("", "## Structures", "");
+  const structures = data.structures.filter(s => s.projectId === project.id);
+  if (structures.length === 0) lines.push("_No structures_");
+  for (const structure of structures) {
+    lines.push(`- ${structure.name}: jira://structure/${structure.id}`);
+  }
+
+  return lines.join("\n") + "\n";
+}
+
+function renderStructure(structure: Structure, data: ResourceData): string {
+  const lines = [
+    `# ${structure.name}`,
+    "",
+    `Project: ${projectKeyOf(data, structure.projectId)}`,
+    "",
+  ];
+
+  // Children are listed in their stored order; the visited set guards
+  // against hand-edited data with a cycle
+  const visited = new Set<string>();
+  const renderTree = (issueId: string, depth: number) => {
+    const issue = data.issues.find(i => i.id === issueId);
+    if (!issue || visited.has(issue.id)) return;
+    visited.add(issue.id);
+
+    const assignee = issue.assignee ? ` · ${userName(data, issue.assignee)}` : "";
+    lines.push(`${"  ".repeat(depth)}- **${issue.key}** ${issue.title} · ${issue.type} · ${issue.status}${assignee}`);
+    for (const childId of issue.childIds) {
+      renderTree(childId, depth + 1);
+    }
+  };
+
+  for (const rootId of structure.rootIssueIds) {
+    renderTree(rootId, 0);
+  }
+  if (visited.size === 0) lines.push("_No issues_");
+
+  return lines.join("\n") + "\n";
+}
@@ -0,0 +1,402 @@
+/**
+ * API Docs - Everything generated from the route registry
+ *
+ * - The OpenAPI 3 document served at /api/openapi.json, with request and
+ *   response schemas converted from the routes' zod schemas
+ * - The API explorer at /api/docs: a self-contained page (no CDN, works
+ *   offline) that lists the operations and sends requests to this server
+ * - The endpoint cards of the development landing page
+ * - The endpoint summary of the startup banner
+ */
+
+import { z } from 'zod';
+import { API_TAGS, listApiRoutes } from './apiRegistry.js';
+import type { ApiRoute } from './apiRegistry.js';
+import { schemaRegistry } from './apiSchemas.js';
+
+type JsonSchema = Record<string, unknown>;
+
+const COMPONENT_PREFIX = '#/components/schemas/';
+
+// ============================================================================
+// OPENAPI
+// ============================================================================
+
+/**
+ * Convert a zod schema to an OpenAPI schema, referencing named components
+ * instead of inlining them
+ */
+function toSchema(schema: z.ZodType, io: 'input' | 'output'): JsonSchema {
+  const name = schemaRegistry.get(schema)?.id;
+  if (name) {
+    return { $ref: `${COMPONENT_PREFIX}${name}` };
+  }
+
+  const json = z.toJSONSchema(schema, {
+    target: 'openapi-3.0',
+    metadata: schemaRegistry,
+    io,
+    unrepresentable: 'any',
+  }) as JsonSchema;
+  // Named schemas are emitted as local definitions; point them at the components
+  delete json.definitions;
+  delete json.$schema;
+  return JSON.parse(JSON.stringify(json).replaceAll('"#/definitions/', `"${COMPONENT_PREFIX}`)) as JsonSchema;
+}
+
+/**
+ * Every named schema, for `components.schemas`
+ */
+function componentSchemas(): Record<string, JsonSchema> {
+  const { schemas } = z.toJSONSchema(schemaRegistry, {
+    target: 'openapi-3.0',
+    uri: id => `${COMPONENT_PREFIX}${id}`,
+    unrepresentable: 'any',
+  }) as { schemas: Record<string, JsonSchema> };
+
+  for (const schema of Object.values(schemas)) {
+    delete schema.$id;
+    delete schema.id;
+  }
+  return schemas;
+}
+
+/** "/api/:resource/:idOrKey" -> "/api/{resource}/{idOrKey}" */
+function openApiPath(path: string): string {
+  return path.replace(/:(\w+)/g, '{$1}');
+}
+
+function pathParamNames(path: string): string[] {
+  return [...path.matchAll(/:(\w+)/g)].map(match => match[1]);
+}
+
+/** A stable operation ID, e.g. "get_api_issues_idOrKey_changelog" */
+function operationId(route: ApiRoute): string {
+  return `${route.method}_${route.path.replace(/[^\w]+/g, '_').replace(/^_|_$/g, '')}`;
+}
+
+/**
+ * The OpenAPI operation of one route
+ */
+function operation(route: ApiRoute): JsonSchema {
+  const parameters: JsonSchema[] = pathParamNames(route.path).map(name => ({
+    name,
+    in: 'path',
+    required: true,
+    schema: route.params?.[name] ? toSchema(route.params[name], 'input') : { type: 'string' },
+  }));
+
+  for (const [name, field] of Object.entries(route.query?.shape ?? {})) {
+    const { description, ...schema } = toSchema(field as z.ZodType, 'input');
+    parameters.push({
+      name,
+      in: 'query',
+      required: !(field as z.ZodType).safeParse(undefined).success,
+      ...(description ? { description } : {}),
+      schema,
+    });
+  }
+
+  const status = route.status ?? 200;
+  const errorSchema = route.path.startsWith('/rest/') ? 'JiraError' : 'Error';
+
+  return {
+    tags: [route.tag],
+    summary: route.summary,
+    ...(route.description ? { description: route.description } : {}),
+    operationId: operationId(route),
+    ...(parameters.length > 0 ? { parameters } : {}),
+    ...(route.body
+      ? { requestBody: { required: true, content: { 'application/json': { schema: toSchema(route.body, 'input') } } } }
+      : {}),
+    responses: {
+      [status]: {
+        description: status === 204 ? 'No content' : 'Success',
+        ...(route.response ? { content: { 'application/json': { schema: toSchema(route.response, 'output') } } } : {}),
+      },
+      default: {
+        description: 'Error',
+        content: { 'application/json': { schema: { $ref: `${COMPONENT_PREFIX}${errorSchema}` } } },
+      },
+    },
+  };
+}
+
+/**
+ * The OpenAPI 3 document of every registered route
+ */
+export function buildOpenApiDocument(serverUrl: string): JsonSchema {
+  const paths: Record<string, Record<string, JsonSchema>> = {};
+  for (const route of listApiRoutes()) {
+    const path = openApiPath(route.path);
+    paths[path] = { ...paths[path], [route.method]: operation(route) };
+  }
+
+  return {
+    openapi: '3.0.3',
+    info: {
+      title: 'Jira Structure Learning Tool API',
+      version: '1.0.0',
+      description: 'Local API of the Jira Structure Learning Tool, including Jira Cloud-compatible endpoints. '
+        + 'Credentials are optional; send an API token to act as a team member.',
+    },
+    servers: [{ url: serverUrl }],
+    tags: API_TAGS.map(tag => ({ ...tag })),
+    paths,
+    components: {
+      schemas: componentSchemas(),
+      securitySchemes: {
+        bearerAuth: { type: 'http', scheme: 'bearer', description: 'A personal API token' },
+        basicAuth: { type: 'http', scheme: 'basic', description: 'A user\'s email and API token, like Jira Cloud' },
+      },
+    },
+    // Anonymous requests are allowed too
+    security: [{}, { bearerAuth: [] }, { basicAuth: [] }],
+  };
+}
+
+// ============================================================================
+// LANDING PAGE & BANNER
+// ============================================================================
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/**
+ * The routes of each tag, in tag order
+ */
+function routesByTag(): { name: string; description: string; routes: ApiRoute[] }[] {
+  const routes = listApiRoutes();
+  return API_TAGS
+    .map(tag => ({ ...tag, routes: routes.filter(r => r.tag === tag.name) }))
+    .filter(tag => tag.routes.length > 0);
+}
+
+/**
+ * One landing page card per tag, listing its endpoints
+ */
+export function renderEndpointCards(): string {
+  return routesByTag().map(tag => {
+    const endpoints = tag.routes.map(route => {
+      const path = route.method === 'get' && !route.path.includes(':')
+        ? `<a href="${route.path}">${route.path}</a>`
+        : escapeHtml(route.path);
+      return `<div class="endpoint"><span class="method ${route.method}">${route.method.toUpperCase()}</span> ${path} - ${escapeHtml(route.summary)}</div>`;
+    });
+    const description = escapeHtml(tag.description).replace(/`([^`]+)`/g, '<code>$1</code>');
+    return [
+      '<div class="card">',
+      `  <h2>${escapeHtml(tag.name)}</h2>`,
+      `  <p>${description}</p>`,
+      ...endpoints.map(e => `  ${e}`),
+      '</div>',
+    ].join('\n');
+  }).join('\n');
+}
+
+/**
+ * The path segments all routes share, e.g. "/rest/api/3/..." (or the path itself)
+ */
+function commonPath(routes: ApiRoute[]): string {
+  const paths = [...new Set(routes.map(r => r.path))];
+  if (paths.length === 1) return paths[0];
+
+  const segments = paths.map(p => p.split('/'));
+  const shared: string[] = [];
+  for (let i = 0; segments.every(s => i < s.length && s[i] === segments[0][i]); i++) {
+    shared.push(segments[0][i]);
+  }
+  return `${shared.join('/')}/...`;
+}
+
+/**
+ * Banner lines summarizing the endpoints: each tag, its count and paths
+ */
+export function bannerEndpointLines(): string[] {
+  return routesByTag().map(tag =>
+    `  ${tag.name.padEnd(13)}${String(tag.routes.length).padStart(3)}  ${commonPath(tag.routes)}`
+  );
+}
+
+// ============================================================================
+// EXPLORER
+// ============================================================================
+
+/**
+ * The API explorer page. It reads /api/openapi.json and builds a form per
+ * operation; requests go to this server, optionally with an API token.
+ */
+export function renderExplorerPage(): string {
+  return `<!DOCTYPE html>
+<html>
+  <head>
+    <meta charset="utf-8">
+    <title>API Explorer - Jira Structure Learning Tool</title>
+    <style>
+      body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; margin: 0; background: #f5f5f5; color: #172B4D; }
+      header { background: #0052CC; color: white; padding: 12px 24px; display: flex; align-items: center; gap: 16px; }
+      header h1 { font-size: 18px; margin: 0; flex: 1; }
+      header a { color: white; font-size: 13px; }
+      header input { width: 320px; padding: 6px 8px; border: 0; border-radius: 4px; font-size: 13px; }
+      main { max-width: 960px; margin: 0 auto; padding: 16px 24px 48px; }
+      h2 { font-size: 16px; margin: 24px 0 4px; }
+      .tag-description { color: #5E6C84; font-size: 13px; margin: 0 0 8px; }
+      details { background: white; border-radius: 6px; margin: 6px 0; box-shadow: 0 1px 2px rgba(0,0,0,0.1); }
+      summary { padding: 8px 12px; cursor: pointer; font-size: 14px; display: flex; gap: 12px; align-items: baseline; }
+      summary code { font-weight: 600; }
+      summary span.text { color: #5E6C84; }
+      .method { display: inline-block; width: 56px; font-weight: bold; font-size: 12px; text-transform: uppercase; }
+      .get { color: #22863a; } .put { color: #b08800; } .post { color: #0052CC; } .patch { color: #6f42c1; } .delete { color: #cb2431; }
+      form { padding: 4px 12px 12px; border-top: 1px solid #eee; font-size: 13px; }
+      label { display: flex; gap: 8px; align-items: center; margin: 6px 0; }
+      label span { width: 140px; font-family: monospace; }
+      label small { color: #5E6C84; }
+      input, select, textarea { font-family: monospace; font-size: 13px; padding: 4px 6px; border: 1px solid #ccc; border-radius: 4px; }
+      textarea { width: 100%; box-sizing: border-box; min-height: 120px; }
+      button { background: #0052CC; color: white; border: 0; border-radius: 4px; padding: 6px 14px; cursor: pointer; margin-top: 6px; }
+      pre { background: #f4f5f7; padding: 8px; border-radius: 4px; max-height: 400px; overflow: auto; font-size: 12px; }
+      .status { font-weight: bold; }
+      .ok { color: #22863a; } .fail { color: #cb2431; }
+    </style>
+  </head>
+  <body>
+    <header>
+      <h1>API Explorer</h1>
+      <a href="/api/openapi.json">openapi.json</a>
+      <input id="token" placeholder="API token (optional, sent as Bearer)" autocomplete="off">
+    </header>
+    <main id="operations">Loading the OpenAPI document...</main>
+    <script>
+      var tokenInput = document.getElementById('token');
+      tokenInput.value = localStorage.getItem('apiExplorerToken') || '';
+      tokenInput.addEventListener('change', function () {
+        localStorage.setItem('apiExplorerToken', tokenInput.value.trim());
+      });
+
+      function el(tag, attributes, children) {
+        var node = document.createElement(tag);
+        Object.keys(attributes || {}).forEach(function (key) { node.setAttribute(key, attributes[key]); });
+        (children || []).forEach(function (child) {
+          node.appendChild(typeof child === 'string' ? document.createTextNode(child) : child);
+        });
+        return node;
+      }
+
+      function resolve(spec, schema) {
+        while (schema && schema.$ref) {
+          schema = spec.components.schemas[schema.$ref.split('/').pop()];
+        }
+        return schema || {};
+      }
+
+      // A starting value for a request body, from its schema
+      function example(spec, schema, depth) {
+        schema = resolve(spec, schema);
+        if (depth > 3) return null;
+        if (schema.enum) return schema.enum[0];
+        if (schema.anyOf || schema.oneOf) return example(spec, (schema.anyOf || schema.oneOf)[0], depth + 1);
+        switch (schema.type) {
+          case 'object':
+            var value = {};
+            var required = schema.required || [];
+            Object.keys(schema.properties || {}).forEach(function (key) {
+              if (depth === 0 || required.indexOf(key) >= 0) {
+                value[key] = example(spec, schema.properties[key], depth + 1);
+              }
+            });
+            return value;
+          case 'array': return schema.items ? [example(spec, schema.items, depth + 1)] : [];
+          case 'integer': case 'number': return 0;
+          case 'boolean': return false;
+          case 'string': return '';
+          default: return null;
+        }
+      }
+
+      function field(parameter) {
+        var schema = parameter.schema || {};
+        var input = schema.enum
+          ? el('select', { name: parameter.name }, schema.enum.map(function (v) { return el('option', { value: v }, [String(v)]); }))
+          : el('input', { name: parameter.name, placeholder: schema.type || 'string' });
+        input.dataset.in = parameter.in;
+        return el('label', {}, [
+          el('span', {}, [parameter.name + (parameter.required ? ' *' : '')]),
+          input,
+          el('small', {}, [parameter.description || ''])
+        ]);
+      }
+
+      function operationForm(spec, path, method, op) {
+        var body = op.requestBody && op.requestBody.content['application/json'].schema;
+        var textarea = body ? el('textarea', { name: 'body' }) : null;
+        if (textarea) textarea.value = JSON.stringify(example(spec, body, 0), null, 2);
+        var result = el('div', {});
+        var form = el('form', {}, (op.parameters || []).map(field).concat(textarea ? [textarea] : [], [el('button', { type: 'submit' }, ['Send']), result]));
+
+        form.addEventListener('submit', function (event) {
+          event.preventDefault();
+          var url = path;
+          var query = new URLSearchParams();
+          form.querySelectorAll('[data-in]').forEach(function (input) {
+            if (input.dataset.in === 'path') url = url.replace('{' + input.name + '}', encodeURIComponent(input.value));
+            else if (input.value !== '') query.append(input.name, input.value);
+          });
+          if (query.toString()) url += '?' + query.toString();
+
+          var headers = {};
+          if (tokenInput.value.trim()) headers.Authorization = 'Bearer ' + tokenInput.value.trim();
+          if (textarea) headers['Content-Type'] = 'application/json';
+
+          var started = performance.now();
+          result.textContent = 'Sending...';
+          fetch(url, { method: method.toUpperCase(), headers: headers, body: textarea ? textarea.value : undefined })
+            .then(function (response) {
+              return response.text().then(function (text) {
+                var pretty = text;
+                try { pretty = JSON.stringify(JSON.parse(text), null, 2); } catch (e) { /* not JSON */ }
+                result.innerHTML = '';
+                result.appendChild(el('p', {}, [
+                  el('span', { class: 'status ' + (response.ok ? 'ok' : 'fail') }, [response.status + ' ' + response.statusText]),
+                  ' ' + method.toUpperCase() + ' ' + url + ' (' + Math.round(performance.now() - started) + ' ms)'
+                ]));
+                if (pretty) result.appendChild(el('pre', {}, [pretty]));
+              });
+            })
+            .catch(function (error) { result.textContent = 'Request failed: ' + error.message; });
+        });
+        return form;
+      }
+
+      fetch('/api/openapi.json')
+        .then(function (response) { return response.json(); })
+        .then(function (spec) {
+          var main = document.getElementById('operations');
+          main.innerHTML = '';
+          spec.tags.forEach(function (tag) {
+            main.appendChild(el('h2', {}, [tag.name]));
+            main.appendChild(el('p', { class: 'tag-description' }, [tag.description]));
+            Object.keys(spec.paths).forEach(function (path) {
+              Object.keys(spec.paths[path]).forEach(function (method) {
+                var op = spec.paths[path][method];
+                if (op.tags[0] !== tag.name) return;
+                var details = el('details', {}, [el('summary', {}, [
+                  el('span', { class: 'method ' + method }, [method]),
+                  el('code', {}, [path]),
+                  el('span', { class: 'text' }, [op.summary])
+                ])]);
+                details.addEventListener('toggle', function () {
+                  if (details.open && details.children.length === 1) details.appendChild(operationForm(spec, path, method, op));
+                });
+                main.appendChild(details);
+              });
+            });
+          });
+        })
+        .catch(function (error) {
+          document.getElementById('operations').textContent = 'Could not load /api/openapi.json: ' + error.message;
+        });
+    </script>
+  </body>
+</html>`;
+}
@@ -0,0 +1,92 @@
+/**
+ * API Registry - Route definitions that document themselves
+ *
+ * Routes are registered through `apiRoutes(app)` instead of `app.get(...)`,
+ * together with a summary and zod schemas of their parameters, body and
+ * response. The registry is the single list of endpoints: the OpenAPI
+ * document, the API explorer, the landing page and the startup banner are
+ * all generated from it (see apiDocs.ts), so they can't drift from the
+ * routes that actually exist.
+ */
+
+import type { IRouter, RequestHandler } from 'express';
+import type { z } from 'zod';
+
+export type HttpMethod = 'get' | 'post' | 'put' | 'patch' | 'delete';
+
+/**
+ * Endpoint groups, in the order they're listed (OpenAPI tags, landing page cards)
+ */
+export const API_TAGS = [
+  { name: 'Status', description: 'Server health, live updates and this documentation.' },
+  { name: 'Data Files', description: 'Read and replace whole data files (projects, issues, sprints, users, structures, comments).' },
+  { name: 'Records', description: 'Single records of any data file, plus issue changelogs and comments.' },
+  { name: 'Search', description: 'JQL search over the issues.' },
+  { name: 'Backups', description: 'Snapshots of the data files.' },
+  { name: 'Workspaces', description: 'Separate data sets the server can switch between.' },
+  { name: 'API Tokens', description: 'Send `Authorization: Bearer <token>` (or Basic with email:token) to act as a user.' },
+  { name: 'Webhooks', description: 'Jira-shaped payloads POSTed on issue, comment and sprint events, retried with backoff.' },
+  { name: 'Jira REST v3', description: 'Jira Cloud request and response shapes, for curl snippets and jira-cli.' },
+  { name: 'Jira Agile', description: 'One scrum board per project; sprint states are future, active and closed.' },
+] as const;
+
+export type ApiTag = typeof API_TAGS[number]['name'];
+
+/**
+ * What a route does and accepts, next to its handler
+ */
+export interface RouteDoc {
+  tag: ApiTag;
+  /** One line, shown in lists */
+  summary: string;
+  description?: string;
+  /** Path parameters that aren't plain strings (e.g., an enum of resources) */
+  params?: Record<string, z.ZodType>;
+  /** Query string parameters */
+  query?: z.ZodObject;
+  /** JSON request body */
+  body?: z.ZodType;
+  /** Body of a successful response */
+  response?: z.ZodType;
+  /** Status of a successful response (200 if omitted) */
+  status?: number;
+}
+
+/**
+ * A registered route: its documentation plus the full path
+ */
+export interface ApiRoute extends RouteDoc {
+  method: HttpMethod;
+  /** Express path, including the mount path (e.g., "/rest/api/3/issue/:issueIdOrKey") */
+  path: string;
+}
+
+type RegisterRoute = (path: string, doc: RouteDoc, ...handlers: RequestHandler[]) => void;
+
+const routes: ApiRoute[] = [];
+
+/**
+ * Register documented routes on an app or router. `basePath` is where the
+ * router is mounted, so the documented paths are complete.
+ */
+export function apiRoutes(target: IRouter, basePath = ''): Record<HttpMethod, RegisterRoute> {
+  const register = (method: HttpMethod): RegisterRoute => (path, doc, ...handlers) => {
+    routes.push({ ...doc, method, path: `${basePath}${path}` });
+    target[method](path, ...handlers);
+  };
+
+  return {
+    get: register('get'),
+    post: register('post'),
+    put: register('put'),
+    patch: register('patch'),
+    delete: register('delete'),
+  };
+}
+
+/**
+ * Every documented route, in registration order
+ */
+export function listApiRoutes(): readonly ApiRoute[] {
+  return routes;
+}
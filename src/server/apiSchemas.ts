@@ -0,0 +1,325 @@
+/**
+ * API Schemas - zod schemas of request bodies, parameters and responses
+ *
+ * Used by the route registry (apiRegistry.ts) to document each endpoint.
+ * Data records reuse the schemas writes are validated with (validation.ts);
+ * schemas registered with `named()` become components of the OpenAPI
+ * document and are referenced rather than repeated.
+ */
+
+import { z } from 'zod';
+import { WebhookEvent } from '../types/index.js';
+import type { ApiToken, BackupInfo, ChangelogEntry, Webhook, WebhookDelivery, Workspace } from '../types/index.js';
+import { RESOURCE_SCHEMAS } from './validation.js';
+
+/** Schemas listed under `components.schemas`, by name */
+export const schemaRegistry = z.registry<{ id: string }>();
+
+function named<T extends z.ZodType>(id: string, schema: T): T {
+  schemaRegistry.add(schema, { id });
+  return schema;
+}
+
+// ============================================================================
+// ENVELOPES & ERRORS
+// ============================================================================
+
+/**
+ * The `{ success: true, data }` body of a successful /api response
+ */
+export function success<T extends z.ZodType>(data: T) {
+  return z.object({ success: z.literal(true), data });
+}
+
+export const errorResponse = named('Error', z.object({
+  success: z.literal(false),
+  error: z.string(),
+  validationErrors: z.array(z.object({
+    resource: z.string(),
+    id: z.string().optional(),
+    field: z.string().optional(),
+    message: z.string(),
+  })).optional().describe('Problems found when a write was rejected as invalid (422)'),
+}));
+
+export const jiraErrorResponse = named('JiraError', z.object({
+  errorMessages: z.array(z.string()),
+  errors: z.record(z.string(), z.string()).describe('Messages by field'),
+}));
+
+export const health = z.object({
+  status: z.literal('ok'),
+  timestamp: z.string(),
+});
+
+// ============================================================================
+// RECORDS
+// ============================================================================
+
+export const issue = named('Issue', RESOURCE_SCHEMAS.issues);
+export const project = named('Project', RESOURCE_SCHEMAS.projects);
+export const sprint = named('Sprint', RESOURCE_SCHEMAS.sprints);
+export const user = named('User', RESOURCE_SCHEMAS.users);
+export const structure = named('Structure', RESOURCE_SCHEMAS.structures);
+export const comment = named('Comment', RESOURCE_SCHEMAS.comments);
+
+/** A record of any data file */
+export const anyRecord = z.record(z.string(), z.unknown());
+
+export const changelogEntry: z.ZodType<ChangelogEntry> = named('ChangelogEntry', z.object({
+  id: z.string(),
+  issueId: z.string(),
+  issueKey: z.string(),
+  action: z.enum(['created', 'updated', 'deleted']),
+  author: z.object({
+    source: z.enum(['web', 'api', 'mcp', 'system']),
+    userId: z.string().nullable(),
+    via: z.string().nullable(),
+  }),
+  timestamp: z.string(),
+  items: z.array(z.object({ field: z.string(), from: z.unknown(), to: z.unknown() })),
+}));
+
+export const commentBody = z.object({
+  body: z.string().describe('Comment text (markdown)'),
+  author: z.string().optional().describe('User ID; the API token\'s user when authenticated'),
+});
+
+// ============================================================================
+// SEARCH
+// ============================================================================
+
+export const searchQuery = z.object({
+  jql: z.string().optional().describe('JQL query, e.g. project = PHOENIX AND status = "In Progress"'),
+  startAt: z.number().int().optional().describe('Index of the first result (default 0)'),
+  maxResults: z.number().int().optional().describe('Page size (default 50)'),
+  fields: z.string().optional().describe('Comma-separated issue fields to include; id and key are always included'),
+});
+
+export const searchBody = searchQuery.extend({
+  fields: z.array(z.string()).optional(),
+});
+
+export const searchPage = z.object({
+  issues: z.array(anyRecord),
+  total: z.number().int(),
+  startAt: z.number().int(),
+  maxResults: z.number().int(),
+});
+
+// ============================================================================
+// BACKUPS & WORKSPACES
+// ============================================================================
+
+export const backup: z.ZodType<BackupInfo> = named('Backup', z.object({
+  id: z.string(),
+  createdAt: z.string(),
+  reason: z.string(),
+  files: z.record(z.string(), z.number()).describe('Record count per data file'),
+}));
+
+export const backupRestoreResult = z.object({
+  restored: backup,
+  safetyBackup: backup.nullable(),
+});
+
+export const workspace: z.ZodType<Workspace> = named('Workspace', z.object({
+  id: z.string(),
+  name: z.string(),
+  dataDir: z.string(),
+  createdAt: z.string(),
+}));
+
+export const workspaceList = z.object({
+  activeId: z.string(),
+  workspaces: z.array(workspace),
+});
+
+export const createWorkspaceBody = z.object({
+  name: z.string(),
+  source: z.enum(['sample', 'empty', 'duplicate']),
+  from: z.string().optional().describe('Workspace to copy when duplicating'),
+  activate: z.boolean().optional().describe('Switch to the new workspace'),
+});
+
+// ============================================================================
+// API TOKENS & WEBHOOKS
+// ============================================================================
+
+export const apiToken: z.ZodType<ApiToken> = named('ApiToken', z.object({
+  id: z.string(),
+  userId: z.string(),
+  name: z.string(),
+  prefix: z.string().describe('First characters of the token, for recognizing it'),
+  createdAt: z.string(),
+}));
+
+export const createdApiToken = z.object({
+  id: z.string(),
+  userId: z.string(),
+  name: z.string(),
+  prefix: z.string(),
+  createdAt: z.string(),
+  token: z.string().describe('The token; only returned this once'),
+});
+
+export const createTokenBody = z.object({
+  name: z.string().max(50),
+});
+
+export const webhook: z.ZodType<Webhook> = named('Webhook', z.object({
+  id: z.string(),
+  name: z.string(),
+  url: z.string(),
+  events: z.array(z.enum(WebhookEvent)),
+  jqlFilter: z.string().nullable(),
+  enabled: z.boolean(),
+  createdAt: z.string(),
+}));
+
+export const webhookBody = z.object({
+  name: z.string(),
+  url: z.string().describe('http(s) URL that receives the payloads'),
+  events: z.array(z.enum(WebhookEvent)),
+  jqlFilter: z.string().nullable().optional().describe('Only issues (and their comments) matching this JQL fire'),
+  enabled: z.boolean().optional(),
+});
+
+export const deliveriesQuery = z.object({
+  webhookId: z.string().optional().describe('Only deliveries of this webhook'),
+});
+
+export const webhookDelivery: z.ZodType<WebhookDelivery> = named('WebhookDelivery', z.object({
+  id: z.string(),
+  webhookId: z.string(),
+  event: z.enum(WebhookEvent),
+  url: z.string(),
+  payload: anyRecord,
+  status: z.enum(['pending', 'succeeded', 'failed']),
+  attempts: z.number().int(),
+  responseStatus: z.number().int().nullable(),
+  error: z.string().nullable(),
+  createdAt: z.string(),
+  lastAttemptAt: z.string().nullable(),
+  nextAttemptAt: z.string().nullable(),
+}));
+
+// ============================================================================
+// JIRA REST & AGILE
+// ============================================================================
+
+export const jiraIssue = named('JiraIssue', z.object({
+  id: z.string(),
+  key: z.string(),
+  self: z.string(),
+  fields: anyRecord.describe('summary, description, issuetype, status, priority, assignee, ...'),
+}));
+
+export const jiraFieldsBody = z.object({
+  fields: anyRecord.describe('e.g. { "project": { "key": "PHOENIX" }, "summary": "...", "issuetype": { "name": "Task" } }'),
+});
+
+export const jiraSearchQuery = z.object({
+  jql: z.string().optional(),
+  maxResults: z.number().int().optional().describe('Page size (default 50, at most 5000)'),
+  nextPageToken: z.string().optional().describe('Token from the previous page'),
+  fields: z.string().optional().describe('Comma-separated fields to include: field IDs, *all, *navigable, -field to exclude'),
+});
+
+export const jiraSearchBody = jiraSearchQuery.extend({
+  fields: z.array(z.string()).optional(),
+});
+
+export const jiraSearchResult = z.object({
+  issues: z.array(jiraIssue),
+  nextPageToken: z.string().optional(),
+  isLast: z.boolean(),
+});
+
+export const jiraFieldsQuery = z.object({
+  fields: z.string().optional().describe('Comma-separated fields to include: field IDs, *all, *navigable, -field to exclude'),
+});
+
+export const jiraCreatedIssue = z.object({
+  id: z.string(),
+  key: z.string(),
+  self: z.string(),
+});
+
+export const jiraTransitions = z.object({
+  transitions: z.array(z.object({
+    id: z.string(),
+    name: z.string(),
+    to: z.object({ name: z.string() }),
+  })),
+});
+
+export const jiraTransitionBody = z.object({
+  transition: z.object({ id: z.string().describe('Transition ID ("1"-"4") or name') }),
+});
+
+export const jiraUser = z.object({
+  self: z.string(),
+  accountId: z.string(),
+  accountType: z.string(),
+  emailAddress: z.string(),
+  displayName: z.string(),
+  active: z.boolean(),
+});
+
+export const jiraBoard = named('JiraBoard', z.object({
+  id: z.string(),
+  self: z.string(),
+  name: z.string(),
+  type: z.literal('scrum'),
+  location: anyRecord,
+}));
+
+export const jiraSprint = named('JiraSprint', z.object({
+  id: z.string(),
+  self: z.string(),
+  state: z.enum(['future', 'active', 'closed']),
+  name: z.string(),
+  startDate: z.string(),
+  endDate: z.string(),
+  originBoardId: z.string(),
+  goal: z.string(),
+}));
+
+/**
+ * One page of a Jira Agile list
+ */
+export function agilePage<T extends z.ZodType>(values: T) {
+  return z.object({
+    startAt: z.number().int(),
+    maxResults: z.number().int(),
+    total: z.number().int(),
+    isLast: z.boolean(),
+    values: z.array(values),
+  });
+}
+
+export const agilePageQuery = z.object({
+  startAt: z.number().int().optional(),
+  maxResults: z.number().int().optional(),
+});
+
+export const jiraSprintIssues = z.object({
+  expand: z.string(),
+  startAt: z.number().int(),
+  maxResults: z.number().int(),
+  total: z.number().int(),
+  issues: z.array(jiraIssue),
+});
+
+export const jiraSprintBody = z.object({
+  name: z.string().optional(),
+  startDate: z.string().optional(),
+  endDate: z.string().optional(),
+  goal: z.string().optional(),
+  state: z.enum(['future', 'active', 'closed']).optional().describe('"active" starts the sprint, "closed" completes it'),
+});
+
+export const jiraMoveIssuesBody = z.object({
+  issues: z.array(z.string()).min(1).max(50).describe('Issue keys or IDs'),
+});
@@ -0,0 +1,222 @@
+/**
+ * Auth - Personal API tokens and request authentication
+ *
+ * Users in users.json can mint API tokens so scripts, Jira clients and the
+ * MCP server act as a specific team member. Only a SHA-256 hash of each
+ * token is stored (the "tokens" resource of the workspace); the token itself
+ * is shown once, when it is created.
+ *
+ * Requests identify themselves like they would with Jira Cloud:
+ * - `Authorization: Bearer <token>`
+ * - `Authorization: Basic base64(<email>:<token>)`
+ *
+ * Credentials are optional: anonymous requests from localhost are still
+ * served, but credentials that are sent must be valid.
+ *
+ * Managing tokens is the exception: only the user can mint further tokens
+ * or revoke them. A user's first token is minted anonymously, but only with
+ * the server's bootstrap secret, which it prints at startup: whoever can see
+ * the server's terminal runs it, while a page or script that merely reaches
+ * the port can't mint a token that acts as someone else.
+ */
+
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import type { ApiToken, CreatedApiToken, User } from '../types/index.js';
+import { IssueOperationError } from '../domain/index.js';
+import type { DataStorage, StoredRecord } from './storage.js';
+
+// Marks our tokens in config files and secret scanners
+const TOKEN_PREFIX = 'jst_';
+
+// Marks bootstrap secrets, so they aren't mistaken for tokens
+const BOOTSTRAP_PREFIX = 'jsb_';
+
+// Characters of the token kept for display
+const DISPLAY_PREFIX_LENGTH = 8;
+
+const MAX_NAME_LENGTH = 50;
+
+/** A token as stored: the listed fields plus the hash of the secret */
+interface StoredApiToken extends ApiToken {
+  hash: string;
+}
+
+// ============================================================================
+// TOKENS
+// ============================================================================
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/** Strip the hash before a token leaves the server */
+function toApiToken(stored: StoredApiToken): ApiToken {
+  return {
+    id: stored.id,
+    userId: stored.userId,
+    name: stored.name,
+    prefix: stored.prefix,
+    createdAt: stored.createdAt,
+  };
+}
+
+function requireUser(storage: DataStorage, userId: string): User {
+  const user = storage.get<User>('users', userId);
+  if (!user) {
+    throw new IssueOperationError(`User not found: ${userId}`, 404);
+  }
+  return user;
+}
+
+/**
+ * A user's tokens, oldest first
+ */
+export function listApiTokens(storage: DataStorage, userId: string): ApiToken[] {
+  requireUser(storage, userId);
+  return storage.query<StoredApiToken>('tokens', { userId }).map(toApiToken);
+}
+
+/**
+ * Check that the caller (the user the request authenticated as, or null)
+ * may manage a user's tokens
+ */
+function requireTokenOwner(callerId: string | null, userId: string, action: string): void {
+  if (callerId === null) {
+    throw new IssueOperationError(`Authenticate with one of ${userId}'s tokens to ${action}`, 401);
+  }
+  if (callerId !== userId) {
+    throw new IssueOperationError(`You can only ${action} for your own user`, 403);
+  }
+}
+
+// ============================================================================
+// BOOTSTRAP SECRET
+// ============================================================================
+
+/**
+ * A new bootstrap secret, for a server that wasn't given one
+ */
+export function createBootstrapSecret(): string {
+  return `${BOOTSTRAP_PREFIX}${randomBytes(18).toString('base64url')}`;
+}
+
+/**
+ * Check a presented bootstrap secret against the server's, in constant time
+ */
+export function isBootstrapSecret(secret: string, presented: string | undefined): boolean {
+  if (!presented) return false;
+  // Hashes have the same length, which timingSafeEqual needs
+  return timingSafeEqual(Buffer.from(hashToken(secret)), Buffer.from(hashToken(presented.trim())));
+}
+
+/**
+ * Mint a token for a user. The returned `token` can't be recovered later.
+ * `callerId` is who asks: the user themselves, or for a user's first
+ * token, an anonymous caller with the bootstrap secret (`bootstrap`).
+ */
+export function createApiToken(
+  storage: DataStorage,
+  userId: string,
+  name: unknown,
+  callerId: string | null,
+  bootstrap = false
+): CreatedApiToken {
+  const tokenName = typeof name === 'string' ? name.trim() : '';
+  if (!tokenName || tokenName.length > MAX_NAME_LENGTH) {
+    throw new IssueOperationError(`Token name is required (at most ${MAX_NAME_LENGTH} characters)`);
+  }
+
+  return storage.transaction(() => {
+    requireUser(storage, userId);
+    // Checked in the transaction, so two anonymous requests can't both
+    // mint a "first" token
+    if (callerId !== null || storage.query('tokens', { userId }).length > 0) {
+      requireTokenOwner(callerId, userId, 'create tokens');
+    } else if (!bootstrap) {
+      throw new IssueOperationError(
+        `Creating ${userId}'s first token needs the bootstrap secret the server printed at startup (X-Bootstrap-Secret header)`,
+        401
+      );
+    }
+    const token = `${TOKEN_PREFIX}${randomBytes(24).toString('base64url')}`;
+    const stored: StoredApiToken = {
+      id: `token-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      userId,
+      name: tokenName,
+      prefix: token.slice(0, DISPLAY_PREFIX_LENGTH),
+      createdAt: new Date().toISOString(),
+      hash: hashToken(token),
+    };
+    storage.upsert('tokens', [stored as unknown as StoredRecord]);
+    return { ...toApiToken(stored), token };
+  });
+}
+
+/**
+ * Revoke one of a user's tokens; only the user can
+ */
+export function revokeApiToken(storage: DataStorage, userId: string, tokenId: string, callerId: string | null): ApiToken {
+  requireTokenOwner(callerId, userId, 'revoke tokens');
+  return storage.transaction(() => {
+    const stored = storage.get<StoredApiToken>('tokens', tokenId);
+    if (!stored || stored.userId !== userId) {
+      throw new IssueOperationError(`Token not found: ${tokenId}`, 404);
+    }
+    storage.delete('tokens', [tokenId]);
+    return toApiToken(stored);
+  });
+}
+
+/**
+ * Revoke all tokens of a deleted user
+ */
+export function revokeUserTokens(storage: DataStorage, userId: string): void {
+  const ids = storage.query<StoredApiToken>('tokens', { userId }).map(t => t.id);
+  if (ids.length > 0) {
+    storage.delete('tokens', ids);
+  }
+}
+
+// ============================================================================
+// AUTHENTICATION
+// ============================================================================
+
+/**
+ * The user a token acts as, or undefined if the token is unknown or its
+ * user no longer exists
+ */
+export function authenticateToken(storage: DataStorage, token: string): User | undefined {
+  const [stored] = storage.query<StoredApiToken>('tokens', { hash: hashToken(token.trim()) });
+  return stored ? storage.get<User>('users', stored.userId) : undefined;
+}
+
+/**
+ * The user an Authorization header identifies; null when there is none.
+ * Throws IssueOperationError (401) for unsupported or invalid credentials.
+ */
+export function authenticateRequest(storage: DataStorage, authorization: string | undefined): User | null {
+  if (!authorization) return null;
+
+  const [scheme, credentials = ''] = authorization.trim().split(/\s+/, 2);
+  let user: User | undefined;
+
+  if (scheme.toLowerCase() === 'bearer') {
+    user = authenticateToken(storage, credentials);
+  } else if (scheme.toLowerCase() === 'basic') {
+    // Jira Cloud style: the account's email (or our user ID) and a token
+    const decoded = Buffer.from(credentials, 'base64').toString();
+    const separator = decoded.indexOf(':');
+    const login = decoded.slice(0, separator).toLowerCase();
+    user = separator < 0 ? undefined : authenticateToken(storage, decoded.slice(separator + 1));
+    if (user && user.email.toLowerCase() !== login && user.id.toLowerCase() !== login) {
+      user = undefined;
+    }
+  } else {
+    throw new IssueOperationError(`Unsupported authorization scheme: ${scheme}. Use Bearer or Basic.`, 401);
+  }
+
+  if (!user) {
+    throw new IssueOperationError('Invalid API token', 401);
+  }
+  return user;
+}
@@ -0,0 +1,149 @@
+/**
+ * Backups - Rolling snapshots of the data directory
+ *
+ * Snapshots live in `data/.backups/<id>/` and contain the project data as
+ * JSON files (whichever storage backend is in use) plus a `backup.json`
+ * manifest. The changelog, API tokens, webhooks and webhook deliveries are
+ * logs and configuration rather than project data: they are left out, so
+ * a restore never rewinds the changelog or brings back a revoked token.
+ * Instead, a restore is itself recorded in the changelog. A snapshot is
+ * taken before a write when the newest one is older than the backup
+ * interval, and the oldest snapshots are pruned beyond the limit.
+ *
+ * Environment overrides:
+ * - BACKUP_LIMIT: number of snapshots to keep (default 20)
+ * - BACKUP_INTERVAL_MINUTES: minimum time between automatic snapshots (default 5)
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { DataStorage, StorageResource } from './storage.js';
+import type { BackupInfo } from '../types/index.js';
+
+const BACKUPS_DIR_NAME = '.backups';
+const MANIFEST_FILE = 'backup.json';
+const BACKUP_LIMIT = Number(process.env.BACKUP_LIMIT) || 20;
+const BACKUP_INTERVAL_MS = (Number(process.env.BACKUP_INTERVAL_MINUTES) || 5) * 60 * 1000;
+
+/**
+ * The resources a snapshot contains. Listed out rather than derived from
+ * STORAGE_RESOURCES: storage.ts imports this module indirectly, so that
+ * array isn't initialized yet when this runs.
+ */
+export const BACKUP_RESOURCES: readonly StorageResource[] = [
+  'projects',
+  'issues',
+  'sprints',
+  'users',
+  'structures',
+  'comments',
+];
+
+/**
+ * Snapshot IDs are used as directory names, so only allow safe characters
+ */
+function isValidBackupId(id: string): boolean {
+  return /^[\w-]+$/.test(id);
+}
+
+/**
+ * Path of the snapshot directory
+ */
+export function getBackupsDir(dataDir: string): string {
+  return path.join(dataDir, BACKUPS_DIR_NAME);
+}
+
+/**
+ * List snapshots, newest first
+ */
+export function listBackups(dataDir: string): BackupInfo[] {
+  const backupsDir = getBackupsDir(dataDir);
+  if (!fs.existsSync(backupsDir)) return [];
+
+  const backups: BackupInfo[] = [];
+  for (const id of fs.readdirSync(backupsDir)) {
+    const manifestPath = path.join(backupsDir, id, MANIFEST_FILE);
+    // Snapshots without a manifest are incomplete (still being written or crashed)
+    if (!isValidBackupId(id) || !fs.existsSync(manifestPath)) continue;
+    backups.push(JSON.parse(fs.readFileSync(manifestPath, 'utf-8')) as BackupInfo);
+  }
+
+  return backups.sort((a, b) => b.createdAt.localeCompare(a.createdAt) || b.id.localeCompare(a.id));
+}
+
+/**
+ * Remove the oldest snapshots beyond the limit
+ */
+function pruneBackups(dataDir: string): void {
+  const backupsDir = getBackupsDir(dataDir);
+  for (const backup of listBackups(dataDir).slice(BACKUP_LIMIT)) {
+    fs.rmSync(path.join(backupsDir, backup.id), { recursive: true, force: true });
+  }
+}
+
+/**
+ * Take a snapshot of the project data.
+ * Callers should run this in a storage transaction so the snapshot is
+ * consistent.
+ */
+export function createBackup(storage: DataStorage, reason: string): BackupInfo | null {
+  const contents = BACKUP_RESOURCES.map(resource => [resource, storage.read(resource)] as const);
+  if (contents.every(([, records]) => records.length === 0)) return null;
+
+  const backupsDir = getBackupsDir(storage.dataDir);
+  const baseId = new Date().toISOString().replace(/[:.]/g, '-');
+  let id = baseId;
+  for (let n = 1; fs.existsSync(path.join(backupsDir, id)); n++) {
+    id = `${baseId}-${n}`;
+  }
+
+  // Write into a staging directory and rename it when complete
+  const stagingDir = path.join(backupsDir, `${id}.partial`);
+  fs.mkdirSync(stagingDir, { recursive: true });
+
+  const files: Record<string, number> = {};
+  for (const [resource, records] of contents) {
+    const fileName = `${resource}.json`;
+    fs.writeFileSync(path.join(stagingDir, fileName), JSON.stringify(records, null, 2), 'utf-8');
+    files[fileName] = records.length;
+  }
+
+  const info: BackupInfo = { id, createdAt: new Date().toISOString(), reason, files };
+  fs.writeFileSync(path.join(stagingDir, MANIFEST_FILE), JSON.stringify(info, null, 2), 'utf-8');
+  fs.renameSync(stagingDir, path.join(backupsDir, id));
+
+  pruneBackups(storage.dataDir);
+  return info;
+}
+
+/**
+ * Take an automatic snapshot if the newest one is older than the interval
+ */
+export function backupIfDue(storage: DataStorage): void {
+  const [latest] = listBackups(storage.dataDir);
+  if (latest && Date.now() - new Date(latest.createdAt).getTime() < BACKUP_INTERVAL_MS) {
+    return;
+  }
+  createBackup(storage, 'auto');
+}
+
+/**
+ * Read the data files stored in a snapshot, or null if it doesn't exist
+ */
+export function readBackupFiles(
+  dataDir: string,
+  id: string
+): { info: BackupInfo; files: Record<string, unknown> } | null {
+  if (!isValidBackupId(id)) return null;
+
+  const info = listBackups(dataDir).find(b => b.id === id);
+  if (!info) return null;
+
+  const backupDir = path.join(getBackupsDir(dataDir), id);
+  const files: Record<string, unknown> = {};
+  for (const fileName of Object.keys(info.files)) {
+    files[fileName] = JSON.parse(fs.readFileSync(path.join(backupDir, fileName), 'utf-8'));
+  }
+
+  return { info, files };
+}
@@ -0,0 +1,298 @@
+/**
+ * Change Feed - Server-Sent Events for data file changes
+ *
+ * Keeps the last known content of each data file and turns every change
+ * into per-record events (created/updated/deleted) broadcast at
+ * GET /api/events. Changes reach the feed two ways:
+ * - Writes made by this server are published directly, tagged with the
+ *   X-Client-Id of the request that made them (see writeContext.ts)
+ * - Everything else (the MCP server, hand edits, restores) is picked up by
+ *   watching the data directory (or the SQLite database file), with no
+ *   origin. Data files that were edited into an invalid state are
+ *   quarantined instead (see externalEdits.ts) and reported to clients
+ *
+ * Both paths diff against the same snapshot, so a write is only ever
+ * reported once. Besides SSE clients, in-process listeners (webhooks) get
+ * each event along with the record as it was before the change.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { Response } from 'express';
+import { getWriteContext } from './writeContext.js';
+import { checkDataFile, quarantineDataFile } from './externalEdits.js';
+import type { DataStorage } from './storage.js';
+import type { DataChangeEvent, ChangeAction, QuarantineEvent, Workspace } from '../types/index.js';
+
+type Resource = DataChangeEvent['resource'];
+type DataRecord = { id: string } & Record<string, unknown>;
+
+/** Called for every change; `previous` is null for created records */
+export type ChangeListener = (event: DataChangeEvent, previous: DataRecord | null) => void;
+
+/** A record plus its serialized content, used to detect changes */
+interface IndexedRecord {
+  content: string;
+  record: DataRecord;
+}
+
+// Debounce for bursts of watch notifications on the same file
+const WATCH_DEBOUNCE_MS = 100;
+
+// Invalid content must last this long before it is quarantined, since
+// editors and git may write a file in several steps
+const QUARANTINE_DELAY_MS = 1000;
+
+// Keep idle connections open through proxies
+const HEARTBEAT_MS = 25000;
+
+const snapshots = new Map<Resource, Map<string, IndexedRecord>>();
+const subscribers = new Set<Response>();
+const listeners = new Set<ChangeListener>();
+let seq = 0;
+
+// ============================================================================
+// DIFFING & BROADCAST
+// ============================================================================
+
+/**
+ * Index records by ID, keeping their serialized form for comparison.
+ * Revisions are left out so first-time revision stamping isn't a change.
+ */
+function indexRecords(data: unknown): Map<string, IndexedRecord> {
+  const withoutRevision = (key: string, value: unknown) => (key === 'revision' ? undefined : value);
+  const index = new Map<string, IndexedRecord>();
+  if (Array.isArray(data)) {
+    for (const record of data as DataRecord[]) {
+      if (record && typeof record.id === 'string') {
+        index.set(record.id, { content: JSON.stringify(record, withoutRevision), record });
+      }
+    }
+  }
+  return index;
+}
+
+/**
+ * Send one event to every connected client
+ */
+function broadcast(event: DataChangeEvent): void {
+  const message = `id: ${event.seq}\nevent: change\ndata: ${JSON.stringify(event)}\n\n`;
+  for (const res of subscribers) {
+    res.write(message);
+  }
+}
+
+/**
+ * Hand one event to the in-process listeners. A failing listener must not
+ * break the write that triggered it.
+ */
+function notifyListeners(event: DataChangeEvent, previous: DataRecord | null): void {
+  for (const listener of listeners) {
+    try {
+      listener(event, previous);
+    } catch (error) {
+      console.error('Change listener failed:', error);
+    }
+  }
+}
+
+/**
+ * Diff new file content against the snapshot and broadcast the changes.
+ * Uses the origin of the current request, if any.
+ *
+ * Writes by the app always raise the revision of changed records. When a
+ * changed record's revision didn't go up, the file was edited by hand (or
+ * checked out from git); clients would take the event for an outdated
+ * copy, so they're told to reload the whole resource instead.
+ */
+export function publishFileChange(resource: Resource, data: unknown): void {
+  const before = snapshots.get(resource) ?? new Map<string, IndexedRecord>();
+  const after = indexRecords(data);
+  snapshots.set(resource, after);
+
+  const origin = getWriteContext()?.clientId ?? null;
+  const timestamp = new Date().toISOString();
+  const emit = (action: ChangeAction, recordId: string, record: DataRecord | null, previous: DataRecord | null) => {
+    const event = {
+      seq: ++seq,
+      resource,
+      action,
+      recordId,
+      record,
+      origin,
+      timestamp,
+    } as DataChangeEvent;
+    broadcast(event);
+    notifyListeners(event, previous);
+  };
+
+  let edited = false;
+  for (const [id, { content, record }] of after) {
+    const previous = before.get(id);
+    if (previous === undefined) {
+      emit('created', id, record, null);
+    } else if (previous.content !== content) {
+      emit('updated', id, record, previous.record);
+      edited ||= Number(record.revision ?? 0) <= Number(previous.record.revision ?? 0);
+    }
+  }
+  for (const [id, previous] of before) {
+    if (!after.has(id)) {
+      emit('deleted', id, null, previous.record);
+    }
+  }
+
+  if (edited) {
+    const message = `event: reload\ndata: ${JSON.stringify({ resource, timestamp })}\n\n`;
+    for (const res of subscribers) {
+      res.write(message);
+    }
+  }
+}
+
+/**
+ * Tell every connected client that an edited data file was rejected
+ */
+function publishQuarantine(event: QuarantineEvent): void {
+  const message = `event: quarantine\ndata: ${JSON.stringify(event)}\n\n`;
+  for (const res of subscribers) {
+    res.write(message);
+  }
+}
+
+/**
+ * Tell every connected client that the server switched workspaces, so
+ * they reload all data instead of applying record events
+ */
+export function publishWorkspaceChange(workspace: Workspace): void {
+  const message = `event: workspace\ndata: ${JSON.stringify({ id: workspace.id, name: workspace.name })}\n\n`;
+  for (const res of subscribers) {
+    res.write(message);
+  }
+}
+
+// ============================================================================
+// SUBSCRIPTIONS
+// ============================================================================
+
+/**
+ * Register an SSE response; it stays open until the client disconnects
+ */
+export function subscribe(res: Response): void {
+  res.set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+  });
+  res.flushHeaders();
+  res.write(': connected\n\n');
+
+  const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), HEARTBEAT_MS);
+  subscribers.add(res);
+
+  res.on('close', () => {
+    clearInterval(heartbeat);
+    subscribers.delete(res);
+  });
+}
+
+/**
+ * Listen to every change in-process. Returns a function that stops listening.
+ */
+export function onRecordChange(listener: ChangeListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// ============================================================================
+// WATCHING
+// ============================================================================
+
+/**
+ * Load the current data and watch the storage for external changes.
+ * Returns a function that stops watching (e.g., before switching workspaces).
+ */
+export function startChangeFeed(storage: DataStorage, resources: readonly Resource[]): () => void {
+  snapshots.clear();
+  for (const resource of resources) {
+    snapshots.set(resource, indexRecords(storage.read(resource)));
+  }
+
+  const timers = new Map<string, NodeJS.Timeout>();
+  const quarantineTimers = new Map<Resource, NodeJS.Timeout>();
+
+  /**
+   * Check a JSON data file that changed on disk. Returns its records if
+   * they're valid; otherwise schedules the quarantine, which a later
+   * (fixed) save cancels.
+   */
+  const vetDataFile = (resource: Resource): unknown[] | null => {
+    clearTimeout(quarantineTimers.get(resource));
+    const check = checkDataFile(storage.dataDir, resource);
+    if (check.valid) return check.data;
+
+    quarantineTimers.set(resource, setTimeout(() => {
+      const lastGood = [...(snapshots.get(resource)?.values() ?? [])].map(({ record }) => record);
+      try {
+        const event = quarantineDataFile(storage.dataDir, resource, check.content, check.issues, lastGood);
+        if (event) {
+          console.error(
+            `⚠ ${resource}.json was edited into an invalid state and moved to ${event.quarantinedAs}:\n` +
+            event.issues.slice(0, 5).map(issue => `  - ${issue.id ? `${issue.id}: ` : ''}${issue.message}`).join('\n')
+          );
+          publishQuarantine(event);
+        }
+      } catch (error) {
+        console.error(`Could not quarantine ${resource}.json:`, (error as Error).message);
+      }
+    }, QUARANTINE_DELAY_MS));
+    return null;
+  };
+
+  const republish = (key: string, changed: readonly Resource[]) => {
+    clearTimeout(timers.get(key));
+    timers.set(key, setTimeout(() => {
+      for (const resource of changed) {
+        try {
+          const data = storage.kind === 'json' ? vetDataFile(resource) : storage.read(resource);
+          if (data) publishFileChange(resource, data);
+        } catch (error) {
+          console.warn(`Change feed could not read ${resource}:`, (error as Error).message);
+        }
+      }
+    }, WATCH_DEBOUNCE_MS));
+  };
+
+  let watcher: fs.FSWatcher;
+  if (storage.kind === 'sqlite') {
+    // Commits land in the write-ahead log first, so watch its directory
+    // and re-read every resource; unchanged ones produce no events
+    const dbName = path.basename(storage.location);
+    watcher = fs.watch(path.dirname(storage.location), (_eventType, fileName) => {
+      if (fileName?.toString().startsWith(dbName)) {
+        republish(dbName, resources);
+      }
+    });
+  } else {
+    watcher = fs.watch(storage.dataDir, (_eventType, fileName) => {
+      // Temp files from atomic writes end in .tmp and are ignored here
+      const resource = fileName ? path.basename(fileName.toString(), '.json') : '';
+      if (!fileName?.toString().endsWith('.json') || !resources.includes(resource as Resource)) {
+        return;
+      }
+      republish(resource, [resource as Resource]);
+    });
+  }
+
+  // Don't keep the process alive just for the watcher
+  watcher.unref();
+
+  return () => {
+    watcher.close();
+    for (const timer of [...timers.values(), ...quarantineTimers.values()]) {
+      clearTimeout(timer);
+    }
+  };
+}
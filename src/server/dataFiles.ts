@@ -0,0 +1,184 @@
+/**
+ * Data Files - Crash-safe, validated writes to the data store
+ *
+ * Shared by the Express server and the MCP server so both processes write
+ * data the same way, whichever storage backend is in use (see storage.ts):
+ * - A lock file (`data/.lock`) serializes writers across processes
+ * - Files are written to a temp file, fsynced, then renamed into place,
+ *   so a crash mid-write never leaves a truncated data file behind
+ * - A rolling snapshot is taken before writes, and snapshots can be
+ *   restored (see backups.ts)
+ * - Content is validated against the other data files (see validation.ts)
+ * - Record revisions are stamped (see revisions.ts)
+ * - Issue changes are appended to the changelog (see history.ts)
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { stampRevisions } from './revisions.js';
+import { backupIfDue, createBackup, readBackupFiles, BACKUP_RESOURCES } from './backups.js';
+import { validateWrite } from './validation.js';
+import { diffIssueChanges } from './history.js';
+import { replaceRecords } from './storage.js';
+import type { DataSet } from './validation.js';
+import type { DataStorage, StorageResource, StoredRecord } from './storage.js';
+import type { BackupRestoreResult } from '../types/index.js';
+
+// How long a writer waits for the lock before giving up
+const LOCK_TIMEOUT_MS = 5000;
+
+// A lock older than this is assumed to be left over from a crashed process
+const STALE_LOCK_MS = 30000;
+
+// Reentrancy depth per lock path held by this process
+const heldLocks = new Map<string, number>();
+
+/**
+ * Block the current thread for a few milliseconds
+ */
+function sleepSync(ms: number): void {
+  Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, ms);
+}
+
+/**
+ * Check whether a lock file was left behind by a dead or hung process
+ */
+function isStaleLock(lockPath: string): boolean {
+  try {
+    const [pid, acquiredAt] = fs.readFileSync(lockPath, 'utf-8').split(':').map(Number);
+    if (Date.now() - acquiredAt > STALE_LOCK_MS) return true;
+    process.kill(pid, 0);
+    return false;
+  } catch (error) {
+    // ESRCH: the owning process is gone. EPERM: it exists but is not ours.
+    return (error as NodeJS.ErrnoException).code !== 'EPERM';
+  }
+}
+
+/**
+ * Run a function while holding the data directory lock.
+ * The lock is reentrant within a process, so locked helpers may nest.
+ */
+export function withDataLock<T>(dataDir: string, fn: () => T): T {
+  const lockPath = path.join(dataDir, '.lock');
+  const depth = heldLocks.get(lockPath) ?? 0;
+
+  if (depth === 0) {
+    const deadline = Date.now() + LOCK_TIMEOUT_MS;
+    for (;;) {
+      try {
+        fs.writeFileSync(lockPath, `${process.pid}:${Date.now()}`, { flag: 'wx' });
+        break;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+        if (isStaleLock(lockPath)) {
+          fs.rmSync(lockPath, { force: true });
+          continue;
+        }
+        if (Date.now() > deadline) {
+          throw new Error(`Timed out waiting for data lock: ${lockPath}`);
+        }
+        sleepSync(25);
+      }
+    }
+  }
+
+  heldLocks.set(lockPath, depth + 1);
+  try {
+    return fn();
+  } finally {
+    if (depth === 0) {
+      heldLocks.delete(lockPath);
+      fs.rmSync(lockPath, { force: true });
+    } else {
+      heldLocks.set(lockPath, depth);
+    }
+  }
+}
+
+/**
+ * Write a file atomically: temp file, fsync, then rename over the target
+ */
+export function writeFileAtomic(filePath: string, content: string): void {
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  const fd = fs.openSync(tempPath, 'w');
+  try {
+    fs.writeSync(fd, content);
+    fs.fsyncSync(fd);
+  } finally {
+    fs.closeSync(fd);
+  }
+  fs.renameSync(tempPath, filePath);
+}
+
+/**
+ * Read a JSON data file, or undefined if it doesn't exist
+ */
+export function readJsonIfExists(filePath: string): unknown {
+  if (!fs.existsSync(filePath)) return undefined;
+  return JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+}
+
+/**
+ * Read the validated resources as one data set
+ */
+export function readDataSet(storage: DataStorage): DataSet {
+  return {
+    users: storage.read('users'),
+    projects: storage.read('projects'),
+    sprints: storage.read('sprints'),
+    issues: storage.read('issues'),
+    structures: storage.read('structures'),
+    comments: storage.read('comments'),
+  };
+}
+
+/**
+ * Save the full content of a resource in one transaction, with
+ * validation, a rolling backup and revision stamping. Returns the data as
+ * written; throws DataValidationError if the data is invalid.
+ */
+export function saveResource<T>(storage: DataStorage, resource: StorageResource, data: T): T {
+  return storage.transaction(() => {
+    validateWrite(`${resource}.json`, data, readDataSet(storage));
+    backupIfDue(storage);
+    const previous = storage.read(resource);
+    const stamped = stampRevisions(previous, data);
+    replaceRecords(storage, resource, stamped as StoredRecord[]);
+    if (resource === 'issues') {
+      storage.append('history', diffIssueChanges(previous, stamped) as unknown as StoredRecord[]);
+    }
+    return stamped;
+  });
+}
+
+/**
+ * Restore a snapshot over the current data. The changelog, tokens and
+ * webhooks are left as they are, even if an older snapshot contains them;
+ * the issue changes the restore makes are added to the changelog.
+ * The current state is snapshotted first so a restore can itself be undone,
+ * and revisions keep increasing so clients holding newer copies get a 409.
+ * Returns the restored snapshot and the safety snapshot, or null if the
+ * snapshot doesn't exist.
+ */
+export function restoreBackup(
+  storage: DataStorage,
+  id: string
+): BackupRestoreResult | null {
+  return storage.transaction(() => {
+    const backup = readBackupFiles(storage.dataDir, id);
+    if (!backup) return null;
+
+    const safetyBackup = createBackup(storage, `before restore of ${id}`);
+    const previousIssues = storage.read('issues');
+
+    for (const [fileName, data] of Object.entries(backup.files)) {
+      const resource = path.basename(fileName, '.json') as StorageResource;
+      if (!BACKUP_RESOURCES.includes(resource) || !Array.isArray(data)) continue;
+      replaceRecords(storage, resource, stampRevisions(storage.read(resource), data) as StoredRecord[]);
+    }
+    storage.append('history', diffIssueChanges(previousIssues, storage.read('issues'), 'restoreBackup') as unknown as StoredRecord[]);
+
+    return { restored: backup.info, safetyBackup };
+  });
+}
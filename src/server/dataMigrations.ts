@@ -0,0 +1,121 @@
+/**
+ * Data Migrations - Keeping a data directory at the current schema version
+ *
+ * `meta.json` in the data directory records which schema version its
+ * data has. When the web server or the MCP server opens a data directory
+ * written by an older version of the app, the migrations in
+ * src/utils/migrations.ts upgrade it: a snapshot is taken first, the
+ * records are rewritten in one transaction (with their revisions bumped),
+ * and the new version is recorded. `npm run migrate -- --dry-run` shows
+ * what would change without writing anything.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { withDataLock, writeFileAtomic, readJsonIfExists } from './dataFiles.js';
+import { createBackup } from './backups.js';
+import { stampRevisions } from './revisions.js';
+import { replaceRecords } from './storage.js';
+import { CURRENT_SCHEMA_VERSION, migrateData, parseSchemaVersion } from '../utils/migrations.js';
+import type { DataStorage, StoredRecord } from './storage.js';
+import type { AppliedMigration, MigratableData, MigratableResource } from '../utils/migrations.js';
+
+const META_FILE = 'meta.json';
+
+const MIGRATABLE_RESOURCES: readonly MigratableResource[] = [
+  'projects',
+  'issues',
+  'sprints',
+  'users',
+  'structures',
+  'comments',
+];
+
+/** Contents of meta.json */
+export interface DataMeta {
+  schemaVersion: number;
+}
+
+/** What migrating a data directory did (or would do, for a dry run) */
+export interface MigrationResult {
+  fromVersion: number;
+  toVersion: number;
+  applied: AppliedMigration[];
+}
+
+// ============================================================================
+// META FILE
+// ============================================================================
+
+/**
+ * Read the data directory's meta.json; data without one is from before
+ * versioning (version 1)
+ */
+export function readDataMeta(dataDir: string): DataMeta {
+  const meta = readJsonIfExists(path.join(dataDir, META_FILE)) as Partial<DataMeta> | undefined;
+  return { schemaVersion: parseSchemaVersion(meta?.schemaVersion) };
+}
+
+function writeDataMeta(dataDir: string, meta: DataMeta): void {
+  fs.mkdirSync(dataDir, { recursive: true });
+  writeFileAtomic(path.join(dataDir, META_FILE), `${JSON.stringify(meta, null, 2)}\n`);
+}
+
+// ============================================================================
+// MIGRATION
+// ============================================================================
+
+/**
+ * Bring a data directory up to the current schema version.
+ * With `dryRun`, only reports what would change. Throws
+ * SchemaVersionError for data written by a newer version of the app.
+ */
+export function migrateDataDirectory(storage: DataStorage, { dryRun = false } = {}): MigrationResult {
+  return withDataLock(storage.dataDir, () => {
+    const fromVersion = readDataMeta(storage.dataDir).schemaVersion;
+    const result: MigrationResult = { fromVersion, toVersion: CURRENT_SCHEMA_VERSION, applied: [] };
+    if (fromVersion === CURRENT_SCHEMA_VERSION && fs.existsSync(path.join(storage.dataDir, META_FILE))) {
+      return result;
+    }
+
+    const current: MigratableData = {};
+    for (const resource of MIGRATABLE_RESOURCES) {
+      current[resource] = storage.read(resource);
+    }
+    const { data, applied } = migrateData(current, fromVersion);
+    result.applied = applied;
+    if (dryRun) return result;
+
+    const changed = MIGRATABLE_RESOURCES.filter(resource =>
+      applied.some(migration => migration.changed[resource])
+    );
+    if (changed.length > 0) {
+      storage.transaction(() => {
+        createBackup(storage, `before migration to schema version ${CURRENT_SCHEMA_VERSION}`);
+        for (const resource of changed) {
+          replaceRecords(storage, resource, stampRevisions(current[resource]!, data[resource]!) as StoredRecord[]);
+        }
+      });
+    }
+    writeDataMeta(storage.dataDir, { schemaVersion: CURRENT_SCHEMA_VERSION });
+    return result;
+  });
+}
+
+/**
+ * Describe a migration result for the console, one line per data file
+ */
+export function formatMigrationResult(result: MigrationResult): string[] {
+  const lines: string[] = [];
+  for (const migration of result.applied) {
+    lines.push(`v${migration.version}: ${migration.description}`);
+    const counts = Object.entries(migration.changed);
+    if (counts.length === 0) {
+      lines.push('  (no records to change)');
+    }
+    for (const [resource, count] of counts) {
+      lines.push(`  ${`${resource}.json`.padEnd(18)} ${count} record${count === 1 ? '' : 's'}`);
+    }
+  }
+  return lines;
+}
@@ -0,0 +1,95 @@
+/**
+ * External Edits - Vetting data files changed outside the app
+ *
+ * Data files get edited by hand or replaced by `git checkout` while the
+ * server runs. Before the change feed (changeFeed.ts) broadcasts such a
+ * change, the file is checked here: content that isn't valid JSON or whose
+ * records don't match the schema is moved to `data/.quarantine/` and the
+ * last good content is written back, so the server, the MCP server and
+ * the browser keep working with valid data.
+ *
+ * Only the shape of each file is checked, not the references between
+ * files: a checkout rewrites the files one after another, and they only
+ * agree again once all of them are written (`npm run validate-data` checks
+ * references).
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { withDataLock, writeFileAtomic } from './dataFiles.js';
+import { validateShape } from './validation.js';
+import type { DataChangeEvent, DataValidationIssue, QuarantineEvent } from '../types/index.js';
+
+type Resource = DataChangeEvent['resource'];
+
+const QUARANTINE_DIR_NAME = '.quarantine';
+
+/** Result of checking a data file on disk */
+export type DataFileCheck =
+  | { valid: true; data: unknown[] }
+  | { valid: false; content: string; issues: DataValidationIssue[] };
+
+/**
+ * Directory rejected data files are moved to
+ */
+export function getQuarantineDir(dataDir: string): string {
+  return path.join(dataDir, QUARANTINE_DIR_NAME);
+}
+
+/**
+ * Read a data file and check its shape. A missing file counts as empty.
+ */
+export function checkDataFile(dataDir: string, resource: Resource): DataFileCheck {
+  const filePath = path.join(dataDir, `${resource}.json`);
+  if (!fs.existsSync(filePath)) return { valid: true, data: [] };
+
+  const content = fs.readFileSync(filePath, 'utf-8');
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch (error) {
+    return {
+      valid: false,
+      content,
+      issues: [{ resource, message: `${resource}.json is not valid JSON: ${(error as Error).message}` }],
+    };
+  }
+
+  const issues = validateShape(resource, data);
+  return issues.length > 0 ? { valid: false, content, issues } : { valid: true, data: data as unknown[] };
+}
+
+/**
+ * Move a rejected data file to the quarantine directory and write the last
+ * good records back in its place. Nothing happens if the file changed
+ * since it was checked (`rejected` is the content that was checked);
+ * returns null in that case.
+ */
+export function quarantineDataFile(
+  dataDir: string,
+  resource: Resource,
+  rejected: string,
+  issues: DataValidationIssue[],
+  lastGood: unknown[]
+): QuarantineEvent | null {
+  const filePath = path.join(dataDir, `${resource}.json`);
+
+  return withDataLock(dataDir, () => {
+    if (!fs.existsSync(filePath) || fs.readFileSync(filePath, 'utf-8') !== rejected) {
+      return null;
+    }
+
+    const quarantineDir = getQuarantineDir(dataDir);
+    fs.mkdirSync(quarantineDir, { recursive: true });
+    const fileName = `${new Date().toISOString().replace(/[:.]/g, '-')}-${resource}.json`;
+    fs.renameSync(filePath, path.join(quarantineDir, fileName));
+    writeFileAtomic(filePath, JSON.stringify(lastGood, null, 2));
+
+    return {
+      resource,
+      quarantinedAs: path.join(QUARANTINE_DIR_NAME, fileName),
+      issues,
+      timestamp: new Date().toISOString(),
+    };
+  });
+}
@@ -0,0 +1,109 @@
+/**
+ * History - Field-level issue changelog
+ *
+ * Every write of the issues is diffed against the previous content and
+ * the changes are appended to the history resource as changelog entries
+ * (who, when, and each field's old and new value). Entries are never
+ * rewritten, and backup restores add entries rather than rewinding them. Because this happens in the
+ * shared write path, changes from the web app, the REST API and MCP tools
+ * are all recorded the same way.
+ */
+
+import { getWriteContext } from './writeContext.js';
+import type { DataStorage } from './storage.js';
+import type { Issue, ChangelogEntry, ChangelogItem, ChangeAuthor } from '../types/index.js';
+
+// Bookkeeping fields that change on every write and aren't worth recording
+const IGNORED_FIELDS = new Set(['id', 'createdAt', 'updatedAt', 'revision']);
+
+/**
+ * Attribute a change to the current write context
+ */
+function currentAuthor(via?: string): ChangeAuthor {
+  const context = getWriteContext();
+  return {
+    source: context?.source ?? 'system',
+    userId: context?.userId ?? null,
+    via: via ?? context?.via ?? null,
+  };
+}
+
+/**
+ * Generate a unique changelog entry ID
+ */
+function generateEntryId(): string {
+  return `change-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+}
+
+/**
+ * List the fields that differ between two versions of an issue
+ */
+export function diffIssueFields(before: Issue, after: Issue): ChangelogItem[] {
+  const fields = new Set([...Object.keys(before), ...Object.keys(after)]);
+  const items: ChangelogItem[] = [];
+
+  for (const field of fields) {
+    if (IGNORED_FIELDS.has(field)) continue;
+    const from = (before as unknown as Record<string, unknown>)[field] ?? null;
+    const to = (after as unknown as Record<string, unknown>)[field] ?? null;
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      items.push({ field, from, to });
+    }
+  }
+
+  return items;
+}
+
+/**
+ * Build changelog entries for a write of the issues. `via` names the
+ * action when it isn't the write context's (e.g., a backup restore).
+ */
+export function diffIssueChanges(previous: unknown, next: unknown, via?: string): ChangelogEntry[] {
+  const before = new Map((Array.isArray(previous) ? previous as Issue[] : []).map(i => [i.id, i]));
+  const after = Array.isArray(next) ? next as Issue[] : [];
+  const author = currentAuthor(via);
+  const timestamp = new Date().toISOString();
+  const entries: ChangelogEntry[] = [];
+
+  const entry = (issue: Issue, action: ChangelogEntry['action'], items: ChangelogItem[]): ChangelogEntry => ({
+    id: generateEntryId(),
+    issueId: issue.id,
+    issueKey: issue.key,
+    action,
+    author,
+    timestamp,
+    items,
+  });
+
+  for (const issue of after) {
+    const old = before.get(issue.id);
+    if (!old) {
+      entries.push(entry(issue, 'created', []));
+      continue;
+    }
+    before.delete(issue.id);
+    const items = diffIssueFields(old, issue);
+    if (items.length > 0) {
+      entries.push(entry(issue, 'updated', items));
+    }
+  }
+
+  // Whatever is left in `before` was deleted
+  for (const issue of before.values()) {
+    entries.push(entry(issue, 'deleted', []));
+  }
+
+  return entries;
+}
+
+/**
+ * Read the changelog of one issue (by ID or key), newest first
+ */
+export function readChangelog(storage: DataStorage, issueIdOrKey: string): ChangelogEntry[] {
+  const byId = storage.query<ChangelogEntry>('history', { issueId: issueIdOrKey });
+  const byKey = storage.query<ChangelogEntry>('history', { issueKey: issueIdOrKey });
+  const ids = new Set(byId.map(e => e.id));
+  return [...byId, ...byKey.filter(e => !ids.has(e.id))]
+    .sort((a, b) => a.timestamp.localeCompare(b.timestamp))
+    .reverse();
+}
@@ -4,6 +4,7 @@
  * Minimal Express server that:
  * - Serves static files from the React build directory
  * - Provides REST API endpoints for JSON file operations
+ * - Streams data changes to browsers over Server-Sent Events
  * - Stores data in /data directory at project root
  * - Auto-opens browser in production mode
  */
@@ -13,6 +14,63 @@ import cors from 'cors';
 import * as fs from 'fs';
 import * as path from 'path';
 import { fileURLToPath } from 'url';
+import { z } from 'zod';
+import type { Issue, Project, Sprint, Structure, Comment, User, Workspace } from '../types/index.js';
+import {
+  createIssue,
+  updateIssue,
+  deleteIssue,
+  findIssue,
+  IssueOperationError,
+  IssueMutationResult,
+  commentsForIssue,
+  createComment,
+  updateComment,
+  updateSprint,
+} from '../domain/index.js';
+import { recordEtag, contentEtag, assertIfMatch, RevisionConflictError } from './revisions.js';
+import { saveResource, restoreBackup } from './dataFiles.js';
+import { migrateDataDirectory, formatMigrationResult } from './dataMigrations.js';
+import { createBackup, listBackups } from './backups.js';
+import { DataValidationError } from './validation.js';
+import { startChangeFeed, publishFileChange, publishWorkspaceChange, subscribe } from './changeFeed.js';
+import { runWithWriteContext, getWriteContext } from './writeContext.js';
+import { readChangelog } from './history.js';
+import { searchIssues } from './search.js';
+import { createJiraRestRouter, JIRA_REST_BASE } from './jiraRestApi.js';
+import { createJiraAgileRouter, JIRA_AGILE_BASE } from './jiraAgileApi.js';
+import { createMcpRouter, closeMcpSessions, MCP_HTTP_PATH } from './mcpHttp.js';
+import {
+  authenticateRequest,
+  listApiTokens,
+  createApiToken,
+  revokeApiToken,
+  revokeUserTokens,
+  createBootstrapSecret,
+  isBootstrapSecret,
+} from './auth.js';
+import {
+  startWebhooks,
+  listWebhooks,
+  createWebhook,
+  updateWebhook,
+  deleteWebhook,
+  listDeliveries,
+  redeliver,
+} from './webhooks.js';
+import type { WebhookInput } from './webhooks.js';
+import {
+  listWorkspaces,
+  getActiveWorkspace,
+  setActiveWorkspace,
+  createWorkspace,
+  openWorkspaceStorage,
+} from './workspaces.js';
+import type { CreateWorkspaceInput } from './workspaces.js';
+import type { SearchOptions } from './search.js';
+import { apiRoutes } from './apiRegistry.js';
+import { buildOpenApiDocument, renderExplorerPage, renderEndpointCards, bannerEndpointLines } from './apiDocs.js';
+import * as schema from './apiSchemas.js';
 
 // Determine if we're in production mode (running from compiled JS)
 const isProduction = !import.meta.url.endsWith('.ts');
@@ -21,8 +79,10 @@ const isProduction = !import.meta.url.endsWith('.ts');
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
-// Initialize Express app
+// Initialize Express app; routes are registered with their documentation
+// (see apiRegistry.ts)
 const app = express();
+const api = apiRoutes(app);
 const PORT = process.env.PORT || 3000;
 
 // Data directory path (relative to project root)
@@ -30,13 +90,41 @@ const PORT = process.env.PORT || 3000;
 // In production: dist-server/server -> ../../data
 const DATA_DIR = process.env.DATA_DIR || path.join(__dirname, '../../data');
 
+// Needed to mint a user's first API token (see auth.ts); printed at startup
+// unless TOKEN_BOOTSTRAP_SECRET sets it
+const BOOTSTRAP_SECRET = process.env.TOKEN_BOOTSTRAP_SECRET || createBootstrapSecret();
+
+// Workspace being served (DATA_DIR is the default one, see workspaces.ts)
+// and its storage backend (JSON files by default, see storage.ts). Both are
+// swapped when a client switches workspaces.
+let activeWorkspace = getActiveWorkspace(DATA_DIR);
+let storage = openWorkspaceStorage(activeWorkspace);
+let stopChangeFeed = () => {};
+let stopWebhooks = () => {};
+
 // Dist directory for serving built React app
 const DIST_DIR = path.join(__dirname, '../../dist');
 
 // Valid data file names
-const VALID_FILES = ['projects', 'issues', 'sprints', 'users', 'structures'] as const;
+const VALID_FILES = ['projects', 'issues', 'sprints', 'users', 'structures', 'comments'] as const;
 type DataFileName = typeof VALID_FILES[number];
 
+// The :resource path parameter, documented as one of the data files
+const RESOURCE_PARAMS = { resource: z.enum(VALID_FILES) };
+
+// ID prefixes for server-generated record IDs (matches the client stores)
+const ID_PREFIXES: Record<DataFileName, string> = {
+  projects: 'project',
+  issues: 'issue',
+  sprints: 'sprint',
+  users: 'user',
+  structures: 'structure',
+  comments: 'comment',
+};
+
+// Generic record shape shared by all data files
+type DataRecord = { id: string } & Record<string, unknown>;
+
 // ============================================================================
 // MIDDLEWARE
 // ============================================================================
@@ -54,8 +142,9 @@ app.use(cors({
     
     callback(new Error('Not allowed by CORS'));
   },
-  methods: ['GET', 'PUT', 'POST', 'DELETE', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization'],
+  methods: ['GET', 'PUT', 'PATCH', 'POST', 'DELETE', 'OPTIONS'],
+  allowedHeaders: ['Content-Type', 'Authorization', 'If-Match', 'X-Client-Id', 'Mcp-Session-Id', 'Mcp-Protocol-Version', 'Last-Event-ID'],
+  exposedHeaders: ['ETag', 'Mcp-Session-Id'],
   credentials: true,
 }));
 
@@ -68,50 +157,130 @@ app.use((req: Request, _res: Response, next: NextFunction) => {
   next();
 });
 
+// Attribute writes to the caller: browser tabs send X-Client-Id (and skip
+// their own change events), anything else is a plain REST client. An API
+// token (Bearer, or Basic with email:token) makes its user the acting user;
+// requests without one stay anonymous, but bad credentials are rejected.
+app.use((req: Request, res: Response, next: NextFunction) => {
+  let user: User | null;
+  try {
+    user = authenticateRequest(storage, req.get('Authorization'));
+  } catch (error) {
+    const message = (error as Error).message;
+    res.status(401).json(req.path.startsWith('/rest/')
+      ? { errorMessages: [message], errors: {} }
+      : { success: false, error: message });
+    return;
+  }
+
+  const clientId = req.get('X-Client-Id') ?? null;
+  runWithWriteContext({ source: clientId ? 'web' : 'api', clientId, userId: user?.id ?? null }, next);
+});
+
 // ============================================================================
 // HELPER FUNCTIONS
 // ============================================================================
 
 /**
- * Ensure the data directory exists and create initial empty JSON files if needed
+ * Ensure the data directory exists, create initial empty JSON files if
+ * needed, and migrate data from older schema versions
  */
 function initializeDataDirectory(): void {
   // Create data directory if it doesn't exist
-  if (!fs.existsSync(DATA_DIR)) {
-    fs.mkdirSync(DATA_DIR, { recursive: true });
-    console.log(`Created data directory: ${DATA_DIR}`);
+  const dataDir = storage.dataDir;
+  if (!fs.existsSync(dataDir)) {
+    fs.mkdirSync(dataDir, { recursive: true });
+    console.log(`Created data directory: ${dataDir}`);
   }
 
-  // Create initial empty JSON files if they don't exist
-  for (const fileName of VALID_FILES) {
-    const filePath = path.join(DATA_DIR, `${fileName}.json`);
-    if (!fs.existsSync(filePath)) {
-      fs.writeFileSync(filePath, '[]', 'utf-8');
-      console.log(`Created empty data file: ${filePath}`);
+  // The SQLite backend creates its tables when opened
+  if (storage.kind === 'json') {
+    // Create initial empty JSON files if they don't exist
+    for (const fileName of VALID_FILES) {
+      const filePath = path.join(dataDir, `${fileName}.json`);
+      if (!fs.existsSync(filePath)) {
+        fs.writeFileSync(filePath, '[]', 'utf-8');
+        console.log(`Created empty data file: ${filePath}`);
+      }
+    }
+  }
+
+  // Upgrade data written by an older version of the app
+  const migration = migrateDataDirectory(storage);
+  if (migration.applied.length > 0) {
+    console.log(`Migrated ${dataDir} from schema version ${migration.fromVersion} to ${migration.toVersion}:`);
+    for (const line of formatMigrationResult(migration)) {
+      console.log(`  ${line}`);
     }
   }
 }
 
 /**
- * Read a JSON file from the data directory
+ * Read all records of a resource from storage
  */
 function readDataFile(fileName: DataFileName): unknown {
-  const filePath = path.join(DATA_DIR, `${fileName}.json`);
-  
-  if (!fs.existsSync(filePath)) {
-    return [];
+  return storage.read(fileName);
+}
+
+/** Change events held back until the enclosing write transaction commits */
+let pendingChanges: Map<DataFileName, unknown> | null = null;
+
+/**
+ * Write the full content of a resource to storage.
+ * The write is atomic and locked against the MCP server; record revisions
+ * are bumped for every record whose content changed, and change events are
+ * broadcast to subscribed browsers. Returns the data as written.
+ */
+function writeDataFile<T>(fileName: DataFileName, data: T): T {
+  const saved = saveResource(storage, fileName, data);
+  if (pendingChanges) {
+    pendingChanges.set(fileName, saved);
+  } else {
+    publishFileChange(fileName, saved);
+  }
+  return saved;
+}
+
+/**
+ * Run reads, If-Match checks and writes as one storage transaction, so no
+ * other writer gets in between and related writes commit together. Change
+ * events go out once it commits; none go out if it throws.
+ */
+function writeTransaction<T>(fn: () => T): T {
+  if (pendingChanges) return fn();
+
+  pendingChanges = new Map();
+  try {
+    const result = storage.transaction(fn);
+    for (const [fileName, saved] of pendingChanges) {
+      publishFileChange(fileName, saved);
+    }
+    return result;
+  } finally {
+    pendingChanges = null;
   }
-  
-  const content = fs.readFileSync(filePath, 'utf-8');
-  return JSON.parse(content);
 }
 
 /**
- * Write data to a JSON file in the data directory
+ * Serve another workspace: swap the storage, restart the change feed and
+ * webhooks, tell connected clients to reload, and end MCP sessions (their
+ * clients reconnect). The choice survives restarts.
  */
-function writeDataFile(fileName: DataFileName, data: unknown): void {
-  const filePath = path.join(DATA_DIR, `${fileName}.json`);
-  fs.writeFileSync(filePath, JSON.stringify(data, null, 2), 'utf-8');
+function switchWorkspace(idOrName: string): Workspace {
+  const workspace = setActiveWorkspace(DATA_DIR, idOrName);
+  if (workspace.id !== activeWorkspace.id) {
+    stopWebhooks();
+    stopChangeFeed();
+    closeMcpSessions().catch(() => {});
+    storage.close();
+    activeWorkspace = workspace;
+    storage = openWorkspaceStorage(workspace);
+    initializeDataDirectory();
+    stopChangeFeed = startChangeFeed(storage, VALID_FILES);
+    stopWebhooks = startWebhooks(storage);
+    publishWorkspaceChange(workspace);
+  }
+  return workspace;
 }
 
 /**
@@ -121,17 +290,575 @@ function isValidFileName(name: string): name is DataFileName {
   return VALID_FILES.includes(name as DataFileName);
 }
 
+/**
+ * Generate a unique record ID for a resource (e.g., "sprint-1700000000000-abc123def")
+ */
+function generateRecordId(resource: DataFileName): string {
+  return `${ID_PREFIXES[resource]}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+}
+
+/**
+ * Find a record by ID, or by key for resources that have one (issues, projects)
+ */
+function findRecord(records: DataRecord[], idOrKey: string): DataRecord | undefined {
+  return records.find(r => r.id === idOrKey || r.key === idOrKey);
+}
+
+/**
+ * Send an error response for a failed write or item operation
+ */
+function sendOperationError(res: Response, error: unknown, action: string): void {
+  if (error instanceof DataValidationError) {
+    res.status(error.status).json({
+      success: false,
+      error: error.message,
+      validationErrors: error.issues,
+    });
+    return;
+  }
+
+  if (error instanceof IssueOperationError) {
+    res.status(error.status).json({
+      success: false,
+      error: error.message,
+    });
+    return;
+  }
+
+  if (error instanceof RevisionConflictError) {
+    res.status(409).json({
+      success: false,
+      error: error.message,
+      conflict: true,
+      current: error.current,
+    });
+    return;
+  }
+
+  console.error(`Error trying to ${action}:`, error);
+  res.status(500).json({
+    success: false,
+    error: `Failed to ${action}`,
+  });
+}
+
+/**
+ * Persist an issue mutation and return the saved copies (with new revisions)
+ */
+function saveIssueMutation(result: IssueMutationResult): { issue: Issue; related: Issue[] } {
+  const saved = writeDataFile('issues', result.issues);
+  const savedById = new Map(saved.map(i => [i.id, i]));
+
+  return {
+    // A deleted issue is not in the saved array, so fall back to the original
+    issue: savedById.get(result.issue.id) ?? result.issue,
+    related: result.related.map(i => savedById.get(i.id) ?? i),
+  };
+}
+
+/**
+ * Persist an issue deletion. Structures and comments are cleaned up in the
+ * same transaction, so they never point at a missing issue.
+ */
+function saveIssueDeletion(result: IssueMutationResult): { issue: Issue; related: Issue[] } {
+  return writeTransaction(() => {
+    removeIssueFromStructures(result.issue.id);
+    removeIssueComments(result.issue.id);
+    return saveIssueMutation(result);
+  });
+}
+
+/**
+ * Remove a deleted issue from structure root lists
+ */
+function removeIssueFromStructures(issueId: string): void {
+  const structures = readDataFile('structures') as Structure[];
+  if (!structures.some(s => s.rootIssueIds.includes(issueId))) return;
+
+  writeDataFile('structures', structures.map(s => ({
+    ...s,
+    rootIssueIds: s.rootIssueIds.filter(id => id !== issueId),
+  })));
+}
+
+/**
+ * Delete the comments on a deleted issue
+ */
+function removeIssueComments(issueId: string): void {
+  const comments = readDataFile('comments') as Comment[];
+  if (!comments.some(c => c.issueId === issueId)) return;
+
+  writeDataFile('comments', comments.filter(c => c.issueId !== issueId));
+}
+
+/**
+ * The user the current request authenticated as, if any
+ */
+function actingUserId(): string | null {
+  return getWriteContext()?.userId ?? null;
+}
+
+/**
+ * Add a comment to an issue (by ID or key) and return the saved copy.
+ * An authenticated caller is always the author.
+ */
+function addComment(issueIdOrKey: unknown, input: Partial<Comment>): Comment {
+  const issue = typeof issueIdOrKey === 'string'
+    ? findIssue(readDataFile('issues') as Issue[], issueIdOrKey)
+    : undefined;
+  if (!issue) {
+    throw new IssueOperationError(
+      issueIdOrKey ? `Issue not found: ${String(issueIdOrKey)}` : 'issueId is required',
+      issueIdOrKey ? 404 : 400
+    );
+  }
+
+  const author = actingUserId() ?? input.author;
+  const result = createComment(readDataFile('comments') as Comment[], issue.id, { ...input, author });
+  const saved = writeDataFile('comments', result.comments);
+  return saved.find(c => c.id === result.comment.id) ?? result.comment;
+}
+
+/**
+ * Only its author can edit or delete a comment. Anonymous callers are
+ * not checked, like every other anonymous write.
+ */
+function assertCommentAuthor(comment: Comment, action: 'edit' | 'delete'): void {
+  const caller = actingUserId();
+  if (caller && caller !== comment.author) {
+    throw new IssueOperationError(`You can only ${action} your own comments`, 403);
+  }
+}
+
+/**
+ * Clear references to a deleted sprint or user from issues.
+ * Returns the issues that were changed.
+ */
+function clearIssueReferences(field: 'sprint' | 'assignee', recordId: string): Issue[] {
+  const issues = readDataFile('issues') as Issue[];
+  const now = new Date().toISOString();
+  const changed: Issue[] = [];
+
+  const updatedIssues = issues.map(issue => {
+    if (issue[field] !== recordId) return issue;
+    const updated = { ...issue, [field]: null, updatedAt: now };
+    changed.push(updated);
+    return updated;
+  });
+
+  if (changed.length === 0) return [];
+
+  const saved = writeDataFile('issues', updatedIssues);
+  const changedIds = new Set(changed.map(i => i.id));
+  return saved.filter(i => changedIds.has(i.id));
+}
+
+/**
+ * Reject deleting a user who is still a reporter, project lead or comment
+ * author, since those references can't simply be cleared
+ */
+function assertUserNotRequired(userId: string): void {
+  const issues = (readDataFile('issues') as Issue[]).filter(i => i.reporter === userId);
+  const projects = (readDataFile('projects') as Project[]).filter(p => p.lead === userId);
+  const comments = (readDataFile('comments') as Comment[]).filter(c => c.author === userId);
+  if (issues.length === 0 && projects.length === 0 && comments.length === 0) return;
+
+  throw new DataValidationError(`User ${userId} is still referenced and can't be deleted`, [
+    ...issues.map(i => ({
+      resource: 'issues',
+      id: i.id,
+      field: 'reporter',
+      message: `${i.key}: reported by this user`,
+    })),
+    ...projects.map(p => ({
+      resource: 'projects',
+      id: p.id,
+      field: 'lead',
+      message: `Project "${p.name}": led by this user`,
+    })),
+    ...comments.map(c => ({
+      resource: 'comments',
+      id: c.id,
+      field: 'author',
+      message: `Comment ${c.id}: written by this user`,
+    })),
+  ]);
+}
+
 // ============================================================================
 // API ROUTES
 // ============================================================================
 
 // Health check endpoint
-app.get('/api/health', (_req: Request, res: Response) => {
+api.get('/api/health', {
+  tag: 'Status',
+  summary: 'Health check',
+  response: schema.health,
+}, (_req: Request, res: Response) => {
   res.json({ status: 'ok', timestamp: new Date().toISOString() });
 });
 
+// GET /api/events - Server-Sent Events stream of data changes
+api.get('/api/events', {
+  tag: 'Status',
+  summary: 'Server-Sent Events stream of record changes (event: change)',
+  description: 'Also sends `workspace` when the server switches workspaces, and `quarantine` when a data file edited outside the app was rejected as invalid.',
+}, (_req: Request, res: Response) => {
+  subscribe(res);
+});
+
+// GET /api/openapi.json - OpenAPI document generated from the registered routes
+api.get('/api/openapi.json', {
+  tag: 'Status',
+  summary: 'OpenAPI 3 document of this API',
+}, (req: Request, res: Response) => {
+  res.json(buildOpenApiDocument(`${req.protocol}://${req.get('host')}`));
+});
+
+// GET /api/docs - Interactive API explorer
+api.get('/api/docs', {
+  tag: 'Status',
+  summary: 'Interactive API explorer',
+}, (_req: Request, res: Response) => {
+  res.type('html').send(renderExplorerPage());
+});
+
+// GET /api/backups - List data snapshots, newest first
+api.get('/api/backups', {
+  tag: 'Backups',
+  summary: 'List data snapshots, newest first',
+  response: schema.success(z.array(schema.backup)),
+}, (_req: Request, res: Response) => {
+  try {
+    res.json({ success: true, data: listBackups(storage.dataDir) });
+  } catch (error) {
+    console.error('Error listing backups:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to list backups',
+    });
+  }
+});
+
+// POST /api/backups - Take a snapshot now
+api.post('/api/backups', {
+  tag: 'Backups',
+  summary: 'Take a snapshot now',
+  status: 201,
+  response: schema.success(schema.backup),
+}, (_req: Request, res: Response) => {
+  try {
+    const backup = storage.transaction(() => createBackup(storage, 'manual'));
+    if (!backup) {
+      res.status(400).json({
+        success: false,
+        error: 'No data files to back up',
+      });
+      return;
+    }
+    res.status(201).json({ success: true, data: backup });
+  } catch (error) {
+    console.error('Error creating backup:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to create backup',
+    });
+  }
+});
+
+// POST /api/backups/:id/restore - Replace the data files with a snapshot
+api.post('/api/backups/:id/restore', {
+  tag: 'Backups',
+  summary: 'Replace the data files with a snapshot (taking a safety snapshot first)',
+  response: schema.success(schema.backupRestoreResult),
+}, (req: Request, res: Response) => {
+  const id = req.params.id as string;
+
+  try {
+    const result = restoreBackup(storage, id);
+    if (!result) {
+      res.status(404).json({
+        success: false,
+        error: `Backup not found: ${id}`,
+      });
+      return;
+    }
+    res.json({ success: true, data: result });
+  } catch (error) {
+    console.error(`Error restoring backup ${id}:`, error);
+    res.status(500).json({
+      success: false,
+      error: `Failed to restore backup ${id}`,
+    });
+  }
+});
+
+/**
+ * Read search options from a query string or JSON body.
+ * Numbers may arrive as strings and fields as a comma-separated list.
+ */
+function readSearchOptions(input: Record<string, unknown>): SearchOptions {
+  const number = (value: unknown) =>
+    value === undefined || value === '' ? undefined : Number(value);
+  const fields = typeof input.fields === 'string'
+    ? input.fields.split(',').map(f => f.trim()).filter(Boolean)
+    : Array.isArray(input.fields) ? input.fields.map(String) : undefined;
+
+  return {
+    jql: typeof input.jql === 'string' ? input.jql : '',
+    startAt: number(input.startAt),
+    maxResults: number(input.maxResults),
+    fields,
+  };
+}
+
+// GET /api/workspaces - List workspaces and the active one
+api.get('/api/workspaces', {
+  tag: 'Workspaces',
+  summary: 'List workspaces and the active one',
+  response: schema.success(schema.workspaceList),
+}, (_req: Request, res: Response) => {
+  try {
+    res.json({ success: true, data: listWorkspaces(DATA_DIR) });
+  } catch (error) {
+    sendOperationError(res, error, 'list workspaces');
+  }
+});
+
+// POST /api/workspaces - Create a workspace ({ name, source, from?, activate? })
+api.post('/api/workspaces', {
+  tag: 'Workspaces',
+  summary: 'Create a workspace (sample data, empty, or a copy of another)',
+  body: schema.createWorkspaceBody,
+  status: 201,
+  response: schema.success(schema.workspace),
+}, (req: Request, res: Response) => {
+  try {
+    const input = (req.body ?? {}) as CreateWorkspaceInput & { activate?: boolean };
+    const workspace = createWorkspace(DATA_DIR, input);
+    if (input.activate) {
+      switchWorkspace(workspace.id);
+    }
+    res.status(201).json({ success: true, data: workspace });
+  } catch (error) {
+    sendOperationError(res, error, 'create workspace');
+  }
+});
+
+// POST /api/workspaces/:id/activate - Serve another workspace
+api.post('/api/workspaces/:id/activate', {
+  tag: 'Workspaces',
+  summary: 'Switch the server to a workspace',
+  response: schema.success(schema.workspace),
+}, (req: Request, res: Response) => {
+  try {
+    res.json({ success: true, data: switchWorkspace(req.params.id as string) });
+  } catch (error) {
+    sendOperationError(res, error, `switch to workspace ${req.params.id}`);
+  }
+});
+
+// GET /api/users/:id/tokens - A user's API tokens (never the secrets)
+api.get('/api/users/:id/tokens', {
+  tag: 'API Tokens',
+  summary: 'A user\'s tokens (never the secrets)',
+  response: schema.success(z.array(schema.apiToken)),
+}, (req: Request, res: Response) => {
+  try {
+    res.json({ success: true, data: listApiTokens(storage, req.params.id as string) });
+  } catch (error) {
+    sendOperationError(res, error, `list tokens of ${req.params.id}`);
+  }
+});
+
+// POST /api/users/:id/tokens - Mint a token ({ name }); the secret is only returned here
+api.post('/api/users/:id/tokens', {
+  tag: 'API Tokens',
+  summary: 'Create a token; the token is only shown once',
+  description: 'Needs one of the user\'s tokens, or for their first token, the bootstrap secret the server printed at startup in an `X-Bootstrap-Secret` header.',
+  body: schema.createTokenBody,
+  status: 201,
+  response: schema.success(schema.createdApiToken),
+}, (req: Request, res: Response) => {
+  const userId = req.params.id as string;
+
+  try {
+    // Only the user can mint tokens; their first one needs the bootstrap secret
+    const body = (req.body ?? {}) as { name?: unknown };
+    const bootstrap = isBootstrapSecret(BOOTSTRAP_SECRET, req.get('X-Bootstrap-Secret'));
+    res.status(201).json({ success: true, data: createApiToken(storage, userId, body.name, actingUserId(), bootstrap) });
+  } catch (error) {
+    sendOperationError(res, error, `create a token for ${userId}`);
+  }
+});
+
+// DELETE /api/users/:id/tokens/:tokenId - Revoke a token
+api.delete('/api/users/:id/tokens/:tokenId', {
+  tag: 'API Tokens',
+  summary: 'Revoke a token',
+  response: schema.success(schema.apiToken),
+}, (req: Request, res: Response) => {
+  const userId = req.params.id as string;
+
+  try {
+    res.json({ success: true, data: revokeApiToken(storage, userId, req.params.tokenId as string, actingUserId()) });
+  } catch (error) {
+    sendOperationError(res, error, `revoke token ${req.params.tokenId}`);
+  }
+});
+
+// GET /api/webhooks - Registered webhooks
+api.get('/api/webhooks', {
+  tag: 'Webhooks',
+  summary: 'Registered webhooks',
+  response: schema.success(z.array(schema.webhook)),
+}, (_req: Request, res: Response) => {
+  try {
+    res.json({ success: true, data: listWebhooks(storage) });
+  } catch (error) {
+    sendOperationError(res, error, 'list webhooks');
+  }
+});
+
+// POST /api/webhooks - Register a webhook ({ name, url, events, jqlFilter?, enabled? })
+api.post('/api/webhooks', {
+  tag: 'Webhooks',
+  summary: 'Register a webhook',
+  body: schema.webhookBody,
+  status: 201,
+  response: schema.success(schema.webhook),
+}, (req: Request, res: Response) => {
+  try {
+    res.status(201).json({ success: true, data: createWebhook(storage, (req.body ?? {}) as WebhookInput) });
+  } catch (error) {
+    sendOperationError(res, error, 'create webhook');
+  }
+});
+
+// GET /api/webhooks/deliveries?webhookId= - Delivery log, newest first
+api.get('/api/webhooks/deliveries', {
+  tag: 'Webhooks',
+  summary: 'Delivery log, newest first',
+  query: schema.deliveriesQuery,
+  response: schema.success(z.array(schema.webhookDelivery)),
+}, (req: Request, res: Response) => {
+  try {
+    const webhookId = typeof req.query.webhookId === 'string' ? req.query.webhookId : undefined;
+    res.json({ success: true, data: listDeliveries(storage, webhookId) });
+  } catch (error) {
+    sendOperationError(res, error, 'list webhook deliveries');
+  }
+});
+
+// POST /api/webhooks/deliveries/:id/redeliver - Send a delivery again now
+api.post('/api/webhooks/deliveries/:id/redeliver', {
+  tag: 'Webhooks',
+  summary: 'Send a delivery again now',
+  response: schema.success(schema.webhookDelivery),
+}, (req: Request, res: Response) => {
+  try {
+    res.json({ success: true, data: redeliver(storage, req.params.id as string) });
+  } catch (error) {
+    sendOperationError(res, error, `redeliver ${req.params.id}`);
+  }
+});
+
+// PATCH /api/webhooks/:id - Change a webhook (e.g., { enabled: false })
+api.patch('/api/webhooks/:id', {
+  tag: 'Webhooks',
+  summary: 'Change a webhook (e.g., enabled)',
+  body: schema.webhookBody.partial(),
+  response: schema.success(schema.webhook),
+}, (req: Request, res: Response) => {
+  try {
+    res.json({ success: true, data: updateWebhook(storage, req.params.id as string, (req.body ?? {}) as WebhookInput) });
+  } catch (error) {
+    sendOperationError(res, error, `update webhook ${req.params.id}`);
+  }
+});
+
+// DELETE /api/webhooks/:id - Remove a webhook and its delivery log
+api.delete('/api/webhooks/:id', {
+  tag: 'Webhooks',
+  summary: 'Remove a webhook and its delivery log',
+  response: schema.success(schema.webhook),
+}, (req: Request, res: Response) => {
+  try {
+    res.json({ success: true, data: deleteWebhook(storage, req.params.id as string) });
+  } catch (error) {
+    sendOperationError(res, error, `delete webhook ${req.params.id}`);
+  }
+});
+
+// GET /api/search?jql=...&startAt=0&maxResults=50&fields=key,title - JQL search
+api.get('/api/search', {
+  tag: 'Search',
+  summary: 'JQL search',
+  query: schema.searchQuery,
+  response: schema.success(schema.searchPage),
+}, (req: Request, res: Response) => {
+  try {
+    const options = readSearchOptions(req.query as Record<string, unknown>);
+    res.json({ success: true, data: searchIssues(readDataFile('issues') as Issue[], options) });
+  } catch (error) {
+    sendOperationError(res, error, 'search issues');
+  }
+});
+
+// POST /api/search - JQL search with the options in the body (for long queries)
+api.post('/api/search', {
+  tag: 'Search',
+  summary: 'JQL search with the options in the body (for long queries)',
+  body: schema.searchBody,
+  response: schema.success(schema.searchPage),
+}, (req: Request, res: Response) => {
+  try {
+    const options = readSearchOptions((req.body ?? {}) as Record<string, unknown>);
+    res.json({ success: true, data: searchIssues(readDataFile('issues') as Issue[], options) });
+  } catch (error) {
+    sendOperationError(res, error, 'search issues');
+  }
+});
+
+// Jira Cloud REST v3-compatible API (/rest/api/3/issue, /search/jql, transitions)
+app.use(JIRA_REST_BASE, createJiraRestRouter({
+  readIssues: () => readDataFile('issues') as Issue[],
+  readProjects: () => readDataFile('projects') as Project[],
+  readUsers: () => readDataFile('users') as User[],
+  saveIssueMutation,
+  saveIssueDeletion,
+  transaction: writeTransaction,
+}));
+
+// Jira Software Agile API (/rest/agile/1.0/board, /sprint, /backlog)
+app.use(JIRA_AGILE_BASE, createJiraAgileRouter({
+  readIssues: () => readDataFile('issues') as Issue[],
+  readProjects: () => readDataFile('projects') as Project[],
+  readSprints: () => readDataFile('sprints') as Sprint[],
+  saveSprints: sprints => writeDataFile('sprints', sprints),
+  saveIssues: issues => {
+    writeDataFile('issues', issues);
+  },
+  transaction: writeTransaction,
+}));
+
+// MCP server over Streamable HTTP (/mcp), for agents sharing this process
+app.use(MCP_HTTP_PATH, createMcpRouter({
+  read: <T>(resource: DataFileName) => readDataFile(resource) as T[],
+  save: (resource, records) => {
+    writeDataFile(resource, records);
+  },
+  readChangelog: issueId => readChangelog(storage, issueId),
+  transaction: writeTransaction,
+}));
+
 // GET /api/:resource - Read a data file
-app.get('/api/:resource', (req: Request, res: Response) => {
+api.get('/api/:resource', {
+  tag: 'Data Files',
+  summary: 'Read a data file',
+  params: RESOURCE_PARAMS,
+  response: schema.success(z.array(schema.anyRecord)),
+}, (req: Request, res: Response) => {
   const resource = req.params.resource as string;
   
   if (!isValidFileName(resource)) {
@@ -144,6 +871,7 @@ app.get('/api/:resource', (req: Request, res: Response) => {
   
   try {
     const data = readDataFile(resource);
+    res.set('ETag', contentEtag(data));
     res.json({
       success: true,
       data,
@@ -158,7 +886,14 @@ app.get('/api/:resource', (req: Request, res: Response) => {
 });
 
 // PUT /api/:resource - Write a data file
-app.put('/api/:resource', (req: Request, res: Response) => {
+api.put('/api/:resource', {
+  tag: 'Data Files',
+  summary: 'Replace a data file',
+  description: 'Send the ETag of the last read as If-Match to reject the write (409) if the file changed since.',
+  params: RESOURCE_PARAMS,
+  body: z.array(schema.anyRecord),
+  response: schema.success(z.array(schema.anyRecord)),
+}, (req: Request, res: Response) => {
   const resource = req.params.resource as string;
   
   if (!isValidFileName(resource)) {
@@ -181,19 +916,382 @@ app.put('/api/:resource', (req: Request, res: Response) => {
       return;
     }
     
-    writeDataFile(resource, data);
+    // Reject the write if the file changed since the client read it
+    const saved = writeTransaction(() => {
+      const current = readDataFile(resource);
+      assertIfMatch(req.get('If-Match'), contentEtag(current), current, resource);
+      return writeDataFile(resource, data);
+    });
     
+    res.set('ETag', contentEtag(saved));
     res.json({
       success: true,
-      data,
+      data: saved,
       message: `${resource} updated successfully`,
     });
   } catch (error) {
-    console.error(`Error writing ${resource}:`, error);
-    res.status(500).json({
+    sendOperationError(res, error, `write ${resource}`);
+  }
+});
+
+// ============================================================================
+// ITEM ROUTES
+// ============================================================================
+
+// GET /api/issues/:idOrKey/changelog - Field-level change history, newest first
+api.get('/api/issues/:idOrKey/changelog', {
+  tag: 'Records',
+  summary: 'Field-level change history of an issue, newest first',
+  response: schema.success(z.array(schema.changelogEntry)),
+}, (req: Request, res: Response) => {
+  const idOrKey = req.params.idOrKey as string;
+
+  try {
+    // Deleted issues can still be looked up by key
+    const issue = findIssue(readDataFile('issues') as Issue[], idOrKey);
+    res.json({
+      success: true,
+      data: readChangelog(storage, issue?.id ?? idOrKey),
+    });
+  } catch (error) {
+    sendOperationError(res, error, `read changelog of ${idOrKey}`);
+  }
+});
+
+// GET /api/issues/:idOrKey/comments - Comments on an issue, oldest first
+api.get('/api/issues/:idOrKey/comments', {
+  tag: 'Records',
+  summary: 'Comments on an issue, oldest first',
+  response: schema.success(z.array(schema.comment)),
+}, (req: Request, res: Response) => {
+  const idOrKey = req.params.idOrKey as string;
+
+  try {
+    const issue = findIssue(readDataFile('issues') as Issue[], idOrKey);
+    if (!issue) {
+      res.status(404).json({
+        success: false,
+        error: `Issue not found: ${idOrKey}`,
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: commentsForIssue(readDataFile('comments') as Comment[], issue.id),
+    });
+  } catch (error) {
+    sendOperationError(res, error, `read comments of ${idOrKey}`);
+  }
+});
+
+// POST /api/issues/:idOrKey/comments - Add a comment ({ author, body })
+api.post('/api/issues/:idOrKey/comments', {
+  tag: 'Records',
+  summary: 'Add a comment to an issue',
+  body: schema.commentBody,
+  status: 201,
+  response: schema.success(schema.comment),
+}, (req: Request, res: Response) => {
+  const idOrKey = req.params.idOrKey as string;
+
+  try {
+    const comment = addComment(idOrKey, (req.body ?? {}) as Partial<Comment>);
+    res.status(201).set('ETag', recordEtag(comment)).json({
+      success: true,
+      data: comment,
+    });
+  } catch (error) {
+    sendOperationError(res, error, `comment on ${idOrKey}`);
+  }
+});
+
+// GET /api/:resource/:idOrKey - Read a single record
+api.get('/api/:resource/:idOrKey', {
+  tag: 'Records',
+  summary: 'Get one record (issues also by key)',
+  params: RESOURCE_PARAMS,
+  response: schema.success(schema.anyRecord),
+}, (req: Request, res: Response) => {
+  const resource = req.params.resource as string;
+  const idOrKey = req.params.idOrKey as string;
+
+  if (!isValidFileName(resource)) {
+    res.status(400).json({
+      success: false,
+      error: `Invalid resource: ${resource}. Valid resources: ${VALID_FILES.join(', ')}`,
+    });
+    return;
+  }
+
+  try {
+    const record = findRecord(readDataFile(resource) as DataRecord[], idOrKey);
+    if (!record) {
+      res.status(404).json({
+        success: false,
+        error: `Not found in ${resource}: ${idOrKey}`,
+      });
+      return;
+    }
+
+    res.set('ETag', recordEtag(record));
+    res.json({
+      success: true,
+      data: record,
+    });
+  } catch (error) {
+    sendOperationError(res, error, `read ${resource}/${idOrKey}`);
+  }
+});
+
+// POST /api/:resource - Create a single record with a server-generated ID
+// Issues also require a projectKey in the body and get a generated key;
+// comments require the issueId (or key) they belong to.
+api.post('/api/:resource', {
+  tag: 'Records',
+  summary: 'Create a record (issues need projectKey, comments issueId)',
+  params: RESOURCE_PARAMS,
+  body: schema.anyRecord,
+  status: 201,
+  response: schema.success(schema.anyRecord),
+}, (req: Request, res: Response) => {
+  const resource = req.params.resource as string;
+
+  if (!isValidFileName(resource)) {
+    res.status(400).json({
       success: false,
-      error: `Failed to write ${resource}`,
+      error: `Invalid resource: ${resource}. Valid resources: ${VALID_FILES.join(', ')}`,
+    });
+    return;
+  }
+
+  const body = req.body as Record<string, unknown> | undefined;
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    res.status(400).json({
+      success: false,
+      error: 'Request body must be an object',
+    });
+    return;
+  }
+
+  try {
+    if (resource === 'issues') {
+      const { projectKey, ...input } = body;
+      const project = (readDataFile('projects') as Project[]).find(p => p.key === projectKey);
+      if (!project) {
+        res.status(400).json({
+          success: false,
+          error: projectKey ? `Project not found: ${projectKey}` : 'projectKey is required',
+        });
+        return;
+      }
+
+      // Reported by the authenticated caller (whatever the body says), or
+      // the project lead
+      const caller = actingUserId();
+      const issueInput = { ...input, ...(caller ? { reporter: caller } : {}) } as Partial<Issue>;
+      const result = createIssue(readDataFile('issues') as Issue[], issueInput, project.key, caller ?? project.lead);
+      const { issue, related } = saveIssueMutation(result);
+
+      res.status(201).set('ETag', recordEtag(issue)).json({
+        success: true,
+        data: issue,
+        related,
+      });
+      return;
+    }
+
+    if (resource === 'comments') {
+      const { issueId, ...input } = body;
+      const comment = addComment(issueId, input as Partial<Comment>);
+      res.status(201).set('ETag', recordEtag(comment)).json({
+        success: true,
+        data: comment,
+      });
+      return;
+    }
+
+    const records = readDataFile(resource) as DataRecord[];
+    const record: DataRecord = {
+      ...body,
+      id: generateRecordId(resource),
+      ...(resource === 'projects' ? { createdAt: new Date().toISOString() } : {}),
+    };
+
+    const saved = writeDataFile(resource, [...records, record]);
+    const created = saved[saved.length - 1];
+
+    res.status(201).set('ETag', recordEtag(created)).json({
+      success: true,
+      data: created,
     });
+  } catch (error) {
+    sendOperationError(res, error, `create in ${resource}`);
+  }
+});
+
+// PATCH /api/:resource/:idOrKey - Update fields on a single record
+api.patch('/api/:resource/:idOrKey', {
+  tag: 'Records',
+  summary: 'Update fields on a record',
+  description: 'Send the record\'s ETag as If-Match to reject the update (409) if it changed since.',
+  params: RESOURCE_PARAMS,
+  body: schema.anyRecord,
+  response: schema.success(schema.anyRecord),
+}, (req: Request, res: Response) => {
+  const resource = req.params.resource as string;
+  const idOrKey = req.params.idOrKey as string;
+
+  if (!isValidFileName(resource)) {
+    res.status(400).json({
+      success: false,
+      error: `Invalid resource: ${resource}. Valid resources: ${VALID_FILES.join(', ')}`,
+    });
+    return;
+  }
+
+  const updates = req.body as Record<string, unknown> | undefined;
+  if (!updates || typeof updates !== 'object' || Array.isArray(updates)) {
+    res.status(400).json({
+      success: false,
+      error: 'Request body must be an object',
+    });
+    return;
+  }
+
+  try {
+    if (resource === 'issues') {
+      const { issue, related } = writeTransaction(() => {
+        const issues = readDataFile('issues') as Issue[];
+        const current = findIssue(issues, idOrKey);
+        if (current) assertIfMatch(req.get('If-Match'), recordEtag(current), current, current.key);
+
+        return saveIssueMutation(updateIssue(issues, idOrKey, updates as Partial<Issue>));
+      });
+
+      res.set('ETag', recordEtag(issue)).json({
+        success: true,
+        data: issue,
+        related,
+      });
+      return;
+    }
+
+    const savedRecord = writeTransaction(() => {
+      const records = readDataFile(resource) as DataRecord[];
+      const existing = findRecord(records, idOrKey);
+      if (!existing) {
+        throw new IssueOperationError(`Not found in ${resource}: ${idOrKey}`, 404);
+      }
+      assertIfMatch(req.get('If-Match'), recordEtag(existing), existing, `${resource}/${existing.id}`);
+      if (resource === 'comments') {
+        assertCommentAuthor(existing as unknown as Comment, 'edit');
+      }
+
+      // Only the body of a comment is editable; sprints follow their lifecycle
+      let updated: DataRecord;
+      if (resource === 'comments') {
+        updated = updateComment(records as unknown as Comment[], existing.id, updates as Partial<Comment>).comment as unknown as DataRecord;
+      } else if (resource === 'sprints') {
+        updated = updateSprint(records as unknown as Sprint[], existing.id, updates).sprint as unknown as DataRecord;
+      } else {
+        // Issue keys start with the project key, so renaming it would orphan them
+        if (resource === 'projects' && updates.key !== undefined && updates.key !== existing.key) {
+          throw new IssueOperationError(`A project's key can't be changed: the keys of its issues start with ${String(existing.key)}`);
+        }
+        updated = {
+          ...existing,
+          ...updates,
+          id: existing.id,
+          revision: existing.revision,
+          ...(resource === 'projects' ? { createdAt: existing.createdAt } : {}),
+        };
+      }
+
+      const saved = writeDataFile(resource, records.map(r => (r.id === existing.id ? updated : r)));
+      return saved.find(r => r.id === existing.id) ?? updated;
+    });
+
+    res.set('ETag', recordEtag(savedRecord)).json({
+      success: true,
+      data: savedRecord,
+    });
+  } catch (error) {
+    sendOperationError(res, error, `update ${resource}/${idOrKey}`);
+  }
+});
+
+// DELETE /api/:resource/:idOrKey - Delete a single record and clean up references
+api.delete('/api/:resource/:idOrKey', {
+  tag: 'Records',
+  summary: 'Delete a record and clean up references to it',
+  params: RESOURCE_PARAMS,
+  response: schema.success(schema.anyRecord),
+}, (req: Request, res: Response) => {
+  const resource = req.params.resource as string;
+  const idOrKey = req.params.idOrKey as string;
+
+  if (!isValidFileName(resource)) {
+    res.status(400).json({
+      success: false,
+      error: `Invalid resource: ${resource}. Valid resources: ${VALID_FILES.join(', ')}`,
+    });
+    return;
+  }
+
+  try {
+    if (resource === 'issues') {
+      const { issue, related } = writeTransaction(() => {
+        const issues = readDataFile('issues') as Issue[];
+        const current = findIssue(issues, idOrKey);
+        if (current) assertIfMatch(req.get('If-Match'), recordEtag(current), current, current.key);
+
+        return saveIssueDeletion(deleteIssue(issues, idOrKey));
+      });
+
+      res.json({
+        success: true,
+        data: issue,
+        related,
+      });
+      return;
+    }
+
+    const { existing, related } = writeTransaction(() => {
+      const records = readDataFile(resource) as DataRecord[];
+      const existing = findRecord(records, idOrKey);
+      if (!existing) {
+        throw new IssueOperationError(`Not found in ${resource}: ${idOrKey}`, 404);
+      }
+      assertIfMatch(req.get('If-Match'), recordEtag(existing), existing, `${resource}/${existing.id}`);
+
+      if (resource === 'comments') {
+        assertCommentAuthor(existing as unknown as Comment, 'delete');
+      }
+      if (resource === 'users') {
+        assertUserNotRequired(existing.id);
+        revokeUserTokens(storage, existing.id);
+      }
+
+      // Issues pointing at a deleted sprint or assignee fall back to none
+      let related: Issue[] = [];
+      if (resource === 'sprints') {
+        related = clearIssueReferences('sprint', existing.id);
+      } else if (resource === 'users') {
+        related = clearIssueReferences('assignee', existing.id);
+      }
+
+      writeDataFile(resource, records.filter(r => r.id !== existing.id));
+      return { existing, related };
+    });
+
+    res.json({
+      success: true,
+      data: existing,
+      related,
+    });
+  } catch (error) {
+    sendOperationError(res, error, `delete ${resource}/${idOrKey}`);
   }
 });
 
@@ -230,6 +1328,9 @@ if (fs.existsSync(DIST_DIR)) {
             .method { display: inline-block; width: 50px; font-weight: bold; }
             .get { color: #22863a; }
             .put { color: #b08800; }
+            .post { color: #0052CC; }
+            .patch { color: #6f42c1; }
+            .delete { color: #cb2431; }
           </style>
         </head>
         <body>
@@ -238,21 +1339,9 @@ if (fs.existsSync(DIST_DIR)) {
             <h2>Status: Running</h2>
             <p>The API server is running on port ${PORT}.</p>
             <p><strong>Frontend:</strong> Run <code>npm run dev</code> to start both the React app (port 5173) and this API server together.</p>
+            <p><strong>Try the API:</strong> <a href="/api/docs">API explorer</a> · <a href="/api/openapi.json">OpenAPI document</a></p>
           </div>
-          <div class="card">
-            <h2>Available Endpoints</h2>
-            <div class="endpoint"><span class="method get">GET</span> <a href="/api/health">/api/health</a> - Health check</div>
-            <div class="endpoint"><span class="method get">GET</span> <a href="/api/projects">/api/projects</a> - Get all projects</div>
-            <div class="endpoint"><span class="method put">PUT</span> /api/projects - Update projects</div>
-            <div class="endpoint"><span class="method get">GET</span> <a href="/api/issues">/api/issues</a> - Get all issues</div>
-            <div class="endpoint"><span class="method put">PUT</span> /api/issues - Update issues</div>
-            <div class="endpoint"><span class="method get">GET</span> <a href="/api/sprints">/api/sprints</a> - Get all sprints</div>
-            <div class="endpoint"><span class="method put">PUT</span> /api/sprints - Update sprints</div>
-            <div class="endpoint"><span class="method get">GET</span> <a href="/api/users">/api/users</a> - Get all users</div>
-            <div class="endpoint"><span class="method put">PUT</span> /api/users - Update users</div>
-            <div class="endpoint"><span class="method get">GET</span> <a href="/api/structures">/api/structures</a> - Get all structures</div>
-            <div class="endpoint"><span class="method put">PUT</span> /api/structures - Update structures</div>
-          </div>
+          ${renderEndpointCards()}
         </body>
       </html>
     `);
@@ -292,7 +1381,14 @@ async function openBrowser(url: string): Promise<void> {
 }
 
 // Initialize data directory and start server
-initializeDataDirectory();
+try {
+  initializeDataDirectory();
+} catch (error) {
+  console.error((error as Error).message);
+  process.exit(1);
+}
+stopChangeFeed = startChangeFeed(storage, VALID_FILES);
+stopWebhooks = startWebhooks(storage);
 
 const server = app.listen(PORT, async () => {
   const url = `http://localhost:${PORT}`;
@@ -304,17 +1400,18 @@ const server = app.listen(PORT, async () => {
 ╠════════════════════════════════════════════════════════════╣
 ║  Server running at: ${url.padEnd(35)}║
 ║  Mode: ${(isProduction ? 'Production' : 'Development').padEnd(48)}║
-║  Data directory: ${DATA_DIR.slice(-40).padEnd(40)}║
+║  Data directory: ${storage.dataDir.slice(-40).padEnd(40)}║
+║  Workspace: ${activeWorkspace.name.slice(0, 45).padEnd(45)}║
+║  Storage: ${`${storage.kind} (${path.basename(storage.location)})`.slice(-47).padEnd(47)}║
 ╠════════════════════════════════════════════════════════════╣
-║  Available endpoints:                                      ║
-║    GET  /api/health      - Health check                    ║
-║    GET  /api/projects    - Get all projects                ║
-║    GET  /api/issues      - Get all issues                  ║
-║    GET  /api/sprints     - Get all sprints                 ║
-║    GET  /api/users       - Get all users                   ║
-║    GET  /api/structures  - Get all structures              ║
+║  API explorer: ${`${url}/api/docs`.padEnd(44)}║
+║  Endpoints (see /api/openapi.json):                        ║
+${bannerEndpointLines().map(line => `║  ${line.slice(0, 58).padEnd(58)}║`).join('\n')}
 ╚════════════════════════════════════════════════════════════╝
   `);
+  if (!process.env.TOKEN_BOOTSTRAP_SECRET) {
+    console.log(`First API tokens need this bootstrap secret: ${BOOTSTRAP_SECRET}\n`);
+  }
 
   // Auto-open browser in production mode when dist folder exists
   if (isProduction && hasDistFolder) {
@@ -329,7 +1426,9 @@ const server = app.listen(PORT, async () => {
 // Graceful shutdown
 process.on('SIGINT', () => {
   console.log('\nShutting down server...');
+  closeMcpSessions().catch(() => {});
   server.close(() => {
+    storage.close();
     console.log('Server stopped.');
     process.exit(0);
   });
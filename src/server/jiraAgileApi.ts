@@ -0,0 +1,304 @@
+/**
+ * Jira Agile API - Jira Software REST (agile/1.0)-compatible endpoints
+ *
+ * Serves boards and sprints under /rest/agile/1.0 with Jira's shapes, so
+ * sprint automation scripts can be rehearsed against local data:
+ * - GET /board, GET /board/{boardId}, GET /board/{boardId}/sprint
+ * - GET/POST/PUT /sprint/{sprintId} (POST with `state` starts or closes it)
+ * - GET/POST /sprint/{sprintId}/issue, POST /backlog/issue
+ *
+ * Boards don't exist in our data model: every project has one scrum board
+ * with the project's ID. Sprint rules match the web app's sprint store (see
+ * src/domain/sprints.ts). Lists are paginated with startAt/maxResults.
+ * Writes read and save in one storage transaction.
+ */
+
+import { Router } from 'express';
+import type { Request, Response } from 'express';
+import { z } from 'zod';
+import type { Issue, Project, Sprint } from '../types/index.js';
+import { IssueOperationError, requireSprint, updateSprint, moveIssuesToSprint } from '../domain/index.js';
+import type { SprintUpdates } from '../domain/index.js';
+import { findIssuesByJQL, queryPageBounds } from './search.js';
+import { formatBoardForAPI, formatSprintForAPI, readList, sprintStatusFromState } from './jiraFormat.js';
+import { sendJiraError, issueResponse } from './jiraRestApi.js';
+import { apiRoutes } from './apiRegistry.js';
+import * as schema from './apiSchemas.js';
+
+/**
+ * How the router reads and persists data; provided by the server so writes
+ * go through the same storage, changelog and change feed as /api
+ */
+export interface JiraAgileDataAccess {
+  readIssues: () => Issue[];
+  readProjects: () => Project[];
+  readSprints: () => Sprint[];
+  /** Persist the sprints and return them as saved */
+  saveSprints: (sprints: Sprint[]) => Sprint[];
+  saveIssues: (issues: Issue[]) => void;
+  /** Run reads and writes as one storage transaction */
+  transaction: <T>(fn: () => T) => T;
+}
+
+/** Where the router is mounted */
+export const JIRA_AGILE_BASE = '/rest/agile/1.0';
+
+// Most issues one request may move, like Jira Cloud
+const MAX_ISSUES_PER_MOVE = 50;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * One page of a list in Jira Agile's `{ startAt, maxResults, total, isLast, values }` form
+ */
+function page<T>(items: T[], input: Record<string, unknown>): {
+  startAt: number;
+  maxResults: number;
+  total: number;
+  isLast: boolean;
+  values: T[];
+} {
+  const { startAt, maxResults } = queryPageBounds(input);
+
+  return {
+    startAt,
+    maxResults,
+    total: items.length,
+    isLast: startAt + maxResults >= items.length,
+    values: items.slice(startAt, startAt + maxResults),
+  };
+}
+
+function requireBoard(projects: Project[], boardId: string): Project {
+  const project = projects.find(p => p.id === boardId);
+  if (!project) {
+    throw new IssueOperationError(`Board does not exist or you do not have permission to see it: ${boardId}`, 404);
+  }
+  return project;
+}
+
+/**
+ * Jira's `self` link for a sprint or board
+ */
+function agileSelf(req: Request, path: string): string {
+  return `${req.protocol}://${req.get('host')}${JIRA_AGILE_BASE}/${path}`;
+}
+
+function sprintResponse(req: Request, sprint: Sprint): Record<string, unknown> {
+  return { ...formatSprintForAPI(sprint), self: agileSelf(req, `sprint/${sprint.id}`) };
+}
+
+/**
+ * The `issues` list of a move request
+ */
+function readIssueList(req: Request): string[] {
+  const issues = (req.body as { issues?: unknown } | undefined)?.issues;
+  if (!Array.isArray(issues) || issues.length === 0) {
+    throw new IssueOperationError('issues must be a non-empty list of issue keys or IDs');
+  }
+  if (issues.length > MAX_ISSUES_PER_MOVE) {
+    throw new IssueOperationError(`At most ${MAX_ISSUES_PER_MOVE} issues can be moved at once`);
+  }
+  return issues.map(String);
+}
+
+/**
+ * Map a Jira sprint update body ({ name, startDate, endDate, goal, state }) onto sprint fields
+ */
+function sprintUpdatesFromAPI(body: Record<string, unknown>): SprintUpdates {
+  const updates: SprintUpdates = {};
+  if (body.name !== undefined) updates.name = String(body.name);
+  if (body.startDate !== undefined) updates.startDate = String(body.startDate);
+  if (body.endDate !== undefined) updates.endDate = String(body.endDate);
+  if (body.goal !== undefined) updates.goalDescription = String(body.goal ?? '');
+  if (body.state !== undefined) updates.status = sprintStatusFromState(String(body.state));
+  return updates;
+}
+
+// ============================================================================
+// ROUTER
+// ============================================================================
+
+/**
+ * Create the router to mount at /rest/agile/1.0
+ */
+export function createJiraAgileRouter(data: JiraAgileDataAccess): Router {
+  const router = Router();
+  const api = apiRoutes(router, JIRA_AGILE_BASE);
+
+  // GET /board?projectKeyOrId=PHOENIX&type=scrum&name=... - One board per project
+  api.get('/board', {
+    tag: 'Jira Agile',
+    summary: 'List boards (one per project)',
+    query: schema.agilePageQuery.extend({
+      projectKeyOrId: z.string().optional(),
+      type: z.string().optional(),
+      name: z.string().optional(),
+    }),
+    response: schema.agilePage(schema.jiraBoard),
+  }, (req, res) => {
+    try {
+      const { projectKeyOrId, type, name } = req.query as Record<string, string | undefined>;
+      const boards = data.readProjects()
+        .filter(p => !projectKeyOrId || p.key === projectKeyOrId || p.id === projectKeyOrId)
+        .filter(() => !type || type.split(',').includes('scrum'))
+        .map(formatBoardForAPI)
+        .filter(b => !name || String(b.name).toLowerCase().includes(name.toLowerCase()))
+        .map(b => ({ ...b, self: agileSelf(req, `board/${String(b.id)}`) }));
+
+      res.json(page(boards, req.query as Record<string, unknown>));
+    } catch (error) {
+      sendJiraError(res, error);
+    }
+  });
+
+  // GET /board/:boardId
+  api.get('/board/:boardId', {
+    tag: 'Jira Agile',
+    summary: 'Get a board',
+    response: schema.jiraBoard,
+  }, (req, res) => {
+    try {
+      const project = requireBoard(data.readProjects(), req.params.boardId as string);
+      res.json({ ...formatBoardForAPI(project), self: agileSelf(req, `board/${project.id}`) });
+    } catch (error) {
+      sendJiraError(res, error);
+    }
+  });
+
+  // GET /board/:boardId/sprint?state=future,active - The board's sprints, in stored order
+  api.get('/board/:boardId/sprint', {
+    tag: 'Jira Agile',
+    summary: 'A board\'s sprints',
+    query: schema.agilePageQuery.extend({
+      state: z.string().optional().describe('Comma-separated: future, active, closed'),
+    }),
+    response: schema.agilePage(schema.jiraSprint),
+  }, (req, res) => {
+    try {
+      const project = requireBoard(data.readProjects(), req.params.boardId as string);
+      const states = readList(req.query.state)?.map(sprintStatusFromState);
+      const sprints = data.readSprints()
+        .filter(s => s.projectId === project.id)
+        .filter(s => !states || states.includes(s.status))
+        .map(s => sprintResponse(req, s));
+
+      res.json(page(sprints, req.query as Record<string, unknown>));
+    } catch (error) {
+      sendJiraError(res, error);
+    }
+  });
+
+  // GET /sprint/:sprintId
+  api.get('/sprint/:sprintId', {
+    tag: 'Jira Agile',
+    summary: 'Get a sprint',
+    response: schema.jiraSprint,
+  }, (req, res) => {
+    try {
+      res.json(sprintResponse(req, requireSprint(data.readSprints(), req.params.sprintId as string)));
+    } catch (error) {
+      sendJiraError(res, error);
+    }
+  });
+
+  // POST /sprint/:sprintId - Partial update; { state: "active" } starts the
+  // sprint and { state: "closed" } completes it. PUT is accepted the same way.
+  const update = (req: Request, res: Response) => {
+    try {
+      const body = (req.body ?? {}) as Record<string, unknown>;
+      const sprint = data.transaction(() => {
+        const result = updateSprint(data.readSprints(), req.params.sprintId as string, sprintUpdatesFromAPI(body));
+        const saved = data.saveSprints(result.sprints);
+        return saved.find(s => s.id === result.sprint.id) ?? result.sprint;
+      });
+
+      res.json(sprintResponse(req, sprint));
+    } catch (error) {
+      sendJiraError(res, error);
+    }
+  };
+  const updateDoc = {
+    tag: 'Jira Agile',
+    summary: 'Update a sprint; state "active" starts it and "closed" completes it',
+    body: schema.jiraSprintBody,
+    response: schema.jiraSprint,
+  } as const;
+  api.post('/sprint/:sprintId', updateDoc, update);
+  api.put('/sprint/:sprintId', updateDoc, update);
+
+  // GET /sprint/:sprintId/issue?jql=...&startAt=0&maxResults=50&fields=summary,status
+  api.get('/sprint/:sprintId/issue', {
+    tag: 'Jira Agile',
+    summary: 'Issues in a sprint',
+    query: schema.agilePageQuery.extend({
+      jql: z.string().optional(),
+      fields: z.string().optional(),
+    }),
+    response: schema.jiraSprintIssues,
+  }, (req, res) => {
+    try {
+      const sprint = requireSprint(data.readSprints(), req.params.sprintId as string);
+      const jql = typeof req.query.jql === 'string' ? req.query.jql : '';
+      const issues = findIssuesByJQL(data.readIssues().filter(i => i.sprint === sprint.id), jql);
+      const { startAt, maxResults, total, values } = page(issues, req.query as Record<string, unknown>);
+      const fields = readList(req.query.fields);
+
+      res.json({
+        expand: 'schema,names',
+        startAt,
+        maxResults,
+        total,
+        issues: values.map(issue => issueResponse(req, issue, fields)),
+      });
+    } catch (error) {
+      sendJiraError(res, error);
+    }
+  });
+
+  // POST /sprint/:sprintId/issue - Move issues into a sprint ({ issues: ["KEY-1", ...] })
+  api.post('/sprint/:sprintId/issue', {
+    tag: 'Jira Agile',
+    summary: 'Move issues into a sprint',
+    body: schema.jiraMoveIssuesBody,
+    status: 204,
+  }, (req, res) => {
+    try {
+      const keys = readIssueList(req);
+      data.transaction(() => {
+        const result = moveIssuesToSprint(data.readIssues(), data.readSprints(), req.params.sprintId as string, keys);
+        if (result.moved.length > 0) {
+          data.saveIssues(result.issues);
+        }
+      });
+      res.status(204).end();
+    } catch (error) {
+      sendJiraError(res, error);
+    }
+  });
+
+  // POST /backlog/issue - Move issues out of their sprint ({ issues: ["KEY-1", ...] })
+  api.post('/backlog/issue', {
+    tag: 'Jira Agile',
+    summary: 'Move issues to the backlog',
+    body: schema.jiraMoveIssuesBody,
+    status: 204,
+  }, (req, res) => {
+    try {
+      const keys = readIssueList(req);
+      data.transaction(() => {
+        const result = moveIssuesToSprint(data.readIssues(), data.readSprints(), null, keys);
+        if (result.moved.length > 0) {
+          data.saveIssues(result.issues);
+        }
+      });
+      res.status(204).end();
+    } catch (error) {
+      sendJiraError(res, error);
+    }
+  });
+
+  return router;
+}
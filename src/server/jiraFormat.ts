@@ -0,0 +1,417 @@
+/**
+ * Jira Format - Converting issues to and from Jira Cloud's JSON shapes
+ *
+ * Shared by the MCP server and the REST compatibility routers, so a tool
+ * result and a `curl /rest/api/3/issue/KEY` look the same:
+ * - Issues are `{ id, key, fields: { summary, status: { name }, ... } }`
+ * - Reads pick fields with Jira's `fields` syntax and add `expand` parts
+ * - Transitions have Jira-style numeric IDs and a target status
+ * - Incoming `fields` (create/edit) map back onto our issue properties
+ * - Each project has one scrum board; sprints use Jira's future/active/closed
+ */
+
+import type { ChangelogEntry, ChangelogItem, Issue, Project, Sprint } from '../types/index.js';
+import { IssueStatus, IssueType, Priority, SprintStatus } from '../types/index.js';
+import { IssueOperationError } from '../domain/index.js';
+
+// ============================================================================
+// ISSUES
+// ============================================================================
+
+/**
+ * Format an issue the way Jira's REST API returns it
+ */
+export function formatIssueForAPI(issue: Issue): Record<string, unknown> {
+  return {
+    id: issue.id,
+    key: issue.key,
+    fields: {
+      summary: issue.title,
+      description: issue.description,
+      issuetype: { name: issue.type },
+      status: { name: issue.status },
+      priority: { name: issue.priority },
+      assignee: issue.assignee ? { accountId: issue.assignee } : null,
+      reporter: { accountId: issue.reporter },
+      labels: issue.labels,
+      created: issue.createdAt,
+      updated: issue.updatedAt,
+      customfield_storypoints: issue.storyPoints,
+      sprint: issue.sprint,
+      parent: issue.parentId ? { id: issue.parentId } : null,
+    }
+  };
+}
+
+/**
+ * Read a list parameter sent as an array or a comma-separated string
+ */
+export function readList(value: unknown): string[] | undefined {
+  if (Array.isArray(value)) return value.map(String);
+  if (typeof value === 'string') return value.split(',').map(v => v.trim()).filter(Boolean);
+  return undefined;
+}
+
+/**
+ * Plain text of a description, which REST v3 clients send as an Atlassian
+ * Document Format tree (paragraphs of text nodes) rather than a string
+ */
+function descriptionText(value: unknown): string {
+  if (typeof value === 'string') return value;
+  if (!value || typeof value !== 'object') return '';
+
+  const node = value as { type?: string; text?: string; content?: unknown[] };
+  if (typeof node.text === 'string') return node.text;
+  const parts = (node.content ?? []).map(descriptionText);
+  // Block nodes (paragraphs, headings, list items) each get their own line
+  return node.type === 'doc' || node.type === 'bulletList' || node.type === 'orderedList'
+    ? parts.join('\n')
+    : parts.join('');
+}
+
+/** `{ name: "High" }`, `{ accountId: "user-1" }` or a bare value */
+function nestedValue(value: unknown, property: 'name' | 'accountId' | 'id' | 'key'): unknown {
+  return value && typeof value === 'object' ? (value as Record<string, unknown>)[property] : value;
+}
+
+/**
+ * Map the `fields` of a Jira create/edit request onto issue properties.
+ * Parents are returned as a key or ID for the caller to resolve; fields we
+ * don't model are ignored like Jira ignores fields missing from a screen.
+ */
+export function issueFieldsFromAPI(fields: Record<string, unknown>): {
+  updates: Partial<Issue>;
+  parent?: string | null;
+} {
+  const updates: Partial<Issue> = {};
+  let parent: string | null | undefined;
+
+  for (const [field, value] of Object.entries(fields)) {
+    switch (field) {
+      case 'summary':
+        updates.title = String(value ?? '');
+        break;
+      case 'description':
+        updates.description = descriptionText(value);
+        break;
+      case 'issuetype': {
+        const type = nestedValue(value, 'name');
+        if (!Object.values(IssueType).includes(type as IssueType)) {
+          throw new IssueOperationError(`Invalid issue type: ${String(type)}`);
+        }
+        updates.type = type as IssueType;
+        break;
+      }
+      case 'priority': {
+        const priority = nestedValue(value, 'name');
+        if (!Object.values(Priority).includes(priority as Priority)) {
+          throw new IssueOperationError(`Invalid priority: ${String(priority)}`);
+        }
+        updates.priority = priority as Priority;
+        break;
+      }
+      case 'assignee':
+        updates.assignee = (nestedValue(value, 'accountId') as string | undefined) ?? null;
+        break;
+      case 'reporter':
+        updates.reporter = nestedValue(value, 'accountId') as string;
+        break;
+      case 'labels':
+        updates.labels = Array.isArray(value) ? value.map(String) : [];
+        break;
+      case 'customfield_storypoints':
+        updates.storyPoints = value === null ? null : Number(value);
+        break;
+      case 'sprint':
+        updates.sprint = (nestedValue(value, 'id') as string | undefined) ?? null;
+        break;
+      case 'components':
+        updates.components = Array.isArray(value) ? value.map(c => String(nestedValue(c, 'name'))) : [];
+        break;
+      case 'duedate':
+        updates.dueDate = (value as string | null) ?? null;
+        break;
+      case 'parent':
+        parent = value ? String(nestedValue(value, 'key') ?? nestedValue(value, 'id')) : null;
+        break;
+    }
+  }
+
+  return { updates, parent };
+}
+
+// ============================================================================
+// FIELD SELECTION & EXPAND
+// ============================================================================
+
+/** Display names of the issue fields, as `expand=names` returns them */
+export const ISSUE_FIELD_NAMES: Record<string, string> = {
+  summary: 'Summary',
+  description: 'Description',
+  issuetype: 'Issue Type',
+  status: 'Status',
+  priority: 'Priority',
+  assignee: 'Assignee',
+  reporter: 'Reporter',
+  labels: 'Labels',
+  created: 'Created',
+  updated: 'Updated',
+  customfield_storypoints: 'Story Points',
+  sprint: 'Sprint',
+  parent: 'Parent',
+};
+
+/** Issue properties under the names Jira's REST fields use, for changelogs */
+const CHANGELOG_FIELD_NAMES: Record<string, string> = {
+  title: 'summary',
+  type: 'issuetype',
+  storyPoints: 'customfield_storypoints',
+  parentId: 'parent',
+  dueDate: 'duedate',
+};
+
+// Histories `expand=changelog` returns at most, the newest ones
+const MAX_CHANGELOG_HISTORIES = 100;
+
+export interface IssueReadOptions {
+  /** Fields to include, in Jira's syntax (see selectIssueFields) */
+  fields?: string[];
+  /** Parts to add: renderedFields, names, changelog */
+  expand?: string[];
+  /** The issue's changelog, newest first, for `expand=changelog` */
+  changelog?: ChangelogEntry[];
+}
+
+/**
+ * Keep the requested fields of an issue, with Jira's `fields` syntax:
+ * field IDs, `*all` and `*navigable` (all of ours are navigable), and
+ * `-field` to leave one out. Without a list, or with only exclusions, it
+ * starts from every field. Unknown fields are ignored, like in Jira.
+ */
+export function selectIssueFields(fields: Record<string, unknown>, selection?: string[]): Record<string, unknown> {
+  if (!selection || selection.length === 0) return fields;
+
+  const included = new Set<string>();
+  const excluded = new Set<string>();
+  for (const field of selection) {
+    if (field === '*all' || field === '*navigable') {
+      Object.keys(fields).forEach(f => included.add(f));
+    } else if (field.startsWith('-')) {
+      excluded.add(field.slice(1));
+    } else {
+      included.add(field);
+    }
+  }
+  if (included.size === 0) {
+    Object.keys(fields).forEach(f => included.add(f));
+  }
+
+  return Object.fromEntries(
+    Object.entries(fields).filter(([field]) => included.has(field) && !excluded.has(field))
+  );
+}
+
+/** Escape text for HTML */
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/** A date the way Jira renders it, e.g. "19/Oct/26 5:57 PM" (UTC) */
+function renderDate(iso: string): string {
+  const date = new Date(iso);
+  if (isNaN(date.getTime())) return iso;
+  const month = date.toLocaleString('en-US', { month: 'short', timeZone: 'UTC' });
+  const hours = date.getUTCHours() % 12 || 12;
+  const minutes = String(date.getUTCMinutes()).padStart(2, '0');
+  const period = date.getUTCHours() < 12 ? 'AM' : 'PM';
+  return `${String(date.getUTCDate()).padStart(2, '0')}/${month}/${String(date.getUTCFullYear()).slice(2)} ${hours}:${minutes} ${period}`;
+}
+
+/**
+ * HTML versions of the fields that have one (`expand=renderedFields`):
+ * the description as paragraphs, dates in Jira's display format
+ */
+function renderFields(fields: Record<string, unknown>): Record<string, unknown> {
+  const rendered: Record<string, unknown> = {};
+  for (const [field, value] of Object.entries(fields)) {
+    if (field === 'description') {
+      const paragraphs = String(value ?? '').trim().split(/\n\s*\n/).filter(Boolean);
+      rendered[field] = paragraphs.map(p => `<p>${escapeHtml(p).replace(/\n/g, '<br/>\n')}</p>`).join('\n');
+    } else if ((field === 'created' || field === 'updated') && typeof value === 'string') {
+      rendered[field] = renderDate(value);
+    } else {
+      rendered[field] = null;
+    }
+  }
+  return rendered;
+}
+
+/** A changelog value as Jira's `fromString`/`toString` */
+function changeString(value: unknown): string | null {
+  if (value === null || value === undefined) return null;
+  if (Array.isArray(value)) return value.join(', ');
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+/**
+ * Format a changed field the way Jira's changelogs list it
+ */
+export function formatChangelogItem(item: ChangelogItem): Record<string, unknown> {
+  const field = CHANGELOG_FIELD_NAMES[item.field] ?? item.field;
+  return {
+    field,
+    fieldtype: 'jira',
+    fieldId: field,
+    from: changeString(item.from),
+    fromString: changeString(item.from),
+    to: changeString(item.to),
+    toString: changeString(item.to),
+  };
+}
+
+/**
+ * An issue's changelog as `expand=changelog` returns it: the histories
+ * that changed fields, oldest first
+ */
+function formatChangelog(changelog: ChangelogEntry[]): Record<string, unknown> {
+  const histories = changelog.filter(entry => entry.items.length > 0).reverse();
+  const shown = histories.slice(-MAX_CHANGELOG_HISTORIES);
+  return {
+    startAt: histories.length - shown.length,
+    maxResults: MAX_CHANGELOG_HISTORIES,
+    total: histories.length,
+    histories: shown.map(entry => ({
+      id: entry.id,
+      ...(entry.author.userId ? { author: { accountId: entry.author.userId } } : {}),
+      created: entry.timestamp,
+      items: entry.items.map(formatChangelogItem),
+    })),
+  };
+}
+
+/**
+ * Display names of the fields a `fields` list selects (`expand=names`)
+ */
+export function selectedFieldNames(selection?: string[]): Record<string, string> {
+  return selectIssueFields(ISSUE_FIELD_NAMES, selection) as Record<string, string>;
+}
+
+/**
+ * Format an issue for a read (getJiraIssue, a search result): the
+ * requested fields, plus the requested `expand` parts
+ */
+export function formatIssueForRead(issue: Issue, options: IssueReadOptions = {}): Record<string, unknown> {
+  const formatted = formatIssueForAPI(issue);
+  const fields = selectIssueFields(formatted.fields as Record<string, unknown>, options.fields);
+  const expand = new Set(options.expand ?? []);
+
+  return {
+    ...formatted,
+    fields,
+    ...(expand.has('renderedFields') ? { renderedFields: renderFields(fields) } : {}),
+    ...(expand.has('names') ? { names: selectedFieldNames(options.fields) } : {}),
+    ...(expand.has('changelog') ? { changelog: formatChangelog(options.changelog ?? []) } : {}),
+  };
+}
+
+// ============================================================================
+// TRANSITIONS
+// ============================================================================
+
+/** The workflow: any status can move to any other */
+export const ISSUE_TRANSITIONS = [
+  { id: '1', name: 'To Do', to: { name: IssueStatus.Todo } },
+  { id: '2', name: 'Start Progress', to: { name: IssueStatus.InProgress } },
+  { id: '3', name: 'Review', to: { name: IssueStatus.InReview } },
+  { id: '4', name: 'Done', to: { name: IssueStatus.Done } },
+];
+
+/** Other names people use for the transitions */
+const TRANSITION_ALIASES: Record<string, IssueStatus> = {
+  'todo': IssueStatus.Todo,
+  'in progress': IssueStatus.InProgress,
+  'inprogress': IssueStatus.InProgress,
+  'in review': IssueStatus.InReview,
+  'inreview': IssueStatus.InReview,
+  'complete': IssueStatus.Done,
+  'resolve': IssueStatus.Done,
+};
+
+/**
+ * Transitions available from the issue's current status
+ */
+export function transitionsFor(issue: Issue): typeof ISSUE_TRANSITIONS {
+  return ISSUE_TRANSITIONS.filter(t => t.to.name !== issue.status);
+}
+
+/**
+ * Target status of a transition given by ID ("2"), name ("Start Progress")
+ * or status ("In Progress")
+ */
+export function resolveTransition(idOrName: string): IssueStatus {
+  const wanted = idOrName.trim().toLowerCase();
+  const transition = ISSUE_TRANSITIONS.find(t =>
+    t.id === wanted || t.name.toLowerCase() === wanted || t.to.name.toLowerCase() === wanted
+  );
+  const status = transition?.to.name ?? TRANSITION_ALIASES[wanted];
+  if (!status) {
+    throw new IssueOperationError(`Invalid transition: ${idOrName}`);
+  }
+  return status;
+}
+
+// ============================================================================
+// BOARDS & SPRINTS
+// ============================================================================
+
+/** Jira's name for each sprint status */
+const SPRINT_STATES: Record<SprintStatus, string> = {
+  [SprintStatus.Planned]: 'future',
+  [SprintStatus.Active]: 'active',
+  [SprintStatus.Completed]: 'closed',
+};
+
+/**
+ * Format a project's board the way Jira's Agile API returns it.
+ * Every project has exactly one scrum board, with the project's ID.
+ */
+export function formatBoardForAPI(project: Project): Record<string, unknown> {
+  return {
+    id: project.id,
+    name: `${project.key} board`,
+    type: 'scrum',
+    location: {
+      projectId: project.id,
+      projectKey: project.key,
+      projectName: project.name,
+      displayName: `${project.name} (${project.key})`,
+      projectTypeKey: 'software',
+    },
+  };
+}
+
+/**
+ * Format a sprint the way Jira's Agile API returns it
+ */
+export function formatSprintForAPI(sprint: Sprint): Record<string, unknown> {
+  return {
+    id: sprint.id,
+    state: SPRINT_STATES[sprint.status],
+    name: sprint.name,
+    startDate: sprint.startDate,
+    endDate: sprint.endDate,
+    originBoardId: sprint.projectId,
+    goal: sprint.goalDescription ?? '',
+  };
+}
+
+/**
+ * Sprint status for a Jira sprint state ("future", "active" or "closed")
+ */
+export function sprintStatusFromState(state: string): SprintStatus {
+  const entry = Object.entries(SPRINT_STATES).find(([, name]) => name === state.trim().toLowerCase());
+  if (!entry) {
+    throw new IssueOperationError(`Invalid sprint state: ${state}. Valid states: future, active, closed`);
+  }
+  return entry[0] as SprintStatus;
+}
@@ -0,0 +1,362 @@
+/**
+ * Jira REST API - Jira Cloud REST v3-compatible endpoints
+ *
+ * Serves the core of Jira's platform API under /rest/api/3 with Jira's
+ * request and response shapes, so curl snippets and jira-cli configs written
+ * for Jira Cloud work against localhost unchanged:
+ * - GET/PUT/DELETE /issue/{issueIdOrKey}, POST /issue
+ * - GET/POST /search/jql (paginated with nextPageToken)
+ * - GET/POST /issue/{issueIdOrKey}/transitions
+ * - GET /myself
+ *
+ * Issues are formatted exactly like the MCP tools return them (see
+ * jiraFormat.ts). Errors use Jira's `{ errorMessages, errors }` body.
+ * Writes read and save in one storage transaction; send an issue's ETag
+ * (from GET /issue) as If-Match to get a 409 if it changed since.
+ * Callers authenticate with API tokens like on Jira Cloud (see auth.ts);
+ * the token's user is the reporter of the issues it creates.
+ */
+
+import { Router } from 'express';
+import type { Request, Response } from 'express';
+import type { Issue, Project, User } from '../types/index.js';
+import { createIssue, updateIssue, deleteIssue, transitionIssue, findIssue, IssueOperationError } from '../domain/index.js';
+import type { IssueMutationResult } from '../domain/index.js';
+import { DataValidationError } from './validation.js';
+import { getWriteContext } from './writeContext.js';
+import { findIssuesByJQL, encodePageToken, decodePageToken, queryPageBounds } from './search.js';
+import { recordEtag, assertIfMatch, RevisionConflictError } from './revisions.js';
+import {
+  formatIssueForAPI,
+  issueFieldsFromAPI,
+  readList,
+  resolveTransition,
+  selectIssueFields,
+  transitionsFor,
+} from './jiraFormat.js';
+import { apiRoutes } from './apiRegistry.js';
+import * as schema from './apiSchemas.js';
+
+/**
+ * How the router reads and persists data; provided by the server so writes
+ * go through the same storage, changelog and change feed as /api
+ */
+export interface JiraRestDataAccess {
+  readIssues: () => Issue[];
+  readProjects: () => Project[];
+  readUsers: () => User[];
+  /** Persist a create/update and return the saved issue */
+  saveIssueMutation: (result: IssueMutationResult) => { issue: Issue };
+  /** Persist a delete, cleaning up structures and comments */
+  saveIssueDeletion: (result: IssueMutationResult) => void;
+  /** Run reads and writes as one storage transaction */
+  transaction: <T>(fn: () => T) => T;
+}
+
+/** Where the router is mounted */
+export const JIRA_REST_BASE = '/rest/api/3';
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Send an error in Jira's format: messages plus per-field errors
+ */
+export function sendJiraError(res: Response, error: unknown): void {
+  if (error instanceof DataValidationError) {
+    const errors: Record<string, string> = {};
+    for (const issue of error.issues) {
+      errors[issue.field ?? 'data'] = issue.message;
+    }
+    res.status(400).json({ errorMessages: [error.message], errors });
+    return;
+  }
+
+  if (error instanceof IssueOperationError) {
+    res.status(error.status).json({ errorMessages: [error.message], errors: {} });
+    return;
+  }
+
+  if (error instanceof RevisionConflictError) {
+    res.status(409).json({ errorMessages: [error.message], errors: {} });
+    return;
+  }
+
+  console.error('Error in Jira REST API:', error);
+  res.status(500).json({ errorMessages: ['Internal server error'], errors: {} });
+}
+
+/**
+ * Jira's `self` link for an issue
+ */
+function issueSelf(req: Request, issue: Issue): string {
+  return `${req.protocol}://${req.get('host')}${JIRA_REST_BASE}/issue/${issue.id}`;
+}
+
+/**
+ * A formatted issue with its `self` link, limited to the requested fields
+ * (field IDs, `*all`, `*navigable` or `-field`)
+ */
+export function issueResponse(req: Request, issue: Issue, fields?: string[]): Record<string, unknown> {
+  const formatted = formatIssueForAPI(issue);
+  formatted.fields = selectIssueFields(formatted.fields as Record<string, unknown>, fields);
+  return { ...formatted, self: issueSelf(req, issue) };
+}
+
+/**
+ * The `fields` object of a create/edit body
+ */
+function readFieldsBody(req: Request): Record<string, unknown> {
+  const fields = (req.body as { fields?: unknown } | undefined)?.fields;
+  if (!fields || typeof fields !== 'object' || Array.isArray(fields)) {
+    throw new IssueOperationError('Request body must contain a fields object');
+  }
+  return fields as Record<string, unknown>;
+}
+
+function requireIssue(issues: Issue[], idOrKey: string): Issue {
+  const issue = findIssue(issues, idOrKey);
+  if (!issue) {
+    throw new IssueOperationError('Issue does not exist or you do not have permission to see it.', 404);
+  }
+  return issue;
+}
+
+/**
+ * The issue a write targets, checked against the request's If-Match
+ */
+function requireCurrentIssue(req: Request, issues: Issue[]): Issue {
+  const issue = requireIssue(issues, req.params.issueIdOrKey as string);
+  assertIfMatch(req.get('If-Match'), recordEtag(issue), issue, issue.key);
+  return issue;
+}
+
+/**
+ * Resolve a parent given by key or ID to its issue ID
+ */
+function parentId(issues: Issue[], parent: string | null | undefined): string | null | undefined {
+  if (!parent) return parent;
+  const issue = findIssue(issues, parent);
+  if (!issue) {
+    throw new IssueOperationError(`Parent issue not found: ${parent}`);
+  }
+  return issue.id;
+}
+
+// ============================================================================
+// ROUTER
+// ============================================================================
+
+/**
+ * Create the router to mount at /rest/api/3
+ */
+export function createJiraRestRouter(data: JiraRestDataAccess): Router {
+  const router = Router();
+  const api = apiRoutes(router, JIRA_REST_BASE);
+
+  // GET /search/jql?jql=...&maxResults=50&nextPageToken=...&fields=summary,status
+  // POST /search/jql with the same options in the body
+  const search = (req: Request, res: Response, input: Record<string, unknown>) => {
+    try {
+      const { startAt, maxResults } = queryPageBounds({
+        startAt: input.nextPageToken ? decodePageToken(String(input.nextPageToken)) : 0,
+        maxResults: input.maxResults,
+      });
+
+      const matches = findIssuesByJQL(data.readIssues(), typeof input.jql === 'string' ? input.jql : '');
+      const end = startAt + maxResults;
+      const fields = readList(input.fields);
+      const isLast = end >= matches.length;
+
+      res.json({
+        issues: matches.slice(startAt, end).map(issue => issueResponse(req, issue, fields)),
+        ...(isLast || maxResults === 0 ? {} : { nextPageToken: encodePageToken(end) }),
+        isLast,
+      });
+    } catch (error) {
+      sendJiraError(res, error);
+    }
+  };
+  api.get('/search/jql', {
+    tag: 'Jira REST v3',
+    summary: 'JQL search, paginated with nextPageToken',
+    query: schema.jiraSearchQuery,
+    response: schema.jiraSearchResult,
+  }, (req, res) => search(req, res, req.query as Record<string, unknown>));
+  api.post('/search/jql', {
+    tag: 'Jira REST v3',
+    summary: 'JQL search with the options in the body',
+    body: schema.jiraSearchBody,
+    response: schema.jiraSearchResult,
+  }, (req, res) => search(req, res, (req.body ?? {}) as Record<string, unknown>));
+
+  // POST /issue - Create an issue ({ fields: { project: { key }, summary, issuetype: { name }, ... } })
+  api.post('/issue', {
+    tag: 'Jira REST v3',
+    summary: 'Create an issue',
+    body: schema.jiraFieldsBody,
+    status: 201,
+    response: schema.jiraCreatedIssue,
+  }, (req, res) => {
+    try {
+      const fields = readFieldsBody(req);
+      const { issue } = data.transaction(() => {
+        const projectRef = fields.project as { key?: string; id?: string } | undefined;
+        const project = data.readProjects().find(p =>
+          p.key === projectRef?.key || p.id === projectRef?.id
+        );
+        if (!project) {
+          throw new IssueOperationError(projectRef ? 'Specify a valid project ID or key' : 'project is required');
+        }
+
+        const issues = data.readIssues();
+        const { updates, parent } = issueFieldsFromAPI(fields);
+        if (!updates.title?.trim()) {
+          throw new IssueOperationError('You must specify a summary of the issue.');
+        }
+        // The token's user is the reporter, whatever the fields say
+        const caller = getWriteContext()?.userId ?? null;
+        const input: Partial<Issue> = {
+          ...updates,
+          ...(caller ? { reporter: caller } : {}),
+          parentId: parentId(issues, parent) ?? null,
+        };
+        return data.saveIssueMutation(createIssue(issues, input, project.key, caller ?? project.lead));
+      });
+
+      res.status(201).json({ id: issue.id, key: issue.key, self: issueSelf(req, issue) });
+    } catch (error) {
+      sendJiraError(res, error);
+    }
+  });
+
+  // GET /issue/:issueIdOrKey?fields=summary,status
+  api.get('/issue/:issueIdOrKey', {
+    tag: 'Jira REST v3',
+    summary: 'Get an issue',
+    query: schema.jiraFieldsQuery,
+    response: schema.jiraIssue,
+  }, (req, res) => {
+    try {
+      const issue = requireIssue(data.readIssues(), req.params.issueIdOrKey as string);
+      res.set('ETag', recordEtag(issue)).json(issueResponse(req, issue, readList(req.query.fields)));
+    } catch (error) {
+      sendJiraError(res, error);
+    }
+  });
+
+  // PUT /issue/:issueIdOrKey - Edit fields ({ fields: { summary, priority: { name }, ... } })
+  api.put('/issue/:issueIdOrKey', {
+    tag: 'Jira REST v3',
+    summary: 'Edit an issue',
+    body: schema.jiraFieldsBody,
+    status: 204,
+  }, (req, res) => {
+    try {
+      const fields = readFieldsBody(req);
+      data.transaction(() => {
+        const issues = data.readIssues();
+        const existing = requireCurrentIssue(req, issues);
+
+        const { updates, parent } = issueFieldsFromAPI(fields);
+        if (parent !== undefined) {
+          updates.parentId = parentId(issues, parent);
+        }
+        data.saveIssueMutation(updateIssue(issues, existing.id, updates));
+      });
+
+      res.status(204).end();
+    } catch (error) {
+      sendJiraError(res, error);
+    }
+  });
+
+  // DELETE /issue/:issueIdOrKey
+  api.delete('/issue/:issueIdOrKey', {
+    tag: 'Jira REST v3',
+    summary: 'Delete an issue',
+    status: 204,
+  }, (req, res) => {
+    try {
+      data.transaction(() => {
+        const issues = data.readIssues();
+        const existing = requireCurrentIssue(req, issues);
+        data.saveIssueDeletion(deleteIssue(issues, existing.id));
+      });
+
+      res.status(204).end();
+    } catch (error) {
+      sendJiraError(res, error);
+    }
+  });
+
+  // GET /issue/:issueIdOrKey/transitions - Transitions from the current status
+  api.get('/issue/:issueIdOrKey/transitions', {
+    tag: 'Jira REST v3',
+    summary: 'Transitions available from the issue\'s status',
+    response: schema.jiraTransitions,
+  }, (req, res) => {
+    try {
+      const issue = requireIssue(data.readIssues(), req.params.issueIdOrKey as string);
+      res.json({ transitions: transitionsFor(issue) });
+    } catch (error) {
+      sendJiraError(res, error);
+    }
+  });
+
+  // POST /issue/:issueIdOrKey/transitions - Move the issue ({ transition: { id } })
+  api.post('/issue/:issueIdOrKey/transitions', {
+    tag: 'Jira REST v3',
+    summary: 'Transition an issue',
+    body: schema.jiraTransitionBody,
+    status: 204,
+  }, (req, res) => {
+    try {
+      const transition = (req.body as { transition?: { id?: unknown; name?: unknown } } | undefined)?.transition;
+      const idOrName = transition?.id ?? transition?.name;
+      if (idOrName === undefined) {
+        throw new IssueOperationError('transition is required');
+      }
+
+      data.transaction(() => {
+        const issues = data.readIssues();
+        const existing = requireCurrentIssue(req, issues);
+        data.saveIssueMutation(transitionIssue(issues, existing.id, resolveTransition(String(idOrName))));
+      });
+
+      res.status(204).end();
+    } catch (error) {
+      sendJiraError(res, error);
+    }
+  });
+
+  // GET /myself - The user of the API token the request was made with
+  api.get('/myself', {
+    tag: 'Jira REST v3',
+    summary: 'The user of the API token',
+    response: schema.jiraUser,
+  }, (req, res) => {
+    try {
+      const userId = getWriteContext()?.userId;
+      const user = userId ? data.readUsers().find(u => u.id === userId) : undefined;
+      if (!user) {
+        throw new IssueOperationError('You are not authenticated. Send an API token.', 401);
+      }
+
+      res.json({
+        self: `${req.protocol}://${req.get('host')}${JIRA_REST_BASE}/user?accountId=${user.id}`,
+        accountId: user.id,
+        accountType: 'atlassian',
+        emailAddress: user.email,
+        displayName: user.displayName,
+        active: true,
+        ...(user.avatarUrl ? { avatarUrls: { '48x48': user.avatarUrl } } : {}),
+      });
+    } catch (error) {
+      sendJiraError(res, error);
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,223 @@
+/**
+ * JSON Storage - The default storage backend
+ *
+ * Each resource is a JSON array in `<data directory>/<resource>.json`, so
+ * the data stays human-readable and can be edited by hand. Transactions
+ * hold the data lock (shared with other processes) and buffer writes in
+ * memory; each touched file is rewritten atomically once, on commit.
+ *
+ * The changelog only grows, and rewriting it on every issue edit would
+ * cost more the longer a workspace is used. It is kept as JSON Lines in
+ * `<resource>.jsonl` instead, one record per line, so appended records
+ * are added to the end of the file. A line cut short by a crash mid-append
+ * is skipped when reading.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { withDataLock, writeFileAtomic, readJsonIfExists } from './dataFiles.js';
+import { matchesWhere } from './storage.js';
+import type { DataStorage, StorageResource, StoredRecord } from './storage.js';
+
+/** Resources stored as JSON Lines, so appends don't rewrite the file */
+const APPEND_ONLY_RESOURCES: ReadonlySet<StorageResource> = new Set(['history']);
+
+/**
+ * Parse a JSON Lines file, skipping blank lines and lines a crash cut short
+ */
+function parseJsonLines(content: string): StoredRecord[] {
+  const records: StoredRecord[] = [];
+  for (const line of content.split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      records.push(JSON.parse(line) as StoredRecord);
+    } catch {
+      // A torn append; the write it belonged to never committed
+    }
+  }
+  return records;
+}
+
+function toJsonLines(records: StoredRecord[]): string {
+  return records.map(record => `${JSON.stringify(record)}\n`).join('');
+}
+
+/**
+ * Append to a file and flush it to disk, starting on a new line if a torn
+ * append left the file without a trailing newline
+ */
+function appendFileSynced(filePath: string, content: string): void {
+  const fd = fs.openSync(filePath, 'a+');
+  try {
+    const { size } = fs.fstatSync(fd);
+    const last = Buffer.alloc(1);
+    if (size > 0 && fs.readSync(fd, last, 0, 1, size - 1) === 1 && last[0] !== 0x0a) {
+      content = `\n${content}`;
+    }
+    fs.writeSync(fd, content);
+    fs.fsyncSync(fd);
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+export class JsonStorage implements DataStorage {
+  readonly kind = 'json' as const;
+  readonly dataDir: string;
+  readonly location: string;
+
+  /** Uncommitted content of the resources written in the current transaction */
+  private pending = new Map<StorageResource, StoredRecord[]>();
+  /** Uncommitted appends to append-only resources that aren't in `pending` */
+  private pendingAppends = new Map<StorageResource, StoredRecord[]>();
+  private depth = 0;
+
+  constructor(dataDir: string) {
+    this.dataDir = dataDir;
+    this.location = dataDir;
+  }
+
+  private filePath(resource: StorageResource): string {
+    return path.join(this.dataDir, `${resource}.json`);
+  }
+
+  private linesPath(resource: StorageResource): string {
+    return path.join(this.dataDir, `${resource}.jsonl`);
+  }
+
+  /** Whether a resource is stored as JSON Lines (older data may still have a .json file) */
+  private isJsonLines(resource: StorageResource): boolean {
+    return APPEND_ONLY_RESOURCES.has(resource);
+  }
+
+  /** Committed records of a resource */
+  private readFile(resource: StorageResource): StoredRecord[] {
+    if (this.isJsonLines(resource) && fs.existsSync(this.linesPath(resource))) {
+      return parseJsonLines(fs.readFileSync(this.linesPath(resource), 'utf-8'));
+    }
+    // Also reads a changelog written as a JSON array by older versions
+    const data = readJsonIfExists(this.filePath(resource));
+    return Array.isArray(data) ? data : [];
+  }
+
+  read<T = StoredRecord>(resource: StorageResource): T[] {
+    const pending = this.pending.get(resource);
+    if (pending) return [...pending] as T[];
+
+    return [...this.readFile(resource), ...(this.pendingAppends.get(resource) ?? [])] as T[];
+  }
+
+  query<T = StoredRecord>(resource: StorageResource, where: Record<string, unknown>): T[] {
+    return this.read(resource).filter(record => matchesWhere(record, where)) as T[];
+  }
+
+  get<T = StoredRecord>(resource: StorageResource, id: string): T | undefined {
+    return this.read(resource).find(record => record.id === id) as T | undefined;
+  }
+
+  upsert(resource: StorageResource, records: StoredRecord[]): void {
+    if (records.length === 0) return;
+
+    this.transaction(() => {
+      const current = this.read(resource);
+      const indexById = new Map(current.map((record, index) => [record.id, index]));
+      for (const record of records) {
+        const index = indexById.get(record.id);
+        if (index === undefined) {
+          indexById.set(record.id, current.length);
+          current.push(record);
+        } else {
+          current[index] = record;
+        }
+      }
+      this.setPending(resource, current);
+    });
+  }
+
+  /**
+   * Add records at the end. Append-only resources commit them without
+   * reading or rewriting the file; the records must have new IDs.
+   */
+  append(resource: StorageResource, records: StoredRecord[]): void {
+    if (records.length === 0) return;
+    if (!this.isJsonLines(resource)) {
+      this.upsert(resource, records);
+      return;
+    }
+
+    this.transaction(() => {
+      const pending = this.pending.get(resource);
+      if (pending) {
+        pending.push(...records);
+      } else {
+        this.pendingAppends.set(resource, [...(this.pendingAppends.get(resource) ?? []), ...records]);
+      }
+    });
+  }
+
+  delete(resource: StorageResource, ids: string[]): void {
+    if (ids.length === 0) return;
+
+    this.transaction(() => {
+      const remove = new Set(ids);
+      this.setPending(resource, this.read(resource).filter(record => !remove.has(record.id)));
+    });
+  }
+
+  /** Buffer the full new content of a resource, which includes its appends */
+  private setPending(resource: StorageResource, records: StoredRecord[]): void {
+    this.pending.set(resource, records);
+    this.pendingAppends.delete(resource);
+  }
+
+  private commit(): void {
+    for (const [resource, records] of this.pending) {
+      if (this.isJsonLines(resource)) {
+        writeFileAtomic(this.linesPath(resource), toJsonLines(records));
+        fs.rmSync(this.filePath(resource), { force: true });
+      } else {
+        writeFileAtomic(this.filePath(resource), JSON.stringify(records, null, 2));
+      }
+    }
+    for (const [resource, records] of this.pendingAppends) {
+      if (fs.existsSync(this.filePath(resource))) {
+        // Still in the old JSON array format; convert it once
+        writeFileAtomic(this.linesPath(resource), toJsonLines([...this.readFile(resource), ...records]));
+        fs.rmSync(this.filePath(resource));
+      } else {
+        appendFileSynced(this.linesPath(resource), toJsonLines(records));
+      }
+    }
+  }
+
+  private clearPending(): void {
+    this.pending.clear();
+    this.pendingAppends.clear();
+  }
+
+  transaction<T>(fn: () => T): T {
+    return withDataLock(this.dataDir, () => {
+      this.depth++;
+      try {
+        const result = fn();
+        if (this.depth === 1) {
+          try {
+            this.commit();
+          } finally {
+            this.clearPending();
+          }
+        }
+        return result;
+      } catch (error) {
+        if (this.depth === 1) this.clearPending();
+        throw error;
+      } finally {
+        this.depth--;
+      }
+    });
+  }
+
+  close(): void {
+    // Nothing to release; files are only open while being read or written
+  }
+}
@@ -0,0 +1,161 @@
+/**
+ * MCP over HTTP - The MCP server at /mcp on the web server
+ *
+ * Serves the same tools, resources and prompts as the stdio MCP server
+ * (src/mcp/mcpServer.ts) with MCP's Streamable HTTP transport: clients POST
+ * JSON-RPC messages and get the response as JSON or an SSE stream, and can
+ * keep a GET stream open for notifications (resource updates). Agents
+ * connected here share the web server's storage, write path and change
+ * feed, so their writes reach browsers immediately.
+ *
+ * Each client gets a session (the Mcp-Session-Id header) with its own MCP
+ * server, created by its `initialize` request. Clients authenticate with
+ * an API token like on the REST API (see auth.ts): the session acts as the
+ * token's user, and only that user can use it. Without a token the session
+ * is anonymous, like the stdio server without --token.
+ */
+
+import { randomUUID } from 'crypto';
+import { Router } from 'express';
+import type { Request, Response } from 'express';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { createMcpServer } from '../mcp/mcpServer.js';
+import type { McpDataAccess } from '../mcp/mcpServer.js';
+import { getWriteContext } from './writeContext.js';
+import type { User } from '../types/index.js';
+
+/** Where the endpoint is mounted */
+export const MCP_HTTP_PATH = '/mcp';
+
+// Sessions without a request for this long are closed; clients that come
+// back get a 404 and start a new session, as the MCP spec requires
+const SESSION_IDLE_MS = 60 * 60 * 1000;
+
+const SESSION_SWEEP_MS = 5 * 60 * 1000;
+
+interface McpSession {
+  transport: StreamableHTTPServerTransport;
+  /** User the session acts as; null for anonymous sessions */
+  userId: string | null;
+  lastSeen: number;
+}
+
+const sessions = new Map<string, McpSession>();
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Send an error as a JSON-RPC response, which is what MCP clients expect
+ * from this endpoint
+ */
+function sendRpcError(res: Response, status: number, code: number, message: string): void {
+  res.status(status).json({ jsonrpc: '2.0', error: { code, message }, id: null });
+}
+
+/**
+ * The user the request authenticated as (see the auth middleware)
+ */
+function requestUser(data: McpDataAccess): User | null {
+  const userId = getWriteContext()?.userId;
+  return userId ? data.read<User>('users').find(u => u.id === userId) ?? null : null;
+}
+
+/**
+ * Close every session, e.g., when the server switches workspaces: the
+ * sessions' users and subscriptions belong to the old one
+ */
+export async function closeMcpSessions(): Promise<void> {
+  const open = [...sessions.values()];
+  sessions.clear();
+  await Promise.all(open.map(session => session.transport.close().catch(() => {})));
+}
+
+// ============================================================================
+// ROUTER
+// ============================================================================
+
+/**
+ * The /mcp endpoint. `data` is how its MCP servers read and write the data
+ * files, normally the web server's own read and write functions.
+ */
+export function createMcpRouter(data: McpDataAccess): Router {
+  const router = Router();
+
+  const sweep = setInterval(() => {
+    const cutoff = Date.now() - SESSION_IDLE_MS;
+    for (const [id, session] of sessions) {
+      if (session.lastSeen < cutoff) {
+        sessions.delete(id);
+        session.transport.close().catch(() => {});
+      }
+    }
+  }, SESSION_SWEEP_MS);
+  sweep.unref();
+
+  /**
+   * Start a session: only an initialize request may come without a
+   * session ID
+   */
+  const startSession = async (req: Request, res: Response, user: User | null) => {
+    if (req.method !== 'POST' || !isInitializeRequest(req.body)) {
+      sendRpcError(res, 400, ErrorCode.InvalidRequest, 'Missing Mcp-Session-Id header: start a session with an initialize request');
+      return;
+    }
+
+    const server = createMcpServer(data, user);
+    const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: sessionId => {
+        sessions.set(sessionId, { transport, userId: user?.id ?? null, lastSeen: Date.now() });
+      },
+    });
+    // Set before connecting, so the server's own close handler is chained
+    // after it (DELETE /mcp, closeMcpSessions and the idle sweep all end here)
+    transport.onclose = () => {
+      if (transport.sessionId) sessions.delete(transport.sessionId);
+    };
+
+    await server.connect(transport);
+    await transport.handleRequest(req, res, req.body);
+  };
+
+  const handle = async (req: Request, res: Response) => {
+    const user = requestUser(data);
+    const sessionId = req.get('Mcp-Session-Id');
+
+    try {
+      if (!sessionId) {
+        await startSession(req, res, user);
+        return;
+      }
+
+      const session = sessions.get(sessionId);
+      if (!session) {
+        sendRpcError(res, 404, ErrorCode.ConnectionClosed, `Session not found: ${sessionId}`);
+        return;
+      }
+      if (session.userId !== (user?.id ?? null)) {
+        sendRpcError(res, 403, ErrorCode.InvalidRequest, 'This session belongs to another user');
+        return;
+      }
+      session.lastSeen = Date.now();
+      await session.transport.handleRequest(req, res, req.body);
+    } catch (error) {
+      console.error('MCP request failed:', error);
+      if (!res.headersSent) {
+        sendRpcError(res, 500, ErrorCode.InternalError, 'Internal server error');
+      }
+    }
+  };
+
+  // POST sends messages, GET opens the notification stream, DELETE ends
+  // the session
+  router.post('/', handle);
+  router.get('/', handle);
+  router.delete('/', handle);
+
+  return router;
+}
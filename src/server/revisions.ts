@@ -0,0 +1,112 @@
+/**
+ * Revisions - Optimistic concurrency helpers
+ *
+ * Every record in a data file carries a `revision` number that is bumped
+ * whenever the record's content changes. Both the Express server and the
+ * MCP server stamp revisions on write, so a client holding a stale copy
+ * can be detected no matter which process changed the record.
+ *
+ * - Item routes use the record revision as ETag (e.g., `"7"`)
+ * - Whole-file routes use a hash of the file content as ETag
+ *
+ * Routes check If-Match inside the storage transaction that writes, so no
+ * other writer can get in between the check and the write.
+ */
+
+import { createHash } from 'crypto';
+
+interface RevisionedRecord {
+  id: string;
+  revision?: number;
+}
+
+/**
+ * Thrown when a write's If-Match doesn't match the current version.
+ * Routes answer 409 with `current`, for the client to merge with.
+ */
+export class RevisionConflictError extends Error {
+  current: unknown;
+
+  constructor(what: string, current: unknown) {
+    super(`${what} was changed by someone else. Reload or merge your changes.`);
+    this.name = 'RevisionConflictError';
+    this.current = current;
+  }
+}
+
+/**
+ * Compare two records ignoring their revision numbers
+ */
+function sameContent(a: RevisionedRecord, b: RevisionedRecord): boolean {
+  const withoutRevision = (key: string, value: unknown) => (key === 'revision' ? undefined : value);
+  return JSON.stringify(a, withoutRevision) === JSON.stringify(b, withoutRevision);
+}
+
+/**
+ * Assign revisions to records about to be written.
+ * New records start at 1, changed records get the previous revision + 1,
+ * and unchanged records keep their revision.
+ */
+export function stampRevisions<T>(previous: unknown, next: T): T {
+  if (!Array.isArray(next)) return next;
+
+  const previousById = new Map<string, RevisionedRecord>();
+  if (Array.isArray(previous)) {
+    for (const record of previous as RevisionedRecord[]) {
+      if (record && typeof record.id === 'string') {
+        previousById.set(record.id, record);
+      }
+    }
+  }
+
+  return next.map((record: RevisionedRecord) => {
+    if (!record || typeof record.id !== 'string') return record;
+
+    const before = previousById.get(record.id);
+    if (!before) {
+      return { ...record, revision: 1 };
+    }
+    if (sameContent(before, record)) {
+      return { ...record, revision: before.revision ?? 1 };
+    }
+    return { ...record, revision: (before.revision ?? 1) + 1 };
+  }) as T;
+}
+
+/**
+ * ETag for a single record, based on its revision
+ */
+export function recordEtag(record: RevisionedRecord): string {
+  return `"${record.revision ?? 1}"`;
+}
+
+/**
+ * ETag for a whole data file, based on a hash of its content
+ */
+export function contentEtag(data: unknown): string {
+  const hash = createHash('sha1').update(JSON.stringify(data)).digest('hex');
+  return `"${hash.slice(0, 16)}"`;
+}
+
+/**
+ * Check an If-Match header against the current ETag.
+ * A missing header means an unconditional write (e.g., curl or scripts).
+ */
+export function ifMatchSatisfied(ifMatch: string | undefined, currentEtag: string): boolean {
+  if (!ifMatch) return true;
+
+  return ifMatch
+    .split(',')
+    .map(tag => tag.trim().replace(/^W\//, ''))
+    .some(tag => tag === '*' || tag === currentEtag);
+}
+
+/**
+ * Throw RevisionConflictError unless the If-Match header matches the
+ * current ETag. `current` is what the 409 response carries.
+ */
+export function assertIfMatch(ifMatch: string | undefined, currentEtag: string, current: unknown, what: string): void {
+  if (!ifMatchSatisfied(ifMatch, currentEtag)) {
+    throw new RevisionConflictError(what, current);
+  }
+}
@@ -0,0 +1,128 @@
+/**
+ * Search - Server-side JQL search
+ *
+ * Runs the same recursive-descent JQL parser and evaluator as the web
+ * app's search bar (src/utils/jqlParser.ts, src/utils/jqlEvaluator.ts), so
+ * GET/POST /api/search and the MCP searchJiraIssuesUsingJql tool return
+ * exactly the issues the UI shows for a query.
+ */
+
+import { parseJQL } from '../utils/jqlParser.js';
+import { evaluateJQL } from '../utils/jqlEvaluator.js';
+import { IssueOperationError } from '../domain/index.js';
+import type { Issue } from '../types/index.js';
+
+// Page size when the caller doesn't ask for one
+export const DEFAULT_MAX_RESULTS = 50;
+
+// Largest page a search returns, like Jira Cloud; larger requests get this
+const MAX_PAGE_SIZE = 5000;
+
+// Fields always included, whatever `fields` asks for
+const IDENTITY_FIELDS = ['id', 'key'] as const;
+
+export interface SearchOptions {
+  jql?: string;
+  startAt?: number;
+  maxResults?: number;
+  /** Issue fields to include (id and key are always included); all if omitted */
+  fields?: string[];
+}
+
+export interface SearchPage<T> {
+  issues: T[];
+  total: number;
+  startAt: number;
+  maxResults: number;
+}
+
+/**
+ * Find the issues matching a JQL query, in stored order.
+ * An empty query matches every issue; throws IssueOperationError (400)
+ * if the query doesn't parse.
+ */
+export function findIssuesByJQL<T extends Issue>(issues: T[], jql = ''): T[] {
+  const result = parseJQL(jql);
+  if (!result.success) {
+    throw new IssueOperationError(`Invalid JQL: ${result.error?.message ?? 'could not parse query'}`, 400);
+  }
+  return evaluateJQL(result.ast, issues) as T[];
+}
+
+/**
+ * The token for the page starting at `startAt`. Tokens are just the offset,
+ * but opaque to clients, like Jira's nextPageToken.
+ */
+export function encodePageToken(startAt: number): string {
+  return Buffer.from(String(startAt)).toString('base64url');
+}
+
+/**
+ * The offset a page token stands for; throws for tokens we didn't issue
+ */
+export function decodePageToken(token: string): number {
+  const startAt = Number(Buffer.from(token, 'base64url').toString());
+  if (!token || !Number.isInteger(startAt) || startAt < 0) {
+    throw new IssueOperationError('Invalid nextPageToken', 400);
+  }
+  return startAt;
+}
+
+function isNonNegativeInteger(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) >= 0;
+}
+
+/**
+ * Check and default the pagination options. Takes raw input too (e.g.,
+ * MCP tool arguments); throws IssueOperationError (400) for anything but
+ * non-negative integers, and caps maxResults at MAX_PAGE_SIZE.
+ */
+export function pageBounds(options: { startAt?: unknown; maxResults?: unknown }): { startAt: number; maxResults: number } {
+  const startAt = options.startAt ?? 0;
+  const maxResults = options.maxResults ?? DEFAULT_MAX_RESULTS;
+  if (!isNonNegativeInteger(startAt)) {
+    throw new IssueOperationError('startAt must be a non-negative integer', 400);
+  }
+  if (!isNonNegativeInteger(maxResults)) {
+    throw new IssueOperationError('maxResults must be a non-negative integer', 400);
+  }
+  return { startAt, maxResults: Math.min(maxResults, MAX_PAGE_SIZE) };
+}
+
+/**
+ * pageBounds for query parameters, where numbers come as strings (an
+ * empty parameter counts as missing)
+ */
+export function queryPageBounds(input: { startAt?: unknown; maxResults?: unknown }): { startAt: number; maxResults: number } {
+  const number = (value: unknown) => (value === '' ? undefined : typeof value === 'string' ? Number(value) : value);
+  return pageBounds({ startAt: number(input.startAt), maxResults: number(input.maxResults) });
+}
+
+/**
+ * Keep only the requested fields of an issue
+ */
+function selectFields(issue: Issue, fields: string[]): Partial<Issue> {
+  const selected: Record<string, unknown> = {};
+  for (const field of [...IDENTITY_FIELDS, ...fields]) {
+    if (field in issue) {
+      selected[field] = issue[field as keyof Issue];
+    }
+  }
+  return selected as Partial<Issue>;
+}
+
+/**
+ * Run a JQL search and return one page of results
+ */
+export function searchIssues(issues: Issue[], options: SearchOptions): SearchPage<Partial<Issue>> {
+  const { startAt, maxResults } = pageBounds(options);
+  const matches = findIssuesByJQL(issues, options.jql);
+  const page = matches.slice(startAt, startAt + maxResults);
+
+  return {
+    issues: options.fields ? page.map(issue => selectFields(issue, options.fields!)) : page,
+    total: matches.length,
+    startAt,
+    maxResults,
+  };
+}
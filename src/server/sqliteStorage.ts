@@ -0,0 +1,172 @@
+/**
+ * SQLite Storage - Storage backend on Node's built-in SQLite (node:sqlite)
+ *
+ * All resources share one table of JSON documents keyed by resource and
+ * ID, with a position column to keep records in insertion order. Only
+ * the records that change are written, so saves stay fast as the data
+ * grows. The database runs in WAL mode; write transactions start with
+ * BEGIN IMMEDIATE, so the web server and the MCP server take turns.
+ *
+ * node:sqlite is available without flags from Node.js 22.13 (the minimum in
+ * package.json). It is only loaded when this backend is selected, so older
+ * Node versions fail with a clear message instead of at startup.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { createRequire } from 'module';
+import type { DatabaseSync, StatementSync } from 'node:sqlite';
+import type { DataStorage, StorageResource, StoredRecord } from './storage.js';
+
+// How long a writer waits for another process's transaction to finish
+const BUSY_TIMEOUT_MS = 5000;
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS records (
+    resource TEXT NOT NULL,
+    id TEXT NOT NULL,
+    position INTEGER NOT NULL,
+    data TEXT NOT NULL,
+    PRIMARY KEY (resource, id)
+  );
+  CREATE INDEX IF NOT EXISTS records_by_position ON records (resource, position);
+`;
+
+/**
+ * Load node:sqlite, explaining what to do on older Node versions
+ */
+function loadSqlite(): typeof import('node:sqlite') {
+  try {
+    return createRequire(import.meta.url)('node:sqlite');
+  } catch {
+    throw new Error(
+      `SQLite storage needs Node.js 22.13 or newer (running ${process.version}). ` +
+      'Upgrade Node or set STORAGE_BACKEND=json.'
+    );
+  }
+}
+
+export class SqliteStorage implements DataStorage {
+  readonly kind = 'sqlite' as const;
+  readonly dataDir: string;
+  readonly location: string;
+
+  private db: DatabaseSync;
+  private depth = 0;
+  private statements: {
+    read: StatementSync;
+    get: StatementSync;
+    upsert: StatementSync;
+    delete: StatementSync;
+  };
+
+  constructor(dataDir: string, databasePath: string) {
+    const { DatabaseSync } = loadSqlite();
+    fs.mkdirSync(path.dirname(databasePath), { recursive: true });
+
+    this.dataDir = dataDir;
+    this.location = databasePath;
+    this.db = new DatabaseSync(databasePath);
+    this.db.exec(`PRAGMA journal_mode = WAL; PRAGMA busy_timeout = ${BUSY_TIMEOUT_MS};`);
+    this.db.exec(SCHEMA);
+
+    this.statements = {
+      read: this.db.prepare('SELECT data FROM records WHERE resource = ? ORDER BY position'),
+      get: this.db.prepare('SELECT data FROM records WHERE resource = ? AND id = ?'),
+      upsert: this.db.prepare(`
+        INSERT INTO records (resource, id, position, data)
+        VALUES (?, ?, (SELECT COALESCE(MAX(position), 0) + 1 FROM records WHERE resource = ?), ?)
+        ON CONFLICT (resource, id) DO UPDATE SET data = excluded.data
+      `),
+      delete: this.db.prepare('DELETE FROM records WHERE resource = ? AND id = ?'),
+    };
+  }
+
+  read<T = StoredRecord>(resource: StorageResource): T[] {
+    return this.statements.read.all(resource).map(row => JSON.parse(row.data as string) as T);
+  }
+
+  query<T = StoredRecord>(resource: StorageResource, where: Record<string, unknown>): T[] {
+    const conditions: string[] = [];
+    const params: Array<string | number | null> = [resource];
+
+    for (const [field, value] of Object.entries(where)) {
+      // Field names go into a JSON path, so only allow plain identifiers
+      if (!/^\w+$/.test(field)) {
+        throw new Error(`Invalid query field: ${field}`);
+      }
+      if (value === null || value === undefined) {
+        conditions.push(`json_extract(data, '$.${field}') IS NULL`);
+      } else if (typeof value === 'boolean') {
+        conditions.push(`json_extract(data, '$.${field}') = ?`);
+        params.push(value ? 1 : 0);
+      } else if (typeof value === 'string' || typeof value === 'number') {
+        conditions.push(`json_extract(data, '$.${field}') = ?`);
+        params.push(value);
+      } else {
+        throw new Error(`Unsupported query value for ${field}`);
+      }
+    }
+
+    const sql = `SELECT data FROM records WHERE resource = ?${conditions.map(c => ` AND ${c}`).join('')} ORDER BY position`;
+    return this.db.prepare(sql).all(...params).map(row => JSON.parse(row.data as string) as T);
+  }
+
+  get<T = StoredRecord>(resource: StorageResource, id: string): T | undefined {
+    const row = this.statements.get.get(resource, id);
+    return row ? JSON.parse(row.data as string) as T : undefined;
+  }
+
+  upsert(resource: StorageResource, records: StoredRecord[]): void {
+    if (records.length === 0) return;
+
+    this.transaction(() => {
+      for (const record of records) {
+        this.statements.upsert.run(resource, record.id, resource, JSON.stringify(record));
+      }
+    });
+  }
+
+  append(resource: StorageResource, records: StoredRecord[]): void {
+    // Inserts only touch their own rows already
+    this.upsert(resource, records);
+  }
+
+  delete(resource: StorageResource, ids: string[]): void {
+    if (ids.length === 0) return;
+
+    this.transaction(() => {
+      for (const id of ids) {
+        this.statements.delete.run(resource, id);
+      }
+    });
+  }
+
+  transaction<T>(fn: () => T): T {
+    if (this.depth > 0) {
+      this.depth++;
+      try {
+        return fn();
+      } finally {
+        this.depth--;
+      }
+    }
+
+    this.db.exec('BEGIN IMMEDIATE');
+    this.depth = 1;
+    try {
+      const result = fn();
+      this.db.exec('COMMIT');
+      return result;
+    } catch (error) {
+      this.db.exec('ROLLBACK');
+      throw error;
+    } finally {
+      this.depth = 0;
+    }
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
@@ -0,0 +1,154 @@
+/**
+ * Storage - Pluggable persistence for the data records
+ *
+ * The Express server and the MCP server read and write records through a
+ * DataStorage backend instead of touching files directly:
+ * - json (default): one JSON array per resource in the data directory,
+ *   human-readable and hand-editable, and the changelog as JSON Lines
+ *   (see jsonStorage.ts)
+ * - sqlite: a single database file using Node's built-in SQLite, which
+ *   only writes the records that changed (see sqliteStorage.ts)
+ *
+ * The backend is chosen with environment variables:
+ * - STORAGE_BACKEND: "json" or "sqlite" (default "json")
+ * - SQLITE_PATH: database file (default "<data directory>/jira.sqlite")
+ *
+ * Validation, revisions, backups and the changelog sit on top of the
+ * backend (see dataFiles.ts), so they behave the same with either one.
+ * `npm run storage:migrate` copies data between backends.
+ */
+
+import * as path from 'path';
+import { JsonStorage } from './jsonStorage.js';
+import { SqliteStorage } from './sqliteStorage.js';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** Everything the backends store, one collection per resource */
+export const STORAGE_RESOURCES = [
+  'projects',
+  'issues',
+  'sprints',
+  'users',
+  'structures',
+  'comments',
+  'history',
+  'tokens',
+  'webhooks',
+  'webhookDeliveries',
+] as const;
+
+export type StorageResource = typeof STORAGE_RESOURCES[number];
+
+export type StorageKind = 'json' | 'sqlite';
+
+/** Generic record shape shared by all resources */
+export type StoredRecord = { id: string } & Record<string, unknown>;
+
+/**
+ * A persistence backend.
+ * All methods are synchronous; writes outside a transaction commit
+ * immediately, writes inside one commit together when it ends.
+ */
+export interface DataStorage {
+  readonly kind: StorageKind;
+  /** Directory for backups and the lock file */
+  readonly dataDir: string;
+  /** Where the records live (the data directory or the database file) */
+  readonly location: string;
+
+  /** All records of a resource, in stored order */
+  read<T = StoredRecord>(resource: StorageResource): T[];
+  /** Records whose top-level fields equal all the given values */
+  query<T = StoredRecord>(resource: StorageResource, where: Record<string, unknown>): T[];
+  /** One record by ID */
+  get<T = StoredRecord>(resource: StorageResource, id: string): T | undefined;
+  /** Insert records, or replace existing ones with the same ID in place */
+  upsert(resource: StorageResource, records: StoredRecord[]): void;
+  /**
+   * Add records with new IDs at the end, without rewriting the existing
+   * ones (for resources that only grow, like the changelog)
+   */
+  append(resource: StorageResource, records: StoredRecord[]): void;
+  /** Delete records by ID (missing IDs are ignored) */
+  delete(resource: StorageResource, ids: string[]): void;
+  /**
+   * Run a function with exclusive write access. Its writes commit
+   * together, or not at all if it throws. Transactions may nest.
+   */
+  transaction<T>(fn: () => T): T;
+  /** Release the backend's resources */
+  close(): void;
+}
+
+export interface StorageOptions {
+  kind?: StorageKind;
+  /** Database file for the sqlite backend */
+  sqlitePath?: string;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Check whether a record matches a query
+ */
+export function matchesWhere(record: StoredRecord, where: Record<string, unknown>): boolean {
+  return Object.entries(where).every(([field, value]) => (record[field] ?? null) === value);
+}
+
+/**
+ * Make a resource hold exactly the given records, in order.
+ * Only records that changed are written, unless the order changed: upserts
+ * keep existing records in place, so a reorder rewrites the resource.
+ */
+export function replaceRecords(storage: DataStorage, resource: StorageResource, records: StoredRecord[]): void {
+  storage.transaction(() => {
+    const current = storage.read(resource);
+    const keep = new Set(records.map(r => r.id));
+    const currentById = new Map(current.map(r => [r.id, JSON.stringify(r)]));
+
+    // The order upserts would leave: kept records in place, new ones appended
+    const keptIds = current.filter(r => keep.has(r.id)).map(r => r.id);
+    const upsertOrder = [...keptIds, ...records.filter(r => !currentById.has(r.id)).map(r => r.id)];
+    if (upsertOrder.some((id, index) => id !== records[index]?.id)) {
+      storage.delete(resource, current.map(r => r.id));
+      storage.upsert(resource, records);
+      return;
+    }
+
+    storage.delete(resource, current.filter(r => !keep.has(r.id)).map(r => r.id));
+    storage.upsert(resource, records.filter(r => currentById.get(r.id) !== JSON.stringify(r)));
+  });
+}
+
+// ============================================================================
+// FACTORY
+// ============================================================================
+
+/**
+ * Read the backend choice from the environment
+ */
+export function storageOptionsFromEnv(): StorageOptions {
+  const kind = process.env.STORAGE_BACKEND;
+  if (kind && kind !== 'json' && kind !== 'sqlite') {
+    throw new Error(`Unknown STORAGE_BACKEND "${kind}". Use "json" or "sqlite".`);
+  }
+  return {
+    kind: kind as StorageKind | undefined,
+    sqlitePath: process.env.SQLITE_PATH,
+  };
+}
+
+/**
+ * Open the storage backend for a data directory
+ */
+export function openStorage(dataDir: string, options: StorageOptions = storageOptionsFromEnv()): DataStorage {
+  if (options.kind === 'sqlite') {
+    return new SqliteStorage(dataDir, options.sqlitePath ?? path.join(dataDir, 'jira.sqlite'));
+  }
+  return new JsonStorage(dataDir);
+}
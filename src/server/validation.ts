@@ -0,0 +1,342 @@
+/**
+ * Validation - Schema and referential-integrity checks for data writes
+ *
+ * Every write to a data file is checked before it reaches disk:
+ * - Shape: each record must match the zod schema derived from src/types
+ * - References: the invariants scripts/validate-data.ts checks (parent and
+ *   child links agree, blocks/blockedBy and relatedTo are mirrored,
+ *   referenced users, sprints, projects and issues exist), plus comment
+ *   issues and authors
+ *
+ * Only reference problems introduced by the write are rejected, so a data
+ * directory that was already inconsistent (e.g., hand-edited) can still be
+ * repaired one write at a time.
+ */
+
+import * as path from 'path';
+import { z } from 'zod';
+import {
+  IssueType,
+  IssueStatus,
+  Priority,
+  SprintStatus,
+} from '../types/index.js';
+import type {
+  User,
+  Project,
+  Sprint,
+  Issue,
+  Structure,
+  Comment,
+  DataValidationIssue,
+} from '../types/index.js';
+
+// ============================================================================
+// SCHEMAS
+// ============================================================================
+
+const isoDate = z.string().refine(value => !Number.isNaN(Date.parse(value)), 'Invalid date');
+const revision = z.number().int().positive().optional();
+
+const userSchema: z.ZodType<User> = z.object({
+  id: z.string().min(1),
+  displayName: z.string().min(1),
+  email: z.string(),
+  avatarUrl: z.string().optional(),
+  revision,
+});
+
+const projectSchema: z.ZodType<Project> = z.object({
+  id: z.string().min(1),
+  key: z.string().regex(/^[A-Z][A-Z0-9]*$/, 'Project key must be uppercase letters and digits'),
+  name: z.string().min(1),
+  description: z.string(),
+  lead: z.string(),
+  createdAt: isoDate,
+  revision,
+});
+
+const sprintSchema: z.ZodType<Sprint> = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  projectId: z.string().min(1),
+  startDate: isoDate,
+  endDate: isoDate,
+  status: z.enum(SprintStatus),
+  goalDescription: z.string().optional(),
+  revision,
+});
+
+const issueSchema: z.ZodType<Issue> = z.object({
+  id: z.string().min(1),
+  key: z.string().regex(/^[A-Z][A-Z0-9]*-\d+$/, 'Issue key must look like PROJ-123'),
+  title: z.string().min(1),
+  description: z.string(),
+  type: z.enum(IssueType),
+  status: z.enum(IssueStatus),
+  priority: z.enum(Priority),
+  assignee: z.string().nullable(),
+  reporter: z.string(),
+  labels: z.array(z.string()),
+  createdAt: isoDate,
+  updatedAt: isoDate,
+  storyPoints: z.number().nonnegative().nullable(),
+  sprint: z.string().nullable(),
+  version: z.string().nullable(),
+  components: z.array(z.string()),
+  dueDate: isoDate.nullable(),
+  startDate: isoDate.nullable(),
+  originalEstimate: z.number().nonnegative().nullable(),
+  timeSpent: z.number().nonnegative().nullable(),
+  remainingEstimate: z.number().nonnegative().nullable(),
+  parentId: z.string().nullable(),
+  childIds: z.array(z.string()),
+  blockedBy: z.array(z.string()),
+  blocks: z.array(z.string()),
+  relatedTo: z.array(z.string()),
+  revision,
+});
+
+const structureSchema: z.ZodType<Structure> = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  projectId: z.string().min(1),
+  rootIssueIds: z.array(z.string()),
+  revision,
+});
+
+const commentSchema: z.ZodType<Comment> = z.object({
+  id: z.string().min(1),
+  issueId: z.string().min(1),
+  author: z.string().min(1),
+  body: z.string().trim().min(1, 'Comment body must not be empty'),
+  createdAt: isoDate,
+  updatedAt: isoDate,
+  revision,
+});
+
+/** Schemas for the data files that are validated, by resource name */
+export const RESOURCE_SCHEMAS = {
+  users: userSchema,
+  projects: projectSchema,
+  sprints: sprintSchema,
+  issues: issueSchema,
+  structures: structureSchema,
+  comments: commentSchema,
+} as const;
+
+type ValidatedResource = keyof typeof RESOURCE_SCHEMAS;
+
+/** The set of data files checked against each other for references */
+export interface DataSet {
+  users: User[];
+  projects: Project[];
+  sprints: Sprint[];
+  issues: Issue[];
+  structures: Structure[];
+  comments: Comment[];
+}
+
+// ============================================================================
+// ERRORS
+// ============================================================================
+
+/**
+ * Thrown when a write would store invalid data (HTTP 422)
+ */
+export class DataValidationError extends Error {
+  readonly status = 422;
+
+  constructor(
+    message: string,
+    public readonly issues: DataValidationIssue[]
+  ) {
+    super(message);
+    this.name = 'DataValidationError';
+  }
+}
+
+// ============================================================================
+// SHAPE VALIDATION
+// ============================================================================
+
+/**
+ * Map a data file name (e.g., "issues.json") to a validated resource
+ */
+export function getValidatedResource(fileName: string): ValidatedResource | null {
+  const resource = path.basename(fileName, '.json');
+  return resource in RESOURCE_SCHEMAS ? (resource as ValidatedResource) : null;
+}
+
+/**
+ * Check the shape of every record in a data file
+ */
+export function validateShape(resource: ValidatedResource, data: unknown): DataValidationIssue[] {
+  if (!Array.isArray(data)) {
+    return [{ resource, message: `${resource} must be an array` }];
+  }
+
+  const schema = RESOURCE_SCHEMAS[resource];
+  const issues: DataValidationIssue[] = [];
+  const seenIds = new Set<string>();
+
+  data.forEach((record, index) => {
+    const id = typeof record?.id === 'string' ? record.id : undefined;
+    const result = schema.safeParse(record);
+    if (!result.success) {
+      for (const issue of result.error.issues) {
+        issues.push({
+          resource,
+          id: id ?? `#${index}`,
+          field: issue.path.join('.') || undefined,
+          message: issue.message,
+        });
+      }
+    }
+    if (id) {
+      if (seenIds.has(id)) {
+        issues.push({ resource, id, field: 'id', message: `Duplicate id "${id}"` });
+      }
+      seenIds.add(id);
+    }
+  });
+
+  return issues;
+}
+
+// ============================================================================
+// REFERENTIAL INTEGRITY
+// ============================================================================
+
+/**
+ * Check the references between records across all data files
+ */
+export function validateReferences(data: DataSet): DataValidationIssue[] {
+  const issues: DataValidationIssue[] = [];
+  const issueById = new Map(data.issues.map(i => [i.id, i]));
+  const userIds = new Set(data.users.map(u => u.id));
+  const sprintIds = new Set(data.sprints.map(s => s.id));
+  const projectIds = new Set(data.projects.map(p => p.id));
+
+  const report = (resource: ValidatedResource, id: string, field: string, message: string) => {
+    issues.push({ resource, id, field, message });
+  };
+
+  for (const issue of data.issues) {
+    // Hierarchy must agree in both directions
+    if (issue.parentId) {
+      const parent = issueById.get(issue.parentId);
+      if (!parent) {
+        report('issues', issue.id, 'parentId', `${issue.key}: parent "${issue.parentId}" does not exist`);
+      } else if (!parent.childIds.includes(issue.id)) {
+        report('issues', issue.id, 'parentId', `${issue.key}: parent ${parent.key} doesn't list it in childIds`);
+      }
+    }
+    for (const childId of issue.childIds) {
+      const child = issueById.get(childId);
+      if (!child) {
+        report('issues', issue.id, 'childIds', `${issue.key}: child "${childId}" does not exist`);
+      } else if (child.parentId !== issue.id) {
+        report('issues', issue.id, 'childIds', `${issue.key}: child ${child.key} has a different parent`);
+      }
+    }
+
+    // Block links must be mirrored
+    for (const blockedId of issue.blocks) {
+      const blocked = issueById.get(blockedId);
+      if (!blocked) {
+        report('issues', issue.id, 'blocks', `${issue.key}: blocked issue "${blockedId}" does not exist`);
+      } else if (!blocked.blockedBy.includes(issue.id)) {
+        report('issues', issue.id, 'blocks', `${issue.key}: blocks ${blocked.key}, but ${blocked.key} doesn't list it in blockedBy`);
+      }
+    }
+    for (const blockerId of issue.blockedBy) {
+      const blocker = issueById.get(blockerId);
+      if (!blocker) {
+        report('issues', issue.id, 'blockedBy', `${issue.key}: blocker "${blockerId}" does not exist`);
+      } else if (!blocker.blocks.includes(issue.id)) {
+        report('issues', issue.id, 'blockedBy', `${issue.key}: blocked by ${blocker.key}, but ${blocker.key} doesn't list it in blocks`);
+      }
+    }
+    for (const relatedId of issue.relatedTo) {
+      const related = issueById.get(relatedId);
+      if (!related) {
+        report('issues', issue.id, 'relatedTo', `${issue.key}: related issue "${relatedId}" does not exist`);
+      } else if (!related.relatedTo.includes(issue.id)) {
+        report('issues', issue.id, 'relatedTo', `${issue.key}: relates to ${related.key}, but ${related.key} doesn't list it in relatedTo`);
+      }
+    }
+
+    // People and sprint must exist
+    if (issue.assignee && !userIds.has(issue.assignee)) {
+      report('issues', issue.id, 'assignee', `${issue.key}: assignee "${issue.assignee}" does not exist`);
+    }
+    if (issue.reporter && !userIds.has(issue.reporter)) {
+      report('issues', issue.id, 'reporter', `${issue.key}: reporter "${issue.reporter}" does not exist`);
+    }
+    if (issue.sprint && !sprintIds.has(issue.sprint)) {
+      report('issues', issue.id, 'sprint', `${issue.key}: sprint "${issue.sprint}" does not exist`);
+    }
+  }
+
+  for (const sprint of data.sprints) {
+    if (!projectIds.has(sprint.projectId)) {
+      report('sprints', sprint.id, 'projectId', `Sprint "${sprint.name}": project "${sprint.projectId}" does not exist`);
+    }
+  }
+
+  for (const project of data.projects) {
+    if (project.lead && !userIds.has(project.lead)) {
+      report('projects', project.id, 'lead', `Project "${project.name}": lead "${project.lead}" does not exist`);
+    }
+  }
+
+  for (const structure of data.structures) {
+    if (!projectIds.has(structure.projectId)) {
+      report('structures', structure.id, 'projectId', `Structure "${structure.name}": project "${structure.projectId}" does not exist`);
+    }
+    for (const issueId of structure.rootIssueIds) {
+      if (!issueById.has(issueId)) {
+        report('structures', structure.id, 'rootIssueIds', `Structure "${structure.name}": root issue "${issueId}" does not exist`);
+      }
+    }
+  }
+
+  for (const comment of data.comments) {
+    if (!issueById.has(comment.issueId)) {
+      report('comments', comment.id, 'issueId', `Comment ${comment.id}: issue "${comment.issueId}" does not exist`);
+    }
+    if (!userIds.has(comment.author)) {
+      report('comments', comment.id, 'author', `Comment ${comment.id}: author "${comment.author}" does not exist`);
+    }
+  }
+
+  return issues;
+}
+
+// ============================================================================
+// WRITE VALIDATION
+// ============================================================================
+
+/**
+ * Validate a write of one data file against the rest of the data set.
+ * `current` is the data set as on disk; throws DataValidationError if the
+ * new content is malformed or introduces broken references.
+ */
+export function validateWrite(fileName: string, data: unknown, current: DataSet): void {
+  const resource = getValidatedResource(fileName);
+  if (!resource) return;
+
+  const shapeIssues = validateShape(resource, data);
+  if (shapeIssues.length > 0) {
+    throw new DataValidationError(`Invalid ${resource}: ${shapeIssues[0].message}`, shapeIssues);
+  }
+
+  const existing = new Set(validateReferences(current).map(issue => issue.message));
+  const introduced = validateReferences({ ...current, [resource]: data }).filter(
+    issue => !existing.has(issue.message)
+  );
+  if (introduced.length > 0) {
+    throw new DataValidationError(`Broken references: ${introduced[0].message}`, introduced);
+  }
+}
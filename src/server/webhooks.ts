@@ -0,0 +1,501 @@
+/**
+ * Webhooks - Outgoing Jira-style webhooks on issue, comment and sprint events
+ *
+ * Registrations live in the "webhooks" resource of the workspace: a URL, the
+ * events to send (Jira Cloud's names, e.g. `jira:issue_updated` or
+ * `sprint_started`) and an optional JQL filter for issue and comment events.
+ *
+ * Events come from the change feed, so writes from the web app, the REST
+ * APIs and (while this server runs) the MCP server and hand edits all fire.
+ * Each event becomes a delivery in the "webhookDeliveries" resource, POSTed
+ * with a Jira-shaped payload and retried with exponential backoff until the
+ * receiver answers 2xx. The newest deliveries are kept as a log.
+ */
+
+import type { Comment, DataChangeEvent, Issue, Sprint, User, Webhook, WebhookDelivery } from '../types/index.js';
+import { SprintStatus, WebhookEvent } from '../types/index.js';
+import { IssueOperationError } from '../domain/index.js';
+import { findIssuesByJQL } from './search.js';
+import { diffIssueFields, readChangelog } from './history.js';
+import { formatIssueForAPI, formatSprintForAPI, formatChangelogItem } from './jiraFormat.js';
+import { onRecordChange } from './changeFeed.js';
+import { getWriteContext } from './writeContext.js';
+import type { DataStorage, StoredRecord } from './storage.js';
+
+// Attempts per delivery, including the first
+const MAX_ATTEMPTS = Number(process.env.WEBHOOK_MAX_ATTEMPTS) || 5;
+
+// Wait before the first retry; doubles with every further attempt
+const RETRY_BASE_MS = (Number(process.env.WEBHOOK_RETRY_SECONDS) || 10) * 1000;
+
+// Receivers that don't answer in time count as failed
+const REQUEST_TIMEOUT_MS = 10000;
+
+// Deliveries kept in the log (pending ones are never dropped)
+const MAX_DELIVERIES = 200;
+
+const MAX_NAME_LENGTH = 100;
+
+/** Fields a webhook is created or updated from */
+export interface WebhookInput {
+  name?: unknown;
+  url?: unknown;
+  events?: unknown;
+  jqlFilter?: unknown;
+  enabled?: unknown;
+}
+
+// Storage being served and the retries scheduled against it
+let currentStorage: DataStorage | null = null;
+const timers = new Map<string, NodeJS.Timeout>();
+
+// ============================================================================
+// REGISTRATIONS
+// ============================================================================
+
+function generateId(prefix: string): string {
+  return `${prefix}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+}
+
+function requireWebhook(storage: DataStorage, id: string): Webhook {
+  const webhook = storage.get<Webhook>('webhooks', id);
+  if (!webhook) {
+    throw new IssueOperationError(`Webhook not found: ${id}`, 404);
+  }
+  return webhook;
+}
+
+/**
+ * Apply input fields to a webhook, validating each one given
+ */
+function applyWebhookInput(webhook: Webhook, input: WebhookInput): Webhook {
+  const result = { ...webhook };
+
+  if (input.name !== undefined) {
+    const name = typeof input.name === 'string' ? input.name.trim() : '';
+    if (!name || name.length > MAX_NAME_LENGTH) {
+      throw new IssueOperationError(`Webhook name is required (at most ${MAX_NAME_LENGTH} characters)`);
+    }
+    result.name = name;
+  }
+
+  if (input.url !== undefined) {
+    let url: URL | null = null;
+    try {
+      url = new URL(String(input.url).trim());
+    } catch {
+      // Reported below
+    }
+    if (!url || (url.protocol !== 'http:' && url.protocol !== 'https:')) {
+      throw new IssueOperationError(`Invalid webhook URL: ${String(input.url)}. Use an http(s) URL.`);
+    }
+    result.url = url.toString();
+  }
+
+  if (input.events !== undefined) {
+    const valid = Object.values(WebhookEvent);
+    const events = Array.isArray(input.events) ? input.events.map(String) : [];
+    const invalid = events.filter(e => !valid.includes(e as WebhookEvent));
+    if (events.length === 0 || invalid.length > 0) {
+      throw new IssueOperationError(
+        `${invalid.length > 0 ? `Invalid events: ${invalid.join(', ')}` : 'Pick at least one event'}. Valid events: ${valid.join(', ')}`
+      );
+    }
+    result.events = [...new Set(events)] as WebhookEvent[];
+  }
+
+  if (input.jqlFilter !== undefined) {
+    const jql = typeof input.jqlFilter === 'string' ? input.jqlFilter.trim() : '';
+    if (jql) {
+      // Parse it now so a typo is reported when saving, not on every event
+      findIssuesByJQL([], jql);
+    }
+    result.jqlFilter = jql || null;
+  }
+
+  if (input.enabled !== undefined) {
+    result.enabled = Boolean(input.enabled);
+  }
+
+  return result;
+}
+
+/**
+ * All registered webhooks, oldest first
+ */
+export function listWebhooks(storage: DataStorage): Webhook[] {
+  return storage.read<Webhook>('webhooks');
+}
+
+/**
+ * Register a webhook ({ name, url, events, jqlFilter?, enabled? })
+ */
+export function createWebhook(storage: DataStorage, input: WebhookInput): Webhook {
+  const webhook = applyWebhookInput({
+    id: generateId('webhook'),
+    name: '',
+    url: '',
+    events: [],
+    jqlFilter: null,
+    enabled: true,
+    createdAt: new Date().toISOString(),
+  }, { ...input, name: input.name ?? '', url: input.url ?? '', events: input.events ?? [] });
+
+  storage.upsert('webhooks', [webhook as unknown as StoredRecord]);
+  return webhook;
+}
+
+/**
+ * Change some fields of a webhook
+ */
+export function updateWebhook(storage: DataStorage, id: string, input: WebhookInput): Webhook {
+  return storage.transaction(() => {
+    const webhook = applyWebhookInput(requireWebhook(storage, id), input);
+    storage.upsert('webhooks', [webhook as unknown as StoredRecord]);
+    return webhook;
+  });
+}
+
+/**
+ * Remove a webhook along with its deliveries, cancelling pending retries
+ */
+export function deleteWebhook(storage: DataStorage, id: string): Webhook {
+  return storage.transaction(() => {
+    const webhook = requireWebhook(storage, id);
+    const deliveryIds = storage.query<WebhookDelivery>('webhookDeliveries', { webhookId: id }).map(d => d.id);
+    for (const deliveryId of deliveryIds) {
+      clearTimeout(timers.get(deliveryId));
+      timers.delete(deliveryId);
+    }
+    storage.delete('webhookDeliveries', deliveryIds);
+    storage.delete('webhooks', [id]);
+    return webhook;
+  });
+}
+
+// ============================================================================
+// PAYLOADS
+// ============================================================================
+
+/**
+ * The webhook event for a record change, or null if webhooks don't cover it
+ */
+function webhookEventFor(event: DataChangeEvent, previous: StoredRecord | null): WebhookEvent | null {
+  switch (event.resource) {
+    case 'issues':
+      return {
+        created: WebhookEvent.IssueCreated,
+        updated: WebhookEvent.IssueUpdated,
+        deleted: WebhookEvent.IssueDeleted,
+      }[event.action];
+    case 'comments':
+      return {
+        created: WebhookEvent.CommentCreated,
+        updated: WebhookEvent.CommentUpdated,
+        deleted: WebhookEvent.CommentDeleted,
+      }[event.action];
+    case 'sprints': {
+      if (event.action === 'created') return WebhookEvent.SprintCreated;
+      if (event.action === 'deleted') return WebhookEvent.SprintDeleted;
+      const status = event.record?.status;
+      if (status !== previous?.status && status === SprintStatus.Active) return WebhookEvent.SprintStarted;
+      if (status !== previous?.status && status === SprintStatus.Completed) return WebhookEvent.SprintClosed;
+      return WebhookEvent.SprintUpdated;
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Who made the change: the user of the write, or for issue changes picked
+ * up from other processes, the author of the issue's latest changelog entry
+ */
+function eventUser(storage: DataStorage, userId: string | null, issueId: string | null): Record<string, unknown> | undefined {
+  const id = userId ?? (issueId ? readChangelog(storage, issueId)[0]?.author.userId : null);
+  const user = id ? storage.get<User>('users', id) : undefined;
+  return user ? { accountId: user.id, displayName: user.displayName, emailAddress: user.email } : undefined;
+}
+
+/**
+ * The issue an event is about (the issue itself, or a comment's issue)
+ */
+function eventIssue(storage: DataStorage, event: DataChangeEvent, previous: StoredRecord | null): Issue | null {
+  const record = event.record ?? previous;
+  if (event.resource === 'issues') return record as unknown as Issue;
+  if (event.resource === 'comments') {
+    return storage.get<Issue>('issues', (record as unknown as Comment).issueId) ?? null;
+  }
+  return null;
+}
+
+/**
+ * Build the JSON body Jira Cloud would send for an event
+ */
+function buildPayload(
+  storage: DataStorage,
+  webhookEvent: WebhookEvent,
+  event: DataChangeEvent,
+  previous: StoredRecord | null,
+  issue: Issue | null,
+  userId: string | null
+): Record<string, unknown> {
+  const payload: Record<string, unknown> = {
+    timestamp: Date.parse(event.timestamp),
+    webhookEvent,
+  };
+
+  if (event.resource === 'sprints') {
+    payload.sprint = formatSprintForAPI((event.record ?? previous) as unknown as Sprint);
+    if (event.action === 'updated' && previous) {
+      payload.oldValue = formatSprintForAPI(previous as unknown as Sprint);
+    }
+    return payload;
+  }
+
+  payload.user = eventUser(storage, userId, issue?.id ?? null);
+
+  if (event.resource === 'comments') {
+    const comment = (event.record ?? previous) as unknown as Comment;
+    payload.comment = {
+      id: comment.id,
+      author: { accountId: comment.author },
+      body: comment.body,
+      created: comment.createdAt,
+      updated: comment.updatedAt,
+    };
+    payload.issue = issue ? formatIssueForAPI(issue) : { id: comment.issueId };
+    return payload;
+  }
+
+  payload.issue_event_type_name = `issue_${event.action}`;
+  payload.issue = formatIssueForAPI(issue as Issue);
+  if (event.action === 'updated' && previous) {
+    payload.changelog = {
+      id: String(event.seq),
+      items: diffIssueFields(previous as unknown as Issue, issue as Issue).map(formatChangelogItem),
+    };
+  }
+  return payload;
+}
+
+/**
+ * Whether an issue passes a webhook's JQL filter. Sprint events (no issue)
+ * always pass, like in Jira.
+ */
+function matchesFilter(webhook: Webhook, event: DataChangeEvent, issue: Issue | null): boolean {
+  if (!webhook.jqlFilter || event.resource === 'sprints') return true;
+  if (!issue) return false;
+  try {
+    return findIssuesByJQL([issue], webhook.jqlFilter).length > 0;
+  } catch (error) {
+    console.warn(`Webhook ${webhook.name} has an invalid JQL filter:`, (error as Error).message);
+    return false;
+  }
+}
+
+// ============================================================================
+// DELIVERY
+// ============================================================================
+
+/**
+ * Recorded deliveries, newest first, optionally of one webhook
+ */
+export function listDeliveries(storage: DataStorage, webhookId?: string): WebhookDelivery[] {
+  const deliveries = webhookId
+    ? storage.query<WebhookDelivery>('webhookDeliveries', { webhookId })
+    : storage.read<WebhookDelivery>('webhookDeliveries');
+  return deliveries.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * Drop the oldest finished deliveries beyond the log size
+ */
+function trimDeliveries(storage: DataStorage): void {
+  const finished = listDeliveries(storage).filter(d => d.status !== 'pending');
+  const pending = storage.query<WebhookDelivery>('webhookDeliveries', { status: 'pending' }).length;
+  const excess = finished.length + pending - MAX_DELIVERIES;
+  if (excess > 0) {
+    storage.delete('webhookDeliveries', finished.slice(-excess).map(d => d.id));
+  }
+}
+
+/**
+ * Run a delivery's next attempt when it's due
+ */
+function schedule(storage: DataStorage, delivery: WebhookDelivery): void {
+  clearTimeout(timers.get(delivery.id));
+  const delay = delivery.nextAttemptAt ? Math.max(0, Date.parse(delivery.nextAttemptAt) - Date.now()) : 0;
+  const timer = setTimeout(() => {
+    timers.delete(delivery.id);
+    void attemptDelivery(storage, delivery.id);
+  }, delay);
+  // Pending retries don't keep the process alive; they resume on the next start
+  timer.unref();
+  timers.set(delivery.id, timer);
+}
+
+/**
+ * POST a delivery once and record the outcome, scheduling a retry with
+ * exponential backoff if it failed and attempts are left
+ */
+async function attemptDelivery(storage: DataStorage, deliveryId: string): Promise<void> {
+  const delivery = storage.get<WebhookDelivery>('webhookDeliveries', deliveryId);
+  if (!delivery || delivery.status !== 'pending') return;
+
+  const attempts = delivery.attempts + 1;
+  let responseStatus: number | null = null;
+  let error: string | null = null;
+  try {
+    const response = await fetch(delivery.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'jira-structure-webhooks',
+        'X-Atlassian-Webhook-Identifier': delivery.id,
+        'X-Atlassian-Webhook-Retry': String(attempts - 1),
+      },
+      body: JSON.stringify(delivery.payload),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+    responseStatus = response.status;
+    await response.arrayBuffer().catch(() => undefined);
+    if (!response.ok) {
+      error = `Receiver answered HTTP ${response.status}`;
+    }
+  } catch (fetchError) {
+    // fetch reports "fetch failed" and keeps the useful part (e.g., ECONNREFUSED) in the cause
+    const cause = (fetchError as Error & { cause?: Error }).cause;
+    error = cause?.message ?? (fetchError as Error).message;
+  }
+
+  // The workspace was switched meanwhile; it retries when served again
+  if (storage !== currentStorage) return;
+
+  const now = Date.now();
+  const retry = error !== null && attempts < MAX_ATTEMPTS;
+  const updated: WebhookDelivery = {
+    ...delivery,
+    attempts,
+    responseStatus,
+    error,
+    status: error === null ? 'succeeded' : retry ? 'pending' : 'failed',
+    lastAttemptAt: new Date(now).toISOString(),
+    nextAttemptAt: retry ? new Date(now + RETRY_BASE_MS * 2 ** (attempts - 1)).toISOString() : null,
+  };
+  storage.upsert('webhookDeliveries', [updated as unknown as StoredRecord]);
+  if (retry) {
+    schedule(storage, updated);
+  }
+}
+
+/**
+ * Queue deliveries of one change to every webhook that wants it
+ */
+function dispatch(storage: DataStorage, event: DataChangeEvent, previous: StoredRecord | null, userId: string | null): void {
+  const webhookEvent = webhookEventFor(event, previous);
+  if (!webhookEvent) return;
+
+  // A write that only touched bookkeeping fields (updatedAt) isn't an update
+  if (event.resource === 'issues' && event.action === 'updated' && previous &&
+      diffIssueFields(previous as unknown as Issue, event.record as Issue).length === 0) {
+    return;
+  }
+
+  const issue = eventIssue(storage, event, previous);
+  const webhooks = listWebhooks(storage).filter(w =>
+    w.enabled && w.events.includes(webhookEvent) && matchesFilter(w, event, issue)
+  );
+  if (webhooks.length === 0) return;
+
+  const payload = buildPayload(storage, webhookEvent, event, previous, issue, userId);
+  const createdAt = new Date().toISOString();
+  const deliveries: WebhookDelivery[] = webhooks.map(webhook => ({
+    id: generateId('delivery'),
+    webhookId: webhook.id,
+    event: webhookEvent,
+    url: webhook.url,
+    payload,
+    status: 'pending',
+    attempts: 0,
+    responseStatus: null,
+    error: null,
+    createdAt,
+    lastAttemptAt: null,
+    nextAttemptAt: null,
+  }));
+
+  storage.upsert('webhookDeliveries', deliveries as unknown as StoredRecord[]);
+  trimDeliveries(storage);
+  for (const delivery of deliveries) {
+    schedule(storage, delivery);
+  }
+}
+
+/**
+ * Send a delivery again now (e.g., after fixing the receiver), with a
+ * fresh set of attempts
+ */
+export function redeliver(storage: DataStorage, deliveryId: string): WebhookDelivery {
+  const delivery = storage.get<WebhookDelivery>('webhookDeliveries', deliveryId);
+  if (!delivery) {
+    throw new IssueOperationError(`Delivery not found: ${deliveryId}`, 404);
+  }
+  const webhook = requireWebhook(storage, delivery.webhookId);
+
+  const updated: WebhookDelivery = {
+    ...delivery,
+    url: webhook.url,
+    status: 'pending',
+    attempts: 0,
+    error: null,
+    responseStatus: null,
+    nextAttemptAt: null,
+  };
+  storage.upsert('webhookDeliveries', [updated as unknown as StoredRecord]);
+  if (storage === currentStorage) {
+    schedule(storage, updated);
+  }
+  return updated;
+}
+
+// ============================================================================
+// DISPATCHER
+// ============================================================================
+
+/**
+ * Fire webhooks for changes to the given storage and resume pending
+ * deliveries. Returns a function that stops (e.g., before switching
+ * workspaces); unfinished deliveries stay pending in that workspace.
+ */
+export function startWebhooks(storage: DataStorage): () => void {
+  currentStorage = storage;
+  for (const delivery of storage.query<WebhookDelivery>('webhookDeliveries', { status: 'pending' })) {
+    schedule(storage, delivery);
+  }
+
+  const stopListening = onRecordChange((event, previous) => {
+    // Read the user now, while still inside the write's context; the
+    // deliveries are queued after the write has finished
+    const userId = getWriteContext()?.userId ?? null;
+    setImmediate(() => {
+      if (storage !== currentStorage) return;
+      try {
+        dispatch(storage, event, previous, userId);
+      } catch (error) {
+        console.error('Could not queue webhook deliveries:', error);
+      }
+    });
+  });
+
+  return () => {
+    stopListening();
+    for (const timer of timers.values()) {
+      clearTimeout(timer);
+    }
+    timers.clear();
+    if (currentStorage === storage) {
+      currentStorage = null;
+    }
+  };
+}
@@ -0,0 +1,250 @@
+/**
+ * Workspaces - Named, separate data sets
+ *
+ * Each workspace is its own data directory, so a training sandbox can sit
+ * next to real planning data without running two servers. The main data
+ * directory is the "default" workspace; the others live in
+ * `data/.workspaces/<id>/` and are listed in `data/.workspaces/registry.json`
+ * together with the workspace the web server is serving.
+ *
+ * Every workspace uses the configured storage backend (see storage.ts) and
+ * keeps its own backups and changelog.
+ *
+ * Environment overrides:
+ * - WORKSPACES_DIR: where workspaces and the registry live
+ *   (default "<data directory>/.workspaces")
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { withDataLock, writeFileAtomic, readJsonIfExists } from './dataFiles.js';
+import { IssueOperationError } from '../domain/index.js';
+import { openStorage, replaceRecords, storageOptionsFromEnv, STORAGE_RESOURCES } from './storage.js';
+import type { DataStorage, StorageResource } from './storage.js';
+import type { Workspace, WorkspaceList, WorkspaceSource } from '../types/index.js';
+
+export const DEFAULT_WORKSPACE_ID = 'default';
+
+const REGISTRY_FILE = 'registry.json';
+const MAX_NAME_LENGTH = 50;
+
+// The pristine sample data shipped with the app, as JSON files; never
+// written to (dev: src/server -> ../../sample-data, production:
+// dist-server/server -> ../../sample-data). The default workspace in data/
+// starts as a copy but is the user's own data.
+const SAMPLE_DATA_DIR = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '../../sample-data');
+
+// What a sample copy contains; the changelog of the sample isn't useful
+const SAMPLE_RESOURCES: StorageResource[] = ['projects', 'issues', 'sprints', 'users', 'structures', 'comments'];
+
+/** Contents of registry.json (the default workspace is implicit) */
+interface WorkspaceRegistry {
+  activeId: string;
+  workspaces: Workspace[];
+}
+
+export interface CreateWorkspaceInput {
+  name: string;
+  source: WorkspaceSource;
+  /** Workspace to copy when duplicating */
+  from?: string;
+}
+
+// ============================================================================
+// REGISTRY
+// ============================================================================
+
+/**
+ * Directory holding the registry and the non-default workspaces
+ */
+export function getWorkspacesDir(dataDir: string): string {
+  return process.env.WORKSPACES_DIR || path.join(dataDir, '.workspaces');
+}
+
+function readRegistry(dataDir: string): WorkspaceRegistry {
+  const stored = readJsonIfExists(path.join(getWorkspacesDir(dataDir), REGISTRY_FILE)) as WorkspaceRegistry | undefined;
+  return {
+    activeId: stored?.activeId ?? DEFAULT_WORKSPACE_ID,
+    workspaces: stored?.workspaces ?? [],
+  };
+}
+
+function writeRegistry(dataDir: string, registry: WorkspaceRegistry): void {
+  const workspacesDir = getWorkspacesDir(dataDir);
+  fs.mkdirSync(workspacesDir, { recursive: true });
+  writeFileAtomic(path.join(workspacesDir, REGISTRY_FILE), JSON.stringify(registry, null, 2));
+}
+
+/**
+ * The main data directory as a workspace
+ */
+function defaultWorkspace(dataDir: string): Workspace {
+  const createdAt = fs.existsSync(dataDir) ? fs.statSync(dataDir).birthtime.toISOString() : new Date().toISOString();
+  return { id: DEFAULT_WORKSPACE_ID, name: 'Default', dataDir, createdAt };
+}
+
+/**
+ * List all workspaces (default first) and the active one
+ */
+export function listWorkspaces(dataDir: string): WorkspaceList {
+  const registry = readRegistry(dataDir);
+  const workspaces = [defaultWorkspace(dataDir), ...registry.workspaces];
+  // Fall back to the default if the active workspace was removed by hand
+  const activeId = workspaces.some(w => w.id === registry.activeId) ? registry.activeId : DEFAULT_WORKSPACE_ID;
+  return { activeId, workspaces };
+}
+
+/**
+ * Find a workspace by ID or (case-insensitive) name
+ */
+export function findWorkspace(dataDir: string, idOrName: string): Workspace | undefined {
+  const { workspaces } = listWorkspaces(dataDir);
+  return workspaces.find(w => w.id === idOrName)
+    ?? workspaces.find(w => w.name.toLowerCase() === idOrName.toLowerCase());
+}
+
+/**
+ * Find a workspace or throw a 404 listing the valid IDs
+ */
+export function requireWorkspace(dataDir: string, idOrName: string): Workspace {
+  const workspace = findWorkspace(dataDir, idOrName);
+  if (!workspace) {
+    const ids = listWorkspaces(dataDir).workspaces.map(w => w.id).join(', ');
+    throw new IssueOperationError(`Workspace not found: ${idOrName}. Available: ${ids}`, 404);
+  }
+  return workspace;
+}
+
+/**
+ * The workspace the web server is serving
+ */
+export function getActiveWorkspace(dataDir: string): Workspace {
+  const { activeId, workspaces } = listWorkspaces(dataDir);
+  return workspaces.find(w => w.id === activeId)!;
+}
+
+/**
+ * Remember which workspace the web server is serving
+ */
+export function setActiveWorkspace(dataDir: string, id: string): Workspace {
+  return withDataLock(dataDir, () => {
+    const workspace = requireWorkspace(dataDir, id);
+    writeRegistry(dataDir, { ...readRegistry(dataDir), activeId: workspace.id });
+    return workspace;
+  });
+}
+
+// ============================================================================
+// STORAGE
+// ============================================================================
+
+/**
+ * Open a workspace's storage with the configured backend.
+ * SQLITE_PATH only applies to the default workspace; the others keep their
+ * database inside their own directory.
+ */
+export function openWorkspaceStorage(workspace: Workspace): DataStorage {
+  const options = storageOptionsFromEnv();
+  return openStorage(workspace.dataDir, {
+    kind: options.kind,
+    sqlitePath: workspace.id === DEFAULT_WORKSPACE_ID ? options.sqlitePath : undefined,
+  });
+}
+
+/**
+ * Write the shipped sample data into a storage, in one transaction. The
+ * sample files are read directly, so the sample directory is never locked
+ * or written.
+ */
+function copySampleData(target: DataStorage): void {
+  target.transaction(() => {
+    for (const resource of SAMPLE_RESOURCES) {
+      const records = readJsonIfExists(path.join(SAMPLE_DATA_DIR, `${resource}.json`));
+      if (!Array.isArray(records)) {
+        throw new Error(`Sample data is missing ${resource}.json in ${SAMPLE_DATA_DIR}`);
+      }
+      replaceRecords(target, resource, records);
+    }
+  });
+}
+
+/**
+ * Copy resources between storages in one transaction, records as they are
+ */
+function copyResources(source: DataStorage, target: DataStorage, resources: readonly StorageResource[]): void {
+  source.transaction(() => {
+    target.transaction(() => {
+      for (const resource of resources) {
+        replaceRecords(target, resource, source.read(resource));
+      }
+    });
+  });
+}
+
+/**
+ * Turn a name into a unique, URL-safe ID
+ */
+function workspaceId(name: string, taken: Set<string>): string {
+  const base = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'workspace';
+  let id = base;
+  for (let n = 2; taken.has(id); n++) {
+    id = `${base}-${n}`;
+  }
+  return id;
+}
+
+/**
+ * Create a workspace with sample data, no data, or a copy of another one
+ */
+export function createWorkspace(dataDir: string, input: CreateWorkspaceInput): Workspace {
+  const name = typeof input.name === 'string' ? input.name.trim() : '';
+  if (!name || name.length > MAX_NAME_LENGTH) {
+    throw new IssueOperationError(`Workspace name is required (at most ${MAX_NAME_LENGTH} characters)`, 400);
+  }
+  if (!['sample', 'empty', 'duplicate'].includes(input.source)) {
+    throw new IssueOperationError('source must be one of: sample, empty, duplicate', 400);
+  }
+
+  return withDataLock(dataDir, () => {
+    const { workspaces } = listWorkspaces(dataDir);
+    if (workspaces.some(w => w.name.toLowerCase() === name.toLowerCase())) {
+      throw new IssueOperationError(`A workspace named "${name}" already exists`, 409);
+    }
+    const original = input.source === 'duplicate'
+      ? requireWorkspace(dataDir, input.from ?? DEFAULT_WORKSPACE_ID)
+      : undefined;
+
+    const id = workspaceId(name, new Set(workspaces.map(w => w.id)));
+    const workspace: Workspace = {
+      id,
+      name,
+      dataDir: path.join(getWorkspacesDir(dataDir), id),
+      createdAt: new Date().toISOString(),
+    };
+    fs.mkdirSync(workspace.dataDir, { recursive: true });
+
+    const target = openWorkspaceStorage(workspace);
+    try {
+      if (input.source === 'sample') {
+        copySampleData(target);
+      } else if (original) {
+        const source = openWorkspaceStorage(original);
+        try {
+          copyResources(source, target, STORAGE_RESOURCES);
+        } finally {
+          source.close();
+        }
+      }
+    } catch (error) {
+      target.close();
+      fs.rmSync(workspace.dataDir, { recursive: true, force: true });
+      throw error;
+    }
+    target.close();
+
+    const registry = readRegistry(dataDir);
+    writeRegistry(dataDir, { ...registry, workspaces: [...registry.workspaces, workspace] });
+    return workspace;
+  });
+}
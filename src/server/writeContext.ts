@@ -0,0 +1,38 @@
+/**
+ * Write Context - Who is making the current data write
+ *
+ * The Express server runs each request, and the MCP server runs each tool
+ * call, inside a write context. Code deep in the write path (the change
+ * feed, the issue changelog) reads it instead of threading the caller
+ * through every helper.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import type { ChangeSource } from '../types/index.js';
+
+export interface WriteContext {
+  /** Where the write came from */
+  source: ChangeSource;
+  /** Browser tab that made the write (X-Client-Id), if any */
+  clientId?: string | null;
+  /** User the write is attributed to, if known */
+  userId?: string | null;
+  /** Tool or action that made the write (e.g., "editJiraIssue") */
+  via?: string | null;
+}
+
+const storage = new AsyncLocalStorage<WriteContext>();
+
+/**
+ * Run a function so that writes it makes are attributed to the context
+ */
+export function runWithWriteContext<T>(context: WriteContext, fn: () => T): T {
+  return storage.run(context, fn);
+}
+
+/**
+ * The context of the current write, or undefined outside of one
+ */
+export function getWriteContext(): WriteContext | undefined {
+  return storage.getStore();
+}
@@ -11,8 +11,24 @@ import type {
   Sprint, 
   User, 
   Structure,
-  ApiResponse 
+  Comment,
+  ApiResponse,
+  ItemMutationResponse,
+  BackupInfo,
+  BackupRestoreResult,
+  DataValidationIssue,
+  DataChangeEvent,
+  QuarantineEvent,
+  ChangelogEntry,
+  Workspace,
+  WorkspaceList,
+  WorkspaceSource,
+  ApiToken,
+  CreatedApiToken,
+  Webhook,
+  WebhookDelivery,
 } from '../types';
+import { toast } from '../components/UI/toastStore';
 
 // ============================================================================
 // CONFIGURATION
@@ -23,10 +39,27 @@ import type {
  */
 const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3000/api';
 
+/**
+ * Identifies this browser tab to the server (X-Client-Id), so change events
+ * caused by this tab's own writes can be told apart from everyone else's
+ */
+export const CLIENT_ID = `client-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
 // ============================================================================
 // HELPER FUNCTIONS
 // ============================================================================
 
+/**
+ * Show a toast for a write the server rejected as invalid (HTTP 422)
+ */
+function toastValidationErrors(message: string | undefined, issues: DataValidationIssue[] = []): void {
+  const details = issues.slice(0, 3).map(issue => issue.message);
+  if (issues.length > 3) {
+    details.push(`…and ${issues.length - 3} more`);
+  }
+  toast.error(message || 'The server rejected invalid data', details.join('\n') || undefined, 8000);
+}
+
 /**
  * Generic fetch wrapper with error handling
  */
@@ -41,6 +74,7 @@ async function fetchApi<T>(
       ...options,
       headers: {
         'Content-Type': 'application/json',
+        'X-Client-Id': CLIENT_ID,
         ...options?.headers,
       },
     });
@@ -48,10 +82,18 @@ async function fetchApi<T>(
     const json = await response.json();
     
     if (!response.ok) {
+      // Invalid writes are reported here once, rather than by every caller
+      if (response.status === 422) {
+        toastValidationErrors(json.error, json.validationErrors);
+      }
+
       return {
         success: false,
         data: [] as unknown as T,
         error: json.error || `HTTP error: ${response.status}`,
+        conflict: response.status === 409,
+        current: json.current,
+        validationErrors: json.validationErrors,
       };
     }
     
@@ -171,6 +213,249 @@ export async function updateStructures(structures: Structure[]): Promise<ApiResp
   });
 }
 
+// ============================================================================
+// BACKUPS API
+// ============================================================================
+
+/**
+ * Fetch data snapshots, newest first
+ */
+export async function fetchBackups(): Promise<ApiResponse<BackupInfo[]>> {
+  return fetchApi<BackupInfo[]>('/backups');
+}
+
+/**
+ * Take a snapshot of the data directory now
+ */
+export async function createBackup(): Promise<ApiResponse<BackupInfo>> {
+  return fetchApi<BackupInfo>('/backups', { method: 'POST' });
+}
+
+/**
+ * Replace all data with a snapshot (the current data is snapshotted first)
+ */
+export async function restoreBackup(backupId: string): Promise<ApiResponse<BackupRestoreResult>> {
+  return fetchApi<BackupRestoreResult>(`/backups/${encodeURIComponent(backupId)}/restore`, {
+    method: 'POST',
+  });
+}
+
+// ============================================================================
+// WORKSPACES API
+// ============================================================================
+
+/**
+ * Fetch all workspaces and the one the server is serving
+ */
+export async function fetchWorkspaces(): Promise<ApiResponse<WorkspaceList>> {
+  return fetchApi<WorkspaceList>('/workspaces');
+}
+
+/**
+ * Create a workspace from the sample data, empty, or as a copy of another
+ * workspace; optionally switch to it right away
+ */
+export async function createWorkspace(input: {
+  name: string;
+  source: WorkspaceSource;
+  from?: string;
+  activate?: boolean;
+}): Promise<ApiResponse<Workspace>> {
+  return fetchApi<Workspace>('/workspaces', {
+    method: 'POST',
+    body: JSON.stringify(input),
+  });
+}
+
+/**
+ * Switch the server to another workspace (every open tab reloads)
+ */
+export async function activateWorkspace(id: string): Promise<ApiResponse<Workspace>> {
+  return fetchApi<Workspace>(`/workspaces/${encodeURIComponent(id)}/activate`, { method: 'POST' });
+}
+
+// ============================================================================
+// API TOKENS API
+// ============================================================================
+
+/**
+ * Fetch a user's API tokens (names and prefixes only)
+ */
+export async function fetchApiTokens(userId: string): Promise<ApiResponse<ApiToken[]>> {
+  return fetchApi<ApiToken[]>(`/users/${encodeURIComponent(userId)}/tokens`);
+}
+
+/** Authenticate a request with one of the user's own tokens */
+function bearer(authToken: string | undefined): Record<string, string> {
+  return authToken ? { Authorization: `Bearer ${authToken}` } : {};
+}
+
+/**
+ * Mint an API token for a user; the token itself is only returned here.
+ * Every token after the first needs `authToken`, one of the user's tokens;
+ * the first needs `bootstrapSecret`, which the server prints at startup.
+ */
+export async function createApiToken(
+  userId: string,
+  name: string,
+  authToken?: string,
+  bootstrapSecret?: string
+): Promise<ApiResponse<CreatedApiToken>> {
+  return fetchApi<CreatedApiToken>(`/users/${encodeURIComponent(userId)}/tokens`, {
+    method: 'POST',
+    body: JSON.stringify({ name }),
+    headers: { ...bearer(authToken), ...(bootstrapSecret ? { 'X-Bootstrap-Secret': bootstrapSecret } : {}) },
+  });
+}
+
+/**
+ * Revoke one of a user's API tokens, authenticated with one of their tokens
+ */
+export async function revokeApiToken(userId: string, tokenId: string, authToken: string): Promise<ApiResponse<ApiToken>> {
+  return fetchApi<ApiToken>(
+    `/users/${encodeURIComponent(userId)}/tokens/${encodeURIComponent(tokenId)}`,
+    { method: 'DELETE', headers: bearer(authToken) }
+  );
+}
+
+// ============================================================================
+// WEBHOOKS API
+// ============================================================================
+
+/** Fields a webhook is registered or changed with */
+export type WebhookInput = Partial<Pick<Webhook, 'name' | 'url' | 'events' | 'jqlFilter' | 'enabled'>>;
+
+/**
+ * Fetch the registered webhooks
+ */
+export async function fetchWebhooks(): Promise<ApiResponse<Webhook[]>> {
+  return fetchApi<Webhook[]>('/webhooks');
+}
+
+/**
+ * Register a webhook
+ */
+export async function createWebhook(input: WebhookInput): Promise<ApiResponse<Webhook>> {
+  return fetchApi<Webhook>('/webhooks', {
+    method: 'POST',
+    body: JSON.stringify(input),
+  });
+}
+
+/**
+ * Change some fields of a webhook
+ */
+export async function updateWebhook(id: string, input: WebhookInput): Promise<ApiResponse<Webhook>> {
+  return fetchApi<Webhook>(`/webhooks/${encodeURIComponent(id)}`, {
+    method: 'PATCH',
+    body: JSON.stringify(input),
+  });
+}
+
+/**
+ * Remove a webhook and its delivery log
+ */
+export async function deleteWebhook(id: string): Promise<ApiResponse<Webhook>> {
+  return fetchApi<Webhook>(`/webhooks/${encodeURIComponent(id)}`, { method: 'DELETE' });
+}
+
+/**
+ * Fetch the delivery log, newest first
+ */
+export async function fetchWebhookDeliveries(): Promise<ApiResponse<WebhookDelivery[]>> {
+  return fetchApi<WebhookDelivery[]>('/webhooks/deliveries');
+}
+
+/**
+ * Send a delivery again now
+ */
+export async function redeliverWebhook(deliveryId: string): Promise<ApiResponse<WebhookDelivery>> {
+  return fetchApi<WebhookDelivery>(`/webhooks/deliveries/${encodeURIComponent(deliveryId)}/redeliver`, {
+    method: 'POST',
+  });
+}
+
+// ============================================================================
+// COMMENTS API
+// ============================================================================
+
+/**
+ * Fetch all comments
+ */
+export async function fetchComments(): Promise<ApiResponse<Comment[]>> {
+  return fetchApi<Comment[]>('/comments');
+}
+
+// ============================================================================
+// CHANGELOG API
+// ============================================================================
+
+/**
+ * Fetch the field-level change history of an issue, newest first
+ */
+export async function fetchIssueChangelog(idOrKey: string): Promise<ApiResponse<ChangelogEntry[]>> {
+  return fetchApi<ChangelogEntry[]>(`/issues/${encodeURIComponent(idOrKey)}/changelog`);
+}
+
+// ============================================================================
+// CHANGE FEED
+// ============================================================================
+
+export interface ChangeFeedHandlers {
+  /** Called for every record change, including this tab's own */
+  onChange: (event: DataChangeEvent) => void;
+  /** Called when the connection drops or comes back */
+  onConnectionChange?: (connected: boolean) => void;
+  /** Called after reconnecting, since changes may have been missed meanwhile */
+  onResync?: () => void;
+  /** Called when the server switches to another workspace */
+  onWorkspaceChange?: (workspace: Pick<Workspace, 'id' | 'name'>) => void;
+  /** Called when a data file was edited outside the app and should be refetched */
+  onReload?: (resource: DataChangeEvent['resource']) => void;
+  /** Called when a data file edited outside the app was rejected as invalid */
+  onQuarantine?: (event: QuarantineEvent) => void;
+}
+
+/**
+ * Subscribe to the server's change feed (Server-Sent Events).
+ * The browser reconnects automatically; returns an unsubscribe function.
+ */
+export function subscribeToChanges(handlers: ChangeFeedHandlers): () => void {
+  const source = new EventSource(`${API_BASE_URL}/events`);
+  let disconnected = false;
+
+  source.addEventListener('change', (message) => {
+    handlers.onChange(JSON.parse((message as MessageEvent<string>).data) as DataChangeEvent);
+  });
+
+  source.addEventListener('workspace', (message) => {
+    handlers.onWorkspaceChange?.(JSON.parse((message as MessageEvent<string>).data) as Pick<Workspace, 'id' | 'name'>);
+  });
+
+  source.addEventListener('reload', (message) => {
+    handlers.onReload?.((JSON.parse((message as MessageEvent<string>).data) as Pick<DataChangeEvent, 'resource'>).resource);
+  });
+
+  source.addEventListener('quarantine', (message) => {
+    handlers.onQuarantine?.(JSON.parse((message as MessageEvent<string>).data) as QuarantineEvent);
+  });
+
+  source.onopen = () => {
+    handlers.onConnectionChange?.(true);
+    if (disconnected) {
+      disconnected = false;
+      handlers.onResync?.();
+    }
+  };
+
+  source.onerror = () => {
+    disconnected = true;
+    handlers.onConnectionChange?.(false);
+  };
+
+  return () => source.close();
+}
+
 // ============================================================================
 // HEALTH CHECK
 // ============================================================================
@@ -218,76 +503,229 @@ export async function fetchAllData(): Promise<{
 }
 
 // ============================================================================
-// SINGLE ENTITY OPERATIONS (for convenience)
+// SINGLE ENTITY OPERATIONS
 // ============================================================================
 
+type Resource = 'projects' | 'issues' | 'sprints' | 'users' | 'structures' | 'comments';
+
+/**
+ * Fetch a single record by ID (or key, for issues and projects)
+ */
+async function fetchItem<T>(resource: Resource, idOrKey: string): Promise<ApiResponse<T>> {
+  return fetchApi<T>(`/${resource}/${encodeURIComponent(idOrKey)}`);
+}
+
+/**
+ * Create a single record; the server generates its ID
+ */
+async function createItem<T>(resource: Resource, body: object): Promise<ItemMutationResponse<T>> {
+  return fetchApi<T>(`/${resource}`, {
+    method: 'POST',
+    body: JSON.stringify(body),
+  });
+}
+
+/**
+ * Build an If-Match header from the revision the client last saw.
+ * The server answers 409 with its current copy if the record changed since.
+ */
+function ifMatch(revision: number | undefined): Record<string, string> {
+  return revision === undefined ? {} : { 'If-Match': `"${revision}"` };
+}
+
+/**
+ * Update fields on a single record
+ */
+async function patchItem<T>(
+  resource: Resource,
+  idOrKey: string,
+  updates: object,
+  revision?: number
+): Promise<ItemMutationResponse<T>> {
+  return fetchApi<T>(`/${resource}/${encodeURIComponent(idOrKey)}`, {
+    method: 'PATCH',
+    headers: ifMatch(revision),
+    body: JSON.stringify(updates),
+  });
+}
+
+/**
+ * Delete a single record
+ */
+async function deleteItem<T>(
+  resource: Resource,
+  idOrKey: string,
+  revision?: number
+): Promise<ItemMutationResponse<T>> {
+  return fetchApi<T>(`/${resource}/${encodeURIComponent(idOrKey)}`, {
+    method: 'DELETE',
+    headers: ifMatch(revision),
+  });
+}
+
 /**
  * Get a single project by ID
  */
 export async function getProjectById(id: string): Promise<Project | null> {
-  const response = await fetchProjects();
-  if (!response.success) return null;
-  return response.data.find(p => p.id === id) || null;
+  const response = await fetchItem<Project>('projects', id);
+  return response.success ? response.data : null;
 }
 
 /**
  * Get a single issue by ID or key
  */
 export async function getIssueByIdOrKey(idOrKey: string): Promise<Issue | null> {
-  const response = await fetchIssues();
-  if (!response.success) return null;
-  return response.data.find(i => i.id === idOrKey || i.key === idOrKey) || null;
+  const response = await fetchItem<Issue>('issues', idOrKey);
+  return response.success ? response.data : null;
 }
 
 /**
  * Get a single sprint by ID
  */
 export async function getSprintById(id: string): Promise<Sprint | null> {
-  const response = await fetchSprints();
-  if (!response.success) return null;
-  return response.data.find(s => s.id === id) || null;
+  const response = await fetchItem<Sprint>('sprints', id);
+  return response.success ? response.data : null;
 }
 
 /**
  * Get a single user by ID
  */
 export async function getUserById(id: string): Promise<User | null> {
-  const response = await fetchUsers();
-  if (!response.success) return null;
-  return response.data.find(u => u.id === id) || null;
+  const response = await fetchItem<User>('users', id);
+  return response.success ? response.data : null;
 }
 
 /**
- * Create or update a single issue
- * Merges with existing issues array
+ * Create an issue in a project.
+ * The server assigns the ID and key and links it into its parent.
  */
-export async function saveIssue(issue: Issue): Promise<ApiResponse<Issue[]>> {
-  const response = await fetchIssues();
-  if (!response.success) {
-    return response;
-  }
-  
-  const existingIndex = response.data.findIndex(i => i.id === issue.id);
-  const updatedIssues = [...response.data];
-  
-  if (existingIndex >= 0) {
-    updatedIssues[existingIndex] = issue;
-  } else {
-    updatedIssues.push(issue);
-  }
-  
-  return updateIssues(updatedIssues);
+export async function createIssue(
+  issue: Partial<Issue>,
+  projectKey: string
+): Promise<ItemMutationResponse<Issue>> {
+  return createItem<Issue>('issues', { ...issue, projectKey });
 }
 
 /**
- * Delete a single issue by ID
+ * Update fields on a single issue.
+ * Parent and link changes are mirrored on the other issues by the server.
  */
-export async function deleteIssue(issueId: string): Promise<ApiResponse<Issue[]>> {
-  const response = await fetchIssues();
-  if (!response.success) {
-    return response;
-  }
-  
-  const updatedIssues = response.data.filter(i => i.id !== issueId);
-  return updateIssues(updatedIssues);
+export async function patchIssue(
+  idOrKey: string,
+  updates: Partial<Issue>,
+  revision?: number
+): Promise<ItemMutationResponse<Issue>> {
+  return patchItem<Issue>('issues', idOrKey, updates, revision);
+}
+
+/**
+ * Delete a single issue by ID or key
+ */
+export async function deleteIssue(idOrKey: string, revision?: number): Promise<ItemMutationResponse<Issue>> {
+  return deleteItem<Issue>('issues', idOrKey, revision);
+}
+
+/**
+ * Create a sprint
+ */
+export async function createSprint(sprint: Omit<Sprint, 'id'>): Promise<ItemMutationResponse<Sprint>> {
+  return createItem<Sprint>('sprints', sprint);
+}
+
+/**
+ * Update fields on a single sprint
+ */
+export async function patchSprint(
+  id: string,
+  updates: Partial<Sprint>,
+  revision?: number
+): Promise<ItemMutationResponse<Sprint>> {
+  return patchItem<Sprint>('sprints', id, updates, revision);
+}
+
+/**
+ * Delete a sprint (issues in it are moved to the backlog)
+ */
+export async function deleteSprint(id: string, revision?: number): Promise<ItemMutationResponse<Sprint>> {
+  return deleteItem<Sprint>('sprints', id, revision);
+}
+
+/**
+ * Create a user
+ */
+export async function createUser(user: Omit<User, 'id'>): Promise<ItemMutationResponse<User>> {
+  return createItem<User>('users', user);
+}
+
+/**
+ * Update fields on a single user
+ */
+export async function patchUser(
+  id: string,
+  updates: Partial<User>,
+  revision?: number
+): Promise<ItemMutationResponse<User>> {
+  return patchItem<User>('users', id, updates, revision);
+}
+
+/**
+ * Delete a user (their issues become unassigned)
+ */
+export async function deleteUser(id: string, revision?: number): Promise<ItemMutationResponse<User>> {
+  return deleteItem<User>('users', id, revision);
+}
+
+/**
+ * Create a project
+ */
+export async function createProject(
+  project: Omit<Project, 'id' | 'createdAt'>
+): Promise<ItemMutationResponse<Project>> {
+  return createItem<Project>('projects', project);
+}
+
+/**
+ * Update fields on a single project
+ */
+export async function patchProject(
+  id: string,
+  updates: Partial<Project>,
+  revision?: number
+): Promise<ItemMutationResponse<Project>> {
+  return patchItem<Project>('projects', id, updates, revision);
+}
+
+/**
+ * Delete a project
+ */
+export async function deleteProject(id: string, revision?: number): Promise<ItemMutationResponse<Project>> {
+  return deleteItem<Project>('projects', id, revision);
+}
+
+/**
+ * Add a comment to an issue
+ */
+export async function createComment(
+  issueIdOrKey: string,
+  comment: Pick<Comment, 'author' | 'body'>
+): Promise<ItemMutationResponse<Comment>> {
+  return createItem<Comment>('comments', { ...comment, issueId: issueIdOrKey });
+}
+
+/**
+ * Edit the body of a comment
+ */
+export async function patchComment(
+  id: string,
+  body: string,
+  revision?: number
+): Promise<ItemMutationResponse<Comment>> {
+  return patchItem<Comment>('comments', id, { body }, revision);
+}
+
+/**
+ * Delete a comment
+ */
+export async function deleteComment(id: string, revision?: number): Promise<ItemMutationResponse<Comment>> {
+  return deleteItem<Comment>('comments', id, revision);
 }
@@ -0,0 +1,230 @@
+/**
+ * Comment Store - Zustand state management for issue comments
+ *
+ * Holds every comment and the user the web app comments as. Edits and
+ * deletes are optimistic and carry the comment's revision, like the other
+ * stores, so a comment changed elsewhere in the meantime raises a conflict.
+ */
+
+import { create } from 'zustand';
+import type { Comment } from '../types';
+import * as api from '../services/api';
+import { useConflictStore } from './conflictStore';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface CommentState {
+  // State
+  comments: Comment[];
+  /** User new comments are written as (there is no login) */
+  currentUserId: string | null;
+  loading: boolean;
+  error: string | null;
+
+  // Actions
+  fetchComments: () => Promise<void>;
+  setCurrentUser: (userId: string) => void;
+  addComment: (issueId: string, body: string) => Promise<Comment | null>;
+  updateComment: (commentId: string, body: string) => Promise<boolean>;
+  deleteComment: (commentId: string) => Promise<boolean>;
+
+  // Selectors
+  getCommentsForIssue: (issueId: string) => Comment[];
+}
+
+// Remembers who the web app comments as between visits
+const CURRENT_USER_KEY = 'jira-structure-current-user';
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Read the remembered current user, if any
+ */
+function loadCurrentUser(): string | null {
+  try {
+    return localStorage.getItem(CURRENT_USER_KEY);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Replace the local copy of a comment with the server's copy
+ */
+function replaceComment(serverCopy: Comment): void {
+  useCommentStore.setState(state => ({
+    comments: state.comments.some(c => c.id === serverCopy.id)
+      ? state.comments.map(c => (c.id === serverCopy.id ? serverCopy : c))
+      : [...state.comments, serverCopy],
+  }));
+}
+
+/**
+ * Ask the user how to resolve a write rejected because the comment changed
+ */
+function reportCommentConflict(
+  serverCopy: Comment,
+  action: 'update' | 'delete',
+  body: string
+): void {
+  useConflictStore.getState().reportConflict({
+    resource: 'comments',
+    label: 'Comment',
+    action,
+    updates: action === 'update' ? { body } : {},
+    server: { ...serverCopy },
+    reload: () => replaceComment(serverCopy),
+    overwrite: async () => {
+      replaceComment(serverCopy);
+      if (action === 'delete') {
+        await useCommentStore.getState().deleteComment(serverCopy.id);
+      } else {
+        await useCommentStore.getState().updateComment(serverCopy.id, body);
+      }
+    },
+  });
+}
+
+// ============================================================================
+// STORE IMPLEMENTATION
+// ============================================================================
+
+export const useCommentStore = create<CommentState>((set, get) => ({
+  // Initial state
+  comments: [],
+  currentUserId: loadCurrentUser(),
+  loading: false,
+  error: null,
+
+  // ============================================================================
+  // ASYNC ACTIONS
+  // ============================================================================
+
+  /**
+   * Fetch all comments from the API
+   */
+  fetchComments: async () => {
+    set({ loading: true, error: null });
+
+    const response = await api.fetchComments();
+
+    if (response.success) {
+      set({ comments: response.data, loading: false });
+    } else {
+      set({ error: response.error || 'Failed to fetch comments', loading: false });
+    }
+  },
+
+  /**
+   * Choose the user new comments are written as
+   */
+  setCurrentUser: (userId) => {
+    try {
+      localStorage.setItem(CURRENT_USER_KEY, userId);
+    } catch {
+      // Ignore localStorage errors
+    }
+    set({ currentUserId: userId });
+  },
+
+  /**
+   * Add a comment to an issue as the current user
+   */
+  addComment: async (issueId, body) => {
+    const author = get().currentUserId;
+    if (!author) {
+      set({ error: 'Choose who you are commenting as first' });
+      return null;
+    }
+
+    const response = await api.createComment(issueId, { author, body });
+
+    if (!response.success) {
+      console.error('API sync failed:', response.error);
+      set({ error: 'Failed to add comment' });
+      return null;
+    }
+
+    set(state => ({ comments: [...state.comments, response.data], error: null }));
+    return response.data;
+  },
+
+  /**
+   * Edit the body of a comment
+   */
+  updateComment: async (commentId, body) => {
+    const state = get();
+
+    const existing = state.comments.find(c => c.id === commentId);
+    if (!existing) {
+      set({ error: `Comment ${commentId} not found` });
+      return false;
+    }
+
+    // Optimistic update
+    set({
+      comments: state.comments.map(c => (c.id === commentId ? { ...c, body } : c)),
+      error: null,
+    });
+
+    // Sync to API
+    const response = await api.patchComment(commentId, body, existing.revision);
+
+    if (!response.success) {
+      console.error('API sync failed:', response.error);
+      set({ comments: state.comments, error: 'Failed to update comment' });
+      if (response.conflict && response.current) {
+        reportCommentConflict(response.current, 'update', body);
+      }
+      return false;
+    }
+
+    replaceComment(response.data);
+    return true;
+  },
+
+  /**
+   * Delete a comment
+   */
+  deleteComment: async (commentId) => {
+    const state = get();
+    const existing = state.comments.find(c => c.id === commentId);
+
+    // Optimistic update
+    set({ comments: state.comments.filter(c => c.id !== commentId), error: null });
+
+    // Sync to API
+    const response = await api.deleteComment(commentId, existing?.revision);
+
+    if (!response.success) {
+      console.error('API sync failed:', response.error);
+      set({ comments: state.comments, error: 'Failed to delete comment' });
+      if (response.conflict && response.current) {
+        reportCommentConflict(response.current, 'delete', '');
+      }
+      return false;
+    }
+
+    return true;
+  },
+
+  // ============================================================================
+  // SELECTORS
+  // ============================================================================
+
+  getCommentsForIssue: (issueId) => {
+    return get().comments
+      .filter(c => c.issueId === issueId)
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  },
+}));
+
+// ============================================================================
+// EXPORTS
+// ============================================================================
+
+export type { CommentState };
@@ -0,0 +1,95 @@
+/**
+ * Conflict Store - Zustand state for rejected concurrent edits
+ *
+ * Item writes carry the record revision in an If-Match header. When the
+ * server answers 409 (someone else changed the record, e.g. Claude via MCP
+ * or another browser tab), the data stores report the conflict here instead
+ * of overwriting the newer copy. ConflictDialog then lets the user reload
+ * the server copy or re-apply their own changes on top of it.
+ */
+
+import { create } from 'zustand';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type ConflictResolution = 'reload' | 'overwrite';
+
+export interface DataConflict {
+  /** Unique identifier for the conflict */
+  id: string;
+  /** Resource the record belongs to */
+  resource: 'issues' | 'sprints' | 'users' | 'projects' | 'comments';
+  /** Human-readable record label (issue key, sprint name, ...) */
+  label: string;
+  /** Whether the rejected write was an update or a delete */
+  action: 'update' | 'delete';
+  /** Fields the user tried to change */
+  updates: Record<string, unknown>;
+  /** The server's current copy of the record */
+  server: Record<string, unknown>;
+  /** Discard local changes and use the server copy */
+  reload: () => void;
+  /** Re-apply the local changes on top of the server copy */
+  overwrite: () => Promise<void>;
+}
+
+interface ConflictState {
+  // State
+  conflicts: DataConflict[];
+
+  // Actions
+  reportConflict: (conflict: Omit<DataConflict, 'id'>) => void;
+  resolveConflict: (conflictId: string, resolution: ConflictResolution) => Promise<void>;
+  dismissConflict: (conflictId: string) => void;
+}
+
+// ============================================================================
+// STORE IMPLEMENTATION
+// ============================================================================
+
+let conflictId = 0;
+
+export const useConflictStore = create<ConflictState>((set, get) => ({
+  // Initial state
+  conflicts: [],
+
+  /**
+   * Queue a rejected write; the dialog shows conflicts one at a time
+   */
+  reportConflict: (conflict) => {
+    set(state => ({
+      conflicts: [...state.conflicts, { ...conflict, id: `conflict-${++conflictId}` }],
+    }));
+  },
+
+  /**
+   * Resolve a conflict by reloading the server copy or overwriting it
+   */
+  resolveConflict: async (conflictId, resolution) => {
+    const conflict = get().conflicts.find(c => c.id === conflictId);
+    if (!conflict) return;
+
+    set(state => ({ conflicts: state.conflicts.filter(c => c.id !== conflictId) }));
+
+    if (resolution === 'reload') {
+      conflict.reload();
+    } else {
+      await conflict.overwrite();
+    }
+  },
+
+  /**
+   * Close the prompt without touching local or server data
+   */
+  dismissConflict: (conflictId) => {
+    set(state => ({ conflicts: state.conflicts.filter(c => c.id !== conflictId) }));
+  },
+}));
+
+// ============================================================================
+// EXPORTS
+// ============================================================================
+
+export type { ConflictState };
@@ -23,6 +23,21 @@ export type { UserState } from './userStore';
 export { useUIStore } from './uiStore';
 export type { UIState } from './uiStore';
 
+export { useConflictStore } from './conflictStore';
+export type { ConflictState, DataConflict, ConflictResolution } from './conflictStore';
+
+export { useSyncStore } from './syncStore';
+export type { SyncState, RemoteChange } from './syncStore';
+
+export { useCommentStore } from './commentStore';
+export type { CommentState } from './commentStore';
+
+export { useStructureStore } from './structureStore';
+export type { StructureState } from './structureStore';
+
+export { useWorkspaceStore } from './workspaceStore';
+export type { WorkspaceState } from './workspaceStore';
+
 // ============================================================================
 // INITIALIZATION HELPER
 // ============================================================================
@@ -31,9 +46,213 @@ import { useIssueStore } from './issueStore';
 import { useProjectStore } from './projectStore';
 import { useSprintStore } from './sprintStore';
 import { useUserStore } from './userStore';
+import { useSyncStore } from './syncStore';
+import { useCommentStore } from './commentStore';
+import { useStructureStore } from './structureStore';
+import { useWorkspaceStore } from './workspaceStore';
+import { useUIStore } from './uiStore';
+import * as api from '../services/api';
+import { toast } from '../components/UI/toastStore';
+import type { DataChangeEvent, QuarantineEvent } from '../types';
+
+type SyncedRecord = { id: string; revision?: number };
+
+/**
+ * Apply one change event to a list of records.
+ * Returns null when the list already reflects the change.
+ */
+function applyToRecords<T extends SyncedRecord>(records: T[], event: DataChangeEvent): T[] | null {
+  const existing = records.find(r => r.id === event.recordId);
+
+  if (event.action === 'deleted') {
+    return existing ? records.filter(r => r.id !== event.recordId) : null;
+  }
+
+  const record = event.record as unknown as T;
+  if (!existing) {
+    return [...records, record];
+  }
+  if ((existing.revision ?? 0) >= (record.revision ?? 0)) {
+    return null;
+  }
+  return records.map(r => (r.id === record.id ? record : r));
+}
+
+/**
+ * Label a changed record for the "updated by another client" indicator
+ */
+function describeRecord(event: DataChangeEvent): string {
+  switch (event.resource) {
+    case 'issues':
+      return event.record?.key
+        ?? useIssueStore.getState().issues.find(i => i.id === event.recordId)?.key
+        ?? event.recordId;
+    case 'sprints':
+    case 'projects':
+    case 'structures':
+      return event.record?.name ?? event.recordId;
+    case 'users':
+      return event.record?.displayName ?? event.recordId;
+    case 'comments': {
+      const issueId = event.record?.issueId
+        ?? useCommentStore.getState().comments.find(c => c.id === event.recordId)?.issueId;
+      const issueKey = useIssueStore.getState().issues.find(i => i.id === issueId)?.key;
+      return issueKey ? `Comment on ${issueKey}` : 'Comment';
+    }
+  }
+}
+
+/**
+ * Apply a change made by another client to the matching store
+ */
+function applyChangeEvent(event: DataChangeEvent): void {
+  // This tab's own writes are already applied from the API responses
+  if (event.origin === api.CLIENT_ID) return;
+
+  const label = describeRecord(event);
+  let applied = false;
+
+  switch (event.resource) {
+    case 'issues': {
+      const issues = applyToRecords(useIssueStore.getState().issues, event);
+      if (issues) useIssueStore.setState({ issues });
+      applied = issues !== null;
+      break;
+    }
+    case 'sprints': {
+      const sprints = applyToRecords(useSprintStore.getState().sprints, event);
+      if (sprints) useSprintStore.setState({ sprints });
+      applied = sprints !== null;
+      break;
+    }
+    case 'users': {
+      const users = applyToRecords(useUserStore.getState().users, event);
+      if (users) useUserStore.setState({ users });
+      applied = users !== null;
+      break;
+    }
+    case 'projects': {
+      const projects = applyToRecords(useProjectStore.getState().projects, event);
+      if (projects) useProjectStore.setState({ projects });
+      applied = projects !== null;
+      break;
+    }
+    case 'comments': {
+      const comments = applyToRecords(useCommentStore.getState().comments, event);
+      if (comments) useCommentStore.setState({ comments });
+      applied = comments !== null;
+      break;
+    }
+    case 'structures': {
+      const structures = applyToRecords(useStructureStore.getState().structures, event);
+      if (structures) useStructureStore.setState({ structures });
+      applied = structures !== null;
+      break;
+    }
+  }
+
+  if (applied) {
+    useSyncStore.getState().recordRemoteChange({
+      seq: event.seq,
+      resource: event.resource,
+      action: event.action,
+      recordId: event.recordId,
+      label,
+      timestamp: event.timestamp,
+    });
+  }
+}
+
+/**
+ * Refetch everything, e.g., after the change feed reconnects
+ */
+async function refetchAll(): Promise<void> {
+  await Promise.all([
+    useProjectStore.getState().fetchProjects(),
+    useIssueStore.getState().fetchIssues(),
+    useSprintStore.getState().fetchSprints(),
+    useUserStore.getState().fetchUsers(),
+    useCommentStore.getState().fetchComments(),
+    useStructureStore.getState().fetchStructures(),
+  ]);
+}
+
+/**
+ * Refetch one resource after its data file was edited outside the app.
+ * The records are swapped in place, without the loading state, so views
+ * don't flash and open editors keep their unsaved text (they only take on
+ * new values while not being edited).
+ */
+async function reloadResource(resource: DataChangeEvent['resource']): Promise<void> {
+  switch (resource) {
+    case 'issues': {
+      const response = await api.fetchIssues();
+      if (response.success) useIssueStore.setState({ issues: response.data });
+      break;
+    }
+    case 'sprints': {
+      const response = await api.fetchSprints();
+      if (response.success) useSprintStore.setState({ sprints: response.data });
+      break;
+    }
+    case 'users': {
+      const response = await api.fetchUsers();
+      if (response.success) useUserStore.setState({ users: response.data });
+      break;
+    }
+    case 'projects': {
+      const response = await api.fetchProjects();
+      if (response.success) useProjectStore.setState({ projects: response.data });
+      break;
+    }
+    case 'comments': {
+      const response = await api.fetchComments();
+      if (response.success) useCommentStore.setState({ comments: response.data });
+      break;
+    }
+    case 'structures': {
+      const response = await api.fetchStructures();
+      if (response.success) useStructureStore.setState({ structures: response.data });
+      break;
+    }
+  }
+}
+
+/**
+ * Report a data file that was edited outside the app and rejected
+ */
+function reportQuarantine(event: QuarantineEvent): void {
+  const details = event.issues.slice(0, 3).map(issue => (issue.id ? `${issue.id}: ${issue.message}` : issue.message));
+  if (event.issues.length > 3) {
+    details.push(`…and ${event.issues.length - 3} more`);
+  }
+  details.push(`The file was moved to data/${event.quarantinedAs} and the last valid version restored.`);
+  toast.error(`${event.resource}.json was edited into an invalid state`, details.join('\n'), 0);
+}
 
 /**
- * Initialize all stores by fetching data from the API.
+ * Reload everything after the server switched workspaces.
+ * Selections and open panels refer to the old workspace's records, so
+ * they are cleared first.
+ */
+export async function reloadWorkspace(): Promise<void> {
+  useUIStore.getState().closeDetailPanel();
+  useUIStore.getState().clearSelection();
+  useSyncStore.getState().clearRemoteChanges();
+  useProjectStore.getState().setCurrentProject(null);
+
+  await Promise.all([
+    useWorkspaceStore.getState().fetchWorkspaces(),
+    refetchAll(),
+  ]);
+}
+
+// Only one change feed subscription per tab
+let unsubscribeChanges: (() => void) | null = null;
+
+/**
+ * Initialize all stores by fetching data from the API, then subscribe
+ * to the server's change feed to apply other clients' changes live.
  * Call this once when the application starts.
  * 
  * @returns Promise that resolves when all data is loaded
@@ -46,10 +265,8 @@ export async function initializeStores(): Promise<{
   
   // Fetch all data in parallel
   await Promise.all([
-    useProjectStore.getState().fetchProjects(),
-    useIssueStore.getState().fetchIssues(),
-    useSprintStore.getState().fetchSprints(),
-    useUserStore.getState().fetchUsers(),
+    refetchAll(),
+    useWorkspaceStore.getState().fetchWorkspaces(),
   ]);
   
   // Check for errors
@@ -57,11 +274,31 @@ export async function initializeStores(): Promise<{
   const issueError = useIssueStore.getState().error;
   const sprintError = useSprintStore.getState().error;
   const userError = useUserStore.getState().error;
+  const commentError = useCommentStore.getState().error;
+  const structureError = useStructureStore.getState().error;
   
   if (projectError) errors.push(`Projects: ${projectError}`);
   if (issueError) errors.push(`Issues: ${issueError}`);
   if (sprintError) errors.push(`Sprints: ${sprintError}`);
   if (userError) errors.push(`Users: ${userError}`);
+  if (commentError) errors.push(`Comments: ${commentError}`);
+  if (structureError) errors.push(`Structures: ${structureError}`);
+
+  if (errors.length === 0 && !unsubscribeChanges) {
+    unsubscribeChanges = api.subscribeToChanges({
+      onChange: applyChangeEvent,
+      onConnectionChange: connected => useSyncStore.getState().setConnected(connected),
+      onResync: refetchAll,
+      onReload: resource => void reloadResource(resource),
+      onQuarantine: reportQuarantine,
+      onWorkspaceChange: workspace => {
+        // The tab that switched has already reloaded
+        if (workspace.id !== useWorkspaceStore.getState().activeId) {
+          void reloadWorkspace();
+        }
+      },
+    });
+  }
   
   return {
     success: errors.length === 0,
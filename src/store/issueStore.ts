@@ -8,7 +8,10 @@
 import { create } from 'zustand';
 import type { Issue, UpdateIssueInput } from '../types';
 import { IssueStatus } from '../types';
+import * as domain from '../domain';
 import * as api from '../services/api';
+import { useConflictStore } from './conflictStore';
+import { useCommentStore } from './commentStore';
 
 // ============================================================================
 // TYPES
@@ -29,6 +32,7 @@ interface IssueState {
   bulkUpdateIssues: (issueIds: string[], updates: Partial<Issue>) => Promise<boolean>;
   bulkDeleteIssues: (issueIds: string[]) => Promise<boolean>;
   moveIssue: (issueId: string, newParentId: string | null) => Promise<boolean>;
+  applyServerIssues: (serverIssues: Issue[]) => void;
   
   // Relationship Actions
   addBlocker: (issueId: string, blockerId: string) => Promise<boolean>;
@@ -48,9 +52,38 @@ interface IssueState {
   getIssuesBySprintId: (sprintId: string) => Issue[];
   
   // Internal helpers
-  _syncToApi: (issues: Issue[]) => Promise<boolean>;
-  _generateIssueKey: (projectKey: string) => string;
-  _generateIssueId: () => string;
+  _patchIssue: (issueId: string, updates: Partial<Issue>) => Promise<boolean>;
+  _deleteIssue: (issueId: string, revision: number | undefined) => Promise<boolean>;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Replace issues by ID with the server's copies, appending any new ones
+ */
+function mergeIssues(current: Issue[], serverIssues: Issue[]): Issue[] {
+  const byId = new Map(serverIssues.map(i => [i.id, i]));
+  const merged = current.map(issue => byId.get(issue.id) ?? issue);
+  const existingIds = new Set(current.map(i => i.id));
+  return [...merged, ...serverIssues.filter(i => !existingIds.has(i.id))];
+}
+
+/**
+ * Run a domain operation on the current issues for an optimistic update.
+ * Returns the error message instead of throwing when the operation is
+ * invalid, so the store can report it without calling the API.
+ */
+function applyLocally<T extends { issues: Issue[] }>(mutate: () => T): T | { error: string } {
+  try {
+    return mutate();
+  } catch (error) {
+    if (error instanceof domain.IssueOperationError) {
+      return { error: error.message };
+    }
+    throw error;
+  }
 }
 
 // ============================================================================
@@ -84,44 +117,23 @@ export const useIssueStore = create<IssueState>((set, get) => ({
 
   /**
    * Create a new issue
+   * The server generates the ID and key and links the issue into its parent.
    */
   createIssue: async (issueData, projectKey) => {
-    const state = get();
-    const now = new Date().toISOString();
-    
-    const newIssue: Issue = {
-      ...issueData,
-      id: state._generateIssueId(),
-      key: state._generateIssueKey(projectKey),
-      createdAt: now,
-      updatedAt: now,
-      childIds: [],
-    };
-
-    // If this issue has a parent, update the parent's childIds
-    let updatedIssues = [...state.issues, newIssue];
-    
-    if (newIssue.parentId) {
-      updatedIssues = updatedIssues.map(issue => 
-        issue.id === newIssue.parentId
-          ? { ...issue, childIds: [...issue.childIds, newIssue.id], updatedAt: now }
-          : issue
-      );
-    }
+    const response = await api.createIssue(issueData, projectKey);
 
-    // Optimistic update
-    set({ issues: updatedIssues, error: null });
-    
-    // Sync to API
-    const success = await state._syncToApi(updatedIssues);
-    
-    if (!success) {
-      // Rollback on failure
-      set({ issues: state.issues, error: 'Failed to create issue' });
+    if (!response.success) {
+      console.error('API sync failed:', response.error);
+      set({ error: 'Failed to create issue' });
       return null;
     }
-    
-    return newIssue;
+
+    set(state => ({
+      issues: mergeIssues(state.issues, [response.data, ...(response.related ?? [])]),
+      error: null,
+    }));
+
+    return response.data;
   },
 
   /**
@@ -129,25 +141,18 @@ export const useIssueStore = create<IssueState>((set, get) => ({
    */
   updateIssue: async (update) => {
     const state = get();
-    const now = new Date().toISOString();
-    
-    const existingIssue = state.issues.find(i => i.id === update.id);
-    if (!existingIssue) {
-      set({ error: `Issue ${update.id} not found` });
+
+    const result = applyLocally(() => domain.updateIssue(state.issues, update.id, update));
+    if ('error' in result) {
+      set({ error: result.error });
       return false;
     }
 
-    const updatedIssues = state.issues.map(issue =>
-      issue.id === update.id
-        ? { ...issue, ...update, updatedAt: now }
-        : issue
-    );
-
     // Optimistic update
-    set({ issues: updatedIssues, error: null });
+    set({ issues: result.issues, error: null });
     
     // Sync to API
-    const success = await state._syncToApi(updatedIssues);
+    const success = await state._patchIssue(update.id, update);
     
     if (!success) {
       // Rollback on failure
@@ -163,30 +168,23 @@ export const useIssueStore = create<IssueState>((set, get) => ({
    */
   updateIssueStatus: async (issueId, newStatus) => {
     const state = get();
-    const now = new Date().toISOString();
-    
-    const existingIssue = state.issues.find(i => i.id === issueId);
-    if (!existingIssue) {
-      set({ error: `Issue ${issueId} not found` });
+
+    const result = applyLocally(() => domain.transitionIssue(state.issues, issueId, newStatus));
+    if ('error' in result) {
+      set({ error: result.error });
       return false;
     }
 
     // Don't update if status is the same
-    if (existingIssue.status === newStatus) {
+    if (result.issues === state.issues) {
       return true;
     }
 
-    const updatedIssues = state.issues.map(issue =>
-      issue.id === issueId
-        ? { ...issue, status: newStatus, updatedAt: now }
-        : issue
-    );
-
     // Optimistic update
-    set({ issues: updatedIssues, error: null });
+    set({ issues: result.issues, error: null });
     
     // Sync to API
-    const success = await state._syncToApi(updatedIssues);
+    const success = await state._patchIssue(issueId, { status: newStatus });
     
     if (!success) {
       // Rollback on failure
@@ -202,46 +200,19 @@ export const useIssueStore = create<IssueState>((set, get) => ({
    */
   deleteIssue: async (issueId) => {
     const state = get();
-    const now = new Date().toISOString();
-    
-    const issueToDelete = state.issues.find(i => i.id === issueId);
-    if (!issueToDelete) {
-      set({ error: `Issue ${issueId} not found` });
+
+    // Remove the issue, move its children to the root and drop links to it
+    const result = applyLocally(() => domain.deleteIssue(state.issues, issueId));
+    if ('error' in result) {
+      set({ error: result.error });
       return false;
     }
 
-    // Remove the issue and update relationships
-    let updatedIssues = state.issues.filter(i => i.id !== issueId);
-    
-    // Remove from parent's childIds
-    if (issueToDelete.parentId) {
-      updatedIssues = updatedIssues.map(issue =>
-        issue.id === issueToDelete.parentId
-          ? { ...issue, childIds: issue.childIds.filter(id => id !== issueId), updatedAt: now }
-          : issue
-      );
-    }
-
-    // Move children to root (remove their parentId)
-    updatedIssues = updatedIssues.map(issue =>
-      issue.parentId === issueId
-        ? { ...issue, parentId: null, updatedAt: now }
-        : issue
-    );
-
-    // Remove from blockedBy/blocks/relatedTo arrays of other issues
-    updatedIssues = updatedIssues.map(issue => ({
-      ...issue,
-      blockedBy: issue.blockedBy.filter(id => id !== issueId),
-      blocks: issue.blocks.filter(id => id !== issueId),
-      relatedTo: issue.relatedTo.filter(id => id !== issueId),
-    }));
-
     // Optimistic update
-    set({ issues: updatedIssues, error: null });
+    set({ issues: result.issues, error: null });
     
     // Sync to API
-    const success = await state._syncToApi(updatedIssues);
+    const success = await state._deleteIssue(issueId, result.issue.revision);
     
     if (!success) {
       set({ issues: state.issues, error: 'Failed to delete issue' });
@@ -256,22 +227,28 @@ export const useIssueStore = create<IssueState>((set, get) => ({
    */
   bulkUpdateIssues: async (issueIds, updates) => {
     const state = get();
-    const now = new Date().toISOString();
 
-    const updatedIssues = state.issues.map(issue =>
-      issueIds.includes(issue.id)
-        ? { ...issue, ...updates, id: issue.id, key: issue.key, createdAt: issue.createdAt, updatedAt: now }
-        : issue
-    );
+    const result = applyLocally(() => ({
+      issues: issueIds.reduce((issues, issueId) => domain.updateIssue(issues, issueId, updates).issues, state.issues),
+    }));
+    if ('error' in result) {
+      set({ error: result.error });
+      return false;
+    }
 
     // Optimistic update
-    set({ issues: updatedIssues, error: null });
+    set({ issues: result.issues, error: null });
     
-    // Sync to API
-    const success = await state._syncToApi(updatedIssues);
+    // Sync to API one issue at a time so relationship updates apply in order
+    let success = true;
+    for (const issueId of issueIds) {
+      success = await state._patchIssue(issueId, updates) && success;
+    }
     
     if (!success) {
-      set({ issues: state.issues, error: 'Failed to bulk update issues' });
+      // Some updates may have landed; reload rather than roll back
+      await get().fetchIssues();
+      set({ error: 'Failed to bulk update issues' });
       return false;
     }
     
@@ -283,31 +260,32 @@ export const useIssueStore = create<IssueState>((set, get) => ({
    */
   bulkDeleteIssues: async (issueIds) => {
     const state = get();
-    const now = new Date().toISOString();
-
-    // Filter out deleted issues
-    let updatedIssues = state.issues.filter(i => !issueIds.includes(i.id));
-
-    // Update parent childIds and clean up relationships
-    updatedIssues = updatedIssues.map(issue => ({
-      ...issue,
-      childIds: issue.childIds.filter(id => !issueIds.includes(id)),
-      blockedBy: issue.blockedBy.filter(id => !issueIds.includes(id)),
-      blocks: issue.blocks.filter(id => !issueIds.includes(id)),
-      relatedTo: issue.relatedTo.filter(id => !issueIds.includes(id)),
-      // If parent was deleted, move to root
-      parentId: issueIds.includes(issue.parentId || '') ? null : issue.parentId,
-      updatedAt: now,
+
+    // Delete one at a time so each delete cleans up after the ones before
+    const result = applyLocally(() => ({
+      issues: issueIds.reduce((issues, issueId) => domain.deleteIssue(issues, issueId).issues, state.issues),
     }));
+    if ('error' in result) {
+      set({ error: result.error });
+      return false;
+    }
 
     // Optimistic update
-    set({ issues: updatedIssues, error: null });
+    set({ issues: result.issues, error: null });
     
-    // Sync to API
-    const success = await state._syncToApi(updatedIssues);
+    // Sync to API one issue at a time so relationship cleanup applies in order
+    let success = true;
+    for (const issueId of issueIds) {
+      // Prefer a fresher revision if an earlier delete in this batch touched the issue
+      const revision = get().issues.find(i => i.id === issueId)?.revision
+        ?? state.issues.find(i => i.id === issueId)?.revision;
+      success = await state._deleteIssue(issueId, revision) && success;
+    }
     
     if (!success) {
-      set({ issues: state.issues, error: 'Failed to bulk delete issues' });
+      // Some deletes may have landed; reload rather than roll back
+      await get().fetchIssues();
+      set({ error: 'Failed to bulk delete issues' });
       return false;
     }
     
@@ -319,61 +297,19 @@ export const useIssueStore = create<IssueState>((set, get) => ({
    */
   moveIssue: async (issueId, newParentId) => {
     const state = get();
-    const now = new Date().toISOString();
 
-    const issueToMove = state.issues.find(i => i.id === issueId);
-    if (!issueToMove) {
-      set({ error: `Issue ${issueId} not found` });
+    // Rejects circular parent-child relationships like the server does
+    const result = applyLocally(() => domain.moveIssue(state.issues, issueId, newParentId));
+    if ('error' in result) {
+      set({ error: result.error });
       return false;
     }
 
-    // Prevent circular reference
-    if (newParentId) {
-      const isCircular = (parentId: string | null): boolean => {
-        if (!parentId) return false;
-        if (parentId === issueId) return true;
-        const parent = state.issues.find(i => i.id === parentId);
-        return parent ? isCircular(parent.parentId) : false;
-      };
-      
-      if (isCircular(newParentId)) {
-        set({ error: 'Cannot create circular parent-child relationship' });
-        return false;
-      }
-    }
-
-    const updatedIssues = state.issues.map(issue => {
-      // Update the moved issue's parentId
-      if (issue.id === issueId) {
-        return { ...issue, parentId: newParentId, updatedAt: now };
-      }
-      
-      // Remove from old parent's childIds
-      if (issue.id === issueToMove.parentId) {
-        return { 
-          ...issue, 
-          childIds: issue.childIds.filter(id => id !== issueId),
-          updatedAt: now 
-        };
-      }
-      
-      // Add to new parent's childIds
-      if (issue.id === newParentId) {
-        return { 
-          ...issue, 
-          childIds: [...issue.childIds, issueId],
-          updatedAt: now 
-        };
-      }
-      
-      return issue;
-    });
-
     // Optimistic update
-    set({ issues: updatedIssues, error: null });
+    set({ issues: result.issues, error: null });
     
     // Sync to API
-    const success = await state._syncToApi(updatedIssues);
+    const success = await state._patchIssue(issueId, { parentId: newParentId });
     
     if (!success) {
       set({ issues: state.issues, error: 'Failed to move issue' });
@@ -383,6 +319,14 @@ export const useIssueStore = create<IssueState>((set, get) => ({
     return true;
   },
 
+  /**
+   * Merge issues changed on the server (e.g., by a sprint or user delete)
+   */
+  applyServerIssues: (serverIssues) => {
+    if (serverIssues.length === 0) return;
+    set(state => ({ issues: mergeIssues(state.issues, serverIssues) }));
+  },
+
   // ============================================================================
   // RELATIONSHIP ACTIONS
   // ============================================================================
@@ -392,40 +336,19 @@ export const useIssueStore = create<IssueState>((set, get) => ({
    */
   addBlocker: async (issueId, blockerId) => {
     const state = get();
-    const now = new Date().toISOString();
 
-    const issue = state.issues.find(i => i.id === issueId);
-    const blocker = state.issues.find(i => i.id === blockerId);
-
-    if (!issue || !blocker) {
-      set({ error: 'Issue not found' });
+    const result = applyLocally(() => domain.linkIssues(state.issues, issueId, 'blockedBy', blockerId));
+    if ('error' in result) {
+      set({ error: result.error });
       return false;
     }
-
-    // Check if already blocked
-    if (issue.blockedBy.includes(blockerId)) {
-      return true; // Already exists
+    if (result.issues === state.issues) {
+      return true; // Nothing to change
     }
 
-    // Prevent self-blocking
-    if (issueId === blockerId) {
-      set({ error: 'An issue cannot block itself' });
-      return false;
-    }
-
-    const updatedIssues = state.issues.map(i => {
-      if (i.id === issueId) {
-        return { ...i, blockedBy: [...i.blockedBy, blockerId], updatedAt: now };
-      }
-      if (i.id === blockerId) {
-        return { ...i, blocks: [...i.blocks, issueId], updatedAt: now };
-      }
-      return i;
-    });
-
-    set({ issues: updatedIssues, error: null });
+    set({ issues: result.issues, error: null });
     
-    const success = await state._syncToApi(updatedIssues);
+    const success = await state._patchIssue(issueId, { blockedBy: result.issue.blockedBy });
     if (!success) {
       set({ issues: state.issues, error: 'Failed to add blocker' });
       return false;
@@ -438,21 +361,19 @@ export const useIssueStore = create<IssueState>((set, get) => ({
    */
   removeBlocker: async (issueId, blockerId) => {
     const state = get();
-    const now = new Date().toISOString();
-
-    const updatedIssues = state.issues.map(i => {
-      if (i.id === issueId) {
-        return { ...i, blockedBy: i.blockedBy.filter(id => id !== blockerId), updatedAt: now };
-      }
-      if (i.id === blockerId) {
-        return { ...i, blocks: i.blocks.filter(id => id !== issueId), updatedAt: now };
-      }
-      return i;
-    });
-
-    set({ issues: updatedIssues, error: null });
+
+    const result = applyLocally(() => domain.unlinkIssues(state.issues, issueId, 'blockedBy', blockerId));
+    if ('error' in result) {
+      set({ error: result.error });
+      return false;
+    }
+    if (result.issues === state.issues) {
+      return true; // Nothing to change
+    }
+
+    set({ issues: result.issues, error: null });
     
-    const success = await state._syncToApi(updatedIssues);
+    const success = await state._patchIssue(issueId, { blockedBy: result.issue.blockedBy });
     if (!success) {
       set({ issues: state.issues, error: 'Failed to remove blocker' });
       return false;
@@ -465,40 +386,19 @@ export const useIssueStore = create<IssueState>((set, get) => ({
    */
   addRelated: async (issueId, relatedId) => {
     const state = get();
-    const now = new Date().toISOString();
-
-    const issue = state.issues.find(i => i.id === issueId);
-    const related = state.issues.find(i => i.id === relatedId);
 
-    if (!issue || !related) {
-      set({ error: 'Issue not found' });
+    const result = applyLocally(() => domain.linkIssues(state.issues, issueId, 'relatedTo', relatedId));
+    if ('error' in result) {
+      set({ error: result.error });
       return false;
     }
-
-    // Check if already related
-    if (issue.relatedTo.includes(relatedId)) {
-      return true; // Already exists
-    }
-
-    // Prevent self-relation
-    if (issueId === relatedId) {
-      set({ error: 'An issue cannot be related to itself' });
-      return false;
+    if (result.issues === state.issues) {
+      return true; // Nothing to change
     }
 
-    const updatedIssues = state.issues.map(i => {
-      if (i.id === issueId) {
-        return { ...i, relatedTo: [...i.relatedTo, relatedId], updatedAt: now };
-      }
-      if (i.id === relatedId) {
-        return { ...i, relatedTo: [...i.relatedTo, issueId], updatedAt: now };
-      }
-      return i;
-    });
-
-    set({ issues: updatedIssues, error: null });
+    set({ issues: result.issues, error: null });
     
-    const success = await state._syncToApi(updatedIssues);
+    const success = await state._patchIssue(issueId, { relatedTo: result.issue.relatedTo });
     if (!success) {
       set({ issues: state.issues, error: 'Failed to add related issue' });
       return false;
@@ -511,21 +411,19 @@ export const useIssueStore = create<IssueState>((set, get) => ({
    */
   removeRelated: async (issueId, relatedId) => {
     const state = get();
-    const now = new Date().toISOString();
-
-    const updatedIssues = state.issues.map(i => {
-      if (i.id === issueId) {
-        return { ...i, relatedTo: i.relatedTo.filter(id => id !== relatedId), updatedAt: now };
-      }
-      if (i.id === relatedId) {
-        return { ...i, relatedTo: i.relatedTo.filter(id => id !== issueId), updatedAt: now };
-      }
-      return i;
-    });
-
-    set({ issues: updatedIssues, error: null });
+
+    const result = applyLocally(() => domain.unlinkIssues(state.issues, issueId, 'relatedTo', relatedId));
+    if ('error' in result) {
+      set({ error: result.error });
+      return false;
+    }
+    if (result.issues === state.issues) {
+      return true; // Nothing to change
+    }
+
+    set({ issues: result.issues, error: null });
     
-    const success = await state._syncToApi(updatedIssues);
+    const success = await state._patchIssue(issueId, { relatedTo: result.issue.relatedTo });
     if (!success) {
       set({ issues: state.issues, error: 'Failed to remove related issue' });
       return false;
@@ -538,61 +436,19 @@ export const useIssueStore = create<IssueState>((set, get) => ({
    */
   addChild: async (parentId, childId) => {
     const state = get();
-    const now = new Date().toISOString();
-
-    const parent = state.issues.find(i => i.id === parentId);
-    const child = state.issues.find(i => i.id === childId);
-
-    if (!parent || !child) {
-      set({ error: 'Issue not found' });
-      return false;
-    }
 
-    // Prevent self-parenting
-    if (parentId === childId) {
-      set({ error: 'An issue cannot be its own parent' });
+    const result = applyLocally(() => domain.moveIssue(state.issues, childId, parentId));
+    if ('error' in result) {
+      set({ error: result.error });
       return false;
     }
-
-    // Prevent circular reference
-    const isCircular = (checkId: string | null): boolean => {
-      if (!checkId) return false;
-      if (checkId === childId) return true;
-      const checkIssue = state.issues.find(i => i.id === checkId);
-      return checkIssue ? isCircular(checkIssue.parentId) : false;
-    };
-
-    if (isCircular(parentId)) {
-      set({ error: 'Cannot create circular parent-child relationship' });
-      return false;
+    if (result.issues === state.issues) {
+      return true; // Nothing to change
     }
 
-    // Remove from old parent if exists
-    const oldParentId = child.parentId;
-
-    const updatedIssues = state.issues.map(i => {
-      // Add to new parent's children
-      if (i.id === parentId) {
-        return { 
-          ...i, 
-          childIds: i.childIds.includes(childId) ? i.childIds : [...i.childIds, childId], 
-          updatedAt: now 
-        };
-      }
-      // Update child's parent
-      if (i.id === childId) {
-        return { ...i, parentId: parentId, updatedAt: now };
-      }
-      // Remove from old parent's children
-      if (oldParentId && i.id === oldParentId) {
-        return { ...i, childIds: i.childIds.filter(id => id !== childId), updatedAt: now };
-      }
-      return i;
-    });
-
-    set({ issues: updatedIssues, error: null });
+    set({ issues: result.issues, error: null });
     
-    const success = await state._syncToApi(updatedIssues);
+    const success = await state._patchIssue(childId, { parentId: parentId });
     if (!success) {
       set({ issues: state.issues, error: 'Failed to add child' });
       return false;
@@ -605,21 +461,19 @@ export const useIssueStore = create<IssueState>((set, get) => ({
    */
   removeChild: async (parentId, childId) => {
     const state = get();
-    const now = new Date().toISOString();
-
-    const updatedIssues = state.issues.map(i => {
-      if (i.id === parentId) {
-        return { ...i, childIds: i.childIds.filter(id => id !== childId), updatedAt: now };
-      }
-      if (i.id === childId) {
-        return { ...i, parentId: null, updatedAt: now };
-      }
-      return i;
-    });
-
-    set({ issues: updatedIssues, error: null });
+
+    const result = applyLocally(() => domain.moveIssue(state.issues, childId, null));
+    if ('error' in result) {
+      set({ error: result.error });
+      return false;
+    }
+    if (result.issues === state.issues) {
+      return true; // Nothing to change
+    }
+
+    set({ issues: result.issues, error: null });
     
-    const success = await state._syncToApi(updatedIssues);
+    const success = await state._patchIssue(childId, { parentId: null });
     if (!success) {
       set({ issues: state.issues, error: 'Failed to remove child' });
       return false;
@@ -665,28 +519,76 @@ export const useIssueStore = create<IssueState>((set, get) => ({
   // INTERNAL HELPERS
   // ============================================================================
 
-  _syncToApi: async (issues) => {
-    const response = await api.updateIssues(issues);
+  /**
+   * Send a field update for one issue, guarded by the revision we last saw.
+   * Merges the server's copies of all affected issues on success; on a 409
+   * the conflict is queued for the user instead of overwriting.
+   */
+  _patchIssue: async (issueId, updates) => {
+    const revision = get().issues.find(i => i.id === issueId)?.revision;
+    const response = await api.patchIssue(issueId, updates, revision);
+
+    if (response.conflict && response.current) {
+      const serverCopy = response.current;
+      useConflictStore.getState().reportConflict({
+        resource: 'issues',
+        label: serverCopy.key,
+        action: 'update',
+        updates,
+        server: { ...serverCopy },
+        reload: () => get().applyServerIssues([serverCopy]),
+        overwrite: async () => {
+          get().applyServerIssues([serverCopy]);
+          await get()._patchIssue(issueId, updates);
+        },
+      });
+      return false;
+    }
     if (!response.success) {
       console.error('API sync failed:', response.error);
       return false;
     }
+
+    get().applyServerIssues([response.data, ...(response.related ?? [])]);
     return true;
   },
 
-  _generateIssueKey: (projectKey) => {
-    const state = get();
-    // Find highest existing key number for this project
-    const projectIssues = state.issues.filter(i => i.key.startsWith(`${projectKey}-`));
-    const maxNum = projectIssues.reduce((max, issue) => {
-      const num = parseInt(issue.key.split('-')[1], 10);
-      return isNaN(num) ? max : Math.max(max, num);
-    }, 0);
-    return `${projectKey}-${maxNum + 1}`;
-  },
+  /**
+   * Delete one issue, guarded by the revision we last saw
+   * (passed in because the optimistic update already removed it from state)
+   */
+  _deleteIssue: async (issueId, revision) => {
+    const response = await api.deleteIssue(issueId, revision);
+
+    if (response.conflict && response.current) {
+      const serverCopy = response.current;
+      useConflictStore.getState().reportConflict({
+        resource: 'issues',
+        label: serverCopy.key,
+        action: 'delete',
+        updates: {},
+        server: { ...serverCopy },
+        reload: () => get().applyServerIssues([serverCopy]),
+        overwrite: async () => {
+          get().applyServerIssues([serverCopy]);
+          await get()._deleteIssue(issueId, serverCopy.revision);
+        },
+      });
+      return false;
+    }
+    if (!response.success) {
+      console.error('API sync failed:', response.error);
+      return false;
+    }
 
-  _generateIssueId: () => {
-    return `issue-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+    set(state => ({
+      issues: mergeIssues(state.issues.filter(i => i.id !== issueId), response.related ?? []),
+    }));
+    // The server deletes the issue's comments along with it
+    useCommentStore.setState(state => ({
+      comments: state.comments.filter(c => c.issueId !== issueId),
+    }));
+    return true;
   },
 }));
 
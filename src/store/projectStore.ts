@@ -7,6 +7,7 @@
 import { create } from 'zustand';
 import type { Project } from '../types';
 import * as api from '../services/api';
+import { useConflictStore } from './conflictStore';
 
 // ============================================================================
 // TYPES
@@ -30,9 +31,47 @@ interface ProjectState {
   getCurrentProject: () => Project | undefined;
   getProjectById: (id: string) => Project | undefined;
   getProjectByKey: (key: string) => Project | undefined;
-  
-  // Internal helpers
-  _syncToApi: (projects: Project[]) => Promise<boolean>;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Replace the local copy of a project with the server's copy
+ */
+function replaceProject(serverCopy: Project): void {
+  useProjectStore.setState(state => ({
+    projects: state.projects.some(item => item.id === serverCopy.id)
+      ? state.projects.map(item => (item.id === serverCopy.id ? serverCopy : item))
+      : [...state.projects, serverCopy],
+  }));
+}
+
+/**
+ * Ask the user how to resolve a write rejected because the project changed
+ */
+function reportProjectConflict(
+  serverCopy: Project,
+  action: 'update' | 'delete',
+  updates: Partial<Project>
+): void {
+  useConflictStore.getState().reportConflict({
+    resource: 'projects',
+    label: serverCopy.key,
+    action,
+    updates,
+    server: { ...serverCopy },
+    reload: () => replaceProject(serverCopy),
+    overwrite: async () => {
+      replaceProject(serverCopy);
+      if (action === 'delete') {
+        await useProjectStore.getState().deleteProject(serverCopy.id);
+      } else {
+        await useProjectStore.getState().updateProject(serverCopy.id, updates);
+      }
+    },
+  });
 }
 
 // ============================================================================
@@ -79,32 +118,19 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
   },
 
   /**
-   * Create a new project
+   * Create a new project (the server generates the ID and timestamp)
    */
   createProject: async (projectData) => {
-    const state = get();
-    const now = new Date().toISOString();
-    
-    const newProject: Project = {
-      ...projectData,
-      id: `project-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-      createdAt: now,
-    };
-
-    const updatedProjects = [...state.projects, newProject];
+    const response = await api.createProject(projectData);
 
-    // Optimistic update
-    set({ projects: updatedProjects, error: null });
-    
-    // Sync to API
-    const success = await state._syncToApi(updatedProjects);
-    
-    if (!success) {
-      set({ projects: state.projects, error: 'Failed to create project' });
+    if (!response.success) {
+      console.error('API sync failed:', response.error);
+      set({ error: 'Failed to create project' });
       return null;
     }
-    
-    return newProject;
+
+    set(state => ({ projects: [...state.projects, response.data], error: null }));
+    return response.data;
   },
 
   /**
@@ -129,12 +155,20 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
     set({ projects: updatedProjects, error: null });
     
     // Sync to API
-    const success = await state._syncToApi(updatedProjects);
+    const response = await api.patchProject(projectId, updates, existingProject.revision);
     
-    if (!success) {
+    if (!response.success) {
+      console.error('API sync failed:', response.error);
       set({ projects: state.projects, error: 'Failed to update project' });
+      if (response.conflict && response.current) {
+        reportProjectConflict(response.current, 'update', updates);
+      }
       return false;
     }
+
+    set(current => ({
+      projects: current.projects.map(item => (item.id === projectId ? response.data : item)),
+    }));
     
     return true;
   },
@@ -144,6 +178,7 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
    */
   deleteProject: async (projectId) => {
     const state = get();
+    const existingProject = state.projects.find(item => item.id === projectId);
     
     const updatedProjects = state.projects.filter(p => p.id !== projectId);
 
@@ -160,14 +195,18 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
     });
     
     // Sync to API
-    const success = await state._syncToApi(updatedProjects);
+    const response = await api.deleteProject(projectId, existingProject?.revision);
     
-    if (!success) {
+    if (!response.success) {
+      console.error('API sync failed:', response.error);
       set({ 
         projects: state.projects, 
         currentProjectId: state.currentProjectId,
         error: 'Failed to delete project' 
       });
+      if (response.conflict && response.current) {
+        reportProjectConflict(response.current, 'delete', {});
+      }
       return false;
     }
     
@@ -190,19 +229,6 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
   getProjectByKey: (key) => {
     return get().projects.find(p => p.key === key);
   },
-
-  // ============================================================================
-  // INTERNAL HELPERS
-  // ============================================================================
-
-  _syncToApi: async (projects) => {
-    const response = await api.updateProjects(projects);
-    if (!response.success) {
-      console.error('API sync failed:', response.error);
-      return false;
-    }
-    return true;
-  },
 }));
 
 // ============================================================================
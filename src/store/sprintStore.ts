@@ -7,7 +7,10 @@
 import { create } from 'zustand';
 import type { Sprint } from '../types';
 import { SprintStatus } from '../types';
+import * as domain from '../domain';
 import * as api from '../services/api';
+import { useIssueStore } from './issueStore';
+import { useConflictStore } from './conflictStore';
 
 // ============================================================================
 // TYPES
@@ -33,9 +36,47 @@ interface SprintState {
   getSprintsByProject: (projectId: string) => Sprint[];
   getPlannedSprints: (projectId?: string) => Sprint[];
   getCompletedSprints: (projectId?: string) => Sprint[];
-  
-  // Internal helpers
-  _syncToApi: (sprints: Sprint[]) => Promise<boolean>;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Replace the local copy of a sprint with the server's copy
+ */
+function replaceSprint(serverCopy: Sprint): void {
+  useSprintStore.setState(state => ({
+    sprints: state.sprints.some(s => s.id === serverCopy.id)
+      ? state.sprints.map(s => (s.id === serverCopy.id ? serverCopy : s))
+      : [...state.sprints, serverCopy],
+  }));
+}
+
+/**
+ * Ask the user how to resolve a write rejected because the sprint changed
+ */
+function reportSprintConflict(
+  serverCopy: Sprint,
+  action: 'update' | 'delete',
+  updates: Partial<Sprint>
+): void {
+  useConflictStore.getState().reportConflict({
+    resource: 'sprints',
+    label: serverCopy.name,
+    action,
+    updates,
+    server: { ...serverCopy },
+    reload: () => replaceSprint(serverCopy),
+    overwrite: async () => {
+      replaceSprint(serverCopy);
+      if (action === 'delete') {
+        await useSprintStore.getState().deleteSprint(serverCopy.id);
+      } else {
+        await useSprintStore.getState().updateSprint(serverCopy.id, updates);
+      }
+    },
+  });
 }
 
 // ============================================================================
@@ -68,30 +109,19 @@ export const useSprintStore = create<SprintState>((set, get) => ({
   },
 
   /**
-   * Create a new sprint
+   * Create a new sprint (the server generates the ID)
    */
   createSprint: async (sprintData) => {
-    const state = get();
-    
-    const newSprint: Sprint = {
-      ...sprintData,
-      id: `sprint-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-    };
+    const response = await api.createSprint(sprintData);
 
-    const updatedSprints = [...state.sprints, newSprint];
-
-    // Optimistic update
-    set({ sprints: updatedSprints, error: null });
-    
-    // Sync to API
-    const success = await state._syncToApi(updatedSprints);
-    
-    if (!success) {
-      set({ sprints: state.sprints, error: 'Failed to create sprint' });
+    if (!response.success) {
+      console.error('API sync failed:', response.error);
+      set({ error: 'Failed to create sprint' });
       return null;
     }
-    
-    return newSprint;
+
+    set(state => ({ sprints: [...state.sprints, response.data], error: null }));
+    return response.data;
   },
 
   /**
@@ -99,38 +129,46 @@ export const useSprintStore = create<SprintState>((set, get) => ({
    */
   updateSprint: async (sprintId, updates) => {
     const state = get();
-    
-    const existingSprint = state.sprints.find(s => s.id === sprintId);
-    if (!existingSprint) {
-      set({ error: `Sprint ${sprintId} not found` });
+
+    // Same lifecycle rules as the server (one active sprint per project, ...)
+    let result: domain.SprintMutationResult;
+    try {
+      result = domain.updateSprint(state.sprints, sprintId, updates);
+    } catch (error) {
+      if (!(error instanceof domain.IssueOperationError)) throw error;
+      set({ error: error.message });
       return false;
     }
 
-    const updatedSprints = state.sprints.map(sprint =>
-      sprint.id === sprintId
-        ? { ...sprint, ...updates }
-        : sprint
-    );
-
     // Optimistic update
-    set({ sprints: updatedSprints, error: null });
+    set({ sprints: result.sprints, error: null });
     
     // Sync to API
-    const success = await state._syncToApi(updatedSprints);
+    const response = await api.patchSprint(sprintId, updates, result.sprint.revision);
     
-    if (!success) {
+    if (!response.success) {
+      console.error('API sync failed:', response.error);
       set({ sprints: state.sprints, error: 'Failed to update sprint' });
+      if (response.conflict && response.current) {
+        reportSprintConflict(response.current, 'update', updates);
+      }
       return false;
     }
+
+    set(current => ({
+      sprints: current.sprints.map(s => (s.id === sprintId ? response.data : s)),
+    }));
     
     return true;
   },
 
   /**
    * Delete a sprint
+   * Issues in the sprint are moved to the backlog by the server.
    */
   deleteSprint: async (sprintId) => {
     const state = get();
+    const existingSprint = state.sprints.find(s => s.id === sprintId);
     
     const updatedSprints = state.sprints.filter(s => s.id !== sprintId);
 
@@ -138,13 +176,18 @@ export const useSprintStore = create<SprintState>((set, get) => ({
     set({ sprints: updatedSprints, error: null });
     
     // Sync to API
-    const success = await state._syncToApi(updatedSprints);
+    const response = await api.deleteSprint(sprintId, existingSprint?.revision);
     
-    if (!success) {
+    if (!response.success) {
+      console.error('API sync failed:', response.error);
       set({ sprints: state.sprints, error: 'Failed to delete sprint' });
+      if (response.conflict && response.current) {
+        reportSprintConflict(response.current, 'delete', {});
+      }
       return false;
     }
     
+    useIssueStore.getState().applyServerIssues(response.related ?? []);
     return true;
   },
 
@@ -152,24 +195,7 @@ export const useSprintStore = create<SprintState>((set, get) => ({
    * Start a sprint (change status to active)
    */
   startSprint: async (sprintId) => {
-    const state = get();
-    
-    // Check if there's already an active sprint in the same project
-    const sprintToStart = state.sprints.find(s => s.id === sprintId);
-    if (!sprintToStart) {
-      set({ error: `Sprint ${sprintId} not found` });
-      return false;
-    }
-
-    const existingActive = state.sprints.find(
-      s => s.projectId === sprintToStart.projectId && s.status === SprintStatus.Active
-    );
-    
-    if (existingActive) {
-      set({ error: `Cannot start sprint: ${existingActive.name} is already active` });
-      return false;
-    }
-
+    // Fails if another sprint in the project is already active
     return get().updateSprint(sprintId, { status: SprintStatus.Active });
   },
 
@@ -215,19 +241,6 @@ export const useSprintStore = create<SprintState>((set, get) => ({
       (projectId ? s.projectId === projectId : true)
     );
   },
-
-  // ============================================================================
-  // INTERNAL HELPERS
-  // ============================================================================
-
-  _syncToApi: async (sprints) => {
-    const response = await api.updateSprints(sprints);
-    if (!response.success) {
-      console.error('API sync failed:', response.error);
-      return false;
-    }
-    return true;
-  },
 }));
 
 // ============================================================================
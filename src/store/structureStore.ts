@@ -0,0 +1,57 @@
+/**
+ * Structure Store - Zustand state management for structures
+ *
+ * Holds the saved structures (named views over issue hierarchies), kept in
+ * sync with the server like the other stores. Read-only for now: the app
+ * doesn't edit structures yet, but exports include them.
+ */
+
+import { create } from 'zustand';
+import type { Structure } from '../types';
+import * as api from '../services/api';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface StructureState {
+  // State
+  structures: Structure[];
+  loading: boolean;
+  error: string | null;
+
+  // Actions
+  fetchStructures: () => Promise<void>;
+}
+
+// ============================================================================
+// STORE IMPLEMENTATION
+// ============================================================================
+
+export const useStructureStore = create<StructureState>((set) => ({
+  // Initial state
+  structures: [],
+  loading: false,
+  error: null,
+
+  /**
+   * Fetch all structures from the API
+   */
+  fetchStructures: async () => {
+    set({ loading: true, error: null });
+
+    const response = await api.fetchStructures();
+
+    if (response.success) {
+      set({ structures: response.data, loading: false });
+    } else {
+      set({ error: response.error || 'Failed to fetch structures', loading: false });
+    }
+  },
+}));
+
+// ============================================================================
+// EXPORTS
+// ============================================================================
+
+export type { StructureState };
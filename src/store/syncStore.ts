@@ -0,0 +1,78 @@
+/**
+ * Sync Store - Zustand state for the live change feed
+ *
+ * Tracks whether the server's change feed is connected and which records
+ * were recently changed by another client (another tab, Claude via MCP,
+ * or a hand edit), so the UI can show an "updated by another client"
+ * indicator.
+ */
+
+import { create } from 'zustand';
+import type { ChangeAction, DataChangeEvent } from '../types';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface RemoteChange {
+  /** Event sequence number from the server */
+  seq: number;
+  resource: DataChangeEvent['resource'];
+  action: ChangeAction;
+  recordId: string;
+  /** Human-readable record label (issue key, sprint name, ...) */
+  label: string;
+  /** ISO date string when the change happened */
+  timestamp: string;
+}
+
+interface SyncState {
+  // State
+  connected: boolean;
+  /** Recent changes made by other clients, newest first */
+  remoteChanges: RemoteChange[];
+
+  // Actions
+  setConnected: (connected: boolean) => void;
+  recordRemoteChange: (change: RemoteChange) => void;
+  clearRemoteChanges: () => void;
+}
+
+// Keep the indicator's list short
+const MAX_REMOTE_CHANGES = 20;
+
+// ============================================================================
+// STORE IMPLEMENTATION
+// ============================================================================
+
+export const useSyncStore = create<SyncState>((set) => ({
+  // Initial state
+  connected: false,
+  remoteChanges: [],
+
+  setConnected: (connected) => {
+    set({ connected });
+  },
+
+  /**
+   * Remember a change made by another client
+   */
+  recordRemoteChange: (change) => {
+    set(state => ({
+      remoteChanges: [change, ...state.remoteChanges].slice(0, MAX_REMOTE_CHANGES),
+    }));
+  },
+
+  /**
+   * Dismiss the indicator
+   */
+  clearRemoteChanges: () => {
+    set({ remoteChanges: [] });
+  },
+}));
+
+// ============================================================================
+// EXPORTS
+// ============================================================================
+
+export type { SyncState };
@@ -42,6 +42,9 @@ interface UIState {
   createIssueDefaultStatus: string | null;
   importModalOpen: boolean;
   exportModalOpen: boolean;
+  backupsModalOpen: boolean;
+  apiTokensModalOpen: boolean;
+  webhooksModalOpen: boolean;
   
   // Search
   searchQuery: string;
@@ -89,6 +92,12 @@ interface UIState {
   closeImportModal: () => void;
   openExportModal: () => void;
   closeExportModal: () => void;
+  openBackupsModal: () => void;
+  closeBackupsModal: () => void;
+  openApiTokensModal: () => void;
+  closeApiTokensModal: () => void;
+  openWebhooksModal: () => void;
+  closeWebhooksModal: () => void;
   
   // Actions - Search
   setSearchQuery: (query: string) => void;
@@ -129,6 +138,9 @@ export const useUIStore = create<UIState>((set) => ({
   createIssueDefaultStatus: null,
   importModalOpen: false,
   exportModalOpen: false,
+  backupsModalOpen: false,
+  apiTokensModalOpen: false,
+  webhooksModalOpen: false,
   
   // Initial state - Search
   searchQuery: '',
@@ -333,6 +345,30 @@ export const useUIStore = create<UIState>((set) => ({
     set({ exportModalOpen: false });
   },
 
+  openBackupsModal: () => {
+    set({ backupsModalOpen: true });
+  },
+
+  closeBackupsModal: () => {
+    set({ backupsModalOpen: false });
+  },
+
+  openApiTokensModal: () => {
+    set({ apiTokensModalOpen: true });
+  },
+
+  closeApiTokensModal: () => {
+    set({ apiTokensModalOpen: false });
+  },
+
+  openWebhooksModal: () => {
+    set({ webhooksModalOpen: true });
+  },
+
+  closeWebhooksModal: () => {
+    set({ webhooksModalOpen: false });
+  },
+
   // ============================================================================
   // SEARCH ACTIONS
   // ============================================================================
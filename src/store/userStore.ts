@@ -7,6 +7,8 @@
 import { create } from 'zustand';
 import type { User } from '../types';
 import * as api from '../services/api';
+import { useIssueStore } from './issueStore';
+import { useConflictStore } from './conflictStore';
 
 // ============================================================================
 // TYPES
@@ -28,9 +30,47 @@ interface UserState {
   getUserById: (id: string) => User | undefined;
   getUserByEmail: (email: string) => User | undefined;
   searchUsers: (query: string) => User[];
-  
-  // Internal helpers
-  _syncToApi: (users: User[]) => Promise<boolean>;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Replace the local copy of a user with the server's copy
+ */
+function replaceUser(serverCopy: User): void {
+  useUserStore.setState(state => ({
+    users: state.users.some(item => item.id === serverCopy.id)
+      ? state.users.map(item => (item.id === serverCopy.id ? serverCopy : item))
+      : [...state.users, serverCopy],
+  }));
+}
+
+/**
+ * Ask the user how to resolve a write rejected because the user changed
+ */
+function reportUserConflict(
+  serverCopy: User,
+  action: 'update' | 'delete',
+  updates: Partial<User>
+): void {
+  useConflictStore.getState().reportConflict({
+    resource: 'users',
+    label: serverCopy.displayName,
+    action,
+    updates,
+    server: { ...serverCopy },
+    reload: () => replaceUser(serverCopy),
+    overwrite: async () => {
+      replaceUser(serverCopy);
+      if (action === 'delete') {
+        await useUserStore.getState().deleteUser(serverCopy.id);
+      } else {
+        await useUserStore.getState().updateUser(serverCopy.id, updates);
+      }
+    },
+  });
 }
 
 // ============================================================================
@@ -63,30 +103,19 @@ export const useUserStore = create<UserState>((set, get) => ({
   },
 
   /**
-   * Create a new user
+   * Create a new user (the server generates the ID)
    */
   createUser: async (userData) => {
-    const state = get();
-    
-    const newUser: User = {
-      ...userData,
-      id: `user-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-    };
-
-    const updatedUsers = [...state.users, newUser];
+    const response = await api.createUser(userData);
 
-    // Optimistic update
-    set({ users: updatedUsers, error: null });
-    
-    // Sync to API
-    const success = await state._syncToApi(updatedUsers);
-    
-    if (!success) {
-      set({ users: state.users, error: 'Failed to create user' });
+    if (!response.success) {
+      console.error('API sync failed:', response.error);
+      set({ error: 'Failed to create user' });
       return null;
     }
-    
-    return newUser;
+
+    set(state => ({ users: [...state.users, response.data], error: null }));
+    return response.data;
   },
 
   /**
@@ -111,21 +140,31 @@ export const useUserStore = create<UserState>((set, get) => ({
     set({ users: updatedUsers, error: null });
     
     // Sync to API
-    const success = await state._syncToApi(updatedUsers);
+    const response = await api.patchUser(userId, updates, existingUser.revision);
     
-    if (!success) {
+    if (!response.success) {
+      console.error('API sync failed:', response.error);
       set({ users: state.users, error: 'Failed to update user' });
+      if (response.conflict && response.current) {
+        reportUserConflict(response.current, 'update', updates);
+      }
       return false;
     }
+
+    set(current => ({
+      users: current.users.map(item => (item.id === userId ? response.data : item)),
+    }));
     
     return true;
   },
 
   /**
    * Delete a user
+   * Issues assigned to the user are unassigned by the server.
    */
   deleteUser: async (userId) => {
     const state = get();
+    const existingUser = state.users.find(item => item.id === userId);
     
     const updatedUsers = state.users.filter(u => u.id !== userId);
 
@@ -133,13 +172,18 @@ export const useUserStore = create<UserState>((set, get) => ({
     set({ users: updatedUsers, error: null });
     
     // Sync to API
-    const success = await state._syncToApi(updatedUsers);
+    const response = await api.deleteUser(userId, existingUser?.revision);
     
-    if (!success) {
+    if (!response.success) {
+      console.error('API sync failed:', response.error);
       set({ users: state.users, error: 'Failed to delete user' });
+      if (response.conflict && response.current) {
+        reportUserConflict(response.current, 'delete', {});
+      }
       return false;
     }
     
+    useIssueStore.getState().applyServerIssues(response.related ?? []);
     return true;
   },
 
@@ -162,19 +206,6 @@ export const useUserStore = create<UserState>((set, get) => ({
       u.email.toLowerCase().includes(lowerQuery)
     );
   },
-
-  // ============================================================================
-  // INTERNAL HELPERS
-  // ============================================================================
-
-  _syncToApi: async (users) => {
-    const response = await api.updateUsers(users);
-    if (!response.success) {
-      console.error('API sync failed:', response.error);
-      return false;
-    }
-    return true;
-  },
 }));
 
 // ============================================================================
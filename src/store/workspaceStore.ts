@@ -0,0 +1,117 @@
+/**
+ * Workspace Store - Zustand state for workspaces
+ *
+ * Lists the server's workspaces and tracks the one it is serving. Creating
+ * and switching go through the server, which tells every open tab to
+ * reload when the workspace changes (see reloadWorkspace in store/index.ts).
+ */
+
+import { create } from 'zustand';
+import type { Workspace, WorkspaceSource } from '../types';
+import * as api from '../services/api';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface WorkspaceState {
+  // State
+  workspaces: Workspace[];
+  /** Workspace the server is serving */
+  activeId: string | null;
+  loading: boolean;
+  error: string | null;
+
+  // Actions
+  fetchWorkspaces: () => Promise<void>;
+  createWorkspace: (input: {
+    name: string;
+    source: WorkspaceSource;
+    from?: string;
+    activate?: boolean;
+  }) => Promise<Workspace | null>;
+  switchWorkspace: (id: string) => Promise<boolean>;
+
+  // Selectors
+  getActiveWorkspace: () => Workspace | undefined;
+}
+
+// ============================================================================
+// STORE IMPLEMENTATION
+// ============================================================================
+
+export const useWorkspaceStore = create<WorkspaceState>((set, get) => ({
+  // Initial state
+  workspaces: [],
+  activeId: null,
+  loading: false,
+  error: null,
+
+  // ============================================================================
+  // ASYNC ACTIONS
+  // ============================================================================
+
+  /**
+   * Fetch the workspace list from the API
+   */
+  fetchWorkspaces: async () => {
+    set({ loading: true, error: null });
+
+    const response = await api.fetchWorkspaces();
+
+    if (response.success) {
+      set({ workspaces: response.data.workspaces, activeId: response.data.activeId, loading: false });
+    } else {
+      set({ error: response.error || 'Failed to fetch workspaces', loading: false });
+    }
+  },
+
+  /**
+   * Create a workspace; with `activate`, the server switches to it
+   */
+  createWorkspace: async (input) => {
+    const response = await api.createWorkspace(input);
+
+    if (!response.success) {
+      set({ error: response.error || 'Failed to create workspace' });
+      return null;
+    }
+
+    set(state => ({
+      workspaces: [...state.workspaces, response.data],
+      activeId: input.activate ? response.data.id : state.activeId,
+      error: null,
+    }));
+    return response.data;
+  },
+
+  /**
+   * Switch the server to another workspace
+   */
+  switchWorkspace: async (id) => {
+    const response = await api.activateWorkspace(id);
+
+    if (!response.success) {
+      set({ error: response.error || 'Failed to switch workspace' });
+      return false;
+    }
+
+    set({ activeId: response.data.id, error: null });
+    return true;
+  },
+
+  // ============================================================================
+  // SELECTORS
+  // ============================================================================
+
+  getActiveWorkspace: () => {
+    const { workspaces, activeId } = get();
+    return workspaces.find(w => w.id === activeId);
+  },
+}));
+
+// ============================================================================
+// EXPORTS
+// ============================================================================
+
+export type { WorkspaceState };
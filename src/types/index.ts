@@ -72,6 +72,8 @@ export interface User {
   email: string;
   /** URL to user's avatar image (optional) */
   avatarUrl?: string;
+  /** Revision number maintained by the server, bumped on every change */
+  revision?: number;
 }
 
 /**
@@ -90,6 +92,8 @@ export interface Project {
   lead: string;
   /** ISO date string when project was created */
   createdAt: string;
+  /** Revision number maintained by the server, bumped on every change */
+  revision?: number;
 }
 
 /**
@@ -110,6 +114,8 @@ export interface Sprint {
   status: SprintStatus;
   /** Optional sprint goal description */
   goalDescription?: string;
+  /** Revision number maintained by the server, bumped on every change */
+  revision?: number;
 }
 
 /**
@@ -186,6 +192,8 @@ export interface Issue {
   blocks: string[];
   /** IDs of related issues (non-directional) */
   relatedTo: string[];
+  /** Revision number maintained by the server, bumped on every change */
+  revision?: number;
 }
 
 /**
@@ -201,6 +209,29 @@ export interface Structure {
   projectId: string;
   /** IDs of root-level issues in this structure */
   rootIssueIds: string[];
+  /** Revision number maintained by the server, bumped on every change */
+  revision?: number;
+}
+
+/**
+ * Comment represents a message in an issue's discussion thread.
+ * Bodies are markdown; mentions use Jira's `[~accountid:user-1]` syntax.
+ */
+export interface Comment {
+  /** Unique identifier for the comment */
+  id: string;
+  /** ID of the issue the comment belongs to */
+  issueId: string;
+  /** User ID of the comment's author */
+  author: string;
+  /** Comment text (markdown) */
+  body: string;
+  /** ISO date string when the comment was created */
+  createdAt: string;
+  /** ISO date string when the comment was last edited */
+  updatedAt: string;
+  /** Revision number maintained by the server, bumped on every change */
+  revision?: number;
 }
 
 // ============================================================================
@@ -210,7 +241,7 @@ export interface Structure {
 /**
  * Type for creating a new issue (omits auto-generated fields)
  */
-export type CreateIssueInput = Omit<Issue, 'id' | 'key' | 'createdAt' | 'updatedAt' | 'childIds'>;
+export type CreateIssueInput = Omit<Issue, 'id' | 'key' | 'createdAt' | 'updatedAt' | 'childIds' | 'revision'>;
 
 /**
  * Type for updating an existing issue (all fields optional except id)
@@ -274,15 +305,292 @@ export interface ApiResponse<T> {
   data: T;
   success: boolean;
   error?: string;
+  /** True when the write was rejected because the data changed (HTTP 409) */
+  conflict?: boolean;
+  /** The server's current copy, sent with a conflict */
+  current?: T;
+  /** Problems found when the write was rejected as invalid (HTTP 422) */
+  validationErrors?: DataValidationIssue[];
+}
+
+/**
+ * A single problem found when validating a write
+ */
+export interface DataValidationIssue {
+  /** Data file the problem is in (e.g., "issues") */
+  resource: string;
+  /** ID of the offending record (or "#index" if it has none) */
+  id?: string;
+  /** Offending field path (e.g., "status", "blocks") */
+  field?: string;
+  /** Human-readable description */
+  message: string;
+}
+
+/**
+ * Response from a single-record mutation route.
+ * `related` holds other issues the server updated to keep
+ * relationships consistent (parents, blockers, related issues).
+ */
+export interface ItemMutationResponse<T> extends ApiResponse<T> {
+  related?: Issue[];
 }
 
 /**
  * Data structure for the complete app state stored in JSON files
  */
 export interface AppData {
+  /** Schema version of exported data (see src/utils/migrations.ts); missing in older exports */
+  schemaVersion?: number;
   projects: Project[];
   issues: Issue[];
   sprints: Sprint[];
   users: User[];
   structures: Structure[];
 }
+
+/**
+ * A snapshot of the data directory kept in data/.backups
+ */
+export interface BackupInfo {
+  /** Snapshot ID (a filesystem-safe ISO timestamp, e.g., "2026-01-01T12-00-00-000Z") */
+  id: string;
+  /** When the snapshot was taken */
+  createdAt: string;
+  /** Why the snapshot was taken ("auto", "manual", "before restore of ...") */
+  reason: string;
+  /** Record count per data file in the snapshot */
+  files: Record<string, number>;
+}
+
+/**
+ * Result of restoring a snapshot
+ * `safetyBackup` is the snapshot of the data taken just before the restore.
+ */
+export interface BackupRestoreResult {
+  restored: BackupInfo;
+  safetyBackup: BackupInfo | null;
+}
+
+// ============================================================================
+// WORKSPACE TYPES
+// ============================================================================
+
+/**
+ * A named, separate set of data (its own data directory)
+ */
+export interface Workspace {
+  /** URL-safe ID derived from the name ("default" for the main data directory) */
+  id: string;
+  name: string;
+  /** Absolute path of the workspace's data directory */
+  dataDir: string;
+  createdAt: string;
+}
+
+/**
+ * How a new workspace gets its initial data
+ * - sample: a copy of the sample data shipped with the app
+ * - empty: no records
+ * - duplicate: a copy of another workspace, including its changelog
+ */
+export type WorkspaceSource = 'sample' | 'empty' | 'duplicate';
+
+/**
+ * The workspaces known to the server and the one it is serving
+ */
+export interface WorkspaceList {
+  activeId: string;
+  workspaces: Workspace[];
+}
+
+// ============================================================================
+// API TOKEN TYPES
+// ============================================================================
+
+/**
+ * A personal API token, as listed (the secret itself is never stored)
+ */
+export interface ApiToken {
+  id: string;
+  /** User the token acts as */
+  userId: string;
+  /** What the token is for (e.g., "Claude Desktop") */
+  name: string;
+  /** First characters of the token, to tell tokens apart */
+  prefix: string;
+  createdAt: string;
+}
+
+/**
+ * A newly minted token; `token` is only returned this once
+ */
+export interface CreatedApiToken extends ApiToken {
+  token: string;
+}
+
+// ============================================================================
+// WEBHOOK TYPES
+// ============================================================================
+
+/**
+ * Events a webhook can subscribe to (Jira Cloud's event names)
+ */
+export enum WebhookEvent {
+  IssueCreated = 'jira:issue_created',
+  IssueUpdated = 'jira:issue_updated',
+  IssueDeleted = 'jira:issue_deleted',
+  CommentCreated = 'comment_created',
+  CommentUpdated = 'comment_updated',
+  CommentDeleted = 'comment_deleted',
+  SprintCreated = 'sprint_created',
+  SprintUpdated = 'sprint_updated',
+  SprintStarted = 'sprint_started',
+  SprintClosed = 'sprint_closed',
+  SprintDeleted = 'sprint_deleted',
+}
+
+/**
+ * A registered webhook: where to POST which events
+ */
+export interface Webhook {
+  id: string;
+  name: string;
+  /** http(s) URL that receives the payloads */
+  url: string;
+  events: WebhookEvent[];
+  /** Only issues (and their comments) matching this JQL fire; sprint events ignore it */
+  jqlFilter: string | null;
+  enabled: boolean;
+  createdAt: string;
+}
+
+/**
+ * State of one delivery
+ * - pending: waiting for its first attempt or a retry
+ * - succeeded: the receiver answered with a 2xx status
+ * - failed: every attempt failed
+ */
+export type WebhookDeliveryStatus = 'pending' | 'succeeded' | 'failed';
+
+/**
+ * One event sent (or being sent) to one webhook, with its attempts
+ */
+export interface WebhookDelivery {
+  id: string;
+  webhookId: string;
+  event: WebhookEvent;
+  url: string;
+  /** The JSON body that is POSTed */
+  payload: Record<string, unknown>;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  /** HTTP status of the last attempt, if the receiver answered */
+  responseStatus: number | null;
+  /** Why the last attempt failed */
+  error: string | null;
+  createdAt: string;
+  lastAttemptAt: string | null;
+  /** When the next retry is due (pending deliveries only) */
+  nextAttemptAt: string | null;
+}
+
+// ============================================================================
+// CHANGE FEED TYPES
+// ============================================================================
+
+/**
+ * What happened to a record
+ */
+export type ChangeAction = 'created' | 'updated' | 'deleted';
+
+/**
+ * A change to one record in one data file
+ */
+export interface RecordChangeEvent<R extends string, T> {
+  /** Monotonic event sequence number (per server run) */
+  seq: number;
+  /** Data file the record lives in */
+  resource: R;
+  action: ChangeAction;
+  /** ID of the changed record */
+  recordId: string;
+  /** The record after the change (null when deleted) */
+  record: T | null;
+  /** Client that made the change (X-Client-Id), or null for MCP and external edits */
+  origin: string | null;
+  /** ISO date string when the change was detected */
+  timestamp: string;
+}
+
+/**
+ * Change events broadcast by the server at GET /api/events
+ */
+export type DataChangeEvent =
+  | RecordChangeEvent<'issues', Issue>
+  | RecordChangeEvent<'projects', Project>
+  | RecordChangeEvent<'sprints', Sprint>
+  | RecordChangeEvent<'users', User>
+  | RecordChangeEvent<'structures', Structure>
+  | RecordChangeEvent<'comments', Comment>;
+
+/**
+ * A data file edited outside the app (by hand, `git checkout`, ...) that
+ * was rejected as invalid, broadcast at GET /api/events
+ */
+export interface QuarantineEvent {
+  /** Data file that was rejected */
+  resource: DataChangeEvent['resource'];
+  /** Where the rejected file was moved, relative to the data directory */
+  quarantinedAs: string;
+  /** What is wrong with the file */
+  issues: DataValidationIssue[];
+  /** ISO date string when the file was rejected */
+  timestamp: string;
+}
+
+// ============================================================================
+// CHANGELOG TYPES
+// ============================================================================
+
+/**
+ * Where a change came from
+ */
+export type ChangeSource = 'web' | 'mcp' | 'api' | 'system';
+
+/**
+ * Who made a change
+ */
+export interface ChangeAuthor {
+  source: ChangeSource;
+  /** User the change is attributed to, if known */
+  userId: string | null;
+  /** Tool or action that made the change (e.g., "editJiraIssue") */
+  via: string | null;
+}
+
+/**
+ * One field changed on an issue
+ */
+export interface ChangelogItem {
+  field: string;
+  from: unknown;
+  to: unknown;
+}
+
+/**
+ * One entry in an issue's changelog (stored in the history resource)
+ */
+export interface ChangelogEntry {
+  /** Unique identifier for the entry */
+  id: string;
+  issueId: string;
+  /** Issue key at the time of the change */
+  issueKey: string;
+  action: ChangeAction;
+  author: ChangeAuthor;
+  /** ISO date string when the change was made */
+  timestamp: string;
+  /** Changed fields (empty for created/deleted) */
+  items: ChangelogItem[];
+}
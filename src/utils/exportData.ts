@@ -6,6 +6,7 @@
  */
 
 import type { Issue, Project, Sprint, User, Structure, AppData } from '../types';
+import { CURRENT_SCHEMA_VERSION } from './migrations';
 
 // ============================================================================
 // TYPES
@@ -41,6 +42,7 @@ export function exportToJSON(
   structures: Structure[]
 ): string {
   const data: AppData = {
+    schemaVersion: CURRENT_SCHEMA_VERSION,
     projects,
     issues,
     sprints,
@@ -55,7 +57,7 @@ export function exportToJSON(
  * Export only issues to JSON format
  */
 export function exportIssuesToJSON(issues: Issue[]): string {
-  return JSON.stringify({ issues }, null, 2);
+  return JSON.stringify({ schemaVersion: CURRENT_SCHEMA_VERSION, issues }, null, 2);
 }
 
 // ============================================================================
@@ -3,10 +3,13 @@
  * 
  * Functions for importing data from JSON and CSV files.
  * Includes validation, conflict detection, and error reporting.
+ * JSON exported by older versions is upgraded first (see migrations.ts).
  */
 
 import type { Issue, Project, Sprint, User, Structure, AppData } from '../types';
 import { IssueType, IssueStatus, Priority, SprintStatus } from '../types';
+import { migrateData, parseSchemaVersion } from './migrations';
+import type { MigratableData } from './migrations';
 
 // ============================================================================
 // TYPES
@@ -166,8 +169,24 @@ export function parseJSONData(content: string): {
     return { data: null, errors, warnings };
   }
   
+  // Upgrade files exported by older versions before validating them
+  const fromVersion = parseSchemaVersion((parsed as Record<string, unknown>).schemaVersion);
+  let obj: Record<string, unknown>;
+  try {
+    const migration = migrateData(parsed as MigratableData, fromVersion);
+    obj = migration.data;
+    for (const { version, description, changed } of migration.applied) {
+      const count = Object.values(changed).reduce((sum, n) => sum + n, 0);
+      if (count > 0) {
+        warnings.push(`Upgraded ${count} record${count === 1 ? '' : 's'} from an older export (v${version}: ${description})`);
+      }
+    }
+  } catch (e) {
+    errors.push({ message: e instanceof Error ? e.message : 'Unsupported schema version' });
+    return { data: null, errors, warnings };
+  }
+
   const data: Partial<AppData> = {};
-  const obj = parsed as Record<string, unknown>;
   
   // Parse issues
   if (obj.issues && Array.isArray(obj.issues)) {
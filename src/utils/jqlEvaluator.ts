@@ -9,15 +9,15 @@
  * - Array field handling (labels, components)
  */
 
-import type { Issue } from '../types';
-import { IssueType, IssueStatus, Priority } from '../types';
+import type { Issue } from '../types/index.js';
+import { IssueType, IssueStatus, Priority } from '../types/index.js';
 import type {
   ASTNode,
   BinaryExpression,
   UnaryExpression,
   ComparisonExpression,
   InExpression,
-} from './jqlParser';
+} from './jqlParser.js';
 
 // ============================================================================
 // FIELD VALUE EXTRACTION
@@ -41,9 +41,12 @@ const FIELD_MAP: Record<string, keyof Issue> = {
   'duedate': 'dueDate',
   'startdate': 'startDate',
   'createdat': 'createdAt',
+  'created': 'createdAt',
   'updatedat': 'updatedAt',
+  'updated': 'updatedAt',
   'key': 'key',
   'title': 'title',
+  'summary': 'title',
   'description': 'description',
   'parentid': 'parentId',
   'parent': 'parentId',
@@ -92,6 +95,11 @@ function getIssueField(jqlField: string): keyof Issue | null {
  * Get the value of a field from an issue
  */
 function getFieldValue(issue: Issue, field: string): unknown {
+  // The project is the key prefix (PHOENIX-12 -> PHOENIX)
+  if (field.toLowerCase() === 'project') {
+    return issue.key.split('-')[0];
+  }
+
   const issueField = getIssueField(field);
   if (!issueField) {
     return undefined;
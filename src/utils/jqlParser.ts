@@ -160,14 +160,17 @@ class Lexer {
       // Two-character operators
       if (this.match('!=')) {
         this.tokens.push(this.createToken(TokenType.NOT_EQUALS, '!='));
+        this.position += 2;
         continue;
       }
       if (this.match('>=')) {
         this.tokens.push(this.createToken(TokenType.GREATER_EQ, '>='));
+        this.position += 2;
         continue;
       }
       if (this.match('<=')) {
         this.tokens.push(this.createToken(TokenType.LESS_EQ, '<='));
+        this.position += 2;
         continue;
       }
 
@@ -703,6 +706,7 @@ export function getJQLFieldNames(): string[] {
     'createdAt',
     'updatedAt',
     'key',
+    'project',
     'title',
     'description',
     'parentId',
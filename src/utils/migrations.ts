@@ -0,0 +1,140 @@
+/**
+ * Data Migrations - Upgrading data written by older versions of the app
+ *
+ * Data carries a schema version: `meta.json` in the data directory, and
+ * `schemaVersion` in exported JSON files. Data from before versioning
+ * counts as version 1. Each migration upgrades the records of some data
+ * files by one version; they run when the server opens a data directory
+ * (src/server/dataMigrations.ts), when a JSON file is imported
+ * (importData.ts), and with `npm run migrate`.
+ *
+ * When the shape of a record changes, add a migration at the end of
+ * MIGRATIONS that fills in or converts the affected fields, so existing
+ * data directories and exported files keep loading.
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type MigratableResource = 'projects' | 'issues' | 'sprints' | 'users' | 'structures' | 'comments';
+
+type DataRecord = Record<string, unknown>;
+
+/** Records of each data file, as read (not validated yet) */
+export type MigratableData = Partial<Record<MigratableResource, unknown[]>>;
+
+export interface Migration {
+  /** Version the data has after this migration */
+  version: number;
+  description: string;
+  /** Upgrade one record, by data file; other data files are left alone */
+  records: Partial<Record<MigratableResource, (record: DataRecord) => DataRecord>>;
+}
+
+/** A migration that was run, with the number of records it changed */
+export interface AppliedMigration {
+  version: number;
+  description: string;
+  changed: Partial<Record<MigratableResource, number>>;
+}
+
+/**
+ * Thrown for data written by a newer version of the app, which this
+ * version can't read safely
+ */
+export class SchemaVersionError extends Error {
+  constructor(public readonly version: number) {
+    super(
+      `The data has schema version ${version}, but this version of the app only ` +
+      `understands up to version ${CURRENT_SCHEMA_VERSION}. Update the app to use it.`
+    );
+    this.name = 'SchemaVersionError';
+  }
+}
+
+// ============================================================================
+// MIGRATIONS
+// ============================================================================
+
+/**
+ * Add the fields a record is missing, after the ones it has
+ */
+function withDefaults(record: DataRecord, defaults: DataRecord): DataRecord {
+  const upgraded = { ...record };
+  for (const [field, value] of Object.entries(defaults)) {
+    if (upgraded[field] === undefined) upgraded[field] = value;
+  }
+  return upgraded;
+}
+
+export const MIGRATIONS: readonly Migration[] = [
+  {
+    version: 2,
+    description: 'Add planning, time tracking and related-issue fields to issues',
+    records: {
+      issues: issue => withDefaults(issue, {
+        version: null,
+        components: [],
+        dueDate: null,
+        startDate: null,
+        originalEstimate: null,
+        timeSpent: null,
+        remainingEstimate: null,
+        relatedTo: [],
+      }),
+    },
+  },
+];
+
+/** Schema version of data written by this version of the app */
+export const CURRENT_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+// ============================================================================
+// RUNNING MIGRATIONS
+// ============================================================================
+
+/**
+ * Read a stored schema version; anything missing or malformed is data
+ * from before versioning
+ */
+export function parseSchemaVersion(value: unknown): number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 1 ? value : 1;
+}
+
+/**
+ * Upgrade data from `fromVersion` to the current schema version.
+ * Returns the upgraded data (the input is left as it is) and the
+ * migrations that were run; throws SchemaVersionError for newer data.
+ */
+export function migrateData(
+  data: MigratableData,
+  fromVersion: number
+): { data: MigratableData; applied: AppliedMigration[] } {
+  if (fromVersion > CURRENT_SCHEMA_VERSION) {
+    throw new SchemaVersionError(fromVersion);
+  }
+
+  const upgraded: MigratableData = { ...data };
+  const applied: AppliedMigration[] = [];
+
+  for (const migration of MIGRATIONS.filter(m => m.version > fromVersion)) {
+    const changed: AppliedMigration['changed'] = {};
+    for (const [resource, upgrade] of Object.entries(migration.records) as [MigratableResource, (record: DataRecord) => DataRecord][]) {
+      const records = upgraded[resource];
+      if (!Array.isArray(records)) continue;
+
+      let count = 0;
+      upgraded[resource] = records.map(record => {
+        if (!record || typeof record !== 'object') return record;
+        const result = upgrade(record as DataRecord);
+        if (JSON.stringify(result) !== JSON.stringify(record)) count++;
+        return result;
+      });
+      if (count > 0) changed[resource] = count;
+    }
+    applied.push({ version: migration.version, description: migration.description, changed });
+  }
+
+  return { data: upgraded, applied };
+}
@@ -5,7 +5,7 @@
  * including move validation, circular reference detection, and sibling reordering.
  */
 
-import type { Issue } from '../types';
+import type { Issue } from '../types/index.js';
 
 // ============================================================================
 // TYPES
@@ -0,0 +1,126 @@
+/**
+ * Change Feed Test Suite
+ *
+ * Runs the web server on a copy of the sample data, edits its data files
+ * the way a person or git would (outside the storage API), and checks the
+ * Server-Sent Events the change feed turns them into: one diff event per
+ * changed record, a reload when an edit didn't raise the revision, and the
+ * origin of writes made through the API.
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { Comment, DataChangeEvent, Issue } from '../src/types';
+import { startTestServer, type EventStream, type TestServer } from './testServer';
+
+// ============================================================================
+// TEST HELPERS
+// ============================================================================
+
+let server: TestServer;
+let events: EventStream;
+
+beforeAll(async () => {
+  server = await startTestServer();
+});
+
+afterAll(async () => {
+  await server?.stop();
+});
+
+beforeEach(async () => {
+  events = await server.events();
+});
+
+afterEach(() => {
+  events.close();
+});
+
+/** Edit a data file by hand, outside the app */
+function editFile<T>(resource: string, edit: (records: T[]) => T[]): void {
+  const filePath = path.join(server.dataDir, `${resource}.json`);
+  const records = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as T[];
+  fs.writeFileSync(filePath, JSON.stringify(edit(records), null, 2));
+}
+
+const editIssue = (key: string, changes: Partial<Issue>) =>
+  editFile<Issue>('issues', issues => issues.map(issue => (issue.key === key ? { ...issue, ...changes } : issue)));
+
+const forRecord = (recordId: string) => (event: DataChangeEvent) => event.recordId === recordId;
+
+// ============================================================================
+// EXTERNAL EDITS
+// ============================================================================
+
+describe('Change feed for edits outside the app', () => {
+  it('should send an update for a hand edit that raised the revision', async () => {
+    editIssue('PHOENIX-2', { title: 'Edited by hand', revision: 50 });
+
+    const event: DataChangeEvent = await events.next('change', forRecord('issue-2'));
+    expect(event).toMatchObject({
+      resource: 'issues',
+      action: 'updated',
+      origin: null,
+      record: { key: 'PHOENIX-2', title: 'Edited by hand', revision: 50 },
+    });
+    // The records around it are unchanged and not reported
+    await new Promise(resolve => setTimeout(resolve, 300));
+    expect(events.received.map(e => e.event)).toEqual(['change']);
+  });
+
+  it('should tell clients to reload when a hand edit kept the revision', async () => {
+    editIssue('PHOENIX-3', { title: 'Checked out from git' });
+
+    const event: DataChangeEvent = await events.next('change', forRecord('issue-3'));
+    expect(event).toMatchObject({ action: 'updated', record: { title: 'Checked out from git' } });
+    expect(await events.next('reload')).toMatchObject({ resource: 'issues' });
+  });
+
+  it('should send created and deleted events for records added and removed by hand', async () => {
+    const comment: Comment = {
+      id: 'comment-hand-1',
+      issueId: 'issue-2',
+      author: 'user-2',
+      body: 'Added in an editor',
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString(),
+    };
+
+    editFile<Comment>('comments', comments => [...comments, comment]);
+    expect(await events.next('change', forRecord(comment.id))).toMatchObject({
+      resource: 'comments',
+      action: 'created',
+      record: comment,
+    });
+
+    editFile<Comment>('comments', comments => comments.filter(c => c.id !== comment.id));
+    expect(await events.next('change', forRecord(comment.id))).toMatchObject({
+      resource: 'comments',
+      action: 'deleted',
+      record: null,
+    });
+    // A created record isn't an outdated copy
+    expect(events.received.some(e => e.event === 'reload')).toBe(false);
+  });
+});
+
+// ============================================================================
+// WRITES THROUGH THE API
+// ============================================================================
+
+describe('Change feed for writes through the API', () => {
+  it('should report an API write once, with the client that made it', async () => {
+    const response = await server.request('PATCH', '/api/issues/PHOENIX-4', { title: 'Renamed in a tab' }, {
+      'X-Client-Id': 'tab-1',
+    });
+    expect(response.status).toBe(200);
+
+    const event: DataChangeEvent = await events.next('change', forRecord('issue-4'));
+    expect(event).toMatchObject({ action: 'updated', origin: 'tab-1', record: { title: 'Renamed in a tab' } });
+
+    // The file watcher sees the same write; it has nothing new to report
+    await new Promise(resolve => setTimeout(resolve, 300));
+    expect(events.received.map(e => e.event)).toEqual(['change']);
+  });
+});
@@ -0,0 +1,138 @@
+/**
+ * Data Files Test Suite
+ *
+ * Tests for the crash-safety helpers every write goes through: the data
+ * directory lock (reentrancy, waiting for another process, recovering a
+ * lock a crashed process left behind) and atomic file writes.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { spawn, spawnSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { withDataLock, writeFileAtomic } from '../src/server/dataFiles';
+import { JsonStorage } from '../src/server/jsonStorage';
+
+// ============================================================================
+// TEST HELPERS
+// ============================================================================
+
+let dataDir: string;
+let lockPath: string;
+
+beforeEach(() => {
+  dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'jira-structure-files-'));
+  lockPath = path.join(dataDir, '.lock');
+});
+
+afterEach(() => {
+  fs.rmSync(dataDir, { recursive: true, force: true });
+});
+
+/** The ID of a process that has exited */
+function deadPid(): number {
+  return spawnSync(process.execPath, ['-e', '']).pid!;
+}
+
+// ============================================================================
+// LOCK
+// ============================================================================
+
+describe('withDataLock', () => {
+  it('should hold the lock file while running and remove it afterwards', () => {
+    const result = withDataLock(dataDir, () => {
+      expect(fs.readFileSync(lockPath, 'utf-8')).toMatch(new RegExp(`^${process.pid}:\\d+$`));
+      return 'done';
+    });
+
+    expect(result).toBe('done');
+    expect(fs.existsSync(lockPath)).toBe(false);
+  });
+
+  it('should be reentrant, releasing the lock only when the outermost call ends', () => {
+    withDataLock(dataDir, () => {
+      withDataLock(dataDir, () => {
+        expect(fs.existsSync(lockPath)).toBe(true);
+      });
+      // Still held by the outer call
+      expect(fs.existsSync(lockPath)).toBe(true);
+
+      expect(() => withDataLock(dataDir, () => { throw new Error('Inner failure'); })).toThrow('Inner failure');
+      expect(fs.existsSync(lockPath)).toBe(true);
+    });
+
+    expect(fs.existsSync(lockPath)).toBe(false);
+  });
+
+  it('should release the lock when the function throws', () => {
+    expect(() => withDataLock(dataDir, () => { throw new Error('Disk full'); })).toThrow('Disk full');
+
+    expect(fs.existsSync(lockPath)).toBe(false);
+    expect(withDataLock(dataDir, () => 'again')).toBe('again');
+  });
+
+  it('should take over a lock left behind by a process that died', () => {
+    fs.writeFileSync(lockPath, `${deadPid()}:${Date.now()}`);
+
+    const started = Date.now();
+    expect(withDataLock(dataDir, () => fs.readFileSync(lockPath, 'utf-8'))).toMatch(new RegExp(`^${process.pid}:`));
+    expect(Date.now() - started).toBeLessThan(1000);
+  });
+
+  it('should take over a lock held for too long by a live process', () => {
+    // A running process, but the lock is older than any write takes
+    fs.writeFileSync(lockPath, `${process.ppid}:${Date.now() - 60_000}`);
+
+    expect(withDataLock(dataDir, () => 'recovered')).toBe('recovered');
+  });
+
+  it('should wait for another process to release its lock', async () => {
+    // Another process holds the lock, then releases it
+    fs.writeFileSync(lockPath, `${process.ppid}:${Date.now()}`);
+    const other = spawn(process.execPath, ['-e', `setTimeout(() => require('fs').rmSync(${JSON.stringify(lockPath)}), 300)`]);
+    const exited = new Promise(resolve => other.once('exit', resolve));
+
+    const started = Date.now();
+    withDataLock(dataDir, () => {
+      expect(fs.readFileSync(lockPath, 'utf-8')).toMatch(new RegExp(`^${process.pid}:`));
+    });
+    expect(Date.now() - started).toBeGreaterThanOrEqual(200);
+    await exited;
+  });
+});
+
+// ============================================================================
+// ATOMIC WRITES
+// ============================================================================
+
+describe('writeFileAtomic', () => {
+  it('should replace a file\'s content without leaving a temp file', () => {
+    const filePath = path.join(dataDir, 'issues.json');
+    fs.writeFileSync(filePath, '[]');
+
+    writeFileAtomic(filePath, '[{"id":"issue-1"}]');
+
+    expect(fs.readFileSync(filePath, 'utf-8')).toBe('[{"id":"issue-1"}]');
+    expect(fs.readdirSync(dataDir)).toEqual(['issues.json']);
+  });
+
+  it('should ignore and overwrite a temp file left over from a crash', () => {
+    const filePath = path.join(dataDir, 'issues.json');
+    fs.writeFileSync(filePath, '[{"id":"issue-1"}]');
+    // A crash between writing the temp file and renaming it: truncated
+    // content next to the intact file, from this process ID and another one
+    fs.writeFileSync(`${filePath}.${process.pid}.tmp`, '[{"id":"iss');
+    const otherTemp = `${filePath}.${deadPid()}.tmp`;
+    fs.writeFileSync(otherTemp, '[{"id":"iss');
+
+    const storage = new JsonStorage(dataDir);
+    expect(storage.read('issues')).toEqual([{ id: 'issue-1' }]);
+
+    storage.upsert('issues', [{ id: 'issue-2' }]);
+    expect(JSON.parse(fs.readFileSync(filePath, 'utf-8'))).toEqual([{ id: 'issue-1' }, { id: 'issue-2' }]);
+    expect(fs.existsSync(`${filePath}.${process.pid}.tmp`)).toBe(false);
+    // Another process's leftover is never read, so it does no harm
+    expect(fs.existsSync(otherTemp)).toBe(true);
+  });
+});
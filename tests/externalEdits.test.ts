@@ -0,0 +1,141 @@
+/**
+ * External Edits Test Suite
+ *
+ * Runs the web server on a copy of the sample data and breaks its data
+ * files by hand: content that stays invalid for a second is moved to the
+ * quarantine directory, the last good content is written back, and
+ * clients get a quarantine event. Also covers the file checks on their own.
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import { checkDataFile, getQuarantineDir, quarantineDataFile } from '../src/server/externalEdits';
+import type { DataChangeEvent, Issue, QuarantineEvent } from '../src/types';
+import { copySampleData, startTestServer, type EventStream, type TestServer } from './testServer';
+
+// ============================================================================
+// TEST HELPERS
+// ============================================================================
+
+let server: TestServer;
+let events: EventStream;
+
+beforeAll(async () => {
+  server = await startTestServer();
+});
+
+afterAll(async () => {
+  await server?.stop();
+});
+
+beforeEach(async () => {
+  events = await server.events();
+});
+
+afterEach(() => {
+  events.close();
+});
+
+const issuesFile = () => path.join(server.dataDir, 'issues.json');
+
+/** Issues with changes applied to one of them, as a file's content */
+function withIssue(content: string, key: string, changes: Partial<Issue> | Record<string, unknown>): string {
+  const issues = (JSON.parse(content) as Issue[]).map(issue => (issue.key === key ? { ...issue, ...changes } : issue));
+  return JSON.stringify(issues, null, 2);
+}
+
+const quarantinedFiles = (dataDir: string) =>
+  fs.existsSync(getQuarantineDir(dataDir)) ? fs.readdirSync(getQuarantineDir(dataDir)) : [];
+
+// ============================================================================
+// QUARANTINE
+// ============================================================================
+
+describe('Quarantine of invalid hand edits', () => {
+  it('should move a file that isn\'t valid JSON aside and restore the last good content', async () => {
+    const lastGood = JSON.parse(fs.readFileSync(issuesFile(), 'utf-8'));
+    const broken = '[{"id": "issue-1", "key": "PHOENIX-1",';
+    const started = Date.now();
+    fs.writeFileSync(issuesFile(), broken);
+
+    const event: QuarantineEvent = await events.next('quarantine');
+    expect(Date.now() - started).toBeGreaterThanOrEqual(1000);
+    expect(event).toMatchObject({
+      resource: 'issues',
+      quarantinedAs: expect.stringMatching(/^\.quarantine[/\\].+-issues\.json$/),
+      issues: [expect.objectContaining({ message: expect.stringMatching(/^issues\.json is not valid JSON: /) })],
+    });
+
+    expect(fs.readFileSync(path.join(server.dataDir, event.quarantinedAs), 'utf-8')).toBe(broken);
+    expect(JSON.parse(fs.readFileSync(issuesFile(), 'utf-8'))).toEqual(lastGood);
+    // The server still serves the data, and nothing was reported as changed
+    expect((await server.request('GET', '/api/issues')).body.data).toHaveLength(lastGood.length);
+    expect(events.received.some(e => e.event === 'change')).toBe(false);
+  });
+
+  it('should quarantine records that don\'t match the schema, naming the field', async () => {
+    const content = fs.readFileSync(issuesFile(), 'utf-8');
+    fs.writeFileSync(issuesFile(), withIssue(content, 'PHOENIX-2', { status: 'Someday' }));
+
+    const event: QuarantineEvent = await events.next('quarantine');
+    expect(event.issues).toEqual([expect.objectContaining({ resource: 'issues', id: 'issue-2', field: 'status' })]);
+    expect(fs.readFileSync(issuesFile(), 'utf-8')).toBe(JSON.stringify(JSON.parse(content), null, 2));
+  });
+
+  it('should leave a file alone when it\'s fixed within a second', async () => {
+    const content = fs.readFileSync(issuesFile(), 'utf-8');
+    const before = quarantinedFiles(server.dataDir);
+
+    // Saved halfway through an edit, then saved again
+    fs.writeFileSync(issuesFile(), content.slice(0, content.length / 2));
+    await new Promise(resolve => setTimeout(resolve, 400));
+    fs.writeFileSync(issuesFile(), withIssue(content, 'PHOENIX-3', { title: 'Fixed in time' }));
+
+    const change: DataChangeEvent = await events.next('change', event => event.recordId === 'issue-3');
+    expect(change.record).toMatchObject({ title: 'Fixed in time' });
+
+    await new Promise(resolve => setTimeout(resolve, 1200));
+    expect(events.received.some(e => e.event === 'quarantine')).toBe(false);
+    expect(quarantinedFiles(server.dataDir)).toEqual(before);
+    expect(JSON.parse(fs.readFileSync(issuesFile(), 'utf-8'))).toContainEqual(
+      expect.objectContaining({ key: 'PHOENIX-3', title: 'Fixed in time' })
+    );
+  });
+});
+
+// ============================================================================
+// FILE CHECKS
+// ============================================================================
+
+describe('checkDataFile and quarantineDataFile', () => {
+  let dataDir: string;
+
+  beforeEach(() => {
+    dataDir = copySampleData();
+  });
+
+  afterEach(() => {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('should accept valid files and count a missing one as empty', () => {
+    expect(checkDataFile(dataDir, 'issues')).toMatchObject({ valid: true, data: expect.any(Array) });
+
+    fs.rmSync(path.join(dataDir, 'comments.json'));
+    expect(checkDataFile(dataDir, 'comments')).toEqual({ valid: true, data: [] });
+  });
+
+  it('should not quarantine a file that changed again since it was checked', () => {
+    const filePath = path.join(dataDir, 'issues.json');
+    fs.writeFileSync(filePath, '{');
+    const check = checkDataFile(dataDir, 'issues');
+    expect(check.valid).toBe(false);
+    if (check.valid) return;
+
+    fs.writeFileSync(filePath, '[]');
+    expect(quarantineDataFile(dataDir, 'issues', check.content, check.issues, [])).toBeNull();
+    expect(fs.readFileSync(filePath, 'utf-8')).toBe('[]');
+    expect(quarantinedFiles(dataDir)).toEqual([]);
+  });
+});
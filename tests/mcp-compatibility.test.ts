@@ -7,10 +7,32 @@
  * Reference: https://github.com/atlassian/atlassian-mcp-server
  */
 
-import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
 import * as fs from 'fs';
 import * as path from 'path';
 import { fileURLToPath } from 'url';
+import { findIssuesByJQL, encodePageToken, decodePageToken } from '../src/server/search';
+import { formatSprintForAPI, formatIssueForRead } from '../src/server/jiraFormat';
+import { publishFileChange } from '../src/server/changeFeed';
+import {
+  createSprint,
+  updateSprint,
+  moveIssuesToSprint,
+  completeSprintAndMoveUnfinished,
+  sprintProgress,
+  activeSprintFor,
+  bulkUpdateIssues,
+  deleteIssueTree,
+  cloneIssue,
+} from '../src/domain';
+import type { Issue as DomainIssue, Sprint, ChangelogEntry } from '../src/types';
+import { SprintStatus } from '../src/types';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { ResourceListChangedNotificationSchema, ResourceUpdatedNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { createMcpServer, type McpDataAccess } from '../src/mcp/mcpServer';
+import { startTestServer, type TestServer } from './testServer';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -135,96 +157,9 @@ function getIssueByKey(issueIdOrKey: string): Issue | undefined {
   return issues.find(i => i.id === issueIdOrKey || i.key === issueIdOrKey);
 }
 
-// Simple JQL parser for testing
+// JQL search uses the shared engine, exactly as the MCP server does
 function searchIssuesWithJQL(jql: string): Issue[] {
-  const issues = getIssues();
-  
-  if (!jql || jql.trim() === '') {
-    return issues;
-  }
-  
-  // Parse simple conditions
-  const conditions: Array<{ field: string; operator: string; value: string | string[] }> = [];
-  
-  // IN pattern
-  const inPattern = /(\w+)\s+IN\s*\(([^)]+)\)/gi;
-  let match;
-  while ((match = inPattern.exec(jql)) !== null) {
-    const values = match[2].split(',').map(v => v.trim().replace(/["']/g, ''));
-    conditions.push({ field: match[1].toLowerCase(), operator: 'IN', value: values });
-  }
-  
-  // Comparison pattern
-  const compPattern = /(\w+)\s*(=|!=|>=|<=|>|<|~)\s*(?:"([^"]+)"|'([^']+)'|(\S+))/gi;
-  const jqlCleaned = jql.replace(inPattern, '');
-  while ((match = compPattern.exec(jqlCleaned)) !== null) {
-    const value = match[3] || match[4] || match[5];
-    conditions.push({ field: match[1].toLowerCase(), operator: match[2], value });
-  }
-  
-  // Status normalization
-  const statusMap: Record<string, string> = {
-    'todo': 'To Do',
-    'to do': 'To Do',
-    'inprogress': 'In Progress',
-    'in progress': 'In Progress',
-    'inreview': 'In Review',
-    'in review': 'In Review',
-    'done': 'Done',
-  };
-  
-  return issues.filter(issue => {
-    return conditions.every(condition => {
-      const fieldMap: Record<string, keyof Issue> = {
-        type: 'type',
-        status: 'status',
-        priority: 'priority',
-        assignee: 'assignee',
-        reporter: 'reporter',
-        sprint: 'sprint',
-        labels: 'labels',
-        storypoints: 'storyPoints',
-        key: 'key',
-        project: 'key',
-      };
-      
-      const issueField = fieldMap[condition.field];
-      if (!issueField) return true;
-      
-      let actualValue = issue[issueField];
-      if (condition.field === 'project') {
-        actualValue = issue.key.split('-')[0];
-      }
-      
-      let expectedValue = condition.value;
-      if (condition.field === 'status' && typeof expectedValue === 'string') {
-        expectedValue = statusMap[expectedValue.toLowerCase()] || expectedValue;
-      }
-      
-      if (condition.operator === 'IN' && Array.isArray(expectedValue)) {
-        const normalizedValues = expectedValue.map(v => 
-          condition.field === 'status' ? (statusMap[v.toLowerCase()] || v) : v
-        );
-        return normalizedValues.some(v => 
-          String(actualValue).toLowerCase() === v.toLowerCase()
-        );
-      }
-      
-      if (actualValue === null || actualValue === undefined) {
-        return condition.operator === '!=' || expectedValue === 'null';
-      }
-      
-      const actualStr = String(actualValue).toLowerCase();
-      const expectedStr = String(expectedValue).toLowerCase();
-      
-      switch (condition.operator) {
-        case '=': return actualStr === expectedStr;
-        case '!=': return actualStr !== expectedStr;
-        case '~': return actualStr.includes(expectedStr);
-        default: return true;
-      }
-    });
-  });
+  return findIssuesByJQL(getIssues() as unknown as DomainIssue[], jql) as unknown as Issue[];
 }
 
 // Format issue for API response (matching Atlassian format)
@@ -250,6 +185,97 @@ function formatIssueForAPI(issue: Issue): Record<string, unknown> {
   };
 }
 
+type MemoryDataAccess = McpDataAccess & {
+  /** Write as another client would: waits while a transaction is open */
+  writeAsOtherClient: (write: () => void) => void;
+};
+
+/**
+ * Data access over in-memory `records`, with transactions that behave like
+ * the storage backends': writes in one are undone if it throws, and other
+ * clients' writes wait for it to end, as they would for the data lock.
+ * `beforeSave` runs before each save.
+ */
+function memoryDataAccess(
+  records: Record<string, unknown[]>,
+  beforeSave: (resource: string) => void = () => {}
+): MemoryDataAccess {
+  let depth = 0;
+  const waiting: Array<() => void> = [];
+
+  return {
+    read: <T>(resource: string) => (records[resource] ?? []) as T[],
+    save: (resource, saved) => {
+      beforeSave(resource);
+      records[resource] = saved;
+    },
+    readChangelog: () => [],
+    transaction: fn => {
+      if (depth > 0) return fn();
+      const snapshot = { ...records };
+      depth++;
+      try {
+        return fn();
+      } catch (error) {
+        for (const resource of Object.keys(records)) delete records[resource];
+        Object.assign(records, snapshot);
+        throw error;
+      } finally {
+        depth--;
+        for (const write of waiting.splice(0)) write();
+      }
+    },
+    writeAsOtherClient: write => {
+      if (depth > 0) {
+        waiting.push(write);
+      } else {
+        write();
+      }
+    },
+  };
+}
+
+/**
+ * Connect a client to a real MCP server over an in-memory transport,
+ * optionally acting as a user (as with an API token)
+ */
+async function connectMcp(
+  data: McpDataAccess,
+  actingUser: User | null = null
+): Promise<{ client: Client; close: () => Promise<void> }> {
+  const server = createMcpServer(data, actingUser);
+  const client = new Client({ name: 'mcp-compatibility-test', version: '1.0.0' });
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+
+  return {
+    client,
+    close: async () => {
+      await client.close();
+      await server.close();
+    },
+  };
+}
+
+/**
+ * Call a tool on a real MCP server. Returns the parsed JSON result, and
+ * whether the server flagged it as an error.
+ */
+async function callMcpTool(
+  data: McpDataAccess,
+  name: string,
+  args: Record<string, unknown>
+): Promise<{ result: Record<string, unknown>; isError: boolean }> {
+  const { client, close } = await connectMcp(data);
+  try {
+    const response = await client.callTool({ name, arguments: args });
+    const [content] = response.content as { type: string; text: string }[];
+    return { result: JSON.parse(content.text), isError: response.isError === true };
+  } finally {
+    await close();
+  }
+}
+
 // ============================================================================
 // SETUP AND TEARDOWN
 // ============================================================================
@@ -280,8 +306,8 @@ describe('Atlassian MCP Compatibility', () => {
     /**
      * ATLASSIAN API REFERENCE:
      * Tool: searchJiraIssuesUsingJql
-     * Input: { jql: string, maxResults?: number, startAt?: number }
-     * Output: { issues: Issue[], total: number, startAt: number, maxResults: number }
+     * Input: { jql: string, maxResults?: number, startAt?: number, nextPageToken?: string, fields?: string[], expand?: string }
+     * Output: { issues: Issue[], total: number, startAt: number, maxResults: number, isLast: boolean, nextPageToken?: string }
      */
     
     it('should return issues matching JQL query', () => {
@@ -321,6 +347,26 @@ describe('Atlassian MCP Compatibility', () => {
       });
     });
     
+    it('should support OR, NOT and parentheses in JQL', () => {
+      const results = searchIssuesWithJQL('type = Bug AND NOT (priority = Low OR priority = Lowest)');
+      expect(results.length).toBeGreaterThan(0);
+      results.forEach(issue => {
+        expect(issue.type).toBe(IssueType.Bug);
+        expect([Priority.Low, Priority.Lowest]).not.toContain(issue.priority);
+      });
+    });
+    
+    it('should support the project field in JQL', () => {
+      const [first] = getIssues();
+      const projectKey = first.key.split('-')[0];
+      expect(searchIssuesWithJQL(`project = ${projectKey}`).length).toBe(getIssues().length);
+      expect(searchIssuesWithJQL('project = NOPE')).toHaveLength(0);
+    });
+    
+    it('should reject invalid JQL', () => {
+      expect(() => searchIssuesWithJQL('type = ')).toThrow(/Invalid JQL/);
+    });
+    
     it('should return results in Atlassian format', () => {
       const issues = searchIssuesWithJQL('type = Bug');
       const formatted = issues.map(formatIssueForAPI);
@@ -360,13 +406,33 @@ describe('Atlassian MCP Compatibility', () => {
       expect(paginatedResults.length).toBeLessThanOrEqual(maxResults);
       expect(paginatedResults[0]).toEqual(allIssues[startAt]);
     });
+
+    it('should return only the total for maxResults 0', async () => {
+      const { result, isError } = await callMcpTool(memoryDataAccess({ issues: getIssues() }), 'searchJiraIssuesUsingJql', {
+        jql: '',
+        maxResults: 0,
+      });
+
+      expect(isError).toBe(false);
+      expect(result).toMatchObject({ issues: [], total: getIssues().length, maxResults: 0 });
+      expect(result).not.toHaveProperty('nextPageToken');
+    });
+
+    it('should reject pagination that is not a non-negative integer', async () => {
+      for (const args of [{ maxResults: -1 }, { maxResults: '10' }, { maxResults: 2.5 }, { startAt: -5 }]) {
+        const { result, isError } = await callMcpTool(memoryDataAccess({ issues: getIssues() }), 'searchJiraIssuesUsingJql', { jql: '', ...args });
+
+        expect(isError).toBe(true);
+        expect(result.error).toMatch(/must be a non-negative integer/);
+      }
+    });
   });
   
   describe('getJiraIssue', () => {
     /**
      * ATLASSIAN API REFERENCE:
      * Tool: getJiraIssue
-     * Input: { issueIdOrKey: string }
+     * Input: { issueIdOrKey: string, fields?: string[], expand?: string }
      * Output: { issue: Issue }
      */
     
@@ -402,6 +468,38 @@ describe('Atlassian MCP Compatibility', () => {
       expect(fields.issuetype).toHaveProperty('name');
       expect(fields.status).toHaveProperty('name');
     });
+    
+    it('should support Jira field selection syntax', () => {
+      const issue = getIssueByKey('PHOENIX-1') as unknown as DomainIssue;
+      const fieldsOf = (selection: string[]) => Object.keys(formatIssueForRead(issue, { fields: selection }).fields as object);
+      
+      expect(fieldsOf(['summary', 'status', 'nonexistent'])).toEqual(['summary', 'status']);
+      expect(fieldsOf(['*all', '-description'])).not.toContain('description');
+      expect(fieldsOf(['-description'])).toEqual(fieldsOf(['*navigable', '-description']));
+      expect(fieldsOf(['id'])).toEqual([]);
+    });
+    
+    it('should expand names, renderedFields and changelog', () => {
+      const issue = getIssueByKey('PHOENIX-1') as unknown as DomainIssue;
+      const changelog: ChangelogEntry[] = [2, 1].map(n => ({
+        id: `change-${n}`,
+        issueId: issue.id,
+        issueKey: issue.key,
+        action: 'updated',
+        author: { source: 'mcp', userId: 'user-1', via: 'editJiraIssue' },
+        timestamp: `2026-01-0${n}T10:00:00.000Z`,
+        items: [{ field: 'storyPoints', from: n, to: n + 1 }],
+      }));
+      
+      const read = formatIssueForRead(issue, { fields: ['summary', 'created'], expand: ['names', 'renderedFields', 'changelog'], changelog });
+      
+      expect(read.names).toEqual({ summary: 'Summary', created: 'Created' });
+      expect((read.renderedFields as Record<string, unknown>).created).toMatch(/^\d{2}\/\w{3}\/\d{2} \d{1,2}:\d{2} [AP]M$/);
+      // Oldest first, with Jira's field IDs
+      const histories = (read.changelog as { histories: Array<{ id: string; items: Array<{ field: string }> }> }).histories;
+      expect(histories.map(h => h.id)).toEqual(['change-1', 'change-2']);
+      expect(histories[0].items[0].field).toBe('customfield_storypoints');
+    });
   });
   
   describe('createJiraIssue', () => {
@@ -808,6 +906,59 @@ describe('Atlassian MCP Compatibility', () => {
       expect(typeof result.created).toBe('string');
     });
   });
+  
+  describe('getJiraIssueComments', () => {
+    /**
+     * ATLASSIAN API REFERENCE:
+     * Tool: getJiraIssueComments
+     * Input: { issueIdOrKey: string, maxResults?: number, startAt?: number }
+     * Output: { comments: Comment[], total: number, startAt: number, maxResults: number }
+     */
+    
+    function commentRecords(): Record<string, unknown[]> {
+      const users = getUsers();
+      const issues = getIssues();
+      return {
+        issues,
+        users,
+        comments: [
+          { id: 'comment-2', issueId: issues[0].id, author: users[0].id, body: 'Second', createdAt: '2026-01-02T00:00:00.000Z', updatedAt: '2026-01-02T00:00:00.000Z' },
+          { id: 'comment-1', issueId: issues[0].id, author: users[0].id, body: 'First', createdAt: '2026-01-01T00:00:00.000Z', updatedAt: '2026-01-01T00:00:00.000Z' },
+          { id: 'comment-3', issueId: issues[1].id, author: users[0].id, body: 'Elsewhere', createdAt: '2026-01-03T00:00:00.000Z', updatedAt: '2026-01-03T00:00:00.000Z' },
+        ],
+      };
+    }
+
+    it('should return the issue\'s comments in Atlassian format, oldest first', async () => {
+      const records = commentRecords();
+      const users = getUsers();
+
+      const { result, isError } = await callMcpTool(memoryDataAccess(records), 'getJiraIssueComments', {
+        issueIdOrKey: getIssues()[0].key,
+      });
+      const comments = result.comments as Array<Record<string, unknown>>;
+
+      expect(isError).toBe(false);
+      expect(comments.map(c => c.body)).toEqual(['First', 'Second']);
+      expect(result).toMatchObject({ total: 2, startAt: 0, maxResults: 50 });
+      comments.forEach(comment => {
+        expect(comment.author).toEqual({ accountId: users[0].id, displayName: users[0].displayName });
+        expect(comment).toHaveProperty('created');
+        expect(comment).toHaveProperty('updated');
+      });
+    });
+
+    it('should page with startAt and maxResults', async () => {
+      const { result } = await callMcpTool(memoryDataAccess(commentRecords()), 'getJiraIssueComments', {
+        issueIdOrKey: getIssues()[0].key,
+        startAt: 1,
+        maxResults: 1,
+      });
+
+      expect((result.comments as Array<Record<string, unknown>>).map(c => c.body)).toEqual(['Second']);
+      expect(result).toMatchObject({ total: 2, startAt: 1, maxResults: 1 });
+    });
+  });
 });
 
 // ============================================================================
@@ -943,6 +1094,274 @@ describe('Structure Extension Tools (Local Only)', () => {
       }
     });
   });
+  
+  describe('deleteJiraIssue / cloneJiraIssue', () => {
+    it('should delete a subtree and drop links to it', () => {
+      const issues = getIssues() as unknown as DomainIssue[];
+      const parent = issues.find(i => i.childIds.length > 0 && i.parentId === null)!;
+      
+      const result = deleteIssueTree(issues, parent.key);
+      const deletedIds = new Set(result.deleted.map(i => i.id));
+      
+      expect(deletedIds.size).toBeGreaterThan(parent.childIds.length);
+      for (const issue of result.issues) {
+        expect(deletedIds.has(issue.id)).toBe(false);
+        expect([...issue.childIds, ...issue.blocks, ...issue.blockedBy, ...issue.relatedTo].some(id => deletedIds.has(id))).toBe(false);
+      }
+    });
+    
+    it('should clone children and links on both sides', () => {
+      const issues = getIssues() as unknown as DomainIssue[];
+      const epic = issues.find(i => i.type === 'Epic' && i.childIds.length > 0 && i.blockedBy.length + i.blocks.length > 0)
+        ?? issues.find(i => i.type === 'Epic' && i.childIds.length > 0)!;
+      
+      const result = cloneIssue(issues, epic.key, epic.reporter, { includeChildren: true, includeLinks: true });
+      const copy = result.issue;
+      
+      expect(copy.title).toBe(`CLONE - ${epic.title}`);
+      expect(copy.parentId).toBe(epic.parentId);
+      expect(copy.childIds).toHaveLength(epic.childIds.length);
+      expect(copy.childIds.some(id => epic.childIds.includes(id))).toBe(false);
+      for (const blockedId of copy.blocks) {
+        expect(result.issues.find(i => i.id === blockedId)?.blockedBy).toContain(copy.id);
+      }
+    });
+  });
+});
+
+// ============================================================================
+// SPRINT TOOL TESTS (Not in official Atlassian API)
+// ============================================================================
+
+describe('Sprint Tools (Local Only)', () => {
+  /**
+   * DEVIATION FROM ATLASSIAN API:
+   * The Atlassian Rovo MCP Server has no sprint tools. These follow Jira's
+   * Agile REST API (sprint states future/active/closed, originBoardId) and
+   * run the same domain operations as the web app's sprint store.
+   */
+  
+  function getSprints(): Sprint[] {
+    return readJsonFile<Sprint[]>('sprints.json');
+  }
+  
+  function getDomainIssues(): DomainIssue[] {
+    return getIssues() as unknown as DomainIssue[];
+  }
+  
+  describe('getJiraProjectSprints', () => {
+    it('should return sprints in Agile API format', () => {
+      const sprints = getSprints();
+      const formatted = sprints.map(formatSprintForAPI);
+      
+      formatted.forEach((sprint, index) => {
+        expect(sprint.id).toBe(sprints[index].id);
+        expect(['future', 'active', 'closed']).toContain(sprint.state);
+        expect(sprint.originBoardId).toBe(sprints[index].projectId);
+        expect(sprint).toHaveProperty('goal');
+      });
+    });
+  });
+  
+  describe('createJiraSprint', () => {
+    it('should plan a new sprint in the project', () => {
+      const sprints = getSprints();
+      const { sprints: updated, sprint } = createSprint(sprints, {
+        projectId: sprints[0].projectId,
+        name: ' Sprint 99 ',
+        startDate: '2026-03-02',
+        endDate: '2026-03-15',
+      });
+      
+      expect(updated).toHaveLength(sprints.length + 1);
+      expect(sprint.name).toBe('Sprint 99');
+      expect(sprint.status).toBe(SprintStatus.Planned);
+      expect(sprint.id).toMatch(/^sprint-/);
+    });
+    
+    it('should reject an end date before the start date', () => {
+      expect(() => createSprint(getSprints(), {
+        projectId: 'project-1',
+        name: 'Backwards',
+        startDate: '2026-03-15',
+        endDate: '2026-03-02',
+      })).toThrow('endDate must not be before startDate');
+    });
+  });
+  
+  describe('addIssuesToJiraSprint / removeIssuesFromJiraSprint', () => {
+    it('should move issues into a sprint and back to the backlog', () => {
+      const sprints = getSprints();
+      const planned = sprints.find(s => s.status === SprintStatus.Planned)!;
+      const issue = getDomainIssues().find(i => i.sprint !== planned.id)!;
+      
+      const added = moveIssuesToSprint(getDomainIssues(), sprints, planned.id, [issue.key]);
+      expect(added.moved.map(i => i.key)).toEqual([issue.key]);
+      expect(added.issues.find(i => i.id === issue.id)?.sprint).toBe(planned.id);
+      
+      const removed = moveIssuesToSprint(added.issues, sprints, null, [issue.key]);
+      expect(removed.issues.find(i => i.id === issue.id)?.sprint).toBeNull();
+    });
+    
+    it('should not add issues to a completed sprint', () => {
+      const sprints = getSprints();
+      const completed = sprints.find(s => s.status === SprintStatus.Completed)!;
+      const issue = getDomainIssues()[0];
+      
+      expect(() => moveIssuesToSprint(getDomainIssues(), sprints, completed.id, [issue.key]))
+        .toThrow('because it is completed');
+    });
+  });
+  
+  describe('startJiraSprint', () => {
+    it('should allow only one active sprint per project', () => {
+      const sprints = getSprints();
+      const active = sprints.find(s => s.status === SprintStatus.Active)!;
+      const planned = sprints.find(s => s.projectId === active.projectId && s.status === SprintStatus.Planned)!;
+      
+      expect(() => updateSprint(sprints, planned.id, { status: SprintStatus.Active }))
+        .toThrow(`${active.name} is already active`);
+      
+      // Once the active sprint is completed, the next one can start
+      const completed = updateSprint(sprints, active.id, { status: SprintStatus.Completed }).sprints;
+      const started = updateSprint(completed, planned.id, { status: SprintStatus.Active });
+      expect(started.sprint.status).toBe(SprintStatus.Active);
+      expect(activeSprintFor(started.sprints, active.projectId)?.id).toBe(planned.id);
+    });
+  });
+  
+  describe('completeJiraSprint', () => {
+    it('should move unfinished issues to the backlog or another sprint', () => {
+      const sprints = getSprints();
+      const active = sprints.find(s => s.status === SprintStatus.Active)!;
+      const next = sprints.find(s => s.projectId === active.projectId && s.status === SprintStatus.Planned)!;
+      // Finish one issue so the sprint has done and unfinished work
+      const finishedId = getDomainIssues().find(i => i.sprint === active.id)!.id;
+      const issues = getDomainIssues().map(issue =>
+        issue.id === finishedId ? { ...issue, status: 'Done' as DomainIssue['status'] } : issue
+      );
+      const inSprint = issues.filter(i => i.sprint === active.id);
+      const unfinished = inSprint.filter(i => i.status !== 'Done');
+      
+      const toBacklog = completeSprintAndMoveUnfinished(sprints, issues, active.id, null);
+      expect(toBacklog.sprint.status).toBe(SprintStatus.Completed);
+      expect(toBacklog.moved.map(i => i.id)).toEqual(unfinished.map(i => i.id));
+      expect(toBacklog.issues.filter(i => i.sprint === active.id)).toHaveLength(inSprint.length - unfinished.length);
+      
+      const toNext = completeSprintAndMoveUnfinished(sprints, issues, active.id, next.id);
+      expect(toNext.moved.every(i => i.sprint === next.id)).toBe(true);
+    });
+    
+    it('should only complete an active sprint', () => {
+      const sprints = getSprints();
+      const planned = sprints.find(s => s.status === SprintStatus.Planned)!;
+      
+      expect(() => completeSprintAndMoveUnfinished(sprints, getDomainIssues(), planned.id, null))
+        .toThrow('Only an active sprint can be completed');
+    });
+    
+    it('should not close the sprint if its issues can\'t be moved', async () => {
+      const records: Record<string, unknown[]> = { sprints: getSprints(), issues: getIssues() };
+      const active = getSprints().find(s => s.status === SprintStatus.Active)!;
+      const data = memoryDataAccess(records, resource => {
+        if (resource === 'issues') throw new Error('Disk full');
+      });
+
+      const { result, isError } = await callMcpTool(data, 'completeJiraSprint', { sprintId: active.id });
+
+      expect(isError).toBe(true);
+      expect(result.error).toBe('Disk full');
+      expect((records.sprints as Sprint[]).find(s => s.id === active.id)?.status).toBe(SprintStatus.Active);
+      expect(records.issues).toEqual(getIssues());
+    });
+  });
+  
+  describe('addIssuesToJiraSprint', () => {
+    it('should not undo a sprint change another client makes while issues move', async () => {
+      const records: Record<string, unknown[]> = { sprints: getSprints(), issues: getIssues() };
+      const planned = getSprints().find(s => s.status === SprintStatus.Planned)!;
+      const backlogIssue = getIssues().find(i => i.sprint === null && i.type === 'Story')!;
+      const otherIssue = getIssues().find(i => i.sprint === null && i.id !== backlogIssue.id)!;
+
+      // Another client moves a different issue between the tool's read and save
+      let raced = false;
+      const data = memoryDataAccess(records, () => {
+        if (raced) return;
+        raced = true;
+        data.writeAsOtherClient(() => {
+          records.issues = (records.issues as Issue[]).map(i => (i.id === otherIssue.id ? { ...i, sprint: planned.id } : i));
+        });
+      });
+
+      const { result } = await callMcpTool(data, 'addIssuesToJiraSprint', { sprintId: planned.id, issueKeys: [backlogIssue.key] });
+
+      expect(result.moved).toEqual([backlogIssue.key]);
+      const issues = records.issues as Issue[];
+      expect(issues.find(i => i.id === backlogIssue.id)?.sprint).toBe(planned.id);
+      expect(issues.find(i => i.id === otherIssue.id)?.sprint).toBe(planned.id);
+    });
+  });
+  
+  describe('getJiraSprintProgress', () => {
+    it('should count issues and story points by status', () => {
+      const active = activeSprintFor(getSprints(), 'project-1')!;
+      const issues = getDomainIssues();
+      const inSprint = issues.filter(i => i.sprint === active.id);
+      
+      const progress = sprintProgress(active, issues, new Date(active.startDate));
+      
+      expect(progress.totalIssues).toBe(inSprint.length);
+      expect(Object.values(progress.issues).reduce((sum, count) => sum + count, 0)).toBe(inSprint.length);
+      expect(progress.totalStoryPoints).toBe(inSprint.reduce((sum, i) => sum + (i.storyPoints ?? 0), 0));
+      expect(progress.percentComplete).toBe(Math.round((progress.doneIssues / inSprint.length) * 100));
+      expect(progress.daysRemaining).toBeGreaterThan(0);
+    });
+  });
+});
+
+describe('Bulk Tools (Local Only)', () => {
+  /**
+   * DEVIATION FROM ATLASSIAN API:
+   * Jira Cloud only offers bulk changes in its web UI. bulkEditJiraIssues
+   * applies one operation to every issue matching a JQL query, in one write.
+   */
+  
+  function getDomainIssues(): DomainIssue[] {
+    return getIssues() as unknown as DomainIssue[];
+  }
+  
+  function getSprints(): Sprint[] {
+    return readJsonFile<Sprint[]>('sprints.json');
+  }
+  
+  describe('bulkEditJiraIssues', () => {
+    it('should diff the issues it changes and skip the ones it would not', () => {
+      const issues = getDomainIssues();
+      const bugs = findIssuesByJQL(issues, 'type = Bug');
+      const labelled = bugs.find(i => i.labels.includes('bug'))!;
+      
+      const result = bulkUpdateIssues(issues, getSprints(), bugs.map(i => i.id), { type: 'addLabels', labels: ['bug'] });
+      
+      expect(result.unchanged).toContain(labelled.key);
+      expect(result.changed.length + result.unchanged.length).toBe(bugs.length);
+      for (const change of result.changed) {
+        expect(change.changes.labels?.to).toContain('bug');
+        expect(Object.keys(change.changes)).toEqual(['labels']);
+      }
+      // Unchanged issues keep their record, updatedAt included
+      expect(result.issues.find(i => i.id === labelled.id)).toBe(issues.find(i => i.id === labelled.id));
+    });
+    
+    it('should name the issue the operation failed for', () => {
+      const issues = getDomainIssues();
+      const epic = issues.find(i => i.type === 'Epic' && i.childIds.length > 0)!;
+      const child = issues.find(i => i.id === epic.childIds[0])!;
+      
+      // The epic can't move under its own child
+      expect(() => bulkUpdateIssues(issues, getSprints(), [epic.id], { type: 'reparent', parentIdOrKey: child.key }))
+        .toThrow(`${epic.key}: Cannot move an issue into its own subtree`);
+    });
+  });
 });
 
 // ============================================================================
@@ -1104,6 +1523,11 @@ describe('Response Format Compatibility', () => {
       expect(response).toHaveProperty('maxResults');
       expect(Array.isArray(response.issues)).toBe(true);
     });
+    
+    it('should round-trip nextPageToken and reject made-up ones', () => {
+      expect(decodePageToken(encodePageToken(50))).toBe(50);
+      expect(() => decodePageToken('not-a-token')).toThrow('Invalid nextPageToken');
+    });
   });
   
   describe('User Response Format', () => {
@@ -1124,3 +1548,407 @@ describe('Response Format Compatibility', () => {
     });
   });
 });
+
+// ============================================================================
+// RESOURCES
+// ============================================================================
+
+describe('MCP Resources', () => {
+  function resourceRecords(): Record<string, unknown[]> {
+    const [issue] = getIssues();
+    return {
+      issues: getIssues(),
+      projects: getProjects(),
+      users: getUsers(),
+      sprints: readJsonFile<Sprint[]>('sprints.json'),
+      structures: readJsonFile<unknown[]>('structures.json'),
+      comments: [
+        { id: 'comment-1', issueId: issue.id, author: 'user-3', body: 'Looks good', createdAt: '2026-01-02T00:00:00.000Z', updatedAt: '2026-01-02T00:00:00.000Z' },
+      ],
+    };
+  }
+
+  async function readText(client: Client, uri: string): Promise<string> {
+    const { contents } = await client.readResource({ uri });
+    expect(contents).toEqual([expect.objectContaining({ uri, mimeType: 'text/markdown' })]);
+    return (contents[0] as { text: string }).text;
+  }
+
+  it('should list projects, then structures, then issues', async () => {
+    const { client, close } = await connectMcp(memoryDataAccess(resourceRecords()));
+    try {
+      const { resources } = await client.listResources();
+      const issues = getIssues();
+
+      expect(resources.map(r => r.uri)).toEqual([
+        'jira://project/PHOENIX',
+        'jira://structure/structure-1',
+        ...issues.map(i => `jira://issue/${i.key}`),
+      ]);
+      expect(resources[2]).toMatchObject({
+        name: `${issues[0].key}: ${issues[0].title}`,
+        description: `${issues[0].type} · ${issues[0].status}`,
+      });
+
+      const { resourceTemplates } = await client.listResourceTemplates();
+      expect(resourceTemplates.map(t => t.uriTemplate)).toEqual([
+        'jira://issue/{issueKey}',
+        'jira://project/{projectKey}',
+        'jira://structure/{structureId}',
+      ]);
+    } finally {
+      await close();
+    }
+  });
+
+  it('should read an issue with its hierarchy and comments', async () => {
+    const issues = getIssues();
+    const issue = issues.find(i => i.parentId !== null && i.childIds.length > 0)!;
+    const parent = issues.find(i => i.id === issue.parentId)!;
+    const { client, close } = await connectMcp(memoryDataAccess(resourceRecords()));
+    try {
+      const text = await readText(client, `jira://issue/${issue.key}`);
+
+      expect(text.startsWith(`# ${issue.key}: ${issue.title}\n`)).toBe(true);
+      expect(text).toContain(`| Status | ${issue.status} |`);
+      expect(text).toContain(`- Parent: ${parent.key} ${parent.title} (${parent.status})`);
+      for (const child of issues.filter(i => issue.childIds.includes(i.id))) {
+        expect(text).toContain(`  - ${child.key} ${child.title} (${child.status})`);
+      }
+
+      // Comments are rendered on the issue they belong to
+      expect(await readText(client, `jira://issue/${issues[0].key}`)).toContain('## Comments (1)\n\n**Marcus Johnson** (2026-01-02T00:00:00.000Z)\n\nLooks good');
+      expect(text).toContain('## Comments (0)');
+    } finally {
+      await close();
+    }
+  });
+
+  it('should read a project overview and a structure\'s tree', async () => {
+    const issues = getIssues();
+    const { client, close } = await connectMcp(memoryDataAccess(resourceRecords()));
+    try {
+      const project = await readText(client, 'jira://project/PHOENIX');
+      expect(project).toContain('# PHOENIX: Phoenix Platform');
+      expect(project).toContain(`- Issues: ${issues.length}`);
+      expect(project).toMatch(/^- Sprint 4 \(active, 2026-01-13 to 2026-01-26, \d+ issues\)/m);
+      expect(project).toContain('- Default Structure: jira://structure/structure-1');
+
+      const structure = (await readText(client, 'jira://structure/structure-1')).split('\n');
+      const [root] = issues;
+      const child = issues.find(i => i.id === root.childIds[0])!;
+      const rootLine = structure.findIndex(line => line.startsWith(`- **${root.key}** ${root.title}`));
+      expect(rootLine).toBeGreaterThan(0);
+      expect(structure[rootLine + 1].startsWith(`  - **${child.key}** ${child.title}`)).toBe(true);
+    } finally {
+      await close();
+    }
+  });
+
+  it('should reject URIs that match no resource', async () => {
+    const { client, close } = await connectMcp(memoryDataAccess(resourceRecords()));
+    try {
+      await expect(client.readResource({ uri: 'jira://issue/PHOENIX-404' })).rejects.toThrow(/Resource not found/);
+      await expect(client.readResource({ uri: 'jira://board/1' })).rejects.toThrow(/Resource not found/);
+    } finally {
+      await close();
+    }
+  });
+
+  it('should notify subscribers when a change alters what they subscribed to', async () => {
+    const records = resourceRecords();
+    const [watched, other] = getIssues().slice(1);
+    const { client, close } = await connectMcp(memoryDataAccess(records));
+    const updated: string[] = [];
+    let listChanged = 0;
+    client.setNotificationHandler(ResourceUpdatedNotificationSchema, notification => {
+      updated.push(notification.params.uri);
+    });
+    client.setNotificationHandler(ResourceListChangedNotificationSchema, () => {
+      listChanged++;
+    });
+
+    /** Save issues the way the host does: through storage, then the change feed */
+    const saveIssues = (change: (issue: Issue) => Issue) => {
+      records.issues = (records.issues as Issue[]).map(change);
+      publishFileChange('issues', records.issues);
+    };
+
+    try {
+      await client.subscribeResource({ uri: `jira://issue/${watched.key}` });
+      await client.subscribeResource({ uri: `jira://issue/${other.key}` });
+
+      saveIssues(i => (i.id === watched.id ? { ...i, title: 'Renamed by hand' } : i));
+      await vi.waitFor(() => expect(updated).toEqual([`jira://issue/${watched.key}`]));
+      // The renamed issue's name in the list changed too
+      await vi.waitFor(() => expect(listChanged).toBe(1));
+
+      // No notification once unsubscribed
+      await client.unsubscribeResource({ uri: `jira://issue/${watched.key}` });
+      saveIssues(i => (i.id === watched.id ? { ...i, title: 'Renamed again' } : i));
+      await vi.waitFor(() => expect(listChanged).toBe(2));
+      expect(updated).toHaveLength(1);
+    } finally {
+      await close();
+    }
+  });
+});
+
+// ============================================================================
+// PROMPTS
+// ============================================================================
+
+describe('MCP Prompts', () => {
+  function promptRecords(): Record<string, unknown[]> {
+    const sprints = readJsonFile<Sprint[]>('sprints.json');
+    const [first] = sprints;
+    return {
+      issues: getIssues(),
+      projects: getProjects(),
+      users: getUsers(),
+      sprints: [
+        // A later planned sprint listed first, and an older completed one last
+        { ...first, id: 'sprint-6', name: 'Sprint 6', status: SprintStatus.Planned, startDate: '2026-02-10T00:00:00.000Z', endDate: '2026-02-23T00:00:00.000Z' },
+        ...sprints,
+        { ...first, id: 'sprint-0', name: 'Sprint 0', status: SprintStatus.Completed, startDate: '2025-11-18T00:00:00.000Z', endDate: '2025-12-01T00:00:00.000Z' },
+      ],
+      structures: [],
+      comments: [],
+    };
+  }
+
+  async function getPromptText(
+    name: string,
+    args: Record<string, string>,
+    { records = promptRecords(), actingUser = null as User | null } = {}
+  ): Promise<string> {
+    const { client, close } = await connectMcp(memoryDataAccess(records), actingUser);
+    try {
+      const { messages } = await client.getPrompt({ name, arguments: args });
+      expect(messages).toHaveLength(1);
+      return (messages[0].content as { text: string }).text;
+    } finally {
+      await close();
+    }
+  }
+
+  const standupFor = (user: string) => getPromptText('daily-standup', user ? { user } : {});
+
+  it('should list the prompts with their arguments', async () => {
+    const { client, close } = await connectMcp(memoryDataAccess(promptRecords()));
+    try {
+      const { prompts } = await client.listPrompts();
+      expect(prompts.map(p => [p.name, p.arguments?.map(a => `${a.name}${a.required ? '' : '?'}`)])).toEqual([
+        ['daily-standup', ['user?']],
+        ['sprint-planning', ['projectKey']],
+        ['bug-triage', ['projectKey?']],
+        ['epic-status-report', ['epicKey']],
+      ]);
+    } finally {
+      await close();
+    }
+  });
+
+  describe('daily-standup', () => {
+    const heading = 'Draft the daily standup update for Marcus Johnson (marcus.johnson@phoenix.dev).';
+
+    it('should find the user by account ID, email or display name', async () => {
+      expect((await standupFor('user-3')).startsWith(heading)).toBe(true);
+      expect(await standupFor('Marcus.Johnson@PHOENIX.dev')).toContain(heading);
+      expect(await standupFor('marcus johnson')).toContain(heading);
+      // A part of a name is enough when only one user matches
+      expect(await standupFor('  marc ')).toContain(heading);
+    });
+
+    it('should reject names that match several users or none', async () => {
+      await expect(standupFor('ar')).rejects.toThrow(/User "ar" is ambiguous: Sarah Kim, Marcus Johnson, David Park/);
+      await expect(standupFor('Nobody')).rejects.toThrow(/User not found: Nobody/);
+    });
+
+    it('should default to the user of the server\'s API token', async () => {
+      const [user] = getUsers();
+      expect(await getPromptText('daily-standup', {}, { actingUser: user })).toContain(`update for ${user.displayName} (`);
+      await expect(standupFor('')).rejects.toThrow(/needs the user argument/);
+    });
+  });
+
+  describe('sprint-planning', () => {
+    it('should plan the planned sprint that starts next, with the velocity of the last three sprints', async () => {
+      const issues = getIssues();
+      const planned = issues.filter(i => i.sprint === 'sprint-5');
+      const text = await getPromptText('sprint-planning', { projectKey: 'phoenix' });
+
+      expect(text).toMatch(/^Help plan Sprint 5 for PHOENIX \(Phoenix Platform\)\./);
+      expect(text).toContain('## Sprint 5 (2026-01-27 to 2026-02-09)');
+      expect(text).toContain(`- Already planned: ${planned.length} issues, ${planned.reduce((sum, i) => sum + (i.storyPoints ?? 0), 0)} points`);
+
+      // Newest completed sprint first; Sprint 0 is older than the last three
+      const velocity = text.slice(text.indexOf('## Velocity'), text.indexOf('## Unfinished'));
+      expect(velocity.trim().split('\n').slice(2)).toEqual([
+        '- Sprint 3: 16 points done',
+        '- Sprint 2: 26 points done',
+        '- Sprint 1: 21 points done',
+        '- Average: 21 points per sprint',
+      ]);
+      expect(text).toContain('## Unfinished in the active sprint (Sprint 4)');
+    });
+
+    it('should say when there is no velocity yet, and reject projects without a planned sprint', async () => {
+      const records = promptRecords();
+      records.sprints = (records.sprints as Sprint[]).filter(s => s.status !== SprintStatus.Completed);
+      expect(await getPromptText('sprint-planning', { projectKey: 'PHOENIX' }, { records })).toContain('## Velocity\n\n_No completed sprints yet_');
+
+      records.sprints = (records.sprints as Sprint[]).filter(s => s.status !== SprintStatus.Planned);
+      await expect(getPromptText('sprint-planning', { projectKey: 'PHOENIX' }, { records }))
+        .rejects.toThrow(/Project PHOENIX has no planned sprint/);
+    });
+
+    it('should require an existing project', async () => {
+      await expect(getPromptText('sprint-planning', {})).rejects.toThrow(/needs the projectKey argument/);
+      await expect(getPromptText('sprint-planning', { projectKey: 'NOPE' })).rejects.toThrow(/Project not found: NOPE/);
+    });
+  });
+
+  describe('bug-triage and epic-status-report', () => {
+    it('should only triage unassigned bugs that aren\'t done', async () => {
+      const open = getIssues().filter(i => i.type === IssueType.Bug && i.assignee === null && i.status !== IssueStatus.Done);
+      const text = await getPromptText('bug-triage', {});
+
+      const bugs = text.slice(text.indexOf('## Unassigned bugs'), text.indexOf('## Workload'));
+      expect(bugs).toContain(`## Unassigned bugs (${open.length})`);
+      expect(bugs.match(/^- PHOENIX-\d+/gm)!.map(line => line.slice(2)).sort()).toEqual(open.map(i => i.key).sort());
+    });
+
+    it('should report on an epic and reject other issue types', async () => {
+      const [epic] = getIssues().filter(i => i.type === IssueType.Epic);
+      expect(await getPromptText('epic-status-report', { epicKey: epic.key })).toContain(`status report for the epic ${epic.key}: ${epic.title}.`);
+
+      await expect(getPromptText('epic-status-report', { epicKey: 'PHOENIX-1' })).rejects.toThrow(/PHOENIX-1 is a Initiative, not an Epic/);
+      await expect(getPromptText('no-such-prompt', {})).rejects.toThrow(/Unknown prompt: no-such-prompt/);
+    });
+  });
+});
+
+// ============================================================================
+// CONCURRENT WRITES
+// ============================================================================
+
+describe('Concurrent Writes', () => {
+  it('should not lose another client\'s edit made while a tool runs', async () => {
+    const [edited, other] = getIssues();
+    const records: Record<string, unknown[]> = { issues: getIssues(), projects: getProjects(), users: getUsers() };
+
+    // Another client renames an issue between the tool's read and its save
+    let raced = false;
+    const data = memoryDataAccess(records, resource => {
+      if (resource !== 'issues' || raced) return;
+      raced = true;
+      data.writeAsOtherClient(() => {
+        records.issues = (records.issues as Issue[]).map(i => (i.id === other.id ? { ...i, title: 'Renamed elsewhere' } : i));
+      });
+    });
+
+    const { isError } = await callMcpTool(data, 'editJiraIssue', {
+      issueIdOrKey: edited.key,
+      fields: { priority: 'Lowest' },
+    });
+
+    const issues = records.issues as Issue[];
+    expect(isError).toBe(false);
+    expect(raced).toBe(true);
+    expect(issues.find(i => i.id === edited.id)?.priority).toBe('Lowest');
+    expect(issues.find(i => i.id === other.id)?.title).toBe('Renamed elsewhere');
+  });
+});
+
+// ============================================================================
+// MCP OVER HTTP
+// ============================================================================
+
+describe('MCP over HTTP (/mcp)', () => {
+  const BOOTSTRAP_SECRET = 'jsb_mcp-tests';
+  let server: TestServer;
+  const tokens: Record<string, string> = {};
+
+  beforeAll(async () => {
+    server = await startTestServer({ TOKEN_BOOTSTRAP_SECRET: BOOTSTRAP_SECRET });
+    for (const userId of ['user-2', 'user-3']) {
+      const response = await server.request('POST', `/api/users/${userId}/tokens`, { name: 'MCP tests' }, {
+        'X-Bootstrap-Secret': BOOTSTRAP_SECRET,
+      });
+      tokens[userId] = response.body.data.token;
+    }
+  }, 60_000);
+
+  afterAll(async () => {
+    await server?.stop();
+  });
+
+  /** Start a session as a user, with the SDK's HTTP client */
+  async function connectHttp(userId: string): Promise<{ client: Client; transport: StreamableHTTPClientTransport }> {
+    const transport = new StreamableHTTPClientTransport(new URL(`${server.url}/mcp`), {
+      requestInit: { headers: { Authorization: `Bearer ${tokens[userId]}` } },
+    });
+    const client = new Client({ name: 'mcp-http-test', version: '1.0.0' });
+    await client.connect(transport);
+    return { client, transport };
+  }
+
+  /** Send a raw JSON-RPC request on a session */
+  function postRpc(sessionId: string, headers: Record<string, string> = {}) {
+    return fetch(`${server.url}/mcp`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'application/json, text/event-stream',
+        'Mcp-Session-Id': sessionId,
+        'Mcp-Protocol-Version': '2025-06-18',
+        ...headers,
+      },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 99, method: 'tools/list', params: {} }),
+    });
+  }
+
+  it('should initialize a session, call tools as the token\'s user, and end it with DELETE', async () => {
+    const { client, transport } = await connectHttp('user-2');
+    const sessionId = transport.sessionId!;
+    expect(sessionId).toBeTruthy();
+
+    const whoAmI = await client.callTool({ name: 'atlassianUserInfo', arguments: {} });
+    expect(JSON.parse((whoAmI.content as { text: string }[])[0].text).accountId).toBe('user-2');
+
+    const edit = await client.callTool({
+      name: 'editJiraIssue',
+      arguments: { issueIdOrKey: 'PHOENIX-2', fields: { priority: 'Lowest' } },
+    });
+    expect(edit.isError).toBeFalsy();
+    const issue = await server.request('GET', '/rest/api/3/issue/PHOENIX-2?fields=priority');
+    expect(issue.body.fields.priority.name).toBe('Lowest');
+    const changelog = await server.request('GET', '/api/issues/PHOENIX-2/changelog');
+    expect(changelog.body.data[0].author).toMatchObject({ source: 'mcp', userId: 'user-2', via: 'editJiraIssue' });
+
+    await transport.terminateSession();
+    expect(transport.sessionId).toBeUndefined();
+    expect((await postRpc(sessionId, { Authorization: `Bearer ${tokens['user-2']}` })).status).toBe(404);
+    await client.close();
+  });
+
+  it('should not let another user or an anonymous caller take over a session', async () => {
+    const { client, transport } = await connectHttp('user-2');
+    try {
+      const sessionId = transport.sessionId!;
+
+      const otherUser = await postRpc(sessionId, { Authorization: `Bearer ${tokens['user-3']}` });
+      expect(otherUser.status).toBe(403);
+      expect((await otherUser.json()).error.message).toMatch(/another user/);
+      expect((await postRpc(sessionId)).status).toBe(403);
+
+      // The session still acts as its own user
+      const whoAmI = await client.callTool({ name: 'atlassianUserInfo', arguments: {} });
+      expect(JSON.parse((whoAmI.content as { text: string }[])[0].text).accountId).toBe('user-2');
+    } finally {
+      await transport.terminateSession();
+      await client.close();
+    }
+  });
+});
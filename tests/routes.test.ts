@@ -0,0 +1,239 @@
+/**
+ * Route Test Suite
+ *
+ * Tests for the server's HTTP routes, against the real server running on a
+ * copy of the sample data (see testServer.ts).
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { startTestServer, type TestServer } from './testServer';
+
+const BOOTSTRAP_SECRET = 'jsb_route-tests';
+
+let server: TestServer;
+
+beforeAll(async () => {
+  server = await startTestServer({ TOKEN_BOOTSTRAP_SECRET: BOOTSTRAP_SECRET });
+}, 60_000);
+
+afterAll(async () => {
+  await server?.stop();
+});
+
+// ============================================================================
+// JIRA REST API
+// ============================================================================
+
+describe('Jira REST API', () => {
+  const REST = '/rest/api/3';
+
+  it('should reject an edit with a stale If-Match and apply one with the current ETag', async () => {
+    const read = await server.request('GET', `${REST}/issue/PHOENIX-3`);
+    const etag = read.headers.get('ETag')!;
+    expect(etag).toMatch(/^"\d+"$/);
+
+    const first = await server.request('PUT', `${REST}/issue/PHOENIX-3`, { fields: { summary: 'First edit' } }, { 'If-Match': etag });
+    expect(first.status).toBe(204);
+
+    const stale = await server.request('PUT', `${REST}/issue/PHOENIX-3`, { fields: { summary: 'Stale edit' } }, { 'If-Match': etag });
+    expect(stale.status).toBe(409);
+    expect(stale.body.errorMessages[0]).toMatch(/changed by someone else/);
+
+    const staleTransition = await server.request('POST', `${REST}/issue/PHOENIX-3/transitions`, { transition: { id: '2' } }, { 'If-Match': etag });
+    expect(staleTransition.status).toBe(409);
+    const staleDelete = await server.request('DELETE', `${REST}/issue/PHOENIX-3`, undefined, { 'If-Match': etag });
+    expect(staleDelete.status).toBe(409);
+
+    const after = await server.request('GET', `${REST}/issue/PHOENIX-3?fields=summary`);
+    expect(after.body.fields.summary).toBe('First edit');
+  });
+
+  it('should page searches with the shared bounds', async () => {
+    const page = await server.request('GET', `${REST}/search/jql?jql=&maxResults=2`);
+    expect(page.status).toBe(200);
+    expect(page.body.issues).toHaveLength(2);
+    expect(page.body.isLast).toBe(false);
+
+    const next = await server.request('POST', `${REST}/search/jql`, { jql: '', maxResults: 2, nextPageToken: page.body.nextPageToken });
+    expect(next.body.issues[0].key).not.toBe(page.body.issues[0].key);
+
+    const countOnly = await server.request('GET', `${REST}/search/jql?maxResults=0`);
+    expect(countOnly.body.issues).toEqual([]);
+    expect(countOnly.body).not.toHaveProperty('nextPageToken');
+
+    for (const maxResults of ['-1', '2.5', 'lots']) {
+      const bad = await server.request('GET', `${REST}/search/jql?maxResults=${maxResults}`);
+      expect(bad.status).toBe(400);
+      expect(bad.body.errorMessages[0]).toMatch(/maxResults must be a non-negative integer/);
+    }
+  });
+});
+
+// ============================================================================
+// JIRA AGILE API
+// ============================================================================
+
+describe('Jira Agile API', () => {
+  const AGILE = '/rest/agile/1.0';
+
+  /** Keys of the issues in a sprint */
+  async function sprintIssueKeys(sprintId: string): Promise<string[]> {
+    const response = await server.request('GET', `${AGILE}/sprint/${sprintId}/issue?maxResults=100&fields=summary`);
+    return response.body.issues.map((issue: { key: string }) => issue.key);
+  }
+
+  it('should list boards and a board\'s sprints, paginated', async () => {
+    const boards = await server.request('GET', `${AGILE}/board?projectKeyOrId=PHOENIX`);
+    expect(boards.status).toBe(200);
+    expect(boards.body).toMatchObject({ startAt: 0, total: 1, isLast: true });
+    expect(boards.body.values[0]).toMatchObject({ id: 'project-1', type: 'scrum' });
+
+    const active = await server.request('GET', `${AGILE}/board/project-1/sprint?state=active`);
+    expect(active.body.values.map((s: { name: string }) => s.name)).toEqual(['Sprint 4']);
+
+    const paged = await server.request('GET', `${AGILE}/board/project-1/sprint?startAt=1&maxResults=2`);
+    expect(paged.body).toMatchObject({ startAt: 1, maxResults: 2, total: 5, isLast: false });
+    expect(paged.body.values).toHaveLength(2);
+
+    const bad = await server.request('GET', `${AGILE}/board?maxResults=-1`);
+    expect(bad.status).toBe(400);
+    expect(bad.body.errorMessages[0]).toMatch(/maxResults must be a non-negative integer/);
+  });
+
+  it('should move issues into a sprint and back to the backlog', async () => {
+    expect(await sprintIssueKeys('sprint-5')).not.toContain('PHOENIX-20');
+
+    const moved = await server.request('POST', `${AGILE}/sprint/sprint-5/issue`, { issues: ['PHOENIX-20'] });
+    expect(moved.status).toBe(204);
+    expect(await sprintIssueKeys('sprint-5')).toContain('PHOENIX-20');
+
+    const backlog = await server.request('POST', `${AGILE}/backlog/issue`, { issues: ['PHOENIX-20'] });
+    expect(backlog.status).toBe(204);
+    expect(await sprintIssueKeys('sprint-5')).not.toContain('PHOENIX-20');
+
+    const empty = await server.request('POST', `${AGILE}/backlog/issue`, { issues: [] });
+    expect(empty.status).toBe(400);
+  });
+
+  it('should start and close sprints, one active sprint at a time', async () => {
+    const second = await server.request('POST', `${AGILE}/sprint/sprint-5`, { state: 'active' });
+    expect(second.status).toBe(400);
+    expect(second.body.errorMessages[0]).toMatch(/Sprint 4 is already active/);
+
+    const closed = await server.request('POST', `${AGILE}/sprint/sprint-4`, { state: 'closed' });
+    expect(closed.status).toBe(200);
+    expect(closed.body).toMatchObject({ id: 'sprint-4', state: 'closed' });
+
+    const started = await server.request('PUT', `${AGILE}/sprint/sprint-5`, { state: 'active' });
+    expect(started.status).toBe(200);
+    expect(started.body).toMatchObject({ id: 'sprint-5', state: 'active' });
+
+    const sprint = await server.request('GET', `${AGILE}/sprint/sprint-5`);
+    expect(sprint.body.state).toBe('active');
+  });
+});
+
+// ============================================================================
+// RECORDS API
+// ============================================================================
+
+describe('Records API', () => {
+  const project = {
+    key: 'ROUTES',
+    name: 'Route Tests',
+    description: 'Created by the route tests',
+    lead: 'user-1',
+  };
+
+  it('should create, update and delete a record', async () => {
+    const created = await server.request('POST', '/api/projects', project);
+    expect(created.status).toBe(201);
+    const { id } = created.body.data;
+    expect(created.body.data).toMatchObject({ ...project, id: expect.stringMatching(/^project-/) });
+
+    const patched = await server.request('PATCH', `/api/projects/${id}`, { name: 'Route Tests Renamed' }, {
+      'If-Match': created.headers.get('ETag')!,
+    });
+    expect(patched.status).toBe(200);
+    expect(patched.body.data).toMatchObject({ id, key: 'ROUTES', name: 'Route Tests Renamed' });
+
+    const deleted = await server.request('DELETE', `/api/projects/${id}`);
+    expect(deleted.status).toBe(200);
+    expect((await server.request('GET', `/api/projects/${id}`)).status).toBe(404);
+  });
+
+  it('should reject changing a project\'s key, which its issue keys start with', async () => {
+    const changed = await server.request('PATCH', '/api/projects/project-1', { key: 'RENAMED' });
+    expect(changed.status).toBe(400);
+    expect(changed.body.error).toMatch(/key can't be changed/);
+    expect((await server.request('GET', '/api/projects/project-1')).body.data.key).toBe('PHOENIX');
+
+    // Sending the current key along is fine
+    const unchanged = await server.request('PATCH', '/api/projects/project-1', { key: 'PHOENIX', description: 'Still Phoenix' });
+    expect(unchanged.status).toBe(200);
+  });
+
+  it('should answer 404 for records that don\'t exist', async () => {
+    expect((await server.request('GET', '/api/projects/project-404')).status).toBe(404);
+    expect((await server.request('PATCH', '/api/projects/project-404', { name: 'Nope' })).status).toBe(404);
+    expect((await server.request('DELETE', '/api/projects/project-404')).status).toBe(404);
+    expect((await server.request('PATCH', '/api/issues/PHOENIX-404', { title: 'Nope' })).status).toBe(404);
+  });
+
+  it('should reject invalid bodies and unknown resources', async () => {
+    const notAnObject = await server.request('POST', '/api/projects', [project]);
+    expect(notAnObject.status).toBe(400);
+    expect(notAnObject.body.error).toBe('Request body must be an object');
+    expect((await server.request('PATCH', '/api/projects/project-1', ['name'])).status).toBe(400);
+
+    const invalid = await server.request('POST', '/api/projects', { ...project, key: 'lower-case' });
+    expect(invalid.status).toBe(422);
+    expect(invalid.body.validationErrors.map((e: { field: string }) => e.field)).toContain('key');
+
+    const missingProject = await server.request('POST', '/api/issues', { title: 'No project' });
+    expect(missingProject.status).toBe(400);
+    expect(missingProject.body.error).toBe('projectKey is required');
+
+    expect((await server.request('POST', '/api/widgets', { name: 'Nope' })).status).toBe(400);
+  });
+});
+
+// ============================================================================
+// API TOKENS
+// ============================================================================
+
+describe('API Tokens', () => {
+  it('should reject an anonymous first token for another user without the bootstrap secret', async () => {
+    const anonymous = await server.request('POST', '/api/users/user-3/tokens', { name: 'Impersonation' });
+    expect(anonymous.status).toBe(401);
+    expect(anonymous.body.error).toMatch(/bootstrap secret/);
+
+    const wrongSecret = await server.request('POST', '/api/users/user-3/tokens', { name: 'Impersonation' }, {
+      'X-Bootstrap-Secret': 'jsb_guess',
+    });
+    expect(wrongSecret.status).toBe(401);
+    expect((await server.request('GET', '/api/users/user-3/tokens')).body.data).toEqual([]);
+  });
+
+  it('should mint a first token with the bootstrap secret, and further ones only with a token', async () => {
+    const first = await server.request('POST', '/api/users/user-4/tokens', { name: 'Scripts' }, {
+      'X-Bootstrap-Secret': BOOTSTRAP_SECRET,
+    });
+    expect(first.status).toBe(201);
+
+    const again = await server.request('POST', '/api/users/user-4/tokens', { name: 'Again' }, {
+      'X-Bootstrap-Secret': BOOTSTRAP_SECRET,
+    });
+    expect(again.status).toBe(401);
+
+    const asOtherUser = await server.request('POST', '/api/users/user-3/tokens', { name: 'Impersonation' }, {
+      Authorization: `Bearer ${first.body.data.token}`,
+    });
+    expect(asOtherUser.status).toBe(403);
+
+    const second = await server.request('POST', '/api/users/user-4/tokens', { name: 'Second' }, {
+      Authorization: `Bearer ${first.body.data.token}`,
+    });
+    expect(second.status).toBe(201);
+  });
+});
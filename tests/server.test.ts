@@ -0,0 +1,301 @@
+/**
+ * Server Test Suite
+ *
+ * Tests for the server's storage-level behavior: record replacement, data
+ * migrations, API token authentication and authorization, If-Match revision
+ * checks, backups and workspaces. Each test works on a copy of the sample
+ * data in a temporary directory, through the same storage backend the
+ * server uses.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import { JsonStorage } from '../src/server/jsonStorage';
+import { replaceRecords, type DataStorage } from '../src/server/storage';
+import { createApiToken, revokeApiToken, authenticateRequest } from '../src/server/auth';
+import { createBackup, listBackups } from '../src/server/backups';
+import { migrateDataDirectory, readDataMeta } from '../src/server/dataMigrations';
+import { CURRENT_SCHEMA_VERSION, SchemaVersionError } from '../src/utils/migrations';
+import { restoreBackup, saveResource } from '../src/server/dataFiles';
+import { recordEtag, assertIfMatch, RevisionConflictError } from '../src/server/revisions';
+import { createWorkspace, openWorkspaceStorage } from '../src/server/workspaces';
+import type { ChangelogEntry, Issue } from '../src/types';
+import { copySampleData, SAMPLE_DATA_DIR } from './testServer';
+
+// ============================================================================
+// TEST HELPERS
+// ============================================================================
+
+let dataDir: string;
+let storage: DataStorage;
+
+beforeEach(() => {
+  dataDir = copySampleData();
+  storage = new JsonStorage(dataDir);
+});
+
+afterEach(() => {
+  storage.close();
+  fs.rmSync(dataDir, { recursive: true, force: true });
+});
+
+/** Expect a call to fail with an IssueOperationError of this status */
+function expectStatus(fn: () => unknown, status: number): void {
+  expect(fn).toThrow(expect.objectContaining({ status }));
+}
+
+// ============================================================================
+// STORAGE
+// ============================================================================
+
+describe('replaceRecords', () => {
+  const ids = () => storage.read('users').map(u => u.id);
+
+  it('should write the given order when records are reordered', () => {
+    const users = storage.read('users');
+    const reversed = [...users].reverse();
+
+    replaceRecords(storage, 'users', reversed);
+    expect(ids()).toEqual(reversed.map(u => u.id));
+  });
+
+  it('should place new records where they are given, and drop missing ones', () => {
+    const [first, second, ...rest] = storage.read('users');
+    const added = { ...first, id: 'user-new', email: 'new@phoenix.dev' };
+
+    replaceRecords(storage, 'users', [first, added, ...rest]);
+    expect(ids()).toEqual([first.id, 'user-new', ...rest.map(u => u.id)]);
+    expect(ids()).not.toContain(second.id);
+  });
+});
+
+// ============================================================================
+// MIGRATIONS
+// ============================================================================
+
+describe('migrateDataDirectory', () => {
+  // Issue fields added by schema version 2
+  const V2_ISSUE_FIELDS = [
+    'version', 'components', 'dueDate', 'startDate',
+    'originalEstimate', 'timeSpent', 'remainingEstimate', 'relatedTo',
+  ];
+
+  /** Turn the sample data into data from before versioning: no meta.json, no v2 fields */
+  function writeUnversionedFixture(): void {
+    fs.rmSync(path.join(dataDir, 'meta.json'), { force: true });
+    const issues = JSON.parse(fs.readFileSync(path.join(dataDir, 'issues.json'), 'utf-8')) as Record<string, unknown>[];
+    const stripped = issues.map(issue => Object.fromEntries(
+      Object.entries(issue).filter(([field]) => !V2_ISSUE_FIELDS.includes(field))
+    ));
+    fs.writeFileSync(path.join(dataDir, 'issues.json'), JSON.stringify(stripped, null, 2));
+  }
+
+  it('should upgrade unversioned data to the current schema version', () => {
+    writeUnversionedFixture();
+    const before = storage.read('issues');
+
+    const result = migrateDataDirectory(storage);
+
+    expect(result.fromVersion).toBe(1);
+    expect(result.toVersion).toBe(CURRENT_SCHEMA_VERSION);
+    expect(result.applied.map(m => m.version)).toEqual([2]);
+    expect(result.applied[0].changed).toEqual({ issues: before.length });
+
+    const issues = storage.read<Issue>('issues');
+    issues.forEach((issue, index) => {
+      expect(issue).toMatchObject({ components: [], relatedTo: [], dueDate: null, timeSpent: null });
+      expect(issue.revision).toBe(((before[index].revision as number | undefined) ?? 1) + 1);
+    });
+    expect(readDataMeta(dataDir).schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+    expect(listBackups(dataDir)).toHaveLength(1);
+  });
+
+  it('should do nothing for current data, and only report on a dry run', () => {
+    expect(migrateDataDirectory(storage).applied).toEqual([]);
+
+    writeUnversionedFixture();
+    const before = fs.readFileSync(path.join(dataDir, 'issues.json'), 'utf-8');
+
+    const result = migrateDataDirectory(storage, { dryRun: true });
+    expect(result.applied.map(m => m.version)).toEqual([2]);
+    expect(fs.readFileSync(path.join(dataDir, 'issues.json'), 'utf-8')).toBe(before);
+    expect(fs.existsSync(path.join(dataDir, 'meta.json'))).toBe(false);
+  });
+
+  it('should refuse data from a newer version of the app', () => {
+    fs.writeFileSync(path.join(dataDir, 'meta.json'), JSON.stringify({ schemaVersion: CURRENT_SCHEMA_VERSION + 1 }));
+
+    expect(() => migrateDataDirectory(storage)).toThrow(SchemaVersionError);
+  });
+});
+
+// ============================================================================
+// API TOKENS
+// ============================================================================
+
+describe('API Tokens', () => {
+  describe('authenticateRequest', () => {
+    it('should accept Bearer and Jira-style Basic credentials', () => {
+      const { token } = createApiToken(storage, 'user-2', 'Scripts', null, true);
+
+      expect(authenticateRequest(storage, `Bearer ${token}`)?.id).toBe('user-2');
+      const basic = Buffer.from(`sarah.kim@phoenix.dev:${token}`).toString('base64');
+      expect(authenticateRequest(storage, `Basic ${basic}`)?.id).toBe('user-2');
+      expect(authenticateRequest(storage, undefined)).toBeNull();
+    });
+
+    it('should reject unknown tokens and another user\'s email', () => {
+      const { token } = createApiToken(storage, 'user-2', 'Scripts', null, true);
+
+      expectStatus(() => authenticateRequest(storage, 'Bearer jst_unknown'), 401);
+      const basic = Buffer.from(`alex.chen@phoenix.dev:${token}`).toString('base64');
+      expectStatus(() => authenticateRequest(storage, `Basic ${basic}`), 401);
+    });
+  });
+
+  describe('createApiToken / revokeApiToken', () => {
+    it('should let anonymous callers mint only a user\'s first token, with the bootstrap secret', () => {
+      expectStatus(() => createApiToken(storage, 'user-2', 'First', null), 401);
+      createApiToken(storage, 'user-2', 'First', null, true);
+
+      expectStatus(() => createApiToken(storage, 'user-2', 'Second', null, true), 401);
+      expectStatus(() => createApiToken(storage, 'user-2', 'Second', 'user-1'), 403);
+      expect(createApiToken(storage, 'user-2', 'Second', 'user-2').name).toBe('Second');
+    });
+
+    it('should only let the user revoke their tokens, and revoked tokens stop working', () => {
+      const created = createApiToken(storage, 'user-2', 'Scripts', null, true);
+
+      expectStatus(() => revokeApiToken(storage, 'user-2', created.id, null), 401);
+      expectStatus(() => revokeApiToken(storage, 'user-2', created.id, 'user-1'), 403);
+
+      revokeApiToken(storage, 'user-2', created.id, 'user-2');
+      expectStatus(() => authenticateRequest(storage, `Bearer ${created.token}`), 401);
+    });
+  });
+});
+
+// ============================================================================
+// REVISIONS
+// ============================================================================
+
+describe('Revisions', () => {
+  /** Rename an issue the way the item routes do: check If-Match, then write */
+  function renameIssue(issueId: string, title: string, ifMatch: string | undefined): void {
+    storage.transaction(() => {
+      const issues = storage.read('issues') as Issue[];
+      const current = issues.find(i => i.id === issueId)!;
+      assertIfMatch(ifMatch, recordEtag(current), current, current.key);
+      saveResource(storage, 'issues', issues.map(i => (i.id === issueId ? { ...i, title } : i)));
+    });
+  }
+
+  function readIssue(issueId: string): Issue {
+    return (storage.read('issues') as Issue[]).find(i => i.id === issueId)!;
+  }
+
+  it('should bump the revision on write and accept the current ETag', () => {
+    const issue = (storage.read('issues') as Issue[])[0];
+
+    renameIssue(issue.id, 'First edit', recordEtag(issue));
+    const edited = readIssue(issue.id);
+    expect(edited.title).toBe('First edit');
+    expect(recordEtag(edited)).not.toBe(recordEtag(issue));
+
+    renameIssue(issue.id, 'Second edit', recordEtag(edited));
+    expect(readIssue(issue.id).title).toBe('Second edit');
+  });
+
+  it('should reject a stale ETag with the current copy and write nothing', () => {
+    const issue = (storage.read('issues') as Issue[])[0];
+    renameIssue(issue.id, 'Their edit', recordEtag(issue));
+
+    let conflict: unknown;
+    try {
+      renameIssue(issue.id, 'My edit', recordEtag(issue));
+    } catch (error) {
+      conflict = error;
+    }
+
+    expect(conflict).toBeInstanceOf(RevisionConflictError);
+    expect((conflict as RevisionConflictError).current).toMatchObject({ title: 'Their edit' });
+    expect(readIssue(issue.id).title).toBe('Their edit');
+  });
+
+  it('should accept writes without If-Match, or with *', () => {
+    const issue = (storage.read('issues') as Issue[])[0];
+
+    renameIssue(issue.id, 'No header', undefined);
+    renameIssue(issue.id, 'Any version', '*');
+    expect(readIssue(issue.id).title).toBe('Any version');
+  });
+
+  it('should roll back earlier writes in the transaction when the check fails', () => {
+    const issue = (storage.read('issues') as Issue[])[0];
+    const stale = recordEtag(issue);
+    renameIssue(issue.id, 'Their edit', stale);
+    const structuresBefore = storage.read('structures');
+
+    expect(() => storage.transaction(() => {
+      saveResource(storage, 'structures', []);
+      renameIssue(issue.id, 'My edit', stale);
+    })).toThrow(RevisionConflictError);
+
+    expect(storage.read('structures')).toEqual(structuresBefore);
+  });
+});
+
+// ============================================================================
+// BACKUPS
+// ============================================================================
+
+describe('Backups', () => {
+  it('should leave the changelog out of snapshots and record a restore as changes', () => {
+    const [issue] = storage.read<Issue>('issues');
+    const backup = storage.transaction(() => createBackup(storage, 'test'))!;
+    expect(Object.keys(backup.files)).not.toContain('history.json');
+
+    saveResource(storage, 'issues', storage.read<Issue>('issues').map(i => i.id === issue.id ? { ...i, title: 'Renamed' } : i));
+    restoreBackup(storage, backup.id);
+
+    expect(storage.get<Issue>('issues', issue.id)?.title).toBe(issue.title);
+    const changes = storage.query<ChangelogEntry>('history', { issueId: issue.id });
+    expect(changes.map(c => [c.author.via, c.items[0]?.to])).toEqual([
+      [null, 'Renamed'],
+      ['restoreBackup', issue.title],
+    ]);
+  });
+
+  it('should leave tokens out of snapshots, so a restore keeps revocations', () => {
+    const created = createApiToken(storage, 'user-2', 'Scripts', null, true);
+    const backup = storage.transaction(() => createBackup(storage, 'test'))!;
+    expect(Object.keys(backup.files)).not.toContain('tokens.json');
+
+    revokeApiToken(storage, 'user-2', created.id, 'user-2');
+    restoreBackup(storage, backup.id);
+
+    expectStatus(() => authenticateRequest(storage, `Bearer ${created.token}`), 401);
+  });
+});
+
+// ============================================================================
+// WORKSPACES
+// ============================================================================
+
+describe('Workspaces', () => {
+  it('should create sample workspaces from the shipped sample, not the default workspace', () => {
+    const issues = storage.read<Issue>('issues');
+    replaceRecords(storage, 'issues', issues.map(i => ({ ...i, title: 'Edited' })));
+
+    const workspace = createWorkspace(dataDir, { name: 'Fresh', source: 'sample' });
+    const created = openWorkspaceStorage(workspace);
+    try {
+      const sample = JSON.parse(fs.readFileSync(path.join(SAMPLE_DATA_DIR, 'issues.json'), 'utf-8')) as Issue[];
+      expect(created.read<Issue>('issues').map(i => i.title)).toEqual(sample.map(i => i.title));
+    } finally {
+      created.close();
+    }
+    expect(fs.readdirSync(SAMPLE_DATA_DIR).filter(f => !f.endsWith('.json'))).toEqual([]);
+  });
+});
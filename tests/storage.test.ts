@@ -0,0 +1,221 @@
+/**
+ * Storage Contract Test Suite
+ *
+ * The DataStorage contract both backends must keep: record order, upserts
+ * in place, appends, queries, deletes, and transactions that commit
+ * together or not at all. Each backend runs the same tests on an empty
+ * temporary directory, so data written through one behaves the same in the
+ * other. Also covers the JSON backend's append-only changelog file.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { openStorage, replaceRecords, type DataStorage, type StorageKind } from '../src/server/storage';
+
+// ============================================================================
+// TEST HELPERS
+// ============================================================================
+
+const BACKENDS: StorageKind[] = ['json', 'sqlite'];
+
+const ISSUES = [
+  { id: 'issue-1', key: 'TEST-1', status: 'todo', storyPoints: 3, flagged: true, sprintId: null },
+  { id: 'issue-2', key: 'TEST-2', status: 'done', storyPoints: 5, flagged: false, sprintId: 'sprint-1' },
+  { id: 'issue-3', key: 'TEST-3', status: 'todo', storyPoints: 5, flagged: false },
+];
+
+const ids = (storage: DataStorage) => storage.read('issues').map(r => r.id);
+
+describe.each(BACKENDS)('%s storage', (kind) => {
+  let dataDir: string;
+  let storage: DataStorage;
+
+  const open = () => openStorage(dataDir, { kind });
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'jira-structure-storage-'));
+    storage = open();
+    storage.upsert('issues', ISSUES);
+  });
+
+  afterEach(() => {
+    storage.close();
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  // ==========================================================================
+  // RECORDS
+  // ==========================================================================
+
+  it('should read an unwritten resource as empty', () => {
+    expect(storage.read('comments')).toEqual([]);
+    expect(storage.get('comments', 'comment-1')).toBeUndefined();
+  });
+
+  it('should keep records in insertion order, replacing existing ones in place', () => {
+    storage.upsert('issues', [
+      { id: 'issue-4', key: 'TEST-4' },
+      { ...ISSUES[0], status: 'in_progress' },
+    ]);
+
+    expect(ids(storage)).toEqual(['issue-1', 'issue-2', 'issue-3', 'issue-4']);
+    expect(storage.get('issues', 'issue-1')).toEqual({ ...ISSUES[0], status: 'in_progress' });
+  });
+
+  it('should delete records, ignoring missing IDs, and append re-added ones', () => {
+    storage.delete('issues', ['issue-1', 'issue-404']);
+    expect(ids(storage)).toEqual(['issue-2', 'issue-3']);
+
+    storage.upsert('issues', [ISSUES[0]]);
+    expect(ids(storage)).toEqual(['issue-2', 'issue-3', 'issue-1']);
+  });
+
+  it('should keep resources apart', () => {
+    storage.upsert('comments', [{ id: 'issue-1', body: 'Same ID, other resource' }]);
+
+    expect(storage.get('issues', 'issue-1')).toEqual(ISSUES[0]);
+    expect(storage.read('comments')).toHaveLength(1);
+  });
+
+  it('should query top-level fields by string, number, boolean and null', () => {
+    const match = (where: Record<string, unknown>) => storage.query('issues', where).map(r => r.id);
+
+    expect(match({ status: 'todo' })).toEqual(['issue-1', 'issue-3']);
+    expect(match({ status: 'todo', storyPoints: 5 })).toEqual(['issue-3']);
+    expect(match({ flagged: true })).toEqual(['issue-1']);
+    expect(match({ flagged: false })).toEqual(['issue-2', 'issue-3']);
+    // Missing fields match null
+    expect(match({ sprintId: null })).toEqual(['issue-1', 'issue-3']);
+    expect(match({})).toEqual(['issue-1', 'issue-2', 'issue-3']);
+  });
+
+  it('should replace a resource with exactly the given records, in order', () => {
+    replaceRecords(storage, 'issues', [ISSUES[2], { id: 'issue-5', key: 'TEST-5' }, ISSUES[0]]);
+
+    expect(ids(storage)).toEqual(['issue-3', 'issue-5', 'issue-1']);
+  });
+
+  it('should make writes visible to another instance on the same data', () => {
+    const other = open();
+    try {
+      storage.upsert('issues', [{ ...ISSUES[1], status: 'todo' }]);
+      expect(other.get('issues', 'issue-2')).toMatchObject({ status: 'todo' });
+    } finally {
+      other.close();
+    }
+  });
+
+  it('should append records at the end, after upserts in the same transaction', () => {
+    storage.append('history', [{ id: 'change-1' }, { id: 'change-2' }]);
+    storage.transaction(() => {
+      storage.upsert('history', [{ id: 'change-1', note: 'edited' }]);
+      storage.append('history', [{ id: 'change-3' }]);
+    });
+    storage.append('history', [{ id: 'change-4' }]);
+
+    expect(storage.read('history')).toEqual([
+      { id: 'change-1', note: 'edited' },
+      { id: 'change-2' },
+      { id: 'change-3' },
+      { id: 'change-4' },
+    ]);
+  });
+
+  // ==========================================================================
+  // TRANSACTIONS
+  // ==========================================================================
+
+  it('should see its own writes inside a transaction, and others only after commit', () => {
+    const other = open();
+    try {
+      storage.transaction(() => {
+        storage.delete('issues', ['issue-1']);
+        storage.upsert('issues', [{ id: 'issue-4', key: 'TEST-4' }]);
+
+        expect(ids(storage)).toEqual(['issue-2', 'issue-3', 'issue-4']);
+        expect(ids(other)).toEqual(['issue-1', 'issue-2', 'issue-3']);
+      });
+
+      expect(ids(other)).toEqual(['issue-2', 'issue-3', 'issue-4']);
+    } finally {
+      other.close();
+    }
+  });
+
+  it('should roll back every write, nested ones included, when a transaction throws', () => {
+    expect(() => storage.transaction(() => {
+      storage.upsert('issues', [{ ...ISSUES[0], status: 'done' }]);
+      storage.transaction(() => {
+        storage.delete('issues', ['issue-2']);
+        storage.upsert('comments', [{ id: 'comment-1', body: 'Lost' }]);
+        storage.append('history', [{ id: 'change-1' }]);
+      });
+      throw new Error('Disk full');
+    })).toThrow('Disk full');
+
+    expect(storage.read('issues')).toEqual(ISSUES);
+    expect(storage.read('comments')).toEqual([]);
+    expect(storage.read('history')).toEqual([]);
+  });
+
+  it('should return the transaction result and be usable after a rollback', () => {
+    expect(() => storage.transaction(() => { throw new Error('Nope'); })).toThrow('Nope');
+
+    expect(storage.transaction(() => {
+      storage.delete('issues', ['issue-3']);
+      return ids(storage).length;
+    })).toBe(2);
+    expect(ids(storage)).toEqual(['issue-1', 'issue-2']);
+  });
+});
+
+// ============================================================================
+// JSON CHANGELOG FILE
+// ============================================================================
+
+describe('json storage changelog file', () => {
+  let dataDir: string;
+  let storage: DataStorage;
+
+  const historyFile = (ext: string) => path.join(dataDir, `history.${ext}`);
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'jira-structure-storage-'));
+    storage = openStorage(dataDir, { kind: 'json' });
+  });
+
+  afterEach(() => {
+    storage.close();
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('should append entries to the end of the file without rewriting it', () => {
+    storage.append('history', [{ id: 'change-1' }]);
+    const inode = fs.statSync(historyFile('jsonl')).ino;
+    storage.append('history', [{ id: 'change-2' }, { id: 'change-3' }]);
+
+    expect(fs.statSync(historyFile('jsonl')).ino).toBe(inode);
+    expect(fs.readFileSync(historyFile('jsonl'), 'utf-8')).toBe(
+      '{"id":"change-1"}\n{"id":"change-2"}\n{"id":"change-3"}\n'
+    );
+  });
+
+  it('should skip a line cut short by a crash, and append after it', () => {
+    fs.writeFileSync(historyFile('jsonl'), '{"id":"change-1"}\n{"id":"chan');
+    expect(storage.read('history')).toEqual([{ id: 'change-1' }]);
+
+    storage.append('history', [{ id: 'change-2' }]);
+    expect(storage.read('history')).toEqual([{ id: 'change-1' }, { id: 'change-2' }]);
+  });
+
+  it('should convert a changelog written as a JSON array on the first append', () => {
+    fs.writeFileSync(historyFile('json'), JSON.stringify([{ id: 'change-1' }], null, 2));
+    expect(storage.read('history')).toEqual([{ id: 'change-1' }]);
+
+    storage.append('history', [{ id: 'change-2' }]);
+    expect(fs.existsSync(historyFile('json'))).toBe(false);
+    expect(storage.read('history')).toEqual([{ id: 'change-1' }, { id: 'change-2' }]);
+  });
+});
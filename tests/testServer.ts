@@ -0,0 +1,204 @@
+/**
+ * Test Server - Runs the real web server for route tests
+ *
+ * Starts src/server/index.ts in a child process on a free port, serving a
+ * copy of the sample data in a temporary directory, so tests talk to it
+ * over HTTP exactly like the web app, scripts and agents do.
+ */
+
+import { spawn } from 'child_process';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as net from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+
+const ROOT_DIR = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+export const SAMPLE_DATA_DIR = path.join(ROOT_DIR, 'sample-data');
+
+// How long the server may take to start (tsx compiles on the fly)
+const STARTUP_TIMEOUT_MS = 30_000;
+
+export interface TestServer {
+  url: string;
+  dataDir: string;
+  /** Send a JSON request; returns the status, headers and parsed body */
+  request: (method: string, urlPath: string, body?: unknown, headers?: Record<string, string>) => Promise<TestResponse>;
+  /** Subscribe to the change feed (GET /api/events) */
+  events: () => Promise<EventStream>;
+  /** Stop the server and remove its data directory */
+  stop: () => Promise<void>;
+}
+
+export interface TestResponse {
+  status: number;
+  headers: Headers;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  body: any;
+}
+
+export interface ServerSentEvent {
+  event: string;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  data: any;
+}
+
+export interface EventStream {
+  /** Every event received so far */
+  received: ServerSentEvent[];
+  /**
+   * The first event of a type (and matching a predicate) not returned
+   * before, waiting for it if needed
+   */
+  next: (event: string, match?: (data: ServerSentEvent['data']) => boolean, timeoutMs?: number) => Promise<ServerSentEvent['data']>;
+  close: () => void;
+}
+
+/**
+ * Read a Server-Sent Events stream. Resolves once the server confirmed
+ * the subscription, so changes made afterwards are seen.
+ */
+async function openEventStream(url: string): Promise<EventStream> {
+  const received: ServerSentEvent[] = [];
+  const returned = new Set<ServerSentEvent>();
+  let onEvent = () => {};
+  let buffer = '';
+
+  // Node's http rather than fetch: destroying the request closes the
+  // connection right away, so it doesn't hold up the server's shutdown
+  const request = http.get(url);
+  await new Promise<void>((resolve, reject) => {
+    request.once('error', reject);
+    request.once('response', response => {
+      response.setEncoding('utf-8');
+      response.on('data', (chunk: string) => {
+        buffer += chunk;
+        let end: number;
+        while ((end = buffer.indexOf('\n\n')) >= 0) {
+          const block = buffer.slice(0, end);
+          buffer = buffer.slice(end + 2);
+          if (block.startsWith(': connected')) resolve();
+          const fields = Object.fromEntries(block.split('\n')
+            .filter(line => !line.startsWith(':'))
+            .map(line => [line.slice(0, line.indexOf(':')), line.slice(line.indexOf(':') + 1).trim()]));
+          if (fields.data !== undefined) {
+            received.push({ event: fields.event ?? 'message', data: JSON.parse(fields.data) });
+            onEvent();
+          }
+        }
+      });
+    });
+  });
+  // Closed by the test
+  request.on('error', () => {});
+
+  const next: EventStream['next'] = async (event, match = () => true, timeoutMs = 5000) => {
+    const deadline = Date.now() + timeoutMs;
+    for (;;) {
+      const found = received.find(e => e.event === event && !returned.has(e) && match(e.data));
+      if (found) {
+        returned.add(found);
+        return found.data;
+      }
+      if (Date.now() > deadline) {
+        throw new Error(`No ${event} event within ${timeoutMs} ms; received: ${JSON.stringify(received)}`);
+      }
+      await new Promise<void>(resolve => {
+        const timer = setTimeout(resolve, 50);
+        onEvent = () => {
+          clearTimeout(timer);
+          resolve();
+        };
+      });
+    }
+  };
+
+  return { received, next, close: () => request.destroy() };
+}
+
+/**
+ * A port nothing listens on right now
+ */
+function freePort(): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const probe = net.createServer();
+    probe.once('error', reject);
+    probe.listen(0, '127.0.0.1', () => {
+      const { port } = probe.address() as net.AddressInfo;
+      probe.close(() => resolve(port));
+    });
+  });
+}
+
+/**
+ * Copy the sample data into a new temporary directory
+ */
+export function copySampleData(): string {
+  const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'jira-structure-test-'));
+  for (const file of fs.readdirSync(SAMPLE_DATA_DIR).filter(f => f.endsWith('.json'))) {
+    fs.copyFileSync(path.join(SAMPLE_DATA_DIR, file), path.join(dataDir, file));
+  }
+  return dataDir;
+}
+
+/**
+ * Start the web server on a copy of the sample data
+ */
+export async function startTestServer(env: Record<string, string> = {}): Promise<TestServer> {
+  const dataDir = copySampleData();
+  const port = await freePort();
+  const url = `http://127.0.0.1:${port}`;
+
+  const child = spawn(path.join(ROOT_DIR, 'node_modules', '.bin', 'tsx'), ['src/server/index.ts'], {
+    cwd: ROOT_DIR,
+    env: { ...process.env, DATA_DIR: dataDir, PORT: String(port), ...env },
+    stdio: ['ignore', 'pipe', 'pipe'],
+  });
+  let output = '';
+  child.stdout.on('data', chunk => { output += chunk; });
+  child.stderr.on('data', chunk => { output += chunk; });
+  const exited = new Promise<void>(resolve => child.once('exit', () => resolve()));
+
+  const request = async (method: string, urlPath: string, body?: unknown, headers: Record<string, string> = {}): Promise<TestResponse> => {
+    const response = await fetch(`${url}${urlPath}`, {
+      method,
+      headers: { ...(body === undefined ? {} : { 'Content-Type': 'application/json' }), ...headers },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    const text = await response.text();
+    return { status: response.status, headers: response.headers, body: text ? JSON.parse(text) : undefined };
+  };
+
+  const stop = async () => {
+    if (child.exitCode === null) {
+      // Graceful shutdown first; open connections can hold it up
+      child.kill('SIGINT');
+      const timer = setTimeout(() => child.kill('SIGKILL'), 5000);
+      await exited;
+      clearTimeout(timer);
+    }
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  };
+
+  // Wait until it answers
+  const deadline = Date.now() + STARTUP_TIMEOUT_MS;
+  for (;;) {
+    if (child.exitCode !== null) {
+      await stop();
+      throw new Error(`The test server exited:\n${output}`);
+    }
+    try {
+      if ((await fetch(`${url}/api/projects`)).ok) break;
+    } catch {
+      // Not listening yet
+    }
+    if (Date.now() > deadline) {
+      await stop();
+      throw new Error(`The test server didn't start in time:\n${output}`);
+    }
+    await new Promise(resolve => setTimeout(resolve, 100));
+  }
+
+  return { url, dataDir, request, events: () => openEventStream(`${url}/api/events`), stop };
+}
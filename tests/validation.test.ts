@@ -0,0 +1,145 @@
+/**
+ * Validation Test Suite
+ *
+ * Tests for the checks every data write goes through: record shapes,
+ * references between records, and the rule that only reference problems
+ * a write introduces are rejected. Runs on the sample data in memory.
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import { validateWrite, validateReferences, DataValidationError, type DataSet } from '../src/server/validation';
+import type { Issue } from '../src/types';
+import { SAMPLE_DATA_DIR } from './testServer';
+
+// ============================================================================
+// TEST HELPERS
+// ============================================================================
+
+function loadSampleData(): DataSet {
+  const read = (resource: keyof DataSet) =>
+    JSON.parse(fs.readFileSync(path.join(SAMPLE_DATA_DIR, `${resource}.json`), 'utf-8'));
+  return {
+    users: read('users'),
+    projects: read('projects'),
+    sprints: read('sprints'),
+    issues: read('issues'),
+    structures: read('structures'),
+    comments: read('comments'),
+  };
+}
+
+/** The issues with changes applied to some of them, by key */
+function withIssues(issues: Issue[], changes: Record<string, Partial<Issue>>): Issue[] {
+  return issues.map(issue => (changes[issue.key] ? { ...issue, ...changes[issue.key] } : issue));
+}
+
+/** The validation error a write throws, or undefined if it passes */
+function writeError(fileName: string, data: unknown, current: DataSet): DataValidationError | undefined {
+  try {
+    validateWrite(fileName, data, current);
+    return undefined;
+  } catch (error) {
+    expect(error).toBeInstanceOf(DataValidationError);
+    return error as DataValidationError;
+  }
+}
+
+const byKey = (issues: Issue[], key: string) => issues.find(i => i.key === key)!;
+
+// ============================================================================
+// SHAPE
+// ============================================================================
+
+describe('validateWrite shape checks', () => {
+  it('should accept the sample data as it is', () => {
+    const data = loadSampleData();
+    expect(validateReferences(data)).toEqual([]);
+    expect(writeError('issues.json', data.issues, data)).toBeUndefined();
+  });
+
+  it('should reject records that don\'t match the schema, naming the record and field', () => {
+    const data = loadSampleData();
+    const issues = withIssues(data.issues, { 'PHOENIX-2': { status: 'Someday' as Issue['status'] } });
+
+    const error = writeError('issues.json', issues, data);
+    expect(error?.status).toBe(422);
+    expect(error?.issues).toEqual([
+      expect.objectContaining({ resource: 'issues', id: byKey(data.issues, 'PHOENIX-2').id, field: 'status' }),
+    ]);
+  });
+
+  it('should reject duplicate IDs, missing fields and non-array content', () => {
+    const data = loadSampleData();
+    const [first] = data.users;
+
+    expect(writeError('users.json', [...data.users, { ...first }], data)?.issues).toEqual([
+      expect.objectContaining({ id: first.id, field: 'id', message: `Duplicate id "${first.id}"` }),
+    ]);
+    expect(writeError('users.json', [{ id: 'user-9' }], data)?.issues.map(i => i.field)).toContain('displayName');
+    expect(writeError('users.json', { users: data.users }, data)?.message).toBe('Invalid users: users must be an array');
+  });
+
+  it('should not check files it has no schema for', () => {
+    expect(writeError('meta.json', { anything: true }, loadSampleData())).toBeUndefined();
+  });
+});
+
+// ============================================================================
+// REFERENCES
+// ============================================================================
+
+describe('validateWrite reference checks', () => {
+  it('should require related links on both issues', () => {
+    const data = loadSampleData();
+    const [one, other] = [byKey(data.issues, 'PHOENIX-2'), byKey(data.issues, 'PHOENIX-3')];
+
+    const oneSided = withIssues(data.issues, { [one.key]: { relatedTo: [...one.relatedTo, other.id] } });
+    expect(writeError('issues.json', oneSided, data)?.issues).toEqual([
+      expect.objectContaining({
+        id: one.id,
+        field: 'relatedTo',
+        message: `${one.key}: relates to ${other.key}, but ${other.key} doesn't list it in relatedTo`,
+      }),
+    ]);
+
+    const mirrored = withIssues(oneSided, { [other.key]: { relatedTo: [...other.relatedTo, one.id] } });
+    expect(writeError('issues.json', mirrored, data)).toBeUndefined();
+  });
+
+  it('should reject references to records that don\'t exist', () => {
+    const data = loadSampleData();
+    const issues = withIssues(data.issues, { 'PHOENIX-2': { assignee: 'user-404', sprint: 'sprint-404' } });
+
+    expect(writeError('issues.json', issues, data)?.issues.map(i => i.field)).toEqual(['assignee', 'sprint']);
+  });
+
+  it('should only reject the reference problems a write introduces', () => {
+    const data = loadSampleData();
+    // Already broken on disk, e.g., by a hand edit
+    const current = { ...data, issues: withIssues(data.issues, { 'PHOENIX-2': { assignee: 'user-404' } }) };
+    expect(validateReferences(current)).toHaveLength(1);
+
+    // Writes that leave the old problem as it is still go through...
+    expect(writeError('issues.json', withIssues(current.issues, { 'PHOENIX-3': { title: 'Renamed' } }), current)).toBeUndefined();
+    expect(writeError('comments.json', data.comments, current)).toBeUndefined();
+
+    // ...and so does the write that repairs it
+    expect(writeError('issues.json', data.issues, current)).toBeUndefined();
+
+    // A new problem is rejected, and only it is reported
+    const broken = withIssues(current.issues, { 'PHOENIX-3': { reporter: 'user-405' } });
+    expect(writeError('issues.json', broken, current)?.issues).toEqual([
+      expect.objectContaining({ id: byKey(data.issues, 'PHOENIX-3').id, field: 'reporter' }),
+    ]);
+  });
+
+  it('should reject deleting a record that others still reference', () => {
+    const data = loadSampleData();
+    const referenced = data.issues.find(i => i.sprint)!;
+
+    const error = writeError('sprints.json', data.sprints.filter(s => s.id !== referenced.sprint), data);
+    expect(error?.message).toMatch(/^Broken references: .*sprint/);
+  });
+});
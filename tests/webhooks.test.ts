@@ -0,0 +1,239 @@
+/**
+ * Webhooks Test Suite
+ *
+ * Runs the webhook dispatcher against a local HTTP receiver: deliveries
+ * for issue and sprint changes, retries with backoff, JQL filters and
+ * redelivery. Changes are saved and published the way the web server's
+ * write path does it, on a copy of the sample data.
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs';
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+
+// Short retries, read when webhooks.ts loads
+vi.hoisted(() => {
+  process.env.WEBHOOK_RETRY_SECONDS = '0.05';
+  process.env.WEBHOOK_MAX_ATTEMPTS = '2';
+});
+
+import { JsonStorage } from '../src/server/jsonStorage';
+import type { DataStorage } from '../src/server/storage';
+import { saveResource } from '../src/server/dataFiles';
+import { startChangeFeed, publishFileChange } from '../src/server/changeFeed';
+import { startWebhooks, createWebhook, listDeliveries, redeliver } from '../src/server/webhooks';
+import { runWithWriteContext } from '../src/server/writeContext';
+import { SprintStatus, WebhookEvent } from '../src/types';
+import type { Issue, Sprint, WebhookDelivery } from '../src/types';
+import { copySampleData } from './testServer';
+
+// ============================================================================
+// TEST HELPERS
+// ============================================================================
+
+interface ReceivedRequest {
+  headers: http.IncomingHttpHeaders;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  body: any;
+  receivedAt: number;
+}
+
+let receiver: http.Server;
+let receiverUrl: string;
+let received: ReceivedRequest[];
+/** Statuses to answer with, in order; 200 once they run out */
+let responses: number[];
+
+let dataDir: string;
+let storage: DataStorage;
+let stopChangeFeed: () => void;
+let stopWebhooks: () => void;
+
+beforeAll(async () => {
+  receiver = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      received.push({ headers: req.headers, body: JSON.parse(body), receivedAt: Date.now() });
+      res.writeHead(responses.shift() ?? 200).end();
+    });
+  });
+  await new Promise<void>(resolve => receiver.listen(0, '127.0.0.1', resolve));
+  receiverUrl = `http://127.0.0.1:${(receiver.address() as AddressInfo).port}/hook`;
+});
+
+afterAll(async () => {
+  await new Promise(resolve => receiver.close(resolve));
+});
+
+beforeEach(() => {
+  received = [];
+  responses = [];
+  dataDir = copySampleData();
+  storage = new JsonStorage(dataDir);
+  stopChangeFeed = startChangeFeed(storage, ['issues', 'sprints', 'comments']);
+  stopWebhooks = startWebhooks(storage);
+});
+
+afterEach(() => {
+  stopWebhooks();
+  stopChangeFeed();
+  storage.close();
+  fs.rmSync(dataDir, { recursive: true, force: true });
+});
+
+/**
+ * Save changed records and publish them, like the web server's write path,
+ * as a REST client acting as user-2
+ */
+function write<T extends { id: string }>(resource: 'issues' | 'sprints', change: (record: T) => T | Partial<T> | null): void {
+  runWithWriteContext({ source: 'api', userId: 'user-2' }, () => {
+    const records = storage.read<T>(resource).map(record => {
+      const changed = change(record);
+      return changed ? { ...record, ...changed } : record;
+    });
+    publishFileChange(resource, saveResource(storage, resource, records));
+  });
+}
+
+/**
+ * Wait until the receiver got a number of requests
+ */
+async function waitForRequests(count: number, timeoutMs = 3000): Promise<ReceivedRequest[]> {
+  const deadline = Date.now() + timeoutMs;
+  while (received.length < count) {
+    if (Date.now() > deadline) {
+      throw new Error(`Expected ${count} webhook requests, got ${received.length}`);
+    }
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+  return received;
+}
+
+/**
+ * Wait until a delivery is no longer pending
+ */
+async function waitForDelivery(status: WebhookDelivery['status'], timeoutMs = 3000): Promise<WebhookDelivery> {
+  const deadline = Date.now() + timeoutMs;
+  for (;;) {
+    const [delivery] = listDeliveries(storage);
+    if (delivery?.status === status) return delivery;
+    if (Date.now() > deadline) {
+      throw new Error(`Expected a ${status} delivery, got ${delivery?.status ?? 'none'}`);
+    }
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+}
+
+const issueWebhook = (jqlFilter?: string) => createWebhook(storage, {
+  name: 'Receiver',
+  url: receiverUrl,
+  events: [WebhookEvent.IssueUpdated],
+  jqlFilter,
+});
+
+// ============================================================================
+// DELIVERY
+// ============================================================================
+
+describe('Webhook deliveries', () => {
+  it('should POST a Jira-shaped issue update to the receiver', async () => {
+    issueWebhook();
+
+    write<Issue>('issues', issue => (issue.key === 'PHOENIX-2' ? { priority: 'Lowest' } : null));
+
+    const [request] = await waitForRequests(1);
+    expect(request.headers['x-atlassian-webhook-retry']).toBe('0');
+    expect(request.body).toMatchObject({
+      webhookEvent: 'jira:issue_updated',
+      issue_event_type_name: 'issue_updated',
+      user: { accountId: 'user-2' },
+      issue: { key: 'PHOENIX-2' },
+      changelog: { items: [expect.objectContaining({ field: 'priority', toString: 'Lowest' })] },
+    });
+
+    const delivery = await waitForDelivery('succeeded');
+    expect(delivery).toMatchObject({ attempts: 1, responseStatus: 200, error: null });
+  });
+
+  it('should retry a failed delivery with backoff until the receiver accepts it', async () => {
+    issueWebhook();
+    responses = [500];
+
+    write<Issue>('issues', issue => (issue.key === 'PHOENIX-2' ? { priority: 'Lowest' } : null));
+
+    const [first, retry] = await waitForRequests(2);
+    expect(retry.headers['x-atlassian-webhook-retry']).toBe('1');
+    expect(retry.headers['x-atlassian-webhook-identifier']).toBe(first.headers['x-atlassian-webhook-identifier']);
+    expect(retry.receivedAt - first.receivedAt).toBeGreaterThanOrEqual(40);
+
+    const delivery = await waitForDelivery('succeeded');
+    expect(delivery.attempts).toBe(2);
+  });
+
+  it('should give up after the last attempt, and send again on redeliver', async () => {
+    issueWebhook();
+    responses = [500, 503];
+
+    write<Issue>('issues', issue => (issue.key === 'PHOENIX-2' ? { priority: 'Lowest' } : null));
+
+    const failed = await waitForDelivery('failed');
+    expect(failed).toMatchObject({ attempts: 2, responseStatus: 503, error: 'Receiver answered HTTP 503' });
+    expect(received).toHaveLength(2);
+
+    expect(redeliver(storage, failed.id)).toMatchObject({ status: 'pending', attempts: 0 });
+    const [, , again] = await waitForRequests(3);
+    expect(again.headers['x-atlassian-webhook-retry']).toBe('0');
+    expect((await waitForDelivery('succeeded')).attempts).toBe(1);
+  });
+
+  it('should only send issues that match the JQL filter', async () => {
+    issueWebhook('priority = Lowest');
+
+    write<Issue>('issues', issue => (issue.key === 'PHOENIX-3' ? { title: 'Not a match' } : null));
+    write<Issue>('issues', issue => (issue.key === 'PHOENIX-2' ? { priority: 'Lowest' } : null));
+
+    // Deliveries are queued in write order, so the first change's would be there by now
+    await waitForRequests(1);
+    expect(listDeliveries(storage).map(d => d.payload.issue)).toMatchObject([{ key: 'PHOENIX-2' }]);
+  });
+
+  it('should not count a write that only touched bookkeeping fields as an update', async () => {
+    issueWebhook();
+
+    write<Issue>('issues', issue => (issue.key === 'PHOENIX-3' ? { updatedAt: new Date(0).toISOString() } : null));
+    write<Issue>('issues', issue => (issue.key === 'PHOENIX-2' ? { priority: 'Lowest' } : null));
+
+    await waitForRequests(1);
+    expect(listDeliveries(storage).map(d => d.payload.issue)).toMatchObject([{ key: 'PHOENIX-2' }]);
+  });
+});
+
+// ============================================================================
+// SPRINT EVENTS
+// ============================================================================
+
+describe('Sprint webhook events', () => {
+  it('should tell sprint starts and closes apart from other sprint updates', async () => {
+    createWebhook(storage, {
+      name: 'Sprints',
+      url: receiverUrl,
+      events: [WebhookEvent.SprintStarted, WebhookEvent.SprintClosed, WebhookEvent.SprintUpdated],
+    });
+
+    write<Sprint>('sprints', sprint => (sprint.id === 'sprint-4' ? { status: SprintStatus.Completed } : null));
+    await waitForRequests(1);
+    write<Sprint>('sprints', sprint => (sprint.id === 'sprint-5' ? { status: SprintStatus.Active } : null));
+    await waitForRequests(2);
+    write<Sprint>('sprints', sprint => (sprint.id === 'sprint-5' ? { name: 'Sprint 5: Launch' } : null));
+
+    const requests = await waitForRequests(3);
+    expect(requests.map(r => [r.body.webhookEvent, r.body.sprint.id])).toEqual([
+      ['sprint_closed', 'sprint-4'],
+      ['sprint_started', 'sprint-5'],
+      ['sprint_updated', 'sprint-5'],
+    ]);
+    expect(requests[0].body.oldValue.state).toBe('active');
+  });
+});